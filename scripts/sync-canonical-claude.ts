@@ -12,6 +12,7 @@ import { join, dirname, basename, resolve } from "path";
 import { homedir } from "os";
 import chalk from "chalk";
 import { execSync } from "child_process";
+import { recordOutputs, type LockedOutput } from "../src/cli/lock.js";
 
 // Configuration
 const HOME_DIR = homedir();
@@ -19,6 +20,9 @@ const BUSINESS_DIR = join(HOME_DIR, "business");
 const AGENTS = ["claude", "cursor", "windsurf", "gemini", "codex", "opencode"];
 const CANONICAL_AGENT = "claude";
 
+// Outputs recorded in ~/.cace/lock.json once the sync finishes
+const lockedOutputs: LockedOutput[] = [];
+
 // Colors for output
 const log = {
   info: (msg: string) => console.log(chalk.blue(`ℹ️  ${msg}`)),
@@ -584,6 +588,15 @@ ${content.replace(/---[\s\S]*?---/, "")}
       
       const targetPath = join(cursorSkillsDir, `${skill}.mdc`);
       writeFileSync(targetPath, cursorContent);
+      lockedOutputs.push({
+        output: targetPath,
+        content: cursorContent,
+        source: sourcePath,
+        sourceContent: content,
+        sourceAgent: "claude",
+        targetAgent: "cursor",
+        options: { script: "sync-canonical-claude" },
+      });
       log.success(`  Synced: ${skill} → Cursor (.mdc)`);
       
     } catch (e) {
@@ -657,6 +670,15 @@ ${content.replace(/---[\s\S]*?---/, "")}
       
       const targetPath = join(windsurfSkillsDir, `${skill}.md`);
       writeFileSync(targetPath, windsurfContent);
+      lockedOutputs.push({
+        output: targetPath,
+        content: windsurfContent,
+        source: sourcePath,
+        sourceContent: content,
+        sourceAgent: "claude",
+        targetAgent: "windsurf",
+        options: { script: "sync-canonical-claude" },
+      });
       log.success(`  Synced: ${skill} → Windsurf`);
       
     } catch (e) {
@@ -744,6 +766,15 @@ ${content.replace(/---[\s\S]*?---/, "")}
       
       const targetPath = join(codexSkillsDir, `${skill}.md`);
       writeFileSync(targetPath, codexContent);
+      lockedOutputs.push({
+        output: targetPath,
+        content: codexContent,
+        source: sourcePath,
+        sourceContent: content,
+        sourceAgent: "claude",
+        targetAgent: "codex",
+        options: { script: "sync-canonical-claude" },
+      });
       log.success(`  Synced: ${skill} → Codex`);
       
     } catch (e) {
@@ -845,6 +876,15 @@ ${content.length > 2000 ? "\n...[truncated for Gemini format]...\n" : ""}
       
       const targetPath = join(geminiSkillsDir, `${skill}.md`);
       writeFileSync(targetPath, geminiContent);
+      lockedOutputs.push({
+        output: targetPath,
+        content: geminiContent,
+        source: sourcePath,
+        sourceContent: content,
+        sourceAgent: "claude",
+        targetAgent: "gemini",
+        options: { script: "sync-canonical-claude" },
+      });
       log.success(`  Synced: ${skill} → Gemini`);
       
     } catch (e) {
@@ -933,6 +973,15 @@ ${content.replace(/---[\s\S]*?---/, "")}
       
       const targetPath = join(opencodeSkillsDir, `${skill}.md`);
       writeFileSync(targetPath, opencodeContent);
+      lockedOutputs.push({
+        output: targetPath,
+        content: opencodeContent,
+        source: sourcePath,
+        sourceContent: content,
+        sourceAgent: "claude",
+        targetAgent: "opencode",
+        options: { script: "sync-canonical-claude" },
+      });
       log.success(`  Synced: ${skill} → OpenCode`);
       
     } catch (e) {
@@ -983,6 +1032,7 @@ async function main(): Promise<void> {
   await syncToCodex();
   await syncToGemini();
   await syncToOpenCode();
+  recordOutputs(HOME_DIR, lockedOutputs);
   
   // Summary
   console.log(chalk.cyan(`
@@ -999,6 +1049,7 @@ async function main(): Promise<void> {
   log.info("   Codex: ~/.codex/skills/");
   log.info("   Gemini: ~/.gemini/skills/");
   log.info("   OpenCode: ~/.config/opencode/skills/");
+  log.info("\n🔒 Provenance: ~/.cace/lock.json (check with: cace status ~)");
   log.info("\n📄 Documentation:");
   log.info("   ~/.claude/AGENTS.md (canonical reference)");
   
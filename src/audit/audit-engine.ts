@@ -6,16 +6,30 @@
  * - Validity checks against current agent standards
  * - Version currency assessment
  * - Optimization opportunities
- * - Pruning recommendations
- * - Cross-agent synchronization status
+ * - Pruning recommendations, including content-aware duplicate detection
+ *   (see ./duplicate-detection.ts)
+ * - Cross-agent synchronization status, with per-component content drift
  * 
  * Generic and portable - works with any filesystem structure through configuration.
  */
 
-import { existsSync, readdirSync, statSync, readFileSync } from "fs";
+import { existsSync, readdirSync, statSync, readFileSync, writeFileSync } from "fs";
 import { join, dirname, basename, resolve } from "path";
 import { homedir } from "os";
 import chalk from "chalk";
+import type { AgentId, ComponentSpec } from "../core/types.js";
+import { SUPPORTED_AGENTS } from "../core/constants.js";
+import { diffSpecs, type DiffSeverity } from "../core/diff.js";
+import { parseComponent } from "../parsing/parser-factory.js";
+import { renderComponent } from "../rendering/renderer-factory.js";
+import {
+  DUPLICATE_COMPONENT_TYPES,
+  findDuplicateGroups,
+  type DuplicateCandidate,
+  type DuplicateGroup,
+} from "./duplicate-detection.js";
+
+export type { DuplicateGroup, DuplicateMember } from "./duplicate-detection.js";
 
 // ============================================================================
 // Types and Interfaces
@@ -30,6 +44,8 @@ export interface AuditConfig {
   checkOptimization: boolean;
   checkPruning: boolean;
   checkSynchronization: boolean;
+  /** Minimum similarity (0-1) for components to count as duplicates */
+  duplicateThreshold: number;
 }
 
 export interface AuditResult {
@@ -38,6 +54,8 @@ export interface AuditResult {
   summary: AuditSummary;
   recommendations: AuditRecommendation[];
   systemHealth: SystemHealthScore;
+  /** Near-duplicate skills, workflows and commands across all configs */
+  duplicates: DuplicateGroup[];
 }
 
 export interface AuditedConfig {
@@ -97,20 +115,36 @@ export interface PruningAssessment {
   potentialSavings: number; // bytes
 }
 
-export interface DuplicateGroup {
-  hash: string;
-  files: string[];
-  size: number;
-}
-
 export interface SyncStatus {
   isSynchronized: boolean;
   otherAgents: string[];
   missingInOther: Record<string, string[]>;
+  /** Component name -> path of another agent's drifted copy */
   divergentVersions: Record<string, string>;
+  drift: ComponentDrift[];
   syncScore: number; // 0-100
 }
 
+/**
+ * Content drift between a component and its counterpart in another agent.
+ * The counterpart is compared with what regenerating it from this copy
+ * would produce, so differences the target format forces are not drift.
+ */
+export interface ComponentDrift {
+  component: string;
+  agent: string;
+  path: string;
+  otherAgent: string;
+  otherPath: string;
+  severity: DiffSeverity;
+  summary: string;
+  changedFields: string[];
+  /** The copy edited more recently */
+  fresher: string;
+  /** The copy to regenerate from the fresher one */
+  stale: string;
+}
+
 export interface AuditedComponent {
   path: string;
   type: string;
@@ -319,9 +353,20 @@ const AGENT_KNOWLEDGE_BASE: Record<string, AgentKnowledge> = {
 // Audit Engine Implementation
 // ============================================================================
 
+/** Sync score deducted per drifted counterpart */
+const DRIFT_PENALTY: Record<DiffSeverity, number> = {
+  identical: 0,
+  minor: 2,
+  moderate: 5,
+  significant: 10,
+  breaking: 15,
+};
+
 export class ConfigurationAuditEngine {
   private config: AuditConfig;
   private results: AuditedConfig[] = [];
+  private duplicateGroups: DuplicateGroup[] = [];
+  private specs = new Map<string, ComponentSpec>();
 
   constructor(config: Partial<AuditConfig> = {}) {
     this.config = {
@@ -333,6 +378,7 @@ export class ConfigurationAuditEngine {
       checkOptimization: config.checkOptimization ?? true,
       checkPruning: config.checkPruning ?? true,
       checkSynchronization: config.checkSynchronization ?? true,
+      duplicateThreshold: config.duplicateThreshold ?? 0.7,
     };
   }
 
@@ -375,7 +421,7 @@ export class ConfigurationAuditEngine {
             versionInfo: { latestVersion: "", isCurrent: false, updateAvailable: false, breakingChanges: [], newFeatures: [] },
             optimization: { canOptimize: false, score: 0, suggestions: [], bestPractices: [], missingOptimizations: [] },
             pruning: { canPrune: false, orphanedFiles: [], duplicates: [], unusedComponents: [], outdatedFiles: [], potentialSavings: 0 },
-            synchronization: { isSynchronized: false, otherAgents: [], missingInOther: {}, divergentVersions: {}, syncScore: 0 },
+            synchronization: { isSynchronized: false, otherAgents: [], missingInOther: {}, divergentVersions: {}, drift: [], syncScore: 0 },
             components: [],
             metadata: { totalFiles: 0, totalSize: 0, lastModified: new Date(0), hasGit: false, hasDocumentation: false, hasTests: false },
           };
@@ -409,16 +455,23 @@ export class ConfigurationAuditEngine {
   private async analyzeConfigs(): Promise<void> {
     console.log(chalk.blue("🔎 Phase 2: Analyzing configurations...\n"));
     
-    for (let i = 0; i < this.results.length; i++) {
-      const config = this.results[i];
-      if (!config) continue;
-      console.log(chalk.cyan(`  [${i + 1}/${this.results.length}] Auditing ${config.agent} at ${config.path}...`));
-      
-      // Scan components
+    // Scan every config first: duplicate and sync checks compare across configs
+    for (const config of this.results) {
       await this.scanComponents(config);
       
       // Update metadata (must run before checks that depend on it)
       this.updateMetadata(config);
+    }
+    
+    if (this.config.checkPruning || this.config.checkSynchronization) {
+      this.parseComponents();
+      this.detectDuplicates();
+    }
+    
+    for (let i = 0; i < this.results.length; i++) {
+      const config = this.results[i];
+      if (!config) continue;
+      console.log(chalk.cyan(`  [${i + 1}/${this.results.length}] Auditing ${config.agent} at ${config.path}...`));
       
       // Check validity
       await this.checkValidity(config);
@@ -778,6 +831,18 @@ export class ConfigurationAuditEngine {
       }
     }
     
+    // Copies of a component held elsewhere; the canonical copy is kept
+    for (const group of this.duplicateGroups) {
+      const local = group.members.filter(m => config.components.some(c => c.path === m.path));
+      if (local.length === 0) continue;
+      duplicates.push(group);
+      for (const member of local) {
+        if (member.path !== group.canonical) {
+          potentialSavings += member.size;
+        }
+      }
+    }
+    
     // Check for orphaned configs (configs not referenced by other files)
     for (const component of config.components) {
       if (component.type === "config") {
@@ -792,7 +857,7 @@ export class ConfigurationAuditEngine {
     }
     
     config.pruning = {
-      canPrune: orphanedFiles.length > 0 || outdatedFiles.length > 0,
+      canPrune: orphanedFiles.length > 0 || outdatedFiles.length > 0 || duplicates.length > 0,
       orphanedFiles,
       duplicates,
       unusedComponents: orphanedFiles,
@@ -801,6 +866,51 @@ export class ConfigurationAuditEngine {
     };
   }
 
+  /**
+   * Parse every markdown component through the IR
+   */
+  private parseComponents(): void {
+    for (const config of this.results) {
+      const agentId = SUPPORTED_AGENTS.includes(config.agent as AgentId) ? (config.agent as AgentId) : undefined;
+      for (const component of config.components) {
+        if (component.path.endsWith(".json")) continue;
+        try {
+          const content = readFileSync(component.path, "utf-8");
+          const parsed = parseComponent(content, { agentId, sourceFile: component.path });
+          if (parsed.success && parsed.spec) {
+            this.specs.set(component.path, parsed.spec);
+          }
+        } catch {
+          // Unreadable or unparseable files are reported by the validity check
+        }
+      }
+    }
+  }
+
+  /**
+   * Group near-duplicate components across all discovered configs
+   */
+  private detectDuplicates(): void {
+    const candidates: DuplicateCandidate[] = [];
+    
+    for (const config of this.results) {
+      for (const component of config.components) {
+        const spec = this.specs.get(component.path);
+        if (!spec) continue;
+        candidates.push({
+          path: component.path,
+          agent: config.agent,
+          level: config.level,
+          spec,
+          size: component.size,
+          lastModified: component.lastModified,
+        });
+      }
+    }
+    
+    this.duplicateGroups = findDuplicateGroups(candidates, { threshold: this.config.duplicateThreshold });
+  }
+
   private referencesFile(component: AuditedComponent, target: AuditedComponent): boolean {
     try {
       const content = readFileSync(component.path, "utf-8");
@@ -821,6 +931,7 @@ export class ConfigurationAuditEngine {
         otherAgents: [],
         missingInOther: {},
         divergentVersions: {},
+        drift: [],
         syncScore: 100,
       };
       return;
@@ -829,37 +940,125 @@ export class ConfigurationAuditEngine {
     const otherAgentNames = otherAgents.map(a => a.agent);
     const missingInOther: Record<string, string[]> = {};
     const divergentVersions: Record<string, string> = {};
+    const drift: ComponentDrift[] = [];
     
-    // Check for components missing in other agents
+    // Check for components missing in, or drifted from, other agents
     for (const component of config.components) {
-      if (component.type === "skill" || component.type === "command") {
-        for (const other of otherAgents) {
-          const hasEquivalent = other.components.some(c => 
-            c.name.toLowerCase() === component.name.toLowerCase()
-          );
-          if (!hasEquivalent) {
-            if (!missingInOther[other.agent]) {
-              missingInOther[other.agent] = [];
-            }
-            missingInOther[other.agent]!.push(component.name);
+      const spec = this.specs.get(component.path);
+      const isTask = spec
+        ? DUPLICATE_COMPONENT_TYPES.includes(spec.componentType)
+        : component.type === "skill" || component.type === "command";
+      if (!isTask) continue;
+      
+      for (const other of otherAgents) {
+        const counterpart = this.findCounterpart(component, spec, other);
+        if (!counterpart) {
+          if (!missingInOther[other.agent]) {
+            missingInOther[other.agent] = [];
           }
+          missingInOther[other.agent]!.push(component.name);
+          continue;
+        }
+        
+        const otherSpec = this.specs.get(counterpart.path);
+        if (!spec || !otherSpec) continue;
+        
+        const componentDrift = this.compareCounterparts(config, component, spec, other, counterpart, otherSpec);
+        if (componentDrift.severity !== "identical") {
+          drift.push(componentDrift);
+          divergentVersions[component.name] = counterpart.path;
         }
       }
     }
     
-    // Calculate sync score
+    // Calculate sync score: missing components and drifted copies both count
     const totalMissing = Object.values(missingInOther).reduce((sum, arr) => sum + arr.length, 0);
-    const syncScore = Math.max(0, 100 - (totalMissing * 5));
+    const driftPenalty = drift.reduce((sum, d) => sum + DRIFT_PENALTY[d.severity], 0);
+    const syncScore = Math.max(0, 100 - (totalMissing * 5) - driftPenalty);
     
     config.synchronization = {
       isSynchronized: syncScore >= 80,
       otherAgents: otherAgentNames,
       missingInOther,
       divergentVersions,
+      drift,
       syncScore,
     };
   }
 
+  /**
+   * Find the other agent's copy of a component: same IR id first, then the
+   * same duplicate group (renamed copies), then the same file name
+   */
+  private findCounterpart(
+    component: AuditedComponent,
+    spec: ComponentSpec | undefined,
+    other: AuditedConfig,
+  ): AuditedComponent | undefined {
+    if (spec) {
+      const byId = other.components.find(c => {
+        const otherSpec = this.specs.get(c.path);
+        return otherSpec?.id === spec.id && DUPLICATE_COMPONENT_TYPES.includes(otherSpec.componentType);
+      });
+      if (byId) return byId;
+    }
+    
+    const group = this.duplicateGroups.find(g => g.files.includes(component.path));
+    const byContent = group && other.components.find(c => group.files.includes(c.path));
+    if (byContent) return byContent;
+    
+    return other.components.find(c => c.name.toLowerCase() === component.name.toLowerCase());
+  }
+
+  /**
+   * Diff two counterparts through the converters. Conversions are lossy in
+   * places (a Windsurf workflow has no "suggested" activation), so each copy
+   * is regenerated in the other agent's format and the closer of the two
+   * diffs is kept: a copy that was simply converted is identical one way.
+   */
+  private compareCounterparts(
+    config: AuditedConfig,
+    component: AuditedComponent,
+    spec: ComponentSpec,
+    other: AuditedConfig,
+    counterpart: AuditedComponent,
+    otherSpec: ComponentSpec,
+  ): ComponentDrift {
+    const forward = diffSpecs(this.regenerateAs(spec, other.agent, counterpart.path), otherSpec);
+    const backward = diffSpecs(this.regenerateAs(otherSpec, config.agent, component.path), spec);
+    const diff = DRIFT_PENALTY[backward.overallSeverity] < DRIFT_PENALTY[forward.overallSeverity] ||
+      (backward.overallSeverity === forward.overallSeverity && backward.diffs.length < forward.diffs.length)
+      ? backward
+      : forward;
+    
+    const thisIsFresher = component.lastModified >= counterpart.lastModified;
+    return {
+      component: spec.id,
+      agent: config.agent,
+      path: component.path,
+      otherAgent: other.agent,
+      otherPath: counterpart.path,
+      severity: diff.overallSeverity,
+      summary: diff.summary,
+      changedFields: diff.diffs.map(d => d.path),
+      fresher: thisIsFresher ? component.path : counterpart.path,
+      stale: thisIsFresher ? counterpart.path : component.path,
+    };
+  }
+
+  /**
+   * What converting a spec to another agent would produce, read back as IR
+   */
+  private regenerateAs(spec: ComponentSpec, agent: string, sourceFile: string): ComponentSpec {
+    if (!SUPPORTED_AGENTS.includes(agent as AgentId)) return spec;
+    
+    const rendered = renderComponent(spec, agent as AgentId);
+    if (!rendered.success || rendered.content === undefined) return spec;
+    
+    const reparsed = parseComponent(rendered.content, { agentId: agent as AgentId, sourceFile });
+    return reparsed.success && reparsed.spec ? reparsed.spec : spec;
+  }
+
   private updateMetadata(config: AuditedConfig): void {
     // Check for git
     config.metadata.hasGit = this.hasGitRepo(config.path);
@@ -931,6 +1130,7 @@ export class ConfigurationAuditEngine {
       summary,
       recommendations,
       systemHealth,
+      duplicates: this.duplicateGroups,
     };
   }
 
@@ -994,6 +1194,40 @@ export class ConfigurationAuditEngine {
       });
     }
     
+    // Find duplicated components, prioritising groups whose copies have drifted
+    if (this.duplicateGroups.length > 0) {
+      const drifted = this.duplicateGroups.filter(g => g.members.some(m => m.drifted));
+      const copies = this.duplicateGroups.reduce((sum, g) => sum + g.members.length - 1, 0);
+      recommendations.push({
+        priority: drifted.length > 0 ? "medium" : "low",
+        category: "pruning",
+        description: `Consolidate ${this.duplicateGroups.length} duplicated components (${copies} extra copies, ${drifted.length} groups drifted)`,
+        affectedConfigs: this.results
+          .filter(r => r.pruning.duplicates.length > 0)
+          .map(c => c.path),
+        estimatedEffort: "medium",
+        impact: "One source of truth per component instead of stale copies per agent",
+        action: "Keep the canonical copy of each group and regenerate the others with CACE",
+      });
+    }
+    
+    // Find counterparts whose content drifted between agents
+    const staleCopies = collectStaleCopies(this.results);
+    if (staleCopies.length > 0) {
+      const severe = staleCopies.filter(d => d.severity === "significant" || d.severity === "breaking");
+      recommendations.push({
+        priority: severe.length > 0 ? "high" : "medium",
+        category: "sync",
+        description: `Regenerate ${staleCopies.length} stale copies that drifted from their counterparts in other agents`,
+        affectedConfigs: this.results
+          .filter(r => r.synchronization.drift.length > 0)
+          .map(c => c.path),
+        estimatedEffort: "low",
+        impact: "Every agent runs the latest version of shared skills and commands",
+        action: "Run cace audit --regenerate-stale to rewrite each stale copy from the fresher one",
+      });
+    }
+    
     // Find unsynchronized multi-agent projects
     const unsynced = this.results.filter(r => !r.synchronization.isSynchronized && r.synchronization.otherAgents.length > 0);
     if (unsynced.length > 0) {
@@ -1036,6 +1270,65 @@ export class ConfigurationAuditEngine {
   }
 }
 
+// ============================================================================
+// Drift Repair
+// ============================================================================
+
+/**
+ * One drift entry per pair of counterparts (each side reports the pair)
+ */
+export function collectStaleCopies(configs: AuditedConfig[]): ComponentDrift[] {
+  const seen = new Set<string>();
+  const stale: ComponentDrift[] = [];
+  for (const config of configs) {
+    for (const drift of config.synchronization.drift) {
+      const key = [drift.path, drift.otherPath].sort().join("\0");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      stale.push(drift);
+    }
+  }
+  return stale;
+}
+
+/**
+ * Rewrite the stale side of a drifted pair by converting the fresher copy
+ */
+export function regenerateStaleCopy(
+  drift: ComponentDrift,
+  options: { dryRun?: boolean } = {},
+): { success: boolean; content?: string; error?: string } {
+  const fromThis = drift.fresher === drift.path;
+  const sourceAgent = (fromThis ? drift.agent : drift.otherAgent) as AgentId;
+  const targetAgent = (fromThis ? drift.otherAgent : drift.agent) as AgentId;
+  
+  if (!SUPPORTED_AGENTS.includes(targetAgent)) {
+    return { success: false, error: `Cannot render components for ${targetAgent}` };
+  }
+  
+  try {
+    const parsed = parseComponent(readFileSync(drift.fresher, "utf-8"), {
+      agentId: SUPPORTED_AGENTS.includes(sourceAgent) ? sourceAgent : undefined,
+      sourceFile: drift.fresher,
+    });
+    if (!parsed.success || !parsed.spec) {
+      return { success: false, error: parsed.errors.join("; ") };
+    }
+    
+    const rendered = renderComponent(parsed.spec, targetAgent);
+    if (!rendered.success || rendered.content === undefined) {
+      return { success: false, error: rendered.errors.join("; ") };
+    }
+    
+    if (!options.dryRun) {
+      writeFileSync(drift.stale, rendered.content);
+    }
+    return { success: true, content: rendered.content };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
 // ============================================================================
 // Report Formatter
 // ============================================================================
@@ -1108,6 +1401,15 @@ export class AuditReportFormatter {
         output += `    ${chalk.blue("ℹ")} ${config.pruning.orphanedFiles.length} files can be pruned\n`;
       }
       
+      if (config.pruning.duplicates.length > 0) {
+        output += `    ${chalk.blue("ℹ")} ${config.pruning.duplicates.length} components duplicated in other configs\n`;
+      }
+      
+      for (const drift of config.synchronization.drift) {
+        const stale = drift.stale === drift.path ? config.agent : drift.otherAgent;
+        output += `    ${chalk.yellow("⚠")} ${drift.component} drifted from ${drift.otherAgent} (${drift.severity}), ${stale} copy is stale\n`;
+      }
+      
       output += "\n";
     });
     
@@ -1154,6 +1456,22 @@ export class AuditReportFormatter {
       output += `- **Affected Configs:** ${rec.affectedConfigs.length}\n\n`;
     });
     
+    // Duplicates
+    if (result.duplicates.length > 0) {
+      output += `## Duplicates\n\n`;
+      result.duplicates.forEach((group, i) => {
+        const canonical = group.members.find(m => m.path === group.canonical);
+        output += `### ${i + 1}. ${canonical?.id ?? group.hash} (${Math.round(group.similarity * 100)}% similar)\n\n`;
+        output += `| Copy | Agent | Level | Similarity | Status |\n`;
+        output += `|------|-------|-------|------------|--------|\n`;
+        group.members.forEach(m => {
+          const status = m.path === group.canonical ? "canonical" : m.drifted ? "drifted" : "identical";
+          output += `| \`${m.path}\` | ${m.agent} | ${m.level} | ${Math.round(m.similarity * 100)}% | ${status} |\n`;
+        });
+        output += "\n";
+      });
+    }
+    
     // Configurations
     output += `## Configuration Details\n\n`;
     result.configs.forEach(config => {
@@ -1178,6 +1496,16 @@ export class AuditReportFormatter {
         });
         output += "\n";
       }
+      
+      if (config.synchronization.drift.length > 0) {
+        output += `**Drift from other agents:**\n\n`;
+        output += `| Component | Other agent | Severity | Changed | Stale copy |\n`;
+        output += `|-----------|-------------|----------|---------|------------|\n`;
+        config.synchronization.drift.forEach(d => {
+          output += `| ${d.component} | ${d.otherAgent} | ${d.severity} | ${d.changedFields.join(", ")} | \`${d.stale}\` |\n`;
+        });
+        output += "\n";
+      }
     });
     
     return output;
@@ -0,0 +1,232 @@
+/**
+ * Content-aware duplicate detection for the audit engine
+ *
+ * Components are compared through the IR rather than by filename, so a
+ * Claude skill, a Windsurf workflow and a Cursor command with the same
+ * instructions are recognised as copies of one another even when they are
+ * named differently or live at different scopes (user vs project).
+ *
+ * Similarity combines two Dice coefficients (2|A∩B| / (|A|+|B|)), which
+ * are less harsh than Jaccard on the short bodies typical of commands:
+ * - body: overlap of word 3-gram shingles of the normalized body (80%)
+ * - intent: overlap of words in the id, summary and whenToUse (20%)
+ *
+ * Bodies are normalized before comparison: HTML comments (such as the
+ * "Converted from" banners) are dropped, argument placeholders of every
+ * agent ($ARGUMENTS, {{args}}, {{{ input }}}) collapse to one token, and
+ * case, punctuation and whitespace are ignored.
+ */
+
+import { createHash } from "crypto";
+import type { ComponentSpec, ComponentType } from "../core/types.js";
+
+export interface DuplicateCandidate {
+  path: string;
+  agent: string;
+  level: "user" | "project" | "unknown";
+  spec: ComponentSpec;
+  size: number;
+  lastModified: Date;
+}
+
+export interface ComponentFingerprint {
+  /** Hash of the normalized body; equal hashes mean identical instructions */
+  hash: string;
+  bodyShingles: Set<string>;
+  intentWords: Set<string>;
+}
+
+export interface DuplicateMember {
+  path: string;
+  agent: string;
+  level: "user" | "project" | "unknown";
+  id: string;
+  componentType: ComponentType;
+  hash: string;
+  /** Similarity to the group's canonical copy (0-1) */
+  similarity: number;
+  /** True when this copy's body differs from the canonical copy */
+  drifted: boolean;
+  size: number;
+  lastModified: Date;
+}
+
+export interface DuplicateGroup {
+  /** Fingerprint hash of the canonical copy */
+  hash: string;
+  files: string[];
+  /** Bytes held by the copies other than the canonical one */
+  size: number;
+  /** Path of the copy the others are compared with */
+  canonical: string;
+  members: DuplicateMember[];
+  /** Lowest similarity of any member to the canonical copy (0-1) */
+  similarity: number;
+}
+
+export interface DuplicateDetectionOptions {
+  /** Minimum similarity (0-1) for two components to be grouped */
+  threshold?: number;
+  /** Bodies with fewer words are too generic to compare */
+  minWords?: number;
+}
+
+/** Component types that describe a task a user or agent can run */
+export const DUPLICATE_COMPONENT_TYPES: ComponentType[] = ["skill", "workflow", "command"];
+
+const DEFAULT_THRESHOLD = 0.7;
+const DEFAULT_MIN_WORDS = 5;
+const BODY_WEIGHT = 0.8;
+const SHINGLE_SIZE = 3;
+
+/**
+ * Normalize a body so formatting and agent-specific syntax do not count as differences
+ */
+export function normalizeBody(body: string): string {
+  return body
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/\$ARGUMENTS|\{\{\{?\s*(?:args|input)\s*\}?\}\}/g, " arguments ")
+    .toLowerCase()
+    .replace(/[^a-z0-9$]+/g, " ")
+    .trim();
+}
+
+function words(text: string): string[] {
+  return text.length > 0 ? text.split(" ") : [];
+}
+
+function shingles(tokens: string[]): Set<string> {
+  if (tokens.length < SHINGLE_SIZE) {
+    return new Set(tokens.length > 0 ? [tokens.join(" ")] : []);
+  }
+  const result = new Set<string>();
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Fingerprint a component's body and intent
+ */
+export function fingerprintComponent(spec: ComponentSpec): ComponentFingerprint {
+  const body = normalizeBody(spec.body);
+  const intent = normalizeBody(
+    [spec.id.replace(/[-_]/g, " "), spec.intent.summary, spec.intent.whenToUse ?? ""].join(" "),
+  );
+
+  return {
+    hash: createHash("sha256").update(body).digest("hex").slice(0, 12),
+    bodyShingles: shingles(words(body)),
+    intentWords: new Set(words(intent)),
+  };
+}
+
+/**
+ * Similarity of two fingerprints (0-1, rounded to two decimals)
+ */
+export function compareFingerprints(a: ComponentFingerprint, b: ComponentFingerprint): number {
+  const body = a.hash === b.hash ? 1 : dice(a.bodyShingles, b.bodyShingles);
+  const intent = dice(a.intentWords, b.intentWords);
+  return Math.round((BODY_WEIGHT * body + (1 - BODY_WEIGHT) * intent) * 100) / 100;
+}
+
+/**
+ * Group candidates whose content is at least `threshold` similar.
+ *
+ * Groups are connected components of the similarity graph. The canonical
+ * copy is the body shared by the most members (ties go to the most recently
+ * modified copy); every member with a different body is reported as drifted.
+ */
+export function findDuplicateGroups(
+  candidates: DuplicateCandidate[],
+  options: DuplicateDetectionOptions = {},
+): DuplicateGroup[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const minWords = options.minWords ?? DEFAULT_MIN_WORDS;
+
+  const eligible = candidates.filter(
+    (c) =>
+      DUPLICATE_COMPONENT_TYPES.includes(c.spec.componentType) &&
+      words(normalizeBody(c.spec.body)).length >= minWords,
+  );
+  const fingerprints = eligible.map((c) => fingerprintComponent(c.spec));
+
+  // Union-find over every pair above the threshold
+  const parent = eligible.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+  for (let i = 0; i < eligible.length; i++) {
+    for (let j = i + 1; j < eligible.length; j++) {
+      if (compareFingerprints(fingerprints[i]!, fingerprints[j]!) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  eligible.forEach((_, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), i]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const indexes of clusters.values()) {
+    if (indexes.length < 2) continue;
+
+    const hashCounts = new Map<string, number>();
+    for (const i of indexes) {
+      const hash = fingerprints[i]!.hash;
+      hashCounts.set(hash, (hashCounts.get(hash) ?? 0) + 1);
+    }
+    const canonicalIndex = [...indexes].sort((a, b) => {
+      const byCount = hashCounts.get(fingerprints[b]!.hash)! - hashCounts.get(fingerprints[a]!.hash)!;
+      return byCount !== 0
+        ? byCount
+        : eligible[b]!.lastModified.getTime() - eligible[a]!.lastModified.getTime();
+    })[0]!;
+    const canonical = fingerprints[canonicalIndex]!;
+
+    const members = indexes.map((i): DuplicateMember => {
+      const candidate = eligible[i]!;
+      const fingerprint = fingerprints[i]!;
+      return {
+        path: candidate.path,
+        agent: candidate.agent,
+        level: candidate.level,
+        id: candidate.spec.id,
+        componentType: candidate.spec.componentType,
+        hash: fingerprint.hash,
+        similarity: i === canonicalIndex ? 1 : compareFingerprints(canonical, fingerprint),
+        drifted: fingerprint.hash !== canonical.hash,
+        size: candidate.size,
+        lastModified: candidate.lastModified,
+      };
+    });
+
+    groups.push({
+      hash: canonical.hash,
+      files: members.map((m) => m.path),
+      size: members.filter((m) => m.path !== eligible[canonicalIndex]!.path).reduce((sum, m) => sum + m.size, 0),
+      canonical: eligible[canonicalIndex]!.path,
+      members,
+      similarity: Math.min(...members.map((m) => m.similarity)),
+    });
+  }
+
+  return groups;
+}
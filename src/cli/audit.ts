@@ -0,0 +1,63 @@
+/**
+ * CLI audit command - Audit agent configurations and repair cross-agent drift
+ */
+
+import { resolve } from 'node:path';
+import chalk from 'chalk';
+import type { AgentId } from '../core/types.js';
+import { SUPPORTED_AGENTS } from '../core/constants.js';
+import ConfigurationAuditEngine, {
+  AuditReportFormatter,
+  collectStaleCopies,
+  regenerateStaleCopy,
+} from '../audit/audit-engine.js';
+
+export interface AuditOptions {
+  agents?: AgentId[];
+  /** Rewrite each stale copy from its fresher counterpart */
+  regenerateStale?: boolean;
+  dryRun?: boolean;
+}
+
+export async function auditCommand(
+  paths: string[],
+  options: AuditOptions
+): Promise<{ success: boolean; staleCopies: number }> {
+  const engine = new ConfigurationAuditEngine({
+    searchPaths: (paths.length > 0 ? paths : ['.']).map((p) => resolve(p)),
+    agentTypes: options.agents ?? SUPPORTED_AGENTS,
+  });
+
+  const result = await engine.audit();
+  if (result.configs.length === 0) {
+    console.error(chalk.red('No agent configurations found'));
+    return { success: false, staleCopies: 0 };
+  }
+  console.log(AuditReportFormatter.formatConsoleReport(result));
+
+  const staleCopies = collectStaleCopies(result.configs);
+  if (staleCopies.length === 0) {
+    return { success: true, staleCopies: 0 };
+  }
+
+  console.log(chalk.bold(`🔄 ${staleCopies.length} stale copies\n`));
+  let remaining = staleCopies.length;
+  for (const drift of staleCopies) {
+    console.log(`  ${chalk.yellow(drift.severity.padEnd(11))} ${drift.stale}`);
+    console.log(chalk.gray(`              newer: ${drift.fresher}`));
+
+    if (!options.regenerateStale) continue;
+    const regenerated = regenerateStaleCopy(drift, { dryRun: options.dryRun });
+    if (regenerated.success) {
+      console.log(chalk.green(`              ✓ ${options.dryRun ? 'would regenerate' : 'regenerated'}`));
+      if (!options.dryRun) remaining--;
+    } else {
+      console.log(chalk.red(`              ✗ ${regenerated.error}`));
+    }
+  }
+
+  if (!options.regenerateStale) {
+    console.log(chalk.gray('\nRegenerate them with: cace audit --regenerate-stale'));
+  }
+  return { success: true, staleCopies: remaining };
+}
@@ -0,0 +1,207 @@
+/**
+ * CLI build command - Render canonical .cace.yaml / .cace.md sources for every target agent
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync, statSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import chalk from 'chalk';
+import type { AgentId, ComponentSpec } from '../core/types.js';
+import { COMPONENT_TYPE_EQUIVALENTS } from '../core/constants.js';
+import { mergeSettingsJson } from '../core/settings-file.js';
+import { isCanonicalSource, parseCanonicalSpec } from '../parsing/canonical/canonical-parser.js';
+import { renderComponent, getTargetPath } from '../rendering/renderer-factory.js';
+
+export interface BuildOptions {
+  /** Target agents (default: every agent with an equivalent component type) */
+  to?: AgentId[];
+  /** Directory the agent files are written under (default: .) */
+  output?: string;
+  /** Output directories of individual agents, taking precedence over `output` */
+  outputs?: Partial<Record<AgentId, string>>;
+  /** Versions to render each agent for (default: the latest known version) */
+  targetVersions?: Partial<Record<AgentId, string>>;
+  dryRun?: boolean;
+  /** Overwrite shared files that cannot be merged (mcp.json, config.toml, or a settings.json that is not JSON) */
+  force?: boolean;
+}
+
+export interface BuildTarget {
+  agent: AgentId;
+  /** Path relative to the output directory */
+  path: string;
+  content?: string;
+  /** Part of a settings file, merged into what is already there */
+  partial?: boolean;
+  fidelityScore?: number;
+  error?: string;
+}
+
+/** Components that render into files other tools and users also edit */
+const SHARED_FILE_TYPES = ['hook', 'mcp', 'config'];
+
+const SKIPPED_DIRS = ['node_modules', '.git'];
+
+/**
+ * Agents a component is built for when no --to is given
+ */
+export function defaultBuildTargets(spec: ComponentSpec): AgentId[] {
+  return Object.keys(COMPONENT_TYPE_EQUIVALENTS[spec.componentType]) as AgentId[];
+}
+
+/**
+ * Render one component for each target agent
+ */
+export function buildComponent(
+  spec: ComponentSpec,
+  agents: AgentId[],
+  targetVersions: Partial<Record<AgentId, string>> = {}
+): BuildTarget[] {
+  return agents.map((agent) => {
+    const path = join(getTargetPath(spec, agent));
+    const result = renderComponent(spec, agent, { targetVersion: targetVersions[agent] });
+    if (!result.success || result.content === undefined) {
+      return { agent, path, error: result.errors.join('; ') || 'Render failed' };
+    }
+    return { agent, path, content: result.content, partial: result.partial, fidelityScore: result.report?.fidelityScore };
+  });
+}
+
+/**
+ * Expand files and directories into the canonical sources they contain
+ */
+export function findCanonicalSources(paths: string[]): string[] {
+  const found: string[] = [];
+
+  const walk = (dir: string): void => {
+    for (const entry of readdirSync(dir).sort()) {
+      const fullPath = join(dir, entry);
+      if (statSync(fullPath).isDirectory()) {
+        if (!SKIPPED_DIRS.includes(entry)) walk(fullPath);
+      } else if (isCanonicalSource(entry)) {
+        found.push(fullPath);
+      }
+    }
+  };
+
+  for (const path of paths) {
+    if (statSync(path).isDirectory()) {
+      walk(path);
+    } else {
+      found.push(path);
+    }
+  }
+  return found;
+}
+
+export function buildCommand(
+  sources: string[],
+  options: BuildOptions
+): { success: boolean; written: number; failed: number } {
+  const outputDir = options.output ?? '.';
+
+  let files: string[];
+  try {
+    files = findCanonicalSources(sources.length > 0 ? sources : ['.']);
+  } catch (err) {
+    console.error(chalk.red('Error reading sources'));
+    console.error(chalk.gray(err instanceof Error ? err.message : String(err)));
+    return { success: false, written: 0, failed: 0 };
+  }
+
+  if (files.length === 0) {
+    console.error(chalk.red('No .cace.yaml or .cace.md sources found'));
+    return { success: false, written: 0, failed: 0 };
+  }
+
+  // Parse everything first so a broken source does not leave a half-built tree
+  const specs: Array<{ file: string; spec: ComponentSpec }> = [];
+  let failed = 0;
+  for (const file of files) {
+    const result = parseCanonicalSpec(readFileSync(file, 'utf-8'), { sourceFile: file });
+    for (const warning of result.warnings) {
+      console.log(chalk.yellow(`  ⚠ ${file}: ${warning}`));
+    }
+    if (!result.success || !result.spec) {
+      console.error(chalk.red(`✗ ${file}`));
+      for (const error of result.errors) {
+        console.error(chalk.red(`  • ${error}`));
+      }
+      failed++;
+      continue;
+    }
+    specs.push({ file, spec: result.spec });
+  }
+  if (failed > 0) {
+    return { success: false, written: 0, failed };
+  }
+
+  const owners = new Map<string, string>();
+  // Settings files built so far, so several sources can merge into one
+  const settings = new Map<string, string>();
+  let written = 0;
+  for (const { file, spec } of specs) {
+    console.log(chalk.cyan(`\n${file}`) + chalk.gray(` (${spec.componentType})`));
+
+    for (const target of buildComponent(spec, options.to ?? defaultBuildTargets(spec), options.targetVersions)) {
+      if (target.error !== undefined || target.content === undefined) {
+        console.error(chalk.red(`  ✗ ${target.agent}: ${target.error}`));
+        failed++;
+        continue;
+      }
+
+      const outPath = join(options.outputs?.[target.agent] ?? outputDir, target.path);
+      const owner = owners.get(outPath);
+      if (owner && !(target.partial && settings.has(outPath))) {
+        console.error(chalk.red(`  ✗ ${target.agent}: ${outPath} is also built from ${owner}`));
+        failed++;
+        continue;
+      }
+      owners.set(outPath, file);
+
+      let content = target.content;
+      if (target.partial) {
+        // Hooks, MCP servers and config share settings.json: keep the keys this source does not set
+        const existing = settings.get(outPath) ?? (existsSync(outPath) ? readFileSync(outPath, 'utf-8') : undefined);
+        const merged = existing === undefined ? content : mergeSettingsJson(existing, content);
+        if (merged === undefined && !options.force) {
+          console.error(chalk.red(`  ✗ ${target.agent}: ${outPath} is not a JSON object (use --force to overwrite)`));
+          failed++;
+          continue;
+        }
+        content = merged ?? content;
+        settings.set(outPath, content);
+      } else if (SHARED_FILE_TYPES.includes(spec.componentType) && existsSync(outPath) && !options.force) {
+        const existing = readFileSync(outPath, 'utf-8');
+        if (existing !== content) {
+          console.log(chalk.yellow(`  ⚠ ${target.agent}: kept existing ${outPath} (use --force to overwrite)`));
+          continue;
+        }
+      }
+
+      const label = `${target.agent.padEnd(10)} ${outPath} ${chalk.gray(`(${target.fidelityScore ?? 100}%)`)}`;
+      if (options.dryRun) {
+        console.log(`  ${chalk.gray('would write')} ${label}`);
+        continue;
+      }
+
+      try {
+        mkdirSync(dirname(outPath), { recursive: true });
+        writeFileSync(outPath, content);
+        console.log(`  ${chalk.green('✓')} ${label}`);
+        written++;
+      } catch (err) {
+        console.error(chalk.red(`  ✗ ${target.agent}: error writing ${outPath}`));
+        console.error(chalk.gray(err instanceof Error ? err.message : String(err)));
+        failed++;
+      }
+    }
+  }
+
+  console.log();
+  if (options.dryRun) {
+    console.log(chalk.gray('Dry run - no files written'));
+  } else {
+    console.log(chalk.green(`Built ${written} file(s) from ${specs.length} source(s)`));
+  }
+  return { success: failed === 0, written, failed };
+}
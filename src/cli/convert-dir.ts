@@ -0,0 +1,455 @@
+/**
+ * convert-dir - Convert a whole agent scaffolding directory
+ *
+ * The per-file conversion lives here rather than in the command action so
+ * that `cace watch` can re-run exactly what `cace convert-dir` does for a
+ * single changed source.
+ */
+
+import { existsSync, copyFileSync, mkdirSync, readdirSync, readFileSync, statSync } from "fs";
+import { basename, dirname, join, relative } from "path";
+import type { AgentId, ComponentSpec, ConversionReport, RenderedAsset } from "../core/types.js";
+import { AGENTS } from "../core/constants.js";
+import { SUB_AGENT_DIRECTORIES } from "../core/sub-agents.js";
+import type { ImportMode } from "../core/memory-imports.js";
+import { parseComponent, detectAgent, detectPluginAgent } from "../parsing/parser-factory.js";
+import { renderComponent } from "../rendering/renderer-factory.js";
+import { prepareSubAgent } from "../rendering/sub-agents.js";
+import { writeGeneratedFile, type GeneratedWriteResult } from "./merge.js";
+import type { LockedOutput } from "./lock.js";
+
+export interface DirConversionContext {
+  sourceDir: string;
+  outputDir: string;
+  fromAgent: AgentId;
+  targetAgent: AgentId;
+  /** Target agent version to render for (default: the latest known version) */
+  targetVersion?: string;
+  /** "direct" (default) or "dual-output" */
+  strategy?: string;
+  /** How to carry memory @imports over (default: native where the target has imports) */
+  imports?: ImportMode;
+  merge?: boolean;
+  backup?: boolean;
+  dryRun?: boolean;
+}
+
+export interface DirFileConversion {
+  file: string;
+  success: boolean;
+  error?: string;
+  /** What was written when it is more than one file (e.g. "workflow + skill") */
+  label?: string;
+  report?: ConversionReport;
+  writes: GeneratedWriteResult[];
+  /** Provenance of each write, for .cace/lock.json */
+  lockedOutputs: LockedOutput[];
+  /** Skill bundle files copied next to the output */
+  assets: string[];
+}
+
+export interface ScanOptions {
+  recursive?: boolean;
+  include?: string[];
+  exclude?: string[];
+}
+
+export function isConvertibleFile(filePath: string): boolean {
+  return filePath.endsWith(".md") || filePath.endsWith(".mdc") || isTomlCommandFile(filePath);
+}
+
+/**
+ * Find the files convert-dir would convert in a directory
+ */
+export function findConvertibleFiles(dir: string, options: ScanOptions): string[] {
+  const files: string[] = [];
+  const scanDir = (current: string, depth = 0) => {
+    if (depth > 10) return; // Limit recursion
+    
+    try {
+      const entries = readdirSync(current);
+      // A skill directory is one component: SKILL.md carries the files next to it
+      if (depth > 0 && entries.includes("SKILL.md")) {
+        const skillFile = join(current, "SKILL.md");
+        if (shouldIncludeFile(skillFile, options.include, options.exclude)) files.push(skillFile);
+        return;
+      }
+      for (const entry of entries) {
+        const fullPath = join(current, entry);
+        const stat = statSync(fullPath);
+        
+        if (stat.isDirectory() && options.recursive) {
+          // Skip the renders recorded for --merge
+          if (entry !== ".cace") scanDir(fullPath, depth + 1);
+        } else if (isConvertibleFile(fullPath)) {
+          // Check if file matches include/exclude patterns
+          if (shouldIncludeFile(fullPath, options.include, options.exclude)) {
+            files.push(fullPath);
+          }
+        }
+      }
+    } catch {
+      // Skip directories that can't be read
+    }
+  };
+  
+  scanDir(dir);
+  return files;
+}
+
+function isDualOutput(context: DirConversionContext): boolean {
+  return context.strategy === "dual-output" && context.fromAgent === "claude" &&
+    (context.targetAgent === "windsurf" || context.targetAgent === "cursor");
+}
+
+/**
+ * Every path convert-dir writes for a source file, whether or not it exists yet
+ */
+export function dirTargetPaths(file: string, context: DirConversionContext): string[] {
+  if (!isDualOutput(context)) {
+    return [calculateDirTargetPath(file, context.sourceDir, context.outputDir, context.targetAgent)];
+  }
+  const targets = calculateDirTargetPaths(file, context.sourceDir, context.outputDir, context.targetAgent);
+  return targets.secondary ? [targets.primary, targets.secondary] : [targets.primary];
+}
+
+/**
+ * Convert one source file of a directory to the target agent and write the output(s)
+ */
+export function convertDirFile(file: string, context: DirConversionContext): DirFileConversion {
+  const { sourceDir, outputDir, fromAgent, targetAgent } = context;
+  const conversion: DirFileConversion = { file, success: false, writes: [], lockedOutputs: [], assets: [] };
+  const writeTarget = (path: string, content: string, agent: AgentId, provenance: Omit<LockedOutput, "output" | "content">) => {
+    const write = writeGeneratedFile(path, content, { outputDir, agent, merge: context.merge, dryRun: context.dryRun });
+    conversion.writes.push(write);
+    conversion.lockedOutputs.push({ ...provenance, output: path, content: write.content });
+  };
+
+  // Read and convert
+  const content = readFileSync(file, "utf-8");
+  const parseResult = parseComponent(content, { sourceFile: file });
+  
+  if (!parseResult.success || !parseResult.spec) {
+    return { ...conversion, error: "Parse failed" };
+  }
+  
+  const strategy = context.strategy || "direct";
+  
+  // Render the component
+  const renderResult = renderComponent(parseResult.spec, targetAgent, {
+    validateOutput: true,
+    targetVersion: context.targetVersion,
+    imports: context.imports,
+  });
+  
+  if (!renderResult.success || !renderResult.content) {
+    return { ...conversion, error: "Render failed" };
+  }
+  conversion.report = renderResult.report;
+  
+  // Provenance recorded in .cace/lock.json for each output
+  const provenance = {
+    source: file,
+    sourceContent: content,
+    sourceAgent: fromAgent,
+    targetAgent,
+    targetVersion: context.targetVersion,
+    options: { strategy, merge: context.merge },
+    report: renderResult.report,
+  };
+  
+  // Handle dual-output strategy for Claude → Windsurf / Cursor
+  if (isDualOutput(context)) {
+    const targets = calculateDirTargetPaths(file, sourceDir, outputDir, targetAgent);
+    const primaryPath = targets.primary;
+    const secondaryPath = targets.secondary;
+
+    // Write primary output (workflow for windsurf, skill for cursor)
+    writeTarget(primaryPath, renderResult.content, targetAgent, provenance);
+    conversion.assets.push(...copyRenderedAssets(renderResult.assets, primaryPath, context.dryRun));
+
+    // Write secondary output if available
+    if (secondaryPath) {
+      // A sub-agent is a skill here, in the secondary output too
+      const spec = prepareSubAgent(parseResult.spec, targetAgent).spec;
+      if (targetAgent === "windsurf") {
+        // For Windsurf, secondary is a Skill for auto-invocation parity. Use Claude renderer (compatible Skill.md frontmatter).
+        const skillRenderResult = renderComponent(spec, "claude", {
+          validateOutput: true,
+        });
+        if (skillRenderResult.success && skillRenderResult.content) {
+          writeTarget(secondaryPath, skillRenderResult.content, "claude", { ...provenance, report: skillRenderResult.report });
+          conversion.assets.push(...copyRenderedAssets(skillRenderResult.assets, secondaryPath, context.dryRun));
+        }
+      } else if (targetAgent === "cursor") {
+        // For Cursor, secondary is a Command (.cursor/commands/<name>.md) for explicit manual invocation.
+        const commandSpec: ComponentSpec = {
+          ...spec,
+          componentType: "command",
+          activation: { ...spec.activation, mode: "manual" },
+        };
+        const commandRenderResult = renderComponent(commandSpec, "cursor", {
+          validateOutput: true,
+        });
+        if (commandRenderResult.success && commandRenderResult.content) {
+          writeTarget(secondaryPath, commandRenderResult.content, "cursor", { ...provenance, report: commandRenderResult.report });
+        }
+      }
+    }
+
+    conversion.label = targetAgent === "windsurf" ? "workflow + skill" : "skill + command";
+  } else {
+    // Standard single-output conversion
+    const targetPath = calculateDirTargetPath(file, sourceDir, outputDir, targetAgent);
+    
+    // Backup if needed
+    if (!context.dryRun && context.backup && existsSync(targetPath)) {
+      copyFileSync(targetPath, `${targetPath}.backup.${Date.now()}`);
+    }
+    
+    writeTarget(targetPath, renderResult.content, targetAgent, provenance);
+    conversion.assets.push(...copyRenderedAssets(renderResult.assets, targetPath, context.dryRun));
+  }
+
+  conversion.success = true;
+  return conversion;
+}
+
+/**
+ * Copy the supporting files of a skill bundle next to its rendered SKILL.md
+ */
+export function copyRenderedAssets(assets: RenderedAsset[] | undefined, targetPath: string, dryRun?: boolean): string[] {
+  const copied: string[] = [];
+  for (const asset of assets ?? []) {
+    const path = join(dirname(targetPath), asset.path);
+    if (!dryRun) {
+      mkdirSync(dirname(path), { recursive: true });
+      copyFileSync(asset.source, path);
+    }
+    copied.push(path);
+  }
+  return copied;
+}
+
+/**
+ * Match a file against include/exclude patterns. Patterns with * or ? are
+ * globs matched against the end of the path ("skills/**", "*.mdc"); plain
+ * patterns match any part of the filename.
+ */
+export function shouldIncludeFile(filePath: string, includePatterns?: string[], excludePatterns?: string[]): boolean {
+  const fileName = basename(filePath);
+  const normalized = filePath.replace(/\\/g, "/");
+  const matches = (pattern: string) => /[*?]/.test(pattern)
+    ? globToRegExp(pattern).test(normalized)
+    : fileName.includes(pattern);
+  
+  // Check exclude patterns first
+  if (excludePatterns && excludePatterns.length > 0) {
+    for (const pattern of excludePatterns) {
+      if (matches(pattern)) {
+        return false;
+      }
+    }
+  }
+  
+  // Check include patterns
+  if (includePatterns && includePatterns.length > 0) {
+    for (const pattern of includePatterns) {
+      if (matches(pattern)) {
+        return true;
+      }
+    }
+    return false; // If include patterns specified but none match, exclude
+  }
+  
+  return true;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" spans any number of directories, including none
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`(?:^|/)${source.replace(/^\/+/, "")}$`);
+}
+
+export function generateDirOutputPath(source: string, targetAgent: AgentId): string {
+  const baseName = basename(source);
+  return join(dirname(source), `${baseName}.${targetAgent}`);
+}
+
+export function calculateDirTargetPath(sourceFile: string, sourceDir: string, outputDir: string, targetAgent: AgentId): string {
+  const paths = calculateDirTargetPaths(sourceFile, sourceDir, outputDir, targetAgent);
+  return paths.primary;
+}
+
+export interface DualTargetPaths {
+  primary: string;
+  secondary?: string;
+}
+
+export function calculateDirTargetPaths(sourceFile: string, sourceDir: string, outputDir: string, targetAgent: AgentId): DualTargetPaths {
+  const relativePath = relative(sourceDir, sourceFile);
+  const baseName = basename(sourceFile, ".md");
+  const fullPath = sourceFile;
+  
+  // Map to target agent structure
+  const agentInfo = AGENTS[targetAgent];
+  const projectPath: string = agentInfo.configLocations.project || ".";
+  let targetSubdir = "";
+  
+  // Sub-agents (.claude/agents/, .opencode/agent/, .gemini/agents/) keep their
+  // own directory where the target has one and become skills elsewhere
+  const isAgentFile = /(^|[/\\])agents?[/\\][^/\\]+\.md$/.test(relativePath);
+  const agentDir = isAgentFile ? SUB_AGENT_DIRECTORIES[targetAgent] : undefined;
+  if (agentDir) {
+    return { primary: join(outputDir, agentDir, `${baseName}.md`) };
+  }
+
+  // Check if this is a skill file (in a skills subdirectory)
+  const isSkillFile = fullPath.includes("/skills/") || fullPath.includes("\\skills\\") || 
+                      relativePath.includes("/skills/") || relativePath.includes("\\skills\\") ||
+                      (relativePath.match(/^[^/]+\/SKILL\.md$/) !== null) || isAgentFile;
+  
+  if (isSkillFile) {
+    // Extract skill name from path
+    let skillName: string;
+    
+    const match1 = fullPath.match(/\/skills\/([^/]+)\//);
+    const match2 = relativePath.match(/^([^/]+)\/SKILL\.md$/);
+    const windowsMatchResult = fullPath.match(/\\skills\\([^\\]+)\\/)?. [1];
+    const windowsMatch = typeof windowsMatchResult === 'string' ? windowsMatchResult : undefined;
+    
+    if (match1 && match1[1]) {
+      skillName = match1[1];
+    } else if (match2 && match2[1]) {
+      skillName = match2[1];
+    } else if (windowsMatch) {
+      skillName = windowsMatch;
+    } else {
+      skillName = baseName;
+    }
+    
+    if (targetAgent === "windsurf") {
+      // Windsurf: Return dual paths for strategy=dual-output
+      return {
+        primary: join(outputDir, ".windsurf", "workflows", `${skillName}.md`),
+        secondary: join(outputDir, ".windsurf", "skills", skillName, "SKILL.md"),
+      };
+    } else if (targetAgent === "cursor") {
+      // Cursor: Skills are native in v2.4+ (.cursor/skills/<name>/SKILL.md).
+      // Secondary (optional) command output can preserve explicit /command workflows.
+      return {
+        primary: join(outputDir, ".cursor", "skills", skillName, "SKILL.md"),
+        secondary: join(outputDir, ".cursor", "commands", `${skillName}.md`),
+      };
+    } else if (targetAgent === "claude" || targetAgent === "opencode" || targetAgent === "codex") {
+      targetSubdir = join(projectPath, skillName);
+      return { primary: join(outputDir, targetSubdir, "SKILL.md") };
+    } else {
+      targetSubdir = join(projectPath, skillName);
+    }
+  } else if (
+    relativePath.includes("/commands/") ||
+    relativePath.includes("\\commands\\") ||
+    /(^|[/\\])prompts[/\\]/.test(relativePath)
+  ) {
+    // Some agents use a base config directory (e.g. .cursor) with a commands subdir.
+    // Codex custom prompts (~/.codex/prompts) are commands too.
+    if (targetAgent === "gemini") {
+      // Gemini commands are TOML; subdirectories become namespaces (git/commit → /git:commit)
+      const commandPath = relativePath.replace(/\\/g, "/").replace(/^(?:.*?\/)?(?:commands|prompts)\//, "");
+      return { primary: join(outputDir, ".gemini", "commands", `${commandPath.replace(/\.(md|toml)$/, "")}.toml`) };
+    } else if (targetAgent === "cursor") {
+      targetSubdir = join(projectPath, "commands");
+    } else if (targetAgent === "codex") {
+      targetSubdir = join(".codex", "prompts");
+    } else {
+      targetSubdir = projectPath;
+    }
+  } else if (relativePath.includes("/rules/") || relativePath.includes("\\rules\\")) {
+    const ruleName = basename(basename(sourceFile, ".mdc"), ".md");
+    if (targetAgent === "cursor") {
+      // Cursor project rules must use the .mdc extension
+      return { primary: join(outputDir, ".cursor", "rules", `${ruleName}.mdc`) };
+    } else if (targetAgent === "windsurf" || targetAgent === "claude") {
+      return { primary: join(outputDir, `.${targetAgent}`, "rules", `${ruleName}.md`) };
+    }
+    return { primary: join(outputDir, projectPath, `${ruleName}.md`) };
+  } else {
+    targetSubdir = projectPath;
+  }
+  
+  return { primary: join(outputDir, targetSubdir, `${basename(basename(sourceFile, ".toml"), ".md")}.md`) };
+}
+
+export function isTomlCommandFile(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, "/");
+  return normalized.endsWith(".toml") && normalized.includes("/commands/");
+}
+
+export function detectAgentFromPath(path: string): AgentId | undefined {
+  const pluginAgent = detectPluginAgent(path);
+  if (pluginAgent) return pluginAgent;
+  if (path.includes(".claude")) return "claude";
+  if (path.includes(".cursor")) return "cursor";
+  if (path.includes(".windsurf")) return "windsurf";
+  if (path.includes(".opencode")) return "opencode";
+  if (path.includes("AGENTS.md")) return "cursor";
+  return undefined;
+}
+
+/**
+ * Source agent of a file or directory: --from, then what its path (or a
+ * directory's contents) shows, then the source in .cacerc
+ */
+export function resolveSourceAgent(source: string, flag: AgentId | undefined, configured: AgentId | undefined): AgentId | undefined {
+  return flag ?? detectAgentFromPath(source) ?? detectAgentFromContents(source) ?? configured;
+}
+
+export function detectAgentFromContents(dir: string): AgentId | undefined {
+  // Try to detect agent by looking at file contents
+  const checkDir = (path: string, depth = 0): AgentId | undefined => {
+    if (depth > 3) return undefined;
+    
+    try {
+      const entries = readdirSync(path);
+      
+      for (const entry of entries) {
+        const fullPath = join(path, entry);
+        const stat = statSync(fullPath);
+        
+        if (stat.isDirectory()) {
+          const result = checkDir(fullPath, depth + 1);
+          if (result) return result;
+        } else if (entry.endsWith(".md")) {
+          try {
+            const content = readFileSync(fullPath, "utf-8");
+            const detected = detectAgent(content, fullPath);
+            if (detected) return detected;
+          } catch {
+            // Skip unreadable files
+          }
+        }
+      }
+    } catch {
+      // Skip unreadable directories
+    }
+    
+    return undefined;
+  };
+  
+  return checkDir(dir);
+}
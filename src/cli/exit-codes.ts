@@ -0,0 +1,18 @@
+/**
+ * Process exit codes shared by CLI commands
+ *
+ * Commands that report on a check (diff, roundtrip, version features, ...)
+ * distinguish "the command could not run" from "the command ran and the
+ * check failed" so CI pipelines can gate on the latter.
+ */
+
+export const EXIT_CODES = {
+  /** Command ran and all checks passed */
+  SUCCESS: 0,
+  /** Command could not run: bad arguments, unreadable input, parse failure */
+  ERROR: 1,
+  /** Command ran but a check failed: differences, drift, missing feature */
+  CHECK_FAILED: 2,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
@@ -1,5 +1,6 @@
 /**
- * CLI export command - Export ComponentSpec as JSON for debugging or manual editing
+ * CLI export command - Export ComponentSpec as JSON for debugging or manual editing,
+ * or as a canonical .cace.yaml source for `cace build`
  */
 
 import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
@@ -9,11 +10,14 @@ import type { AgentId } from '../core/types.js';
 import { SUPPORTED_AGENTS } from '../core/constants.js';
 import { parseComponent, detectAgent } from '../parsing/parser-factory.js';
 import { formatAsJson } from '../core/output.js';
+import { renderCanonicalSpec } from '../rendering/canonical/canonical-renderer.js';
 
 export interface ExportOptions {
   from?: AgentId;
   output?: string;
   pretty?: boolean;
+  /** json (default) or cace for a canonical .cace.yaml source */
+  format?: 'json' | 'cace';
 }
 
 export function exportCommand(
@@ -58,17 +62,22 @@ export function exportCommand(
     return { success: false };
   }
 
-  // Format as JSON
-  const jsonOutput = options.pretty !== false
-    ? formatAsJson(parseResult.spec)
-    : JSON.stringify(parseResult.spec);
+  // Format as JSON or canonical YAML
+  let output: string;
+  if (options.format === 'cace') {
+    output = renderCanonicalSpec(parseResult.spec);
+  } else {
+    output = (options.pretty !== false
+      ? formatAsJson(parseResult.spec)
+      : JSON.stringify(parseResult.spec)) + '\n';
+  }
 
   // Output
   if (options.output) {
     try {
       const dir = dirname(options.output);
       mkdirSync(dir, { recursive: true });
-      writeFileSync(options.output, jsonOutput + '\n');
+      writeFileSync(options.output, output);
       console.log(chalk.green(`✓ Exported to: ${options.output}`));
       return { success: true, outputPath: options.output };
     } catch (err) {
@@ -77,7 +86,7 @@ export function exportCommand(
       return { success: false };
     }
   } else {
-    console.log(jsonOutput);
+    process.stdout.write(output);
     return { success: true };
   }
 }
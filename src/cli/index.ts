@@ -43,30 +43,96 @@
  * Core commands:
  * - install: Install/generate scaffolding for agents
  * - convert: Convert between agent formats (supports --strategy=dual-output)
+ * - build: Render canonical .cace.yaml sources for every target agent
  * - validate: Validate agent files
+ * - audit: Audit configurations and regenerate copies that drifted between agents
+ * - status: List generated files that are stale, edited or orphaned (.cace/lock.json)
+ * - watch: Re-convert sources to the target agents as they are edited, renamed or removed
+ * - plugins: List plugins loaded from .cacerc and installed cace-plugin-* packages
+ * - mappings: Print the capability mapping table for a pair of agents
+ * - matrix: Tabulate how every component in a directory fares with every agent
+ * - memory effective: Show the memory an agent loads in a directory, merged across scopes
+ * - diff / export / roundtrip / inspect: Inspect the IR and conversion drift
+ * - schema: Print the JSON Schema for the IR
+ * - version: Version detection, catalogs and migration guides
  * - doctor: Check system compatibility
+ *
+ * Defaults for source, targets, outputs, globs, strategy, risk and strictness
+ * come from the nearest .cacerc / cace.config.ts; flags override them.
  */
 
 import { Command } from "commander";
 import chalk from "chalk";
-import { readFileSync, existsSync, mkdirSync, writeFileSync, copyFileSync, readdirSync, statSync } from "fs";
+import { readFileSync, existsSync, mkdirSync, writeFileSync, statSync } from "fs";
 import { dirname, join, basename, relative, resolve } from "path";
 import type { AgentId, ComponentSpec } from "../core/types.js";
-import { SUPPORTED_AGENTS } from "../core/constants.js";
+import { SUPPORTED_AGENTS, CACE_VERSION } from "../core/constants.js";
 import { validate } from "../validation/index.js";
-import { getParser, parseComponent, detectAgent } from "../parsing/parser-factory.js";
-import { getRenderer, renderComponent } from "../rendering/renderer-factory.js";
-import { AGENTS } from "../core/constants.js";
+import { getParser, parseComponent } from "../parsing/parser-factory.js";
+import { getRenderer, getTargetPath, renderComponent } from "../rendering/renderer-factory.js";
+import { IMPORT_MODES, type ImportMode } from "../core/memory-imports.js";
+import { mergeSettingsJson } from "../core/settings-file.js";
 import { optimizeCommand } from "./optimize-command.js";
 import { startInteractiveMode } from "./interactive.js";
 import { startWizard } from "./wizard.js";
+import { diffCommand } from "./diff.js";
+import { exportCommand } from "./export.js";
+import { roundTripCommand } from "./roundtrip.js";
+import { inspectCommand } from "./inspect.js";
+import { schemaCommand } from "./schema.js";
+import { buildCommand } from "./build.js";
+import { auditCommand } from "./audit.js";
+import type { GeneratedWriteResult } from "./merge.js";
+import {
+  convertDirFile,
+  copyRenderedAssets,
+  findConvertibleFiles,
+  generateDirOutputPath,
+  resolveSourceAgent,
+  type DirConversionContext,
+} from "./convert-dir.js";
+import { tryRecordOutputs, type LockedOutput } from "./lock.js";
+import { statusCommand } from "./status.js";
+import { watchCommand } from "./watch.js";
+import { pluginsCommand } from "./plugins.js";
+import { mappingsCommand } from "./mappings.js";
+import { matrixCommand, MATRIX_FORMATS, DEFAULT_MIN_FIDELITY, type MatrixFormat } from "./matrix.js";
+import { memoryEffectiveCommand } from "./memory.js";
+import {
+  configuredTargets,
+  loadProjectConfig,
+  pick,
+  targetSettings,
+  type LoadedProjectConfig,
+} from "./project-config.js";
+import {
+  versionDetectCommand,
+  versionListCommand,
+  migrationGuideCommand,
+  breakingChangesCommand,
+  featureCheckCommand,
+  analyzeMigrationCommand,
+} from "./version.js";
+import { EXIT_CODES } from "./exit-codes.js";
 
 const program = new Command();
 
 program
   .name("cace")
   .description("Cross-Agent Compatibility Engine - Convert and validate AI agent components")
-  .version("2.5.4");
+  .version(CACE_VERSION);
+
+// Project settings from .cacerc, loaded before any command runs
+let projectConfig: LoadedProjectConfig = { targets: {} };
+
+program.hook("preAction", async () => {
+  try {
+    projectConfig = await loadProjectConfig();
+  } catch (err) {
+    console.error(chalk.red(`❌ ${err instanceof Error ? err.message : String(err)}`));
+    process.exit(EXIT_CODES.ERROR);
+  }
+});
 
 // ============================================================================
 // WIZARD MODE (Multi-Select Installation Wizard)
@@ -188,17 +254,19 @@ program
 program
   .command("convert <source>")
   .description("Convert a component from one agent format to another")
-  .requiredOption("-t, --to <agent>", `Target agent (${SUPPORTED_AGENTS.join(", ")})`)
+  .option("-t, --to <agent>", `Target agent (${SUPPORTED_AGENTS.join(", ")}; default: first target in .cacerc)`)
   .option("-f, --from <agent>", "Source agent (auto-detected)")
   .option("-o, --output <path>", "Output file path (auto-generated if not specified)")
   .option("-v, --verbose", "Show detailed conversion info")
   .option("--no-validate", "Skip validation of output")
-  .option("--strategy <strategy>", "Conversion strategy: direct (default) or dual-output", "direct")
-  .action((source: string, options) => {
+  .option("--strategy <strategy>", "Conversion strategy: direct (default) or dual-output")
+  .option("--imports <mode>", `How to carry memory @imports over: ${IMPORT_MODES.join(", ")} (default: native where the target has imports)`)
+  .action((source: string, options: { to?: string; from?: AgentId; output?: string; verbose?: boolean; validate?: boolean; strategy?: string; imports?: string }) => {
+    const imports = resolveImportsOption(options.imports);
     console.log(chalk.blue(`🔄 Converting ${source}...`));
 
     // Detect source format
-    const fromAgent = options.from || detectAgentFromPath(source);
+    const fromAgent = resolveSourceAgent(source, options.from, projectConfig.source);
     if (!fromAgent) {
       console.error(chalk.red("❌ Could not detect source agent. Use --from to specify."));
       process.exit(1);
@@ -214,13 +282,13 @@ program
     }
 
     // Parse
-    const parser = getParser(fromAgent);
-    if (!parser) {
+    if (!getParser(fromAgent)) {
       console.error(chalk.red(`❌ No parser available for ${fromAgent}`));
       process.exit(1);
     }
 
-    const parseResult = parser.parse(content, { 
+    const parseResult = parseComponent(content, {
+      agentId: fromAgent,
       sourceFile: source,
       validateOnParse: true 
     });
@@ -236,6 +304,9 @@ program
       process.exit(1);
     }
 
+    // e.g. @imports that could not be loaded, or skill assets that were skipped
+    parseResult.warnings.forEach((w) => console.log(chalk.yellow(`⚠️  ${w}`)));
+
     if (options.verbose) {
       console.log(chalk.gray(`   Detected: ${fromAgent} ${parseResult.spec.componentType}`));
       if (parseResult.validation) {
@@ -244,7 +315,9 @@ program
     }
 
     // Convert
-    const targetAgent = options.to as AgentId;
+    const targetAgent = resolveTargetOption(options.to);
+    const targetVersion = projectConfig.targets[targetAgent]?.version;
+    const configuredOutput = projectConfig.targets[targetAgent]?.output;
     const renderer = getRenderer(targetAgent);
     if (!renderer) {
       console.error(chalk.red(`❌ No renderer available for ${targetAgent}`));
@@ -256,8 +329,10 @@ program
       console.log(chalk.yellow("⚠️  Note: OpenCode natively supports Claude files. Conversion may not be necessary."));
     }
 
-    const renderResult = renderer.render(parseResult.spec, {
+    const renderResult = renderComponent(parseResult.spec, targetAgent, {
       validateOutput: options.validate !== false,
+      targetVersion,
+      imports,
     });
 
     if (!renderResult.success) {
@@ -272,7 +347,7 @@ program
     }
 
     // Handle dual-output strategy for Claude → Windsurf conversion
-    const strategy = options.strategy || "direct";
+    const strategy = pick(options.strategy, projectConfig.strategy, "direct");
     const outputPaths: string[] = [];
 
     if (strategy === "dual-output" && fromAgent === "claude" && targetAgent === "windsurf") {
@@ -282,12 +357,12 @@ program
       // Path 1: Workflow for user invocation
       const workflowPath = options.output
         ? options.output.replace(".md", "-workflow.md")
-        : join(dirname(source), ".windsurf", "workflows", `${skillName}.md`);
+        : join(configuredOutput ?? dirname(source), ".windsurf", "workflows", `${skillName}.md`);
 
       // Path 2: Skill for auto-execution parity
       const skillPath = options.output
         ? options.output.replace(".md", "-skill.md")
-        : join(dirname(source), ".windsurf", "skills", skillName, "SKILL.md");
+        : join(configuredOutput ?? dirname(source), ".windsurf", "skills", skillName, "SKILL.md");
 
       // Create workflow content (adapted for manual invocation)
       const workflowContent = createWorkflowFromSkill(renderResult.content, parseResult.spec);
@@ -303,6 +378,19 @@ program
       writeFileSync(skillPath, renderResult.content, "utf-8");
 
       outputPaths.push(workflowPath, skillPath);
+      lockOutputs([
+        { output: workflowPath, content: workflowContent },
+        { output: skillPath, content: renderResult.content },
+      ].map((written) => ({
+        ...written,
+        source,
+        sourceContent: content,
+        sourceAgent: fromAgent,
+        targetAgent,
+        targetVersion,
+        options: { strategy },
+        report: renderResult.report,
+      })));
 
       console.log();
       console.log(chalk.green.bold("✅ Dual-Output Conversion Complete\n"));
@@ -319,23 +407,59 @@ program
     } else {
       // Standard single-output conversion
       // Determine output path
-      const outputPath = options.output || renderResult.filename || generateOutputPath(source, targetAgent);
+      // Settings files go where the target agent reads them, in the source's project
+      const outputPath = options.output || (renderResult.partial
+        ? join(configuredOutput ?? projectRootOf(source), getTargetPath(parseResult.spec, targetAgent))
+        : configuredOutput
+          ? join(configuredOutput, renderResult.filename || basename(generateOutputPath(source, targetAgent)))
+          : renderResult.filename || generateOutputPath(source, targetAgent));
       outputPaths.push(outputPath);
 
+      // A shared settings file keeps the keys this component does not set
+      let outputContent = renderResult.content;
+      const mergedSettings = renderResult.partial && existsSync(outputPath);
+      if (mergedSettings) {
+        const merged = mergeSettingsJson(readFileSync(outputPath, "utf-8"), renderResult.content);
+        if (merged === undefined) {
+          console.error(chalk.red(`❌ ${outputPath} is not a JSON object; not overwriting it. Merge this output into it by hand:`));
+          console.log(renderResult.content);
+          process.exit(1);
+        }
+        outputContent = merged;
+      }
+
       // Ensure directory exists
       const outputDir = dirname(outputPath);
       if (!existsSync(outputDir)) {
         mkdirSync(outputDir, { recursive: true });
       }
 
-      // Write output
-      writeFileSync(outputPath, renderResult.content, "utf-8");
+      // Write output, with the supporting files of a skill bundle next to it
+      writeFileSync(outputPath, outputContent, "utf-8");
+      const assets = copyRenderedAssets(renderResult.assets, outputPath);
+      lockOutputs([{
+        output: outputPath,
+        content: outputContent,
+        source,
+        sourceContent: content,
+        sourceAgent: fromAgent,
+        targetAgent,
+        targetVersion,
+        options: { strategy },
+        report: renderResult.report,
+      }]);
 
       // Print rich output header
       console.log();
       console.log(chalk.green.bold("✅ Conversion Complete\n"));
       console.log(chalk.cyan(`📄 Source: ${chalk.white(source)}`));
       console.log(chalk.cyan(`🎯 Target: ${chalk.white(outputPath)}`));
+      if (mergedSettings) {
+        console.log(chalk.cyan(`🧩 Merged: ${chalk.white("other settings in the existing file were kept")}`));
+      }
+      if (assets.length > 0) {
+        console.log(chalk.cyan(`📎 Assets: ${chalk.white(`${assets.length} files copied to ${outputDir}`)}`));
+      }
       console.log(chalk.cyan(`🤖 Agents: ${chalk.white(fromAgent)} → ${chalk.white(targetAgent)}`));
     }
     console.log();
@@ -470,6 +594,7 @@ program
   .option("-f, --from <agent>", "Agent type (auto-detected)")
   .option("-t, --type <type>", "Component type (skill, command, rule, etc.)")
   .option("--strict", "Strict validation (treat warnings as errors)")
+  .option("--no-strict", "Lenient validation, even when .cacerc enables strict")
   .option("-v, --version <version>", "Specific agent version to validate against")
   .action((source: string, options) => {
     console.log(chalk.blue(`🔍 Validating ${source}...`));
@@ -483,7 +608,7 @@ program
     }
 
     // Detect agent
-    const agent = (options.from || detectAgentFromPath(source)) as AgentId;
+    const agent = resolveSourceAgent(source, options.from, projectConfig.source);
     if (!agent) {
       console.error(chalk.red("❌ Could not detect agent type. Use --from to specify."));
       console.log(chalk.gray("Supported agents: " + SUPPORTED_AGENTS.join(", ")));
@@ -495,8 +620,8 @@ program
 
     // Validate
     const result = validate(content, agent, componentType, {
-      version: options.version,
-      strict: options.strict,
+      version: pick(options.version, projectConfig.targets[agent]?.version),
+      strict: pick(options.strict, projectConfig.validation?.strict, false),
     });
 
     // Print rich header
@@ -598,21 +723,204 @@ program
 // CONVERT-DIR COMMAND - Convert entire directories
 // ============================================================================
 
+program
+  .command("build")
+  .description("Render canonical .cace.yaml / .cace.md sources for every target agent")
+  .argument("[sources...]", "Source files or directories to search (default: .)")
+  .option("-t, --to <agents...>", "Target agents (default: .cacerc targets, else every agent with an equivalent component type)")
+  .option("-o, --output <dir>", "Directory to write agent files under (default: .cacerc target outputs, else .)")
+  .option("--dry-run", "Show what would be written without writing")
+  .option("--force", "Overwrite existing shared files that cannot be merged (mcp.json, config.toml)")
+  .action((sources: string[], options: { to?: string[]; output?: string; dryRun?: boolean; force?: boolean }) => {
+    const configured = configuredTargets(projectConfig);
+    const to = pick(options.to?.map((agent) => resolveAgentOption(agent)!), configured.length > 0 ? configured : undefined);
+    const result = buildCommand(sources, {
+      to,
+      output: options.output,
+      // An explicit --output puts every agent under it
+      outputs: options.output ? {} : targetSettings(projectConfig, "output"),
+      targetVersions: targetSettings(projectConfig, "version"),
+      dryRun: options.dryRun,
+      force: options.force,
+    });
+
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+program
+  .command("audit")
+  .description("Audit agent configurations, including content drift between agents")
+  .argument("[paths...]", "Directories containing agent configurations (default: .)")
+  .option("-a, --agents <agents...>", "Agents to audit (default: .cacerc source and targets, else all)")
+  .option("--regenerate-stale", "Rewrite each stale copy from its fresher counterpart")
+  .option("--dry-run", "With --regenerate-stale, show what would be rewritten")
+  .option("--fail-on-drift", "Exit with code 2 when stale copies remain")
+  .action(async (paths: string[], options: { agents?: string[]; regenerateStale?: boolean; dryRun?: boolean; failOnDrift?: boolean }) => {
+    const configured = [...new Set([projectConfig.source, ...configuredTargets(projectConfig)])]
+      .filter((agent): agent is AgentId => agent !== undefined);
+    const agents = pick(options.agents?.map((agent) => resolveAgentOption(agent)!), configured.length > 0 ? configured : undefined);
+    const result = await auditCommand(paths, { agents, regenerateStale: options.regenerateStale, dryRun: options.dryRun });
+
+    if (!result.success) process.exit(EXIT_CODES.ERROR);
+    process.exit(options.failOnDrift && result.staleCopies > 0 ? EXIT_CODES.CHECK_FAILED : EXIT_CODES.SUCCESS);
+  });
+
+program
+  .command("watch <sources...>")
+  .description("Watch source directories and keep converted outputs in sync as they change")
+  .option("-t, --to <agents...>", `Target agents (${SUPPORTED_AGENTS.join(", ")}; default: .cacerc targets)`)
+  .option("-f, --from <agent>", "Source agent (auto-detected)")
+  .option("-o, --output <path>", "Output root for every target (default: .cacerc target outputs, else <source>.<agent>)")
+  .option("--strategy <strategy>", "Conversion strategy: direct (default) or dual-output")
+  .option("--merge", "Three-way merge new output into files edited since the last conversion")
+  .option("--include <patterns...>", "Include files matching these patterns")
+  .option("--exclude <patterns...>", "Exclude files matching these patterns")
+  .option("--debounce <ms>", "Wait for this many quiet milliseconds before converting", "300")
+  .action((sources: string[], options: { to?: string[]; from?: string; output?: string; strategy?: string; merge?: boolean; include?: string[]; exclude?: string[]; debounce: string }) => {
+    const to = pick(options.to?.map((agent) => resolveAgentOption(agent)!), configuredTargets(projectConfig), []);
+    if (to.length === 0) {
+      console.error(chalk.red("❌ Target agents are required. Use --to <agents...> or declare targets in .cacerc"));
+      process.exit(EXIT_CODES.ERROR);
+    }
+    const watcher = watchCommand(sources, {
+      to,
+      from: resolveAgentOption(options.from),
+      defaultFrom: projectConfig.source,
+      output: options.output,
+      root: lockRoot(),
+      outputs: options.output ? {} : targetSettings(projectConfig, "output"),
+      targetVersions: targetSettings(projectConfig, "version"),
+      strategy: pick(options.strategy, projectConfig.strategy),
+      merge: options.merge,
+      include: pick(options.include, projectConfig.include),
+      exclude: pick(options.exclude, projectConfig.exclude),
+      debounce: Number(options.debounce),
+    });
+    if (!watcher.success) process.exit(EXIT_CODES.ERROR);
+
+    process.on("SIGINT", () => {
+      watcher.close();
+      process.exit(EXIT_CODES.SUCCESS);
+    });
+  });
+
+program
+  .command("status [root]")
+  .description("List generated files that are stale, edited by hand or orphaned, from .cace/lock.json")
+  .option("--json", "Output lock entries with their issues as JSON")
+  .action((root: string | undefined, options: { json?: boolean }) => {
+    const result = statusCommand(root ?? lockRoot(), { json: options.json });
+
+    if (!result.success) process.exit(EXIT_CODES.ERROR);
+    process.exit(result.issues > 0 ? EXIT_CODES.CHECK_FAILED : EXIT_CODES.SUCCESS);
+  });
+
+program
+  .command("plugins")
+  .description("List loaded plugins and what they contribute, and installed plugins not yet enabled")
+  .option("--json", "Output plugins as JSON")
+  .action((options: { json?: boolean }) => {
+    const result = pluginsCommand(projectConfig, { json: options.json });
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+program
+  .command("mappings")
+  .description("Show what happens to each capability when converting between two agents")
+  .option("-f, --from <agent>", "Source agent (default: source in .cacerc)")
+  .option("-t, --to <agent>", "Target agent (default: first target in .cacerc)")
+  .option("--json", "Output the mapping table as JSON")
+  .action((options: { from?: string; to?: string; json?: boolean }) => {
+    const from = pick(resolveAgentOption(options.from), projectConfig.source);
+    if (!from) {
+      console.error(chalk.red("❌ Source agent is required. Use --from <agent> or set source in .cacerc"));
+      process.exit(EXIT_CODES.ERROR);
+    }
+    const result = mappingsCommand(from, resolveTargetOption(options.to), { json: options.json });
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+program
+  .command("matrix <dir>")
+  .description("Render every component in a directory for every agent and tabulate fidelity, critical losses and validation")
+  .option("-f, --from <agent>", "Source agent (default: source in .cacerc, else detected per file)")
+  .option("-t, --to <agents...>", "Agents to render for (default: .cacerc targets, else every agent with a renderer)")
+  .option("--format <format>", `Output format: ${MATRIX_FORMATS.join(", ")}`, "markdown")
+  .option("-o, --output <file>", "Write the matrix to a file instead of stdout")
+  .option("--min-fidelity <score>", `Fidelity a rendering needs to count as safe to ship (default: ${DEFAULT_MIN_FIDELITY})`)
+  .option("--include <patterns...>", "Include files matching these patterns")
+  .option("--exclude <patterns...>", "Exclude files matching these patterns")
+  .option("--strict", "Treat validation warnings as errors")
+  .action((dir: string, options: { from?: string; to?: string[]; format: string; output?: string; minFidelity?: string; include?: string[]; exclude?: string[]; strict?: boolean }) => {
+    if (!MATRIX_FORMATS.includes(options.format as MatrixFormat)) {
+      console.error(chalk.red(`❌ Unknown format: ${options.format}. Use ${MATRIX_FORMATS.join(", ")}`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+    const minFidelity = options.minFidelity === undefined ? undefined : Number(options.minFidelity);
+    if (minFidelity !== undefined && Number.isNaN(minFidelity)) {
+      console.error(chalk.red(`❌ --min-fidelity must be a number, got ${options.minFidelity}`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    const configured = configuredTargets(projectConfig);
+    const result = matrixCommand(dir, {
+      from: resolveAgentOption(options.from),
+      defaultFrom: projectConfig.source,
+      to: pick(options.to?.map((agent) => resolveAgentOption(agent)!), configured.length > 0 ? configured : undefined),
+      targetVersions: targetSettings(projectConfig, "version"),
+      include: pick(options.include, projectConfig.include),
+      exclude: pick(options.exclude, projectConfig.exclude),
+      strict: pick(options.strict, projectConfig.validation?.strict, false),
+      minFidelity,
+      format: options.format as MatrixFormat,
+      output: options.output,
+    });
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+const memory = program
+  .command("memory")
+  .description("Inspect the memory files (CLAUDE.md, AGENTS.md, GEMINI.md) agents load");
+
+memory
+  .command("effective [dir]")
+  .description("Show the memory an agent loads in a directory, merged from every scope in precedence order")
+  .option("-a, --agent <agent>", "Agent whose memory to compute (default: source in .cacerc, else claude)")
+  .option("--content", "Print the merged memory instead of where each section comes from")
+  .option("-t, --to <agent>", "Export the effective memory as this agent's project memory file")
+  .option("-o, --output <dir>", "Directory to write the export to (default: dir)")
+  .option("--dry-run", "Print the export instead of writing it")
+  .option("--json", "Output the files, sections and merged memory as JSON")
+  .action((dir: string | undefined, options: { agent?: string; content?: boolean; to?: string; output?: string; dryRun?: boolean; json?: boolean }) => {
+    const agent = pick(resolveAgentOption(options.agent), projectConfig.source, "claude");
+    const result = memoryEffectiveCommand(dir ?? ".", agent, {
+      content: options.content,
+      to: resolveAgentOption(options.to),
+      output: options.output,
+      dryRun: options.dryRun,
+      json: options.json,
+    });
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
 program
   .command("convert-dir <source>")
   .alias("cd")
   .description("Convert entire agent scaffolding directories (e.g., ~/.claude or ./.claude)")
-  .requiredOption("-t, --to <agent>", `Target agent (${SUPPORTED_AGENTS.join(", ")})`)
+  .option("-t, --to <agent>", `Target agent (${SUPPORTED_AGENTS.join(", ")}; default: first target in .cacerc)`)
   .option("-f, --from <agent>", "Source agent (auto-detected)")
-  .option("-o, --output <path>", "Output directory (auto-generated if not specified)")
+  .option("-o, --output <path>", "Output directory (default: .cacerc target output, else auto-generated)")
   .option("-r, --recursive", "Recursively process subdirectories", true)
   .option("--dry-run", "Show what would be converted without doing it")
   .option("--backup", "Create backups of existing files")
+  .option("--merge", "Three-way merge new output into files edited since the last conversion")
   .option("--include <patterns...>", "Include files matching these patterns")
   .option("--exclude <patterns...>", "Exclude files matching these patterns")
   .option("-v, --verbose", "Show detailed conversion info for each file")
-  .option("--strategy <strategy>", "Conversion strategy: direct (default) or dual-output", "direct")
-  .action(async (source: string, options: { to: string; from?: string; output?: string; recursive?: boolean; dryRun?: boolean; backup?: boolean; include?: string[]; exclude?: string[]; verbose?: boolean; strategy?: string }) => {
+  .option("--strategy <strategy>", "Conversion strategy: direct (default) or dual-output")
+  .option("--imports <mode>", `How to carry memory @imports over: ${IMPORT_MODES.join(", ")} (default: native where the target has imports)`)
+  .action(async (source: string, options: { to?: string; from?: string; output?: string; recursive?: boolean; dryRun?: boolean; backup?: boolean; merge?: boolean; include?: string[]; exclude?: string[]; verbose?: boolean; strategy?: string; imports?: string }) => {
+    const imports = resolveImportsOption(options.imports);
     console.log(chalk.blue.bold("\n📁 Directory Conversion\n"));
     
     // Validate source is a directory
@@ -629,13 +937,10 @@ program
     }
     
     // Validate target agent
-    if (!options.to) {
-      console.error(chalk.red("❌ Target agent is required. Use --to <agent>"));
-      process.exit(1);
-    }
+    const targetAgent = resolveTargetOption(options.to);
     
     // Detect source agent
-    const fromAgent = options.from || detectAgentFromPath(source) || detectAgentFromContents(source);
+    const fromAgent = resolveSourceAgent(source, options.from as AgentId | undefined, projectConfig.source);
     if (!fromAgent) {
       console.error(chalk.red("❌ Could not detect source agent from directory contents."));
       console.log(chalk.gray("Use --from to specify the source agent explicitly."));
@@ -644,48 +949,28 @@ program
     
     console.log(chalk.cyan(`📄 Source: ${chalk.white(source)}`));
     console.log(chalk.cyan(`🤖 Source Agent: ${chalk.white(fromAgent)}`));
-    console.log(chalk.cyan(`🎯 Target Agent: ${chalk.white(options.to)}`));
+    console.log(chalk.cyan(`🎯 Target Agent: ${chalk.white(targetAgent)}`));
     console.log();
     
     // Scan directory
     console.log(chalk.blue("🔍 Scanning directory...\n"));
     
-    const files: string[] = [];
-    const scanDir = (dir: string, depth = 0) => {
-      if (depth > 10) return; // Limit recursion
-      
-      try {
-        const entries = readdirSync(dir);
-        for (const entry of entries) {
-          const fullPath = join(dir, entry);
-          const stat = statSync(fullPath);
-          
-          if (stat.isDirectory() && options.recursive) {
-            scanDir(fullPath, depth + 1);
-          } else if (entry.endsWith(".md") || entry.endsWith(".mdc")) {
-            // Check if file matches include/exclude patterns
-            if (shouldIncludeFile(fullPath, options.include, options.exclude)) {
-              files.push(fullPath);
-            }
-          }
-        }
-      } catch (e) {
-        // Skip directories that can't be read
-      }
-    };
-    
-    scanDir(source);
+    const files = findConvertibleFiles(source, {
+      recursive: options.recursive,
+      include: pick(options.include, projectConfig.include),
+      exclude: pick(options.exclude, projectConfig.exclude),
+    });
     
     if (files.length === 0) {
       console.log(chalk.yellow("⚠️  No convertible files found in directory."));
-      console.log(chalk.gray("Supported files: *.md, *.mdc"));
+      console.log(chalk.gray("Supported files: *.md, *.mdc, commands/**/*.toml"));
       process.exit(0);
     }
     
     console.log(chalk.green(`✓ Found ${files.length} files to convert\n`));
     
     // Determine output directory
-    const outputDir = options.output || generateDirOutputPath(source, options.to as AgentId);
+    const outputDir = pick(options.output, projectConfig.targets[targetAgent]?.output) || generateDirOutputPath(source, targetAgent);
     
     console.log(chalk.cyan(`💾 Output: ${chalk.white(outputDir)}`));
     console.log(chalk.cyan(`📊 Mode: ${chalk.white(options.dryRun ? "Dry Run" : "Live Conversion")}`));
@@ -707,6 +992,21 @@ program
       total: files.length,
     };
     
+    const writes: GeneratedWriteResult[] = [];
+    const lockedOutputs: LockedOutput[] = [];
+    const context: DirConversionContext = {
+      sourceDir: source,
+      outputDir,
+      fromAgent: fromAgent as AgentId,
+      targetAgent,
+      targetVersion: projectConfig.targets[targetAgent]?.version,
+      strategy: pick(options.strategy, projectConfig.strategy),
+      imports,
+      merge: options.merge,
+      backup: options.backup,
+      dryRun: options.dryRun,
+    };
+    
     console.log(chalk.blue("🔄 Converting files...\n"));
     
     for (let i = 0; i < files.length; i++) {
@@ -714,105 +1014,24 @@ program
       const relativePath = relative(source, file);
       
       try {
-        // Read and convert
-        const content = readFileSync(file, "utf-8");
-        const parseResult = parseComponent(content, { sourceFile: file });
-        
-        if (!parseResult.success || !parseResult.spec) {
-          results.error++;
-          if (options.verbose) {
-            console.log(chalk.red(`  ✗ ${relativePath} - Parse failed`));
-          }
-          continue;
-        }
+        const conversion = convertDirFile(file, context);
+        writes.push(...conversion.writes);
+        lockedOutputs.push(...conversion.lockedOutputs);
         
-        const targetAgent = options.to as AgentId;
-        const strategy = options.strategy || "direct";
-        
-        // Render the component
-        const renderResult = renderComponent(parseResult.spec, targetAgent, {
-          validateOutput: true,
-        });
-        
-        if (!renderResult.success || !renderResult.content) {
+        if (!conversion.success) {
           results.error++;
           if (options.verbose) {
-            console.log(chalk.red(`  ✗ ${relativePath} - Render failed`));
-          }
-          continue;
-        }
-        
-        // Handle dual-output strategy for Claude → Windsurf / Cursor
-        if (strategy === "dual-output" && fromAgent === "claude" && (targetAgent === "windsurf" || targetAgent === "cursor")) {
-          const targets = calculateDirTargetPaths(file, source!, outputDir, targetAgent);
-          const primaryPath = targets.primary;
-          const secondaryPath = targets.secondary;
-
-          // Write primary output (workflow for windsurf, skill for cursor)
-          if (!options.dryRun) {
-            mkdirSync(dirname(primaryPath), { recursive: true });
-            writeFileSync(primaryPath, renderResult.content, "utf-8");
-          }
-
-          // Write secondary output if available
-          if (secondaryPath) {
-            if (targetAgent === "windsurf") {
-              // For Windsurf, secondary is a Skill for auto-invocation parity. Use Claude renderer (compatible Skill.md frontmatter).
-              const skillRenderResult = renderComponent(parseResult.spec!, "claude", {
-                validateOutput: true,
-              });
-              if (skillRenderResult.success && skillRenderResult.content && !options.dryRun) {
-                mkdirSync(dirname(secondaryPath), { recursive: true });
-                writeFileSync(secondaryPath, skillRenderResult.content, "utf-8");
-              }
-            } else if (targetAgent === "cursor") {
-              // For Cursor, secondary is a Command (.cursor/commands/<name>.md) for explicit manual invocation.
-              const commandSpec: ComponentSpec = {
-                ...parseResult.spec!,
-                componentType: "command",
-                activation: { ...parseResult.spec!.activation, mode: "manual" },
-              };
-              const commandRenderResult = renderComponent(commandSpec, "cursor", {
-                validateOutput: true,
-              });
-              if (commandRenderResult.success && commandRenderResult.content && !options.dryRun) {
-                mkdirSync(dirname(secondaryPath), { recursive: true });
-                writeFileSync(secondaryPath, commandRenderResult.content, "utf-8");
-              }
-            }
-          }
-
-          results.success++;
-
-          if (options.verbose) {
-            const fidelity = renderResult.report?.fidelityScore || 0;
-            const color = fidelity >= 90 ? chalk.green : fidelity >= 75 ? chalk.yellow : chalk.red;
-            const label = targetAgent === "windsurf" ? "workflow + skill" : "skill + command";
-            console.log(color(`  ✓ ${relativePath} → ${label} (${fidelity}%)`));
+            console.log(chalk.red(`  ✗ ${relativePath} - ${conversion.error}`));
           }
         } else {
-          // Standard single-output conversion
-          const targetPath = calculateDirTargetPath(file, source!, outputDir, targetAgent);
-          
-          if (!options.dryRun) {
-            // Backup if needed
-            if (options.backup && existsSync(targetPath)) {
-              copyFileSync(targetPath, `${targetPath}.backup.${Date.now()}`);
-            }
-            
-            // Ensure directory exists
-            mkdirSync(dirname(targetPath), { recursive: true });
-            
-            // Write file
-            writeFileSync(targetPath, renderResult.content, "utf-8");
-          }
-          
           results.success++;
           
           if (options.verbose) {
-            const fidelity = renderResult.report?.fidelityScore || 0;
+            const fidelity = conversion.report?.fidelityScore || 0;
             const color = fidelity >= 90 ? chalk.green : fidelity >= 75 ? chalk.yellow : chalk.red;
-            console.log(color(`  ✓ ${relativePath} (${fidelity}%)`));
+            const assets = conversion.assets.length > 0 ? ` + ${conversion.assets.length} assets` : "";
+            const label = conversion.label || assets ? ` → ${conversion.label ?? "output"}${assets}` : "";
+            console.log(color(`  ✓ ${relativePath}${label} (${fidelity}%)`));
           }
         }
       } catch (e) {
@@ -833,6 +1052,10 @@ program
     console.log();
     console.log();
     
+    if (!options.dryRun && lockedOutputs.length > 0) {
+      lockOutputs(lockedOutputs);
+    }
+    
     // Summary
     console.log(chalk.blue.bold("📊 Conversion Summary\n"));
     console.log(`   Total files: ${chalk.white(results.total.toString())}`);
@@ -841,6 +1064,23 @@ program
     console.log(`   Skipped: ${chalk.yellow(results.skipped.toString())}`);
     console.log();
     
+    // Merge report: which outputs kept local edits and which IR fields they override
+    const merged = writes.filter((w) => w.status === "merged" || w.status === "conflict");
+    if (merged.length > 0) {
+      console.log(chalk.blue.bold("🔀 Merge Report\n"));
+      for (const write of merged) {
+        const label = write.status === "conflict"
+          ? chalk.red(`${write.conflicts} conflict${write.conflicts === 1 ? "" : "s"}`)
+          : chalk.green("merged");
+        console.log(`   ${label} ${relative(outputDir, write.path)}`);
+        if (write.overriddenFields.length > 0) {
+          console.log(chalk.gray(`      Local overrides: ${write.overriddenFields.join(", ")}`));
+        }
+      }
+      console.log();
+    }
+    const conflicted = writes.filter((w) => w.status === "conflict").length;
+    
     if (options.dryRun) {
       console.log(chalk.blue("This was a dry run. No files were modified."));
       console.log(chalk.gray("Run without --dry-run to execute the conversion.\n"));
@@ -849,10 +1089,14 @@ program
       console.log(chalk.blue("Next steps:"));
       console.log(chalk.gray(`   • Review converted files in: ${outputDir}`));
       console.log(chalk.gray(`   • Run 'cace validate' on key files`));
-      console.log(chalk.gray(`   • Test in your ${options.to} environment`));
+      console.log(chalk.gray(`   • Test in your ${targetAgent} environment`));
+      if (conflicted > 0) {
+        console.log(chalk.yellow(`   • Resolve the conflict markers in ${conflicted} file${conflicted === 1 ? "" : "s"}`));
+      }
     }
     
     console.log();
+    if (conflicted > 0 && !options.dryRun) process.exit(EXIT_CODES.CHECK_FAILED);
   });
 
 // ============================================================================
@@ -996,155 +1240,249 @@ program
   });
 
 // ============================================================================
-// Helper functions for convert-dir
+// INSPECTION COMMANDS - diff, export, roundtrip, inspect, schema
 // ============================================================================
+//
+// Exit codes (see ./exit-codes.ts):
+//   0 - success, all checks passed
+//   1 - command could not run (bad arguments, unreadable or unparseable input)
+//   2 - command ran but a check failed (differences, drift, missing feature)
 
-function shouldIncludeFile(filePath: string, includePatterns?: string[], excludePatterns?: string[]): boolean {
-  const fileName = basename(filePath);
-  
-  // Check exclude patterns first
-  if (excludePatterns && excludePatterns.length > 0) {
-    for (const pattern of excludePatterns) {
-      if (fileName.includes(pattern)) {
-        return false;
+program
+  .command("diff <fileA> <fileB>")
+  .description("Show semantic differences between two components")
+  .option("-f, --from <agent>", "Source agent for both files (auto-detected)")
+  .option("--json", "Output as JSON")
+  .action((fileA: string, fileB: string, options: { from?: string; json?: boolean }) => {
+    const from = resolveAgentOption(options.from);
+    const result = diffCommand(fileA, fileB, { from, json: options.json });
+
+    if (!result.success) process.exit(EXIT_CODES.ERROR);
+    process.exit(result.identical ? EXIT_CODES.SUCCESS : EXIT_CODES.CHECK_FAILED);
+  });
+
+program
+  .command("export <source>")
+  .description("Export a component's intermediate representation as JSON")
+  .option("-f, --from <agent>", "Source agent (auto-detected)")
+  .option("-o, --output <path>", "Write JSON to a file instead of stdout")
+  .option("--no-pretty", "Emit compact single-line JSON")
+  .option("--format <format>", "json, or cace for a canonical .cace.yaml source", "json")
+  .action((source: string, options: { from?: string; output?: string; pretty?: boolean; format: string }) => {
+    const from = resolveAgentOption(options.from);
+    if (options.format !== "json" && options.format !== "cace") {
+      console.error(chalk.red(`❌ Invalid --format: ${options.format} (expected json or cace)`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+    const result = exportCommand(source, { from, output: options.output, pretty: options.pretty, format: options.format });
+
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+program
+  .command("roundtrip <source>")
+  .description("Convert A → B → A and measure semantic drift")
+  .requiredOption("--via <agent>", `Intermediate agent (${SUPPORTED_AGENTS.join(", ")})`)
+  .option("-f, --from <agent>", "Source agent (auto-detected)")
+  .option("--min-fidelity <score>", "Fail when combined fidelity is below this score (0-100)")
+  .option("--fail-on-drift", "Fail when the round-trip result is not semantically identical")
+  .option("--json", "Output as JSON")
+  .option("-v, --verbose", "Show per-step warnings")
+  .action((source: string, options: { via: string; from?: string; minFidelity?: string; failOnDrift?: boolean; json?: boolean; verbose?: boolean }) => {
+    const from = resolveAgentOption(options.from);
+    const via = resolveAgentOption(options.via)!;
+
+    let minFidelity: number | undefined;
+    if (options.minFidelity !== undefined) {
+      minFidelity = Number(options.minFidelity);
+      if (!Number.isFinite(minFidelity) || minFidelity < 0 || minFidelity > 100) {
+        console.error(chalk.red(`❌ Invalid --min-fidelity: ${options.minFidelity} (expected 0-100)`));
+        process.exit(EXIT_CODES.ERROR);
       }
     }
-  }
-  
-  // Check include patterns
-  if (includePatterns && includePatterns.length > 0) {
-    for (const pattern of includePatterns) {
-      if (fileName.includes(pattern)) {
-        return true;
+
+    const result = roundTripCommand(source, { from, via, json: options.json, verbose: options.verbose });
+    if (!result.success) process.exit(EXIT_CODES.ERROR);
+
+    if (minFidelity !== undefined && (result.fidelityScore ?? 0) < minFidelity) {
+      if (!options.json) {
+        console.error(chalk.red(`❌ Combined fidelity ${result.fidelityScore}% is below --min-fidelity ${minFidelity}%`));
       }
+      process.exit(EXIT_CODES.CHECK_FAILED);
     }
-    return false; // If include patterns specified but none match, exclude
-  }
-  
-  return true;
-}
+    if (options.failOnDrift && !result.identical) {
+      if (!options.json) {
+        console.error(chalk.red("❌ Round-trip drift detected (--fail-on-drift)"));
+      }
+      process.exit(EXIT_CODES.CHECK_FAILED);
+    }
+    process.exit(EXIT_CODES.SUCCESS);
+  });
+
+program
+  .command("inspect <source>")
+  .description("Show the parsed intermediate representation and analysis of a component")
+  .option("-f, --from <agent>", "Source agent (auto-detected)")
+  .option("--json", "Output as JSON")
+  .option("-v, --verbose", "Show full details")
+  .action((source: string, options: { from?: string; json?: boolean; verbose?: boolean }) => {
+    const from = resolveAgentOption(options.from);
+    const result = inspectCommand(source, { from, json: options.json, verbose: options.verbose });
+
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+program
+  .command("schema [name]")
+  .description("Print the JSON Schema for component-spec or conversion-report (lists schemas without a name)")
+  .option("-o, --output <path>", "Write the schema to a file instead of stdout")
+  .option("--check", "Fail when the --output file differs from the generated schema")
+  .action((name: string | undefined, options: { output?: string; check?: boolean }) => {
+    const result = schemaCommand(name, options);
+
+    if (!result.success) process.exit(EXIT_CODES.ERROR);
+    process.exit(result.upToDate === false ? EXIT_CODES.CHECK_FAILED : EXIT_CODES.SUCCESS);
+  });
 
-function generateDirOutputPath(source: string, targetAgent: AgentId): string {
-  const baseName = basename(source);
-  return join(dirname(source), `${baseName}.${targetAgent}`);
+// ============================================================================
+// VERSION COMMANDS - detect, list, migrate, breaking, features, analyze
+// ============================================================================
+
+const versionCmd = program
+  .command("version")
+  .description("Agent version detection, catalogs and migration guides");
+
+versionCmd
+  .command("detect <source>")
+  .description("Detect which agent version a component targets")
+  .option("-f, --from <agent>", "Source agent (auto-detected)")
+  .option("--json", "Output as JSON")
+  .action(async (source: string, options: { from?: string; json?: boolean }) => {
+    const from = resolveAgentOption(options.from);
+    const result = await versionDetectCommand(source, { from, json: options.json });
+
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+versionCmd
+  .command("list [agent]")
+  .description("List known versions for one or all agents")
+  .option("--json", "Output as JSON")
+  .action((agent: string | undefined, options: { json?: boolean }) => {
+    const agentId = resolveAgentOption(agent);
+    const result = versionListCommand({ agent: agentId, json: options.json });
+
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+versionCmd
+  .command("migrate <agent>")
+  .description("Generate a migration guide between two versions")
+  .requiredOption("--from <version>", "Version to migrate from")
+  .option("--to <version>", "Version to migrate to (defaults to current)")
+  .option("--json", "Output as JSON")
+  .option("--markdown", "Output as Markdown")
+  .option("-o, --output <path>", "Write the guide to a file")
+  .action((agent: string, options: { from: string; to?: string; json?: boolean; markdown?: boolean; output?: string }) => {
+    const agentId = resolveAgentOption(agent)!;
+    const result = migrationGuideCommand(agentId, options);
+
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+versionCmd
+  .command("breaking <agent>")
+  .description("List breaking changes between two versions (exits 2 if any)")
+  .requiredOption("--from <version>", "Version to compare from")
+  .option("--to <version>", "Version to compare to (defaults to current)")
+  .option("--json", "Output as JSON")
+  .action((agent: string, options: { from: string; to?: string; json?: boolean }) => {
+    const agentId = resolveAgentOption(agent)!;
+    const result = breakingChangesCommand(agentId, options);
+
+    if (!result.success) process.exit(EXIT_CODES.ERROR);
+    process.exit(result.breakingChanges === 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.CHECK_FAILED);
+  });
+
+versionCmd
+  .command("features <agent> <feature>")
+  .description("Check whether a feature is available (exits 2 if not)")
+  .option("--at <version>", "Agent version to check (defaults to current)")
+  .option("--json", "Output as JSON")
+  .action((agent: string, feature: string, options: { at?: string; json?: boolean }) => {
+    const agentId = resolveAgentOption(agent)!;
+    const result = featureCheckCommand(agentId, feature, { version: options.at, json: options.json });
+
+    if (!result.success) process.exit(EXIT_CODES.ERROR);
+    process.exit(result.available ? EXIT_CODES.SUCCESS : EXIT_CODES.CHECK_FAILED);
+  });
+
+versionCmd
+  .command("analyze <agent> <fromVersion> <toVersion>")
+  .description("Estimate migration complexity between two versions")
+  .option("--json", "Output as JSON")
+  .action((agent: string, fromVersion: string, toVersion: string, options: { json?: boolean }) => {
+    const agentId = resolveAgentOption(agent)!;
+    const result = analyzeMigrationCommand(agentId, fromVersion, toVersion, options);
+
+    process.exit(result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR);
+  });
+
+/**
+ * Validate an agent given on the command line, exiting with EXIT_CODES.ERROR
+ * when it is not a supported agent. Returns undefined when no value was given.
+ */
+function resolveAgentOption(value: string | undefined): AgentId | undefined {
+  if (value === undefined) return undefined;
+
+  if (!SUPPORTED_AGENTS.includes(value as AgentId)) {
+    console.error(chalk.red(`❌ Unsupported agent: ${value}`));
+    console.log(chalk.gray("Supported agents: " + SUPPORTED_AGENTS.join(", ")));
+    process.exit(EXIT_CODES.ERROR);
+  }
+  return value as AgentId;
 }
 
-function calculateDirTargetPath(sourceFile: string, sourceDir: string, outputDir: string, targetAgent: AgentId): string {
-  const paths = calculateDirTargetPaths(sourceFile, sourceDir, outputDir, targetAgent);
-  return paths.primary;
+/**
+ * Where .cace/lock.json lives for every command: next to .cacerc, else the
+ * working directory
+ */
+function lockRoot(): string {
+  return projectConfig.path ? dirname(projectConfig.path) : process.cwd();
 }
 
-interface DualTargetPaths {
-  primary: string;
-  secondary?: string;
+/**
+ * Record written outputs in the lock; a lock that cannot be updated is a
+ * warning, since the outputs are already on disk
+ */
+function lockOutputs(outputs: LockedOutput[]): void {
+  const warning = tryRecordOutputs(lockRoot(), outputs);
+  if (warning) {
+    console.log(chalk.yellow(`⚠️  ${warning}`));
+  }
 }
 
-function calculateDirTargetPaths(sourceFile: string, sourceDir: string, outputDir: string, targetAgent: AgentId): DualTargetPaths {
-  const relativePath = relative(sourceDir, sourceFile);
-  const baseName = basename(sourceFile, ".md");
-  const fullPath = sourceFile;
-  
-  // Map to target agent structure
-  const agentInfo = AGENTS[targetAgent];
-  const projectPath: string = agentInfo.configLocations.project || ".";
-  let targetSubdir: string = "";
-  
-  // Check if this is a skill file (in a skills subdirectory)
-  const isSkillFile = fullPath.includes("/skills/") || fullPath.includes("\\skills\\") || 
-                      relativePath.includes("/skills/") || relativePath.includes("\\skills\\") ||
-                      (relativePath.match(/^[^/]+\/SKILL\.md$/) !== null);
-  
-  if (isSkillFile) {
-    // Extract skill name from path
-    let skillName: string;
-    
-    const match1 = fullPath.match(/\/skills\/([^/]+)\//);
-    const match2 = relativePath.match(/^([^/]+)\/SKILL\.md$/);
-    const windowsMatchResult = fullPath.match(/\\skills\\([^\\]+)\\/)?. [1];
-    const windowsMatch = typeof windowsMatchResult === 'string' ? windowsMatchResult : undefined;
-    
-    if (match1 && match1[1]) {
-      skillName = match1[1];
-    } else if (match2 && match2[1]) {
-      skillName = match2[1];
-    } else if (windowsMatch) {
-      skillName = windowsMatch;
-    } else {
-      skillName = baseName;
-    }
-    
-    if (targetAgent === "windsurf") {
-      // Windsurf: Return dual paths for strategy=dual-output
-      return {
-        primary: join(outputDir, ".windsurf", "workflows", `${skillName}.md`),
-        secondary: join(outputDir, ".windsurf", "skills", skillName, "SKILL.md"),
-      };
-    } else if (targetAgent === "cursor") {
-      // Cursor: Skills are native in v2.4+ (.cursor/skills/<name>/SKILL.md).
-      // Secondary (optional) command output can preserve explicit /command workflows.
-      return {
-        primary: join(outputDir, ".cursor", "skills", skillName, "SKILL.md"),
-        secondary: join(outputDir, ".cursor", "commands", `${skillName}.md`),
-      };
-    } else if (targetAgent === "claude" || targetAgent === "opencode" || targetAgent === "codex") {
-      targetSubdir = join(projectPath, skillName);
-      return { primary: join(outputDir, targetSubdir, "SKILL.md") };
-    } else {
-      targetSubdir = join(projectPath, skillName);
-    }
-  } else if (relativePath.includes("/commands/") || relativePath.includes("\\commands\\")) {
-    // Some agents use a base config directory (e.g. .cursor) with a commands subdir.
-    if (targetAgent === "cursor") {
-      targetSubdir = join(projectPath, "commands");
-    } else {
-      targetSubdir = projectPath;
-    }
-  } else if (relativePath.includes("/rules/") || relativePath.includes("\\rules\\")) {
-    if (targetAgent === "cursor") {
-      targetSubdir = join(projectPath, "rules");
-    } else {
-      targetSubdir = projectPath;
-    }
-  } else {
-    targetSubdir = projectPath;
+/**
+ * Target agent of a single-target command: --to, else the first target in .cacerc
+ */
+function resolveTargetOption(value: string | undefined): AgentId {
+  const agent = pick(resolveAgentOption(value), configuredTargets(projectConfig)[0]);
+  if (!agent) {
+    console.error(chalk.red("❌ Target agent is required. Use --to <agent> or declare targets in .cacerc"));
+    process.exit(EXIT_CODES.ERROR);
   }
-  
-  return { primary: join(outputDir, targetSubdir, `${basename(sourceFile, ".md")}.md`) };
+  return agent;
 }
 
-function detectAgentFromContents(dir: string): AgentId | undefined {
-  // Try to detect agent by looking at file contents
-  const checkDir = (path: string, depth = 0): AgentId | undefined => {
-    if (depth > 3) return undefined;
-    
-    try {
-      const entries = readdirSync(path);
-      
-      for (const entry of entries) {
-        const fullPath = join(path, entry);
-        const stat = statSync(fullPath);
-        
-        if (stat.isDirectory()) {
-          const result = checkDir(fullPath, depth + 1);
-          if (result) return result;
-        } else if (entry.endsWith(".md")) {
-          try {
-            const content = readFileSync(fullPath, "utf-8");
-            const detected = detectAgent(content, fullPath);
-            if (detected) return detected;
-          } catch (e) {
-            // Skip unreadable files
-          }
-        }
-      }
-    } catch (e) {
-      // Skip unreadable directories
-    }
-    
-    return undefined;
-  };
-  
-  return checkDir(dir);
+/**
+ * Value of --imports, checked against the known import modes
+ */
+function resolveImportsOption(value: string | undefined): ImportMode | undefined {
+  if (value !== undefined && !IMPORT_MODES.includes(value as ImportMode)) {
+    console.error(chalk.red(`❌ Unknown import mode: ${value}. Use ${IMPORT_MODES.join(", ")}`));
+    process.exit(EXIT_CODES.ERROR);
+  }
+  return value as ImportMode | undefined;
 }
 
 // ============================================================================
@@ -1280,6 +1618,22 @@ function getScaffoldPaths(agent: AgentId, basePath: string, isUserLevel: boolean
         paths.push(".opencode/commands");
       }
       break;
+    case "continue":
+      if (isUserLevel) {
+        paths.push(join(basePath, ".continue"));
+        paths.push(join(basePath, ".continue", "rules"));
+        paths.push(join(basePath, ".continue", "prompts"));
+      } else {
+        paths.push(".continue");
+        paths.push(".continue/rules");
+        paths.push(".continue/prompts");
+      }
+      break;
+    case "aider":
+      if (!isUserLevel) {
+        paths.push(".aider/conventions");
+      }
+      break;
   }
   
   return paths;
@@ -1383,15 +1737,6 @@ function createWorkflowFromSkill(skillContent: string, spec: ComponentSpec | und
   return workflowContent;
 }
 
-function detectAgentFromPath(path: string): AgentId | null {
-  if (path.includes(".claude")) return "claude";
-  if (path.includes(".cursor")) return "cursor";
-  if (path.includes(".windsurf")) return "windsurf";
-  if (path.includes(".opencode")) return "opencode";
-  if (path.includes("AGENTS.md")) return "cursor";
-  return null;
-}
-
 function detectComponentTypeFromPath(path: string): string | null {
   if (path.includes("/skills/")) return "skill";
   if (path.includes("/workflows/")) return "workflow";
@@ -1403,6 +1748,18 @@ function detectComponentTypeFromPath(path: string): string | null {
   return null;
 }
 
+/**
+ * The project a source file belongs to: its directory, above any agent
+ * folders (.windsurf/hooks.json → .)
+ */
+function projectRootOf(source: string): string {
+  let dir = dirname(source);
+  while (/^\.[^.]/.test(basename(dir))) {
+    dir = dirname(dir);
+  }
+  return dir;
+}
+
 function generateOutputPath(source: string, targetAgent: AgentId): string {
   const sourceName = basename(source, ".md");
   const baseDir = dirname(source);
@@ -1425,4 +1782,4 @@ function generateOutputPath(source: string, targetAgent: AgentId): string {
 optimizeCommand(program);
 
 // Run the CLI
-program.parse();
+await program.parseAsync();
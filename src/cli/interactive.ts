@@ -6,12 +6,20 @@
 import { createInterface } from "readline";
 import chalk from "chalk";
 import { existsSync, readFileSync } from "fs";
+import { dirname } from "path";
 import type { AgentId } from "../core/types.js";
 import { SUPPORTED_AGENTS } from "../core/constants.js";
 import { validate } from "../validation/index.js";
 import { parseComponent } from "../parsing/parser-factory.js";
 import { renderComponent } from "../rendering/renderer-factory.js";
 import { detectAgent } from "../parsing/parser-factory.js";
+import {
+  configuredTargets,
+  findProjectConfig,
+  loadProjectConfig,
+  updateProjectConfig,
+  withDefaultTarget,
+} from "./project-config.js";
 
 interface InteractiveSession {
   history: string[];
@@ -34,6 +42,12 @@ const session: InteractiveSession = {
 export async function startInteractiveMode(): Promise<void> {
   console.clear();
   printBanner();
+
+  // Start from the project's saved settings
+  const projectConfig = await loadProjectConfig();
+  session.preferences.defaultSourceAgent = projectConfig.source;
+  session.preferences.defaultTargetAgent = configuredTargets(projectConfig)[0];
+  session.preferences.strict = projectConfig.validation?.strict ?? false;
   
   const rl = createInterface({
     input: process.stdin,
@@ -440,6 +454,7 @@ async function interactiveConfig(rl: ReturnType<typeof createInterface>): Promis
     "Toggle strict validation",
     "Set default source agent",
     "Set default target agent",
+    "Save settings to .cacerc",
     "Back to main menu",
   ];
   
@@ -479,6 +494,9 @@ async function interactiveConfig(rl: ReturnType<typeof createInterface>): Promis
       }
       break;
     case "5":
+      saveProjectPreferences();
+      break;
+    case "6":
     default:
       console.log(chalk.gray("Returning to main menu..."));
   }
@@ -486,6 +504,31 @@ async function interactiveConfig(rl: ReturnType<typeof createInterface>): Promis
   console.log();
 }
 
+/**
+ * Persist the session's defaults to the project's .cacerc (verbose mode is
+ * per session). Updates the .cacerc already in use, else creates one here.
+ */
+function saveProjectPreferences(): void {
+  const existing = findProjectConfig();
+  if (existing && !/\.cacerc$/.test(existing)) {
+    console.log(chalk.yellow(`Settings come from ${existing}; edit it to change them.`));
+    return;
+  }
+
+  const { defaultSourceAgent, defaultTargetAgent, strict } = session.preferences;
+  try {
+    const path = updateProjectConfig(existing ? dirname(existing) : process.cwd(), (config) => ({
+      ...config,
+      ...(defaultSourceAgent ? { source: defaultSourceAgent } : {}),
+      ...(defaultTargetAgent ? { targets: withDefaultTarget(config.targets, defaultTargetAgent) } : {}),
+      validation: { ...config.validation, strict },
+    }));
+    console.log(chalk.green(`Settings saved to ${path}`));
+  } catch (err) {
+    console.log(chalk.red(`❌ Could not save settings: ${err instanceof Error ? err.message : String(err)}`));
+  }
+}
+
 function showStatus(): void {
   console.log(chalk.blue.bold("\n📊 Session Status\n"));
   console.log(`  Commands entered: ${session.history.length}`);
@@ -0,0 +1,178 @@
+/**
+ * Sync lockfile - Provenance of every file CACE generated
+ *
+ * `.cace/lock.json` records, for each output, the source it came from and
+ * the hashes of both as they were at conversion time. Comparing those
+ * hashes with the files on disk tells `cace status` which outputs are
+ * stale (source changed), tampered with (output edited) or orphaned
+ * (source deleted).
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import type { AgentId, ConversionReport } from '../core/types.js';
+import { CACE_VERSION } from '../core/constants.js';
+import { getDefaultTargetVersion } from '../versioning/version-adapter.js';
+
+export const LOCK_FILE = join('.cace', 'lock.json');
+const LOCKFILE_VERSION = 1;
+
+export interface LockedLoss {
+  severity: string;
+  description: string;
+}
+
+export interface LockEntry {
+  /** Output path relative to the lock root */
+  output: string;
+  outputHash: string;
+  /** Source path relative to the lock root */
+  source: string;
+  sourceHash: string;
+  sourceAgent: AgentId;
+  targetAgent: AgentId;
+  targetVersion: string;
+  caceVersion: string;
+  /** Conversion options that affect the output (strategy, merge, ...) */
+  options: Record<string, string | boolean>;
+  /** Absent for outputs generated without a conversion report */
+  fidelityScore?: number;
+  losses: LockedLoss[];
+  generatedAt: string;
+}
+
+export interface LockFile {
+  lockfileVersion: number;
+  entries: LockEntry[];
+}
+
+export interface LockedOutput {
+  /** Output path, as given to the conversion */
+  output: string;
+  content: string;
+  source: string;
+  sourceContent: string;
+  sourceAgent: AgentId;
+  targetAgent: AgentId;
+  /** Version rendered for (default: the latest known version) */
+  targetVersion?: string;
+  options?: Record<string, string | boolean | undefined>;
+  report?: ConversionReport;
+}
+
+export type OutputIssue = 'stale' | 'tampered' | 'orphaned' | 'missing';
+
+export interface OutputStatus {
+  entry: LockEntry;
+  /** Empty when the output is up to date */
+  issues: OutputIssue[];
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function readLock(root: string): LockFile {
+  const path = join(root, LOCK_FILE);
+  if (!existsSync(path)) {
+    return { lockfileVersion: LOCKFILE_VERSION, entries: [] };
+  }
+  let lock: LockFile;
+  try {
+    lock = JSON.parse(readFileSync(path, 'utf-8')) as LockFile;
+  } catch (err) {
+    throw new Error(`Cannot read lockfile ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (lock.lockfileVersion !== LOCKFILE_VERSION) {
+    throw new Error(`Unsupported lockfile version ${lock.lockfileVersion} in ${path}`);
+  }
+  return lock;
+}
+
+/**
+ * Add or replace the entries for the given outputs
+ */
+export function recordOutputs(root: string, outputs: LockedOutput[]): LockFile {
+  const lock = readLock(root);
+  const generatedAt = new Date().toISOString();
+
+  for (const output of outputs) {
+    const entry: LockEntry = {
+      output: relative(resolve(root), resolve(output.output)),
+      outputHash: hashContent(output.content),
+      source: relative(resolve(root), resolve(output.source)),
+      sourceHash: hashContent(output.sourceContent),
+      sourceAgent: output.sourceAgent,
+      targetAgent: output.targetAgent,
+      targetVersion: output.targetVersion ?? getDefaultTargetVersion(output.targetAgent),
+      caceVersion: CACE_VERSION,
+      options: Object.fromEntries(
+        Object.entries(output.options ?? {}).filter((option): option is [string, string | boolean] => option[1] !== undefined)
+      ),
+      ...(output.report ? { fidelityScore: output.report.fidelityScore } : {}),
+      losses: (output.report?.losses ?? []).map((l) => ({ severity: l.severity, description: l.description })),
+      generatedAt,
+    };
+    lock.entries = [...lock.entries.filter((e) => e.output !== entry.output), entry];
+  }
+
+  lock.entries.sort((a, b) => a.output.localeCompare(b.output));
+  const path = join(root, LOCK_FILE);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(lock, null, 2) + '\n', 'utf-8');
+  return lock;
+}
+
+/**
+ * recordOutputs for outputs that are already written: a lockfile that
+ * cannot be read or written is returned as a warning instead of failing
+ * the conversion
+ */
+export function tryRecordOutputs(root: string, outputs: LockedOutput[]): string | undefined {
+  try {
+    recordOutputs(root, outputs);
+    return undefined;
+  } catch (err) {
+    return `${join(root, LOCK_FILE)} not updated: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+/**
+ * Drop the entries of outputs that were deleted or moved
+ */
+export function forgetOutputs(root: string, outputs: string[]): LockFile {
+  const lock = readLock(root);
+  const forgotten = new Set(outputs.map((output) => relative(resolve(root), resolve(output))));
+  const entries = lock.entries.filter((e) => !forgotten.has(e.output));
+  if (entries.length === lock.entries.length) return lock;
+
+  const updated = { ...lock, entries };
+  writeFileSync(join(root, LOCK_FILE), JSON.stringify(updated, null, 2) + '\n', 'utf-8');
+  return updated;
+}
+
+/**
+ * Compare every locked output and its source with the files on disk
+ */
+export function checkLock(root: string): OutputStatus[] {
+  return readLock(root).entries.map((entry) => {
+    const issues: OutputIssue[] = [];
+    const sourcePath = join(root, entry.source);
+    const outputPath = join(root, entry.output);
+
+    if (!existsSync(sourcePath)) {
+      issues.push('orphaned');
+    } else if (hashContent(readFileSync(sourcePath, 'utf-8')) !== entry.sourceHash) {
+      issues.push('stale');
+    }
+
+    if (!existsSync(outputPath)) {
+      issues.push('missing');
+    } else if (hashContent(readFileSync(outputPath, 'utf-8')) !== entry.outputHash) {
+      issues.push('tampered');
+    }
+
+    return { entry, issues };
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * CLI mappings command - Print the capability mapping table for a pair of
+ * agents: what happens to each capability when converting between them
+ */
+
+import chalk from 'chalk';
+import type { AgentId, CapabilityMapping, ComponentType, MappingStrategy } from '../core/types.js';
+import { AGENTS } from '../core/constants.js';
+import { formatAsJson } from '../core/output.js';
+import { CAPABILITY_FEATURES, getMappingSource, getMappings } from '../transformation/capability-mapper.js';
+
+export interface MappingsOptions {
+  json?: boolean;
+}
+
+export interface MappingRow {
+  field: string;
+  label: string;
+  /** Component types the row is limited to; undefined for all others */
+  componentTypes?: ComponentType[];
+  strategy: MappingStrategy['type'];
+  description: string;
+}
+
+const STRATEGY_COLORS: Record<MappingStrategy['type'], (text: string) => string> = {
+  direct: chalk.green,
+  transform: chalk.cyan,
+  fallback: chalk.yellow,
+  unsupported: chalk.red,
+};
+
+function describe(strategy: MappingStrategy): string {
+  switch (strategy.type) {
+    case 'direct':
+      return `kept as ${strategy.targetField}`;
+    case 'transform':
+      return strategy.description;
+    case 'fallback':
+      return strategy.warning;
+    case 'unsupported':
+      return strategy.lossDescription;
+  }
+}
+
+/**
+ * Mapping rows in capability order, scoped rows before the general one;
+ * mappings added by plugins for other fields come last
+ */
+export function mappingRows(from: AgentId, to: AgentId): MappingRow[] {
+  if (from === to) return [];
+  const mappings = getMappings(getMappingSource(from), to);
+  const labels = new Map(CAPABILITY_FEATURES.map((f) => [f.field, f.label]));
+  const order = (m: CapabilityMapping): number => {
+    const index = CAPABILITY_FEATURES.findIndex((f) => f.field === m.sourceField);
+    return (index === -1 ? CAPABILITY_FEATURES.length : index) * 2 + (m.componentTypes ? 0 : 1);
+  };
+
+  return [...mappings]
+    .sort((a, b) => order(a) - order(b))
+    .map((m) => ({
+      field: m.sourceField,
+      label: labels.get(m.sourceField) ?? m.sourceField,
+      ...(m.componentTypes ? { componentTypes: m.componentTypes } : {}),
+      strategy: m.strategy.type,
+      description: describe(m.strategy),
+    }));
+}
+
+export function mappingsCommand(
+  from: AgentId,
+  to: AgentId,
+  options: MappingsOptions
+): { success: boolean; rows: MappingRow[] } {
+  const rows = mappingRows(from, to);
+
+  if (options.json) {
+    console.log(formatAsJson({ from, to, mappings: rows }));
+    return { success: true, rows };
+  }
+
+  console.log(chalk.bold(`Capability mappings: ${AGENTS[from].displayName} → ${AGENTS[to].displayName}`));
+  if (from === to) {
+    console.log(chalk.gray('Same agent: every capability is kept'));
+    return { success: true, rows };
+  }
+  if (rows.length === 0) {
+    console.log(chalk.gray('No mappings'));
+    return { success: true, rows };
+  }
+
+  let field: string | undefined;
+  for (const row of rows) {
+    if (row.field !== field) {
+      field = row.field;
+      console.log(`\n  ${row.label} ${chalk.gray(`(${row.field})`)}`);
+    }
+    const scope = row.componentTypes ? `${row.componentTypes.join(', ')}: ` : '';
+    console.log(`    ${STRATEGY_COLORS[row.strategy](row.strategy.padEnd(11))} ${chalk.gray(scope)}${row.description}`);
+  }
+  return { success: true, rows };
+}
@@ -0,0 +1,298 @@
+/**
+ * CLI matrix command - Render every component in a directory for every agent
+ * and tabulate fidelity, critical losses and validation status, so it is
+ * clear at a glance which components are safe to ship to which tools
+ */
+
+import { readFileSync, writeFileSync, existsSync, statSync } from 'node:fs';
+import { relative } from 'node:path';
+import chalk from 'chalk';
+import type { AgentId, ComponentSpec, ComponentType, RenderResult } from '../core/types.js';
+import { AGENTS } from '../core/constants.js';
+import { formatAsJson } from '../core/output.js';
+import { detectAgent, parseComponent } from '../parsing/parser-factory.js';
+import { getSupportedRenderers } from '../rendering/renderer-factory.js';
+import { transformSpec } from '../transformation/transformer.js';
+import { validate, type ValidationResult } from '../validation/index.js';
+import { findConvertibleFiles } from './convert-dir.js';
+
+export type MatrixFormat = 'markdown' | 'html' | 'json';
+
+export const MATRIX_FORMATS: MatrixFormat[] = ['markdown', 'html', 'json'];
+
+/** Fidelity a rendering needs to count as safe to ship */
+export const DEFAULT_MIN_FIDELITY = 80;
+
+export interface MatrixOptions {
+  /** Source agent of every file (default: detected per file) */
+  from?: AgentId;
+  /** Source agent of files whose agent cannot be detected (source in .cacerc) */
+  defaultFrom?: AgentId;
+  /** Agents to render for (default: every agent with a renderer) */
+  to?: AgentId[];
+  /** Versions to render and validate each agent for */
+  targetVersions?: Partial<Record<AgentId, string>>;
+  include?: string[];
+  exclude?: string[];
+  strict?: boolean;
+  minFidelity?: number;
+  format?: MatrixFormat;
+  /** File to write the matrix to (default: stdout) */
+  output?: string;
+}
+
+/**
+ * valid / warnings: the validator accepted the output;
+ * unvalidated: no validator exists for the agent and component type
+ */
+export type MatrixValidation = 'valid' | 'warnings' | 'invalid' | 'unvalidated';
+
+export interface MatrixCell {
+  agent: AgentId;
+  rendered: boolean;
+  fidelityScore?: number;
+  criticalLosses: number;
+  /** Descriptions of the warning and critical losses */
+  losses: string[];
+  validation?: MatrixValidation;
+  /** Render errors and validation errors */
+  errors: string[];
+  safe: boolean;
+}
+
+export interface MatrixRow {
+  /** Path relative to the matrix directory */
+  file: string;
+  id?: string;
+  componentType?: ComponentType;
+  sourceAgent?: AgentId;
+  /** Why the file could not be parsed; the row then has no cells */
+  error?: string;
+  cells: MatrixCell[];
+}
+
+export interface CompatibilityMatrix {
+  dir: string;
+  agents: AgentId[];
+  minFidelity: number;
+  rows: MatrixRow[];
+}
+
+function validationStatus(result: ValidationResult): MatrixValidation {
+  if (result.issues.some((issue) => issue.code === 'VALIDATOR_NOT_FOUND')) return 'unvalidated';
+  if (!result.valid) return 'invalid';
+  return result.warnings.length > 0 ? 'warnings' : 'valid';
+}
+
+/**
+ * Render one component for one agent and validate the output
+ */
+export function matrixCell(spec: ComponentSpec, agent: AgentId, options: MatrixOptions = {}): MatrixCell {
+  const targetVersion = options.targetVersions?.[agent];
+  let result: RenderResult;
+  try {
+    result = transformSpec(spec, agent, { targetVersion });
+  } catch (err) {
+    // One renderer failing on a component should not hide the rest of the matrix
+    const message = err instanceof Error ? err.message : String(err);
+    return { agent, rendered: false, criticalLosses: 0, losses: [], errors: [message], safe: false };
+  }
+  if (!result.success || result.content === undefined) {
+    const errors = result.errors.length > 0 ? result.errors : ['Render failed'];
+    return { agent, rendered: false, criticalLosses: 0, losses: [], errors, safe: false };
+  }
+
+  const losses = result.report?.losses ?? [];
+  const componentType = result.report?.target.componentType ?? spec.componentType;
+  const validation = validate(result.content, agent, componentType, { version: targetVersion, strict: options.strict });
+  const status = validationStatus(validation);
+  const fidelityScore = result.report?.fidelityScore;
+  const criticalLosses = losses.filter((loss) => loss.severity === 'critical').length;
+
+  return {
+    agent,
+    rendered: true,
+    ...(fidelityScore !== undefined ? { fidelityScore } : {}),
+    criticalLosses,
+    losses: losses.filter((loss) => loss.severity !== 'info').map((loss) => loss.description),
+    validation: status,
+    errors: status === 'invalid' ? validation.issues.map((issue) => issue.message) : [],
+    safe: criticalLosses === 0
+      && status !== 'invalid'
+      && (fidelityScore ?? 0) >= (options.minFidelity ?? DEFAULT_MIN_FIDELITY),
+  };
+}
+
+/**
+ * Parse every convertible file under dir and render it for each agent
+ */
+export function buildMatrix(dir: string, options: MatrixOptions = {}): CompatibilityMatrix {
+  const agents = options.to ?? getSupportedRenderers();
+  const files = findConvertibleFiles(dir, { recursive: true, include: options.include, exclude: options.exclude });
+
+  const rows = files.sort().map((file): MatrixRow => {
+    const path = relative(dir, file);
+    const content = readFileSync(file, 'utf-8');
+    const agentId = options.from ?? (detectAgent(content, file) ? undefined : options.defaultFrom);
+    const parsed = parseComponent(content, { sourceFile: file, agentId });
+    if (!parsed.success || !parsed.spec) {
+      return { file: path, error: parsed.errors.join('; ') || 'Parse failed', cells: [] };
+    }
+
+    const spec = parsed.spec;
+    return {
+      file: path,
+      id: spec.id,
+      componentType: spec.componentType,
+      ...(spec.sourceAgent ? { sourceAgent: spec.sourceAgent.id } : {}),
+      cells: agents.map((agent) => matrixCell(spec, agent, options)),
+    };
+  });
+
+  return { dir, agents, minFidelity: options.minFidelity ?? DEFAULT_MIN_FIDELITY, rows };
+}
+
+/** Safe cells per agent, out of the components that parsed */
+function safeCounts(matrix: CompatibilityMatrix): Array<[AgentId, number, number]> {
+  const parsed = matrix.rows.filter((row) => !row.error);
+  return matrix.agents.map((agent, i) => [
+    agent,
+    parsed.filter((row) => row.cells[i]?.safe).length,
+    parsed.length,
+  ]);
+}
+
+function cellIcon(cell: MatrixCell): string {
+  if (!cell.rendered || cell.validation === 'invalid' || cell.criticalLosses > 0) return '❌';
+  return cell.safe ? '✅' : '⚠️';
+}
+
+function cellText(cell: MatrixCell): string {
+  if (!cell.rendered) return '❌ not rendered';
+  const parts = [`${cellIcon(cell)} ${cell.fidelityScore ?? '?'}`];
+  if (cell.criticalLosses > 0) parts.push(`${cell.criticalLosses} critical`);
+  if (cell.validation === 'invalid' || cell.validation === 'unvalidated') parts.push(cell.validation);
+  return parts.join(' · ');
+}
+
+export function formatMatrixMarkdown(matrix: CompatibilityMatrix): string {
+  const names = matrix.agents.map((agent) => AGENTS[agent].displayName);
+  const escape = (text: string): string => text.replace(/\|/g, '\\|');
+  const lines = [
+    '# Compatibility matrix',
+    '',
+    `Components in \`${matrix.dir}\` rendered for each agent: fidelity score, critical losses and validation status.`,
+    `✅ safe to ship (fidelity ≥ ${matrix.minFidelity}, no critical losses, valid) · ⚠️ review the losses · ❌ not usable as is`,
+    '',
+    `| Component | Type | ${names.join(' | ')} |`,
+    `| --- | --- | ${names.map(() => '---').join(' | ')} |`,
+  ];
+
+  for (const row of matrix.rows) {
+    if (row.error) {
+      lines.push(`| ${escape(row.file)} | — | ${escape(`Parse error: ${row.error}`)} |${' |'.repeat(names.length - 1)}`);
+    } else {
+      lines.push(`| ${escape(row.file)} | ${row.componentType} | ${row.cells.map(cellText).join(' | ')} |`);
+    }
+  }
+  lines.push(`| **Safe to ship** | | ${safeCounts(matrix).map(([, safe, total]) => `${safe}/${total}`).join(' | ')} |`);
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function cellClass(cell: MatrixCell): string {
+  if (cell.safe) return 'safe';
+  return cellIcon(cell) === '❌' ? 'unsafe' : 'review';
+}
+
+export function formatMatrixHtml(matrix: CompatibilityMatrix): string {
+  const head = matrix.agents.map((agent) => `<th>${escapeHtml(AGENTS[agent].displayName)}</th>`).join('');
+  const body = matrix.rows.map((row) => {
+    const file = `<th scope="row">${escapeHtml(row.file)}</th>`;
+    if (row.error) {
+      return `<tr>${file}<td>—</td><td class="unsafe" colspan="${matrix.agents.length}">Parse error: ${escapeHtml(row.error)}</td></tr>`;
+    }
+    const cells = row.cells.map((cell) => {
+      const details = [...cell.losses, ...cell.errors];
+      const title = details.length > 0 ? ` title="${escapeHtml(details.join('\n'))}"` : '';
+      return `<td class="${cellClass(cell)}"${title}>${escapeHtml(cellText(cell))}</td>`;
+    }).join('');
+    return `<tr>${file}<td>${row.componentType}</td>${cells}</tr>`;
+  });
+  const totals = safeCounts(matrix).map(([, safe, total]) => `<td>${safe}/${total}</td>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Compatibility matrix</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 0.4rem 0.6rem; text-align: left; }
+  td.safe { background: #e6f4ea; }
+  td.review { background: #fef7e0; }
+  td.unsafe { background: #fce8e6; }
+  tfoot { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Compatibility matrix</h1>
+<p>Components in <code>${escapeHtml(matrix.dir)}</code> rendered for each agent. Safe to ship: fidelity ≥ ${matrix.minFidelity}, no critical losses and valid output. Hover a cell for its losses.</p>
+<table>
+<thead><tr><th>Component</th><th>Type</th>${head}</tr></thead>
+<tbody>
+${body.join('\n')}
+</tbody>
+<tfoot><tr><th scope="row">Safe to ship</th><td></td>${totals}</tr></tfoot>
+</table>
+</body>
+</html>
+`;
+}
+
+export function formatMatrix(matrix: CompatibilityMatrix, format: MatrixFormat): string {
+  switch (format) {
+    case 'markdown':
+      return formatMatrixMarkdown(matrix);
+    case 'html':
+      return formatMatrixHtml(matrix);
+    case 'json':
+      return formatAsJson(matrix) + '\n';
+  }
+}
+
+export function matrixCommand(
+  dir: string,
+  options: MatrixOptions
+): { success: boolean; matrix?: CompatibilityMatrix } {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    console.error(chalk.red(`❌ Directory not found: ${dir}`));
+    return { success: false };
+  }
+
+  const matrix = buildMatrix(dir, options);
+  if (matrix.rows.length === 0) {
+    console.error(chalk.yellow(`⚠️  No components found in ${dir}`));
+    return { success: false, matrix };
+  }
+
+  const text = formatMatrix(matrix, options.format ?? 'markdown');
+  if (options.output) {
+    writeFileSync(options.output, text);
+    const cells = matrix.rows.reduce((n, row) => n + row.cells.length, 0);
+    const safe = matrix.rows.reduce((n, row) => n + row.cells.filter((cell) => cell.safe).length, 0);
+    console.log(chalk.green(`✓ Wrote ${options.output}`) + chalk.gray(` (${matrix.rows.length} components × ${matrix.agents.length} agents, ${safe}/${cells} safe)`));
+  } else {
+    process.stdout.write(text);
+  }
+  return { success: true, matrix };
+}
@@ -0,0 +1,431 @@
+/**
+ * CLI memory command - Compute the effective memory an agent loads in a
+ * directory: every CLAUDE.md / AGENTS.md / GEMINI.md that applies, from the
+ * system and user files down to the directory itself, merged in the order
+ * the agent loads them, with each section traced back to its file
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import type { AgentId, ComponentSpec, ConversionLoss, ExtendedComponentFields, ScopeLevel } from '../core/types.js';
+import { createDefaultCapabilities } from '../core/types.js';
+import { AGENTS, DEFAULT_VERSION } from '../core/constants.js';
+import { formatAsJson } from '../core/output.js';
+import { NATIVE_IMPORT_AGENTS, extractImports, inlineImports } from '../core/memory-imports.js';
+import { resolveImports } from '../parsing/memory/import-resolver.js';
+import { getTargetPath, renderComponent } from '../rendering/renderer-factory.js';
+
+/**
+ * Where an agent looks for memory files. Files are loaded in the order
+ * system, user, then each directory from the outermost down to the working
+ * directory (project files, then local ones); later files are more specific
+ * and take precedence.
+ */
+export interface MemoryLayout {
+  /** System-wide (managed) memory files */
+  system?: string[];
+  /** Memory files relative to the home directory */
+  user?: string[];
+  /** Memory file names looked for in each directory */
+  project: string[];
+  /** Personal, untracked memory file names looked for in each directory */
+  local?: string[];
+  /** Only the first user file, and the first project file in each directory, is read */
+  firstMatch?: boolean;
+  /** Search up to the filesystem root, or up to the enclosing git repository */
+  upTo: 'root' | 'git';
+}
+
+const CLAUDE_SYSTEM_MEMORY =
+  process.platform === 'darwin' ? '/Library/Application Support/ClaudeCode/CLAUDE.md'
+  : process.platform === 'win32' ? 'C:/ProgramData/ClaudeCode/CLAUDE.md'
+  : '/etc/claude-code/CLAUDE.md';
+
+export const MEMORY_LAYOUTS: Partial<Record<AgentId, MemoryLayout>> = {
+  claude: {
+    system: [CLAUDE_SYSTEM_MEMORY],
+    user: ['.claude/CLAUDE.md'],
+    project: ['CLAUDE.md', '.claude/CLAUDE.md'],
+    local: ['CLAUDE.local.md'],
+    upTo: 'root',
+  },
+  gemini: {
+    user: ['.gemini/GEMINI.md'],
+    project: ['GEMINI.md'],
+    upTo: 'git',
+  },
+  codex: {
+    user: ['.codex/AGENTS.override.md', '.codex/AGENTS.md'],
+    project: ['AGENTS.override.md', 'AGENTS.md'],
+    firstMatch: true,
+    upTo: 'git',
+  },
+  opencode: {
+    user: ['.config/opencode/AGENTS.md', '.claude/CLAUDE.md'],
+    project: ['AGENTS.md', 'CLAUDE.md'],
+    firstMatch: true,
+    upTo: 'git',
+  },
+  windsurf: {
+    user: ['.codeium/windsurf/memories/global_rules.md'],
+    project: ['AGENTS.md'],
+    upTo: 'git',
+  },
+  cursor: {
+    project: ['AGENTS.md'],
+    upTo: 'git',
+  },
+  universal: {
+    project: ['AGENTS.md'],
+    upTo: 'git',
+  },
+};
+
+/** The project memory file of each agent whose memory is plain markdown */
+export const MEMORY_FILES: Partial<Record<AgentId, string>> = {
+  claude: 'CLAUDE.md',
+  gemini: 'GEMINI.md',
+  codex: 'AGENTS.md',
+  opencode: 'AGENTS.md',
+  windsurf: 'AGENTS.md',
+  cursor: 'AGENTS.md',
+  universal: 'AGENTS.md',
+  aider: 'CONVENTIONS.md',
+};
+
+export interface MemoryDiscoveryOptions {
+  /** Home directory for user memory (default: the current user's) */
+  home?: string;
+  /** Directory system-wide paths are relative to (default: the filesystem root) */
+  systemRoot?: string;
+}
+
+export interface MemoryFile {
+  path: string;
+  scope: ScopeLevel;
+}
+
+export interface EffectiveSection {
+  /** Heading text; empty for the text before a file's first heading */
+  title: string;
+  /** Heading level; 0 for the text before a file's first heading */
+  level: number;
+  content: string;
+  /** File the section comes from */
+  source: string;
+  scope: ScopeLevel;
+  /** Later file with a section of the same title, which takes precedence */
+  overriddenBy?: string;
+}
+
+export interface EffectiveMemory {
+  agent: AgentId;
+  dir: string;
+  /** Memory files in load order */
+  files: MemoryFile[];
+  sections: EffectiveSection[];
+  /** The files merged into one document, each marked with its source */
+  content: string;
+  /** Imports that could not be loaded */
+  warnings: string[];
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Directories searched for project memory, outermost first
+ */
+function projectDirs(dir: string, upTo: MemoryLayout['upTo']): string[] {
+  const dirs: string[] = [];
+  let current = resolve(dir);
+  for (;;) {
+    const parent = dirname(current);
+    // Claude Code stops below the filesystem root
+    if (parent === current) break;
+    dirs.unshift(current);
+    if (upTo === 'git' && existsSync(join(current, '.git'))) return dirs;
+    current = parent;
+  }
+  // Outside a git repository only the directory itself is searched
+  return upTo === 'git' ? [resolve(dir)] : dirs;
+}
+
+/**
+ * Memory files the agent loads in dir, in load order
+ */
+export function discoverMemoryFiles(
+  dir: string,
+  agent: AgentId,
+  options: MemoryDiscoveryOptions = {}
+): MemoryFile[] {
+  const layout = MEMORY_LAYOUTS[agent];
+  if (!layout) return [];
+
+  const files: MemoryFile[] = [];
+  const add = (candidates: string[], scope: ScopeLevel, firstMatch = false): void => {
+    for (const path of candidates) {
+      if (!isFile(path) || files.some((file) => file.path === path)) continue;
+      files.push({ path, scope });
+      if (firstMatch) return;
+    }
+  };
+
+  const systemRoot = options.systemRoot ?? '/';
+  add((layout.system ?? []).map((path) => resolve(systemRoot, path.replace(/^\//, ''))), 'system');
+  add((layout.user ?? []).map((path) => join(options.home ?? homedir(), path)), 'user', layout.firstMatch);
+  for (const current of projectDirs(dir, layout.upTo)) {
+    add(layout.project.map((name) => join(current, name)), 'project', layout.firstMatch);
+    add((layout.local ?? []).map((name) => join(current, name)), 'local');
+  }
+  return files;
+}
+
+/**
+ * Split markdown into sections at headings outside code blocks
+ */
+function splitSections(content: string): Array<Pick<EffectiveSection, 'title' | 'level' | 'content'>> {
+  const sections = [{ title: '', level: 0, lines: [] as string[] }];
+  let fence: string | undefined;
+
+  for (const line of content.split('\n')) {
+    const marker = line.match(/^\s*(```|~~~)/)?.[1];
+    if (marker && (!fence || marker === fence)) fence = fence ? undefined : marker;
+    const heading = fence ? null : line.match(/^(#{1,6})\s+(.+)$/);
+    if (heading?.[1] && heading[2]) {
+      sections.push({ title: heading[2].trim(), level: heading[1].length, lines: [] });
+    } else {
+      sections[sections.length - 1]!.lines.push(line);
+    }
+  }
+
+  return sections
+    .map(({ title, level, lines }) => ({ title, level, content: lines.join('\n').trim() }))
+    .filter((section) => section.level > 0 || section.content);
+}
+
+/**
+ * Path as shown to the user: project and local files relative to dir,
+ * user files under ~
+ */
+function displayPath(file: MemoryFile, dir: string, home: string): string {
+  switch (file.scope) {
+    case 'system':
+      return file.path;
+    case 'user':
+      return join('~', relative(home, file.path));
+    default:
+      return relative(resolve(dir), file.path);
+  }
+}
+
+/**
+ * Discover and merge the memory the agent loads in dir. For agents that
+ * resolve @imports, the imported files are inlined as the agent sees them.
+ */
+export function buildEffectiveMemory(
+  dir: string,
+  agent: AgentId,
+  options: MemoryDiscoveryOptions = {}
+): EffectiveMemory {
+  const home = options.home ?? homedir();
+  const files = discoverMemoryFiles(dir, agent, options);
+  const sections: EffectiveSection[] = [];
+  const parts: string[] = [];
+  const warnings: string[] = [];
+
+  for (const file of files) {
+    const source = displayPath(file, dir, home);
+    let content = readFileSync(file.path, 'utf-8');
+    if (NATIVE_IMPORT_AGENTS.includes(agent)) {
+      const resolved = resolveImports(extractImports(content), file.path);
+      content = inlineImports(content, resolved.imports);
+      warnings.push(...resolved.warnings.map((warning) => `${source}: ${warning}`));
+    }
+
+    for (const section of splitSections(content)) {
+      if (section.title) {
+        for (const earlier of sections) {
+          if (earlier.title === section.title && earlier.source !== source) earlier.overriddenBy = source;
+        }
+      }
+      sections.push({ ...section, source, scope: file.scope });
+    }
+    parts.push(`<!-- From ${source} (${file.scope}) -->\n${content.trim()}\n`);
+  }
+
+  return { agent, dir, files, sections, content: parts.join('\n'), warnings };
+}
+
+/**
+ * The effective memory as a memory component, for renderers
+ */
+function effectiveMemorySpec(memory: EffectiveMemory): ComponentSpec {
+  const spec: ComponentSpec & ExtendedComponentFields = {
+    id: 'effective-memory',
+    version: DEFAULT_VERSION,
+    sourceAgent: { id: memory.agent },
+    componentType: 'memory',
+    category: ['context', 'instructions'],
+    intent: {
+      summary: `Effective ${AGENTS[memory.agent].displayName} memory`,
+      purpose: 'Provide project context and instructions',
+      whenToUse: 'Always loaded',
+    },
+    activation: { mode: 'auto', safetyLevel: 'safe' },
+    invocation: { userInvocable: false },
+    execution: { context: 'main' },
+    body: memory.content,
+    capabilities: createDefaultCapabilities(),
+    metadata: {},
+    memorySpec: { scope: 'project', hierarchical: false, sections: memory.sections },
+  };
+  return spec;
+}
+
+export interface MemoryExport {
+  agent: AgentId;
+  /** Path relative to the export directory */
+  path: string;
+  content: string;
+  losses: ConversionLoss[];
+}
+
+/**
+ * Lay the effective memory out as the target agent's project memory file
+ */
+export function exportEffectiveMemory(memory: EffectiveMemory, target: AgentId): MemoryExport {
+  const losses: ConversionLoss[] = [];
+  const personal = memory.files.filter((file) => file.scope !== 'project');
+  if (personal.length > 0) {
+    losses.push({
+      category: 'content',
+      severity: 'info',
+      description: `${personal.length} ${personal.map((file) => file.scope).join('/')} memory file(s) merged into the project file; everyone using it gets them`,
+      sourceField: 'memorySpec.scope',
+      recommendation: 'Remove personal instructions before committing the exported file',
+    });
+  }
+
+  const file = MEMORY_FILES[target];
+  if (file) {
+    return { agent: target, path: file, content: memory.content, losses };
+  }
+
+  const spec = effectiveMemorySpec(memory);
+  const result = renderComponent(spec, target);
+  if (!result.success || result.content === undefined) {
+    throw new Error(result.errors.join('; ') || `Cannot export memory to ${AGENTS[target].displayName}`);
+  }
+  return {
+    agent: target,
+    path: getTargetPath(spec, target).replace(/^\.\//, ''),
+    content: result.content,
+    losses: [...losses, ...(result.report?.losses ?? [])],
+  };
+}
+
+export interface MemoryEffectiveOptions extends MemoryDiscoveryOptions {
+  /** Print the merged memory instead of its sources */
+  content?: boolean;
+  /** Agent to export the effective memory to */
+  to?: AgentId;
+  /** Directory to write the export to (default: dir) */
+  output?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+const SCOPE_COLORS: Record<ScopeLevel, (text: string) => string> = {
+  system: chalk.magenta,
+  user: chalk.cyan,
+  project: chalk.green,
+  local: chalk.yellow,
+};
+
+function printSources(memory: EffectiveMemory, home: string): void {
+  const name = AGENTS[memory.agent].displayName;
+  console.log(chalk.bold(`\nEffective ${name} memory in ${memory.dir}\n`));
+  console.log(chalk.gray('Files, in load order (later files take precedence):'));
+  memory.files.forEach((file, i) => {
+    console.log(`  ${i + 1}. ${SCOPE_COLORS[file.scope](file.scope.padEnd(7))} ${displayPath(file, memory.dir, home)}`);
+  });
+
+  console.log(chalk.gray('\nSections:'));
+  for (const section of memory.sections) {
+    const heading = section.level > 0 ? `${'#'.repeat(section.level)} ${section.title}` : '(intro)';
+    const overridden = section.overriddenBy ? chalk.yellow(` (overridden by ${section.overriddenBy})`) : '';
+    console.log(`  ${heading} ${chalk.gray(`← ${section.source}`)}${overridden}`);
+  }
+}
+
+export function memoryEffectiveCommand(
+  dir: string,
+  agent: AgentId,
+  options: MemoryEffectiveOptions
+): { success: boolean; memory?: EffectiveMemory; exported?: MemoryExport } {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    console.error(chalk.red(`❌ Directory not found: ${dir}`));
+    return { success: false };
+  }
+  if (!MEMORY_LAYOUTS[agent]) {
+    const supported = Object.keys(MEMORY_LAYOUTS).join(', ');
+    console.error(chalk.red(`❌ ${AGENTS[agent].displayName} has no hierarchical memory files. Use one of: ${supported}`));
+    return { success: false };
+  }
+
+  const memory = buildEffectiveMemory(dir, agent, options);
+  if (memory.files.length === 0) {
+    console.error(chalk.yellow(`⚠️  ${AGENTS[agent].displayName} loads no memory files in ${dir}`));
+    return { success: false, memory };
+  }
+
+  let exported: MemoryExport | undefined;
+  if (options.to) {
+    try {
+      exported = exportEffectiveMemory(memory, options.to);
+    } catch (err) {
+      console.error(chalk.red(`❌ ${err instanceof Error ? err.message : String(err)}`));
+      return { success: false, memory };
+    }
+  }
+
+  const exportPath = exported && resolve(options.output ?? dir, exported.path);
+  if (exportPath && !options.dryRun && memory.files.some((file) => file.path === exportPath)) {
+    console.error(chalk.red(`❌ Exporting would overwrite ${exportPath}, one of the merged files. Use --output to write elsewhere`));
+    return { success: false, memory };
+  }
+  if (exported && exportPath && !options.dryRun) {
+    mkdirSync(dirname(exportPath), { recursive: true });
+    writeFileSync(exportPath, exported.content);
+  }
+
+  if (options.json) {
+    console.log(formatAsJson(exported ? { ...memory, exported } : memory));
+  } else if (exported) {
+    if (options.dryRun) {
+      console.log(chalk.cyan(`--- ${exportPath} ---`));
+      process.stdout.write(exported.content);
+    } else {
+      console.log(chalk.green(`✓ Wrote ${exportPath}`) + chalk.gray(` (${memory.files.length} files, ${memory.sections.length} sections)`));
+    }
+    for (const loss of exported.losses) {
+      console.log(chalk.yellow(`  ⚠ ${loss.description}`));
+    }
+  } else if (options.content) {
+    process.stdout.write(memory.content);
+  } else {
+    printSources(memory, options.home ?? homedir());
+  }
+  for (const warning of memory.warnings) {
+    console.error(chalk.yellow(`⚠️  ${warning}`));
+  }
+  return { success: true, memory, ...(exported ? { exported } : {}) };
+}
@@ -0,0 +1,107 @@
+/**
+ * Merge mode for convert-dir - Keep hand edits of generated files across re-conversion
+ *
+ * Every generated file is recorded under `<output>/.cace/base/` exactly as
+ * it was rendered. With `--merge`, a target the user has edited since then
+ * is three-way merged: the recorded render is the base, the edited file is
+ * "ours" and the new render is "theirs".
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import type { AgentId } from '../core/types.js';
+import { diffSpecs } from '../core/diff.js';
+import { mergeThreeWay } from '../core/merge.js';
+import { parseComponent } from '../parsing/parser-factory.js';
+
+export const GENERATED_BASE_DIR = join('.cace', 'base');
+
+export type GeneratedWriteStatus = 'created' | 'updated' | 'unchanged' | 'merged' | 'conflict';
+
+export interface GeneratedWriteOptions {
+  /** Output root; the base copies live under it */
+  outputDir: string;
+  agent: AgentId;
+  merge?: boolean;
+  dryRun?: boolean;
+}
+
+export interface GeneratedWriteResult {
+  path: string;
+  status: GeneratedWriteStatus;
+  /** Content written to the target (the merge result when merged) */
+  content: string;
+  conflicts: number;
+  /** IR fields the user changed in the previous output (e.g. `body`, `intent.summary`) */
+  overriddenFields: string[];
+}
+
+export function generatedBasePath(targetPath: string, outputDir: string): string {
+  return join(outputDir, GENERATED_BASE_DIR, relative(outputDir, targetPath));
+}
+
+/**
+ * Write a rendered file, merging it with local edits when requested, and
+ * record the render as the base for the next merge
+ */
+export function writeGeneratedFile(
+  targetPath: string,
+  content: string,
+  options: GeneratedWriteOptions
+): GeneratedWriteResult {
+  const basePath = generatedBasePath(targetPath, options.outputDir);
+  const existing = existsSync(targetPath) ? readFileSync(targetPath, 'utf-8') : undefined;
+  const base = existsSync(basePath) ? readFileSync(basePath, 'utf-8') : undefined;
+
+  let result: GeneratedWriteResult;
+  let output = content;
+  // Conflicts from an earlier merge are still in the file: leave it alone
+  // until they are resolved, when the new render is already the base
+  const unresolved = options.merge && existing !== undefined ? countConflictMarkers(existing) : 0;
+  if (existing !== undefined && unresolved > 0) {
+    return { path: targetPath, status: 'conflict', content: existing, conflicts: unresolved, overriddenFields: [] };
+  }
+  if (existing === undefined) {
+    result = { path: targetPath, status: 'created', content, conflicts: 0, overriddenFields: [] };
+  } else if (existing === content) {
+    result = { path: targetPath, status: 'unchanged', content, conflicts: 0, overriddenFields: [] };
+  } else if (!options.merge || existing === base) {
+    result = { path: targetPath, status: 'updated', content, conflicts: 0, overriddenFields: [] };
+  } else {
+    // Without a recorded base both versions are new, so every difference conflicts
+    const merged = mergeThreeWay(base ?? '', existing, content);
+    output = merged.content;
+    result = {
+      path: targetPath,
+      status: merged.clean ? 'merged' : 'conflict',
+      content: merged.content,
+      conflicts: merged.conflicts.length,
+      overriddenFields: base !== undefined ? localOverrides(base, existing, options.agent, targetPath) : [],
+    };
+  }
+
+  if (!options.dryRun) {
+    mkdirSync(dirname(targetPath), { recursive: true });
+    writeFileSync(targetPath, output, 'utf-8');
+    mkdirSync(dirname(basePath), { recursive: true });
+    writeFileSync(basePath, content, 'utf-8');
+  }
+  return result;
+}
+
+/**
+ * Conflicts a merge left in a file, counted by their `<<<<<<<` markers
+ */
+function countConflictMarkers(content: string): number {
+  return content.match(/^<{7} /gm)?.length ?? 0;
+}
+
+/**
+ * IR fields that differ between the recorded render and the edited file
+ */
+function localOverrides(base: string, edited: string, agent: AgentId, sourceFile: string): string[] {
+  const baseSpec = parseComponent(base, { agentId: agent, sourceFile }).spec;
+  const editedSpec = parseComponent(edited, { agentId: agent, sourceFile }).spec;
+  if (!baseSpec || !editedSpec) return [];
+  return diffSpecs(baseSpec, editedSpec).diffs.map((d) => d.path);
+}
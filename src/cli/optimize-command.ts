@@ -17,6 +17,7 @@ import { validate } from "../validation/index.js";
 import { getParser } from "../parsing/parser-factory.js";
 import { OptimizerFactory } from "../optimization/optimizer-core.js";
 import { ClaudeSourceOptimizer } from "../optimization/optimizers/claude-source-optimizer.js";
+import { configuredTargets, loadProjectConfig, pick } from "./project-config.js";
 
 // Register optimizers
 OptimizerFactory.register(new ClaudeSourceOptimizer());
@@ -25,15 +26,21 @@ export function optimizeCommand(program: Command): void {
   program
     .command("optimize <source>")
     .description("LLM-assisted optimization of converted agent components")
-    .requiredOption("-f, --from <agent>", "Source agent (original)")
-    .option("-r, --risk <level>", "Risk level (safe, medium, high, dangerous)", "safe")
+    .option("-f, --from <agent>", "Source agent (original; default: .cacerc source)")
+    .option("-r, --risk <level>", "Risk level (safe, medium, high, dangerous; default: .cacerc optimize.risk, else safe)")
     .option("-d, --dry-run", "Preview changes without applying")
     .option("-a, --apply", "Apply optimization (required for non-safe modes)")
     .option("--no-preserve", "Allow structural changes")
     .option("-o, --output <path>", "Output file (defaults to in-place)")
     .option("-v, --verbose", "Show detailed optimization info")
     .action(async (source: string, options) => {
-      const riskLevel = options.risk as import("../optimization/optimizer-core.js").RiskLevel;
+      const projectConfig = await loadProjectConfig();
+      const riskLevel = pick<string>(options.risk, projectConfig.optimize?.risk, "safe") as import("../optimization/optimizer-core.js").RiskLevel;
+      const sourceAgent = pick<string>(options.from, projectConfig.source);
+      if (!sourceAgent) {
+        console.error(chalk.red("❌ Source agent is required. Use --from <agent> or set source in .cacerc"));
+        process.exit(1);
+      }
       
       // Validate risk level
       const validRiskLevels = ["safe", "medium", "high", "dangerous"];
@@ -83,7 +90,7 @@ export function optimizeCommand(program: Command): void {
       }
 
       // Detect agents
-      const fromAgent = options.from as AgentId;
+      const fromAgent = sourceAgent as AgentId;
       const toAgent = detectTargetAgent(source);
       
       if (!SUPPORTED_AGENTS.includes(fromAgent)) {
@@ -264,21 +271,30 @@ export function optimizeCommand(program: Command): void {
   program
     .command("convert-optimize <source>")
     .description("Convert and immediately optimize (one-step)")
-    .requiredOption("-t, --to <agent>", "Target agent")
+    .option("-t, --to <agent>", "Target agent (default: first target in .cacerc)")
     .option("-f, --from <agent>", "Source agent (auto-detected)")
-    .option("-r, --risk <level>", "Optimization risk level", "safe")
+    .option("-r, --risk <level>", "Optimization risk level (default: .cacerc optimize.risk, else safe)")
     .option("--no-optimize", "Skip optimization step")
     .option("-o, --output <path>", "Output file")
     .option("-v, --verbose", "Verbose output")
     .action(async (source: string, options) => {
+      const projectConfig = await loadProjectConfig();
+      const to = pick<string>(options.to, configuredTargets(projectConfig)[0]);
+      const from = pick<string>(options.from, projectConfig.source);
+      const risk = pick<string>(options.risk, projectConfig.optimize?.risk, "safe");
+      if (!to) {
+        console.error(chalk.red("❌ Target agent is required. Use --to <agent> or declare targets in .cacerc"));
+        process.exit(1);
+      }
+
       // First run convert
       console.log(chalk.blue("Step 1: Converting..."));
       
       // Import convert logic
       const { convertFile } = await import("./convert.js");
       const convertResult = await convertFile(source, {
-        to: options.to,
-        from: options.from,
+        to: to as AgentId,
+        from: from as AgentId | undefined,
         output: options.output,
         verbose: options.verbose
       });
@@ -304,8 +320,8 @@ export function optimizeCommand(program: Command): void {
       if (optimizeCmd) {
         await optimizeCmd.parseAsync([
           outputFile,
-          "--from", (options.from || detectTargetAgent(source)) ?? "claude",
-          "--risk", options.risk,
+          "--from", (from || detectTargetAgent(source)) ?? "claude",
+          "--risk", risk,
           "--apply",
           ...(options.verbose ? ["--verbose"] : [])
         ]);
@@ -0,0 +1,92 @@
+/**
+ * CLI plugins command - List loaded plugins, what they contribute, and
+ * installed plugin packages that are not enabled yet
+ */
+
+import { dirname } from 'node:path';
+import chalk from 'chalk';
+import type { AgentId } from '../core/types.js';
+import { formatAsJson } from '../core/output.js';
+import { discoverPlugins, getLoadedPlugins, type DiscoveredPlugin, type LoadedPlugin } from '../plugins/plugin-api.js';
+import type { LoadedProjectConfig } from './project-config.js';
+
+export interface PluginsOptions {
+  json?: boolean;
+}
+
+export interface PluginSummary {
+  name: string;
+  version?: string;
+  specifier?: string;
+  path?: string;
+  agents: AgentId[];
+  parsers: AgentId[];
+  renderers: AgentId[];
+  validators: AgentId[];
+  optimizers: AgentId[];
+  versionCatalogs: AgentId[];
+  toolVocabularies: AgentId[];
+  mappings: number;
+}
+
+export function summarizePlugin({ plugin, specifier, path }: LoadedPlugin): PluginSummary {
+  return {
+    name: plugin.name,
+    ...(plugin.version ? { version: plugin.version } : {}),
+    ...(specifier ? { specifier } : {}),
+    ...(path ? { path } : {}),
+    agents: (plugin.agents ?? []).map((a) => a.id),
+    parsers: (plugin.parsers ?? []).map((p) => p.agentId),
+    renderers: (plugin.renderers ?? []).map((r) => r.agentId),
+    validators: [...new Set((plugin.validators ?? []).map((v) => v.agentId))],
+    optimizers: (plugin.optimizers ?? []).map((o) => o.targetAgent),
+    versionCatalogs: Object.keys(plugin.versionCatalogs ?? {}) as AgentId[],
+    toolVocabularies: Object.keys(plugin.toolVocabularies ?? {}) as AgentId[],
+    mappings: plugin.mappings?.length ?? 0,
+  };
+}
+
+export function pluginsCommand(
+  config: LoadedProjectConfig,
+  options: PluginsOptions
+): { success: boolean; loaded: PluginSummary[]; available: DiscoveredPlugin[] } {
+  const loaded = getLoadedPlugins().map(summarizePlugin);
+  const enabled = new Set(loaded.map((p) => p.specifier));
+  const available = discoverPlugins(config.path ? dirname(config.path) : process.cwd())
+    .filter((p) => !enabled.has(p.name));
+
+  if (options.json) {
+    console.log(formatAsJson({ loaded, available }));
+    return { success: true, loaded, available };
+  }
+
+  if (loaded.length === 0) {
+    console.log(chalk.gray('No plugins loaded'));
+  }
+  for (const plugin of loaded) {
+    console.log(chalk.bold(`${plugin.name}${plugin.version ? chalk.gray(`@${plugin.version}`) : ''}`) +
+      (plugin.specifier ? chalk.gray(` (${plugin.specifier})`) : ''));
+    const rows: Array<[string, string[]]> = [
+      ['agents', plugin.agents],
+      ['parsers', plugin.parsers],
+      ['renderers', plugin.renderers],
+      ['validators', plugin.validators],
+      ['optimizers', plugin.optimizers],
+      ['versions', plugin.versionCatalogs],
+      ['tools', plugin.toolVocabularies],
+    ];
+    for (const [label, agents] of rows) {
+      if (agents.length > 0) console.log(`  ${label.padEnd(11)} ${chalk.cyan(agents.join(', '))}`);
+    }
+    if (plugin.mappings > 0) console.log(`  ${'mappings'.padEnd(11)} ${plugin.mappings}`);
+  }
+
+  if (available.length > 0) {
+    console.log(chalk.bold('\nInstalled but not enabled:'));
+    for (const plugin of available) {
+      console.log(`  ${plugin.name}${plugin.version ? chalk.gray(`@${plugin.version}`) : ''}`);
+    }
+    console.log(chalk.gray('\nEnable them by listing them under plugins in .cacerc'));
+  }
+  return { success: true, loaded, available };
+}
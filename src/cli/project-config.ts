@@ -0,0 +1,236 @@
+/**
+ * Project configuration - .cacerc / cace.config.ts
+ *
+ * Declares once what commands otherwise need repeated on every invocation:
+ * the canonical source agent, the target agents with their versions and
+ * output directories, include/exclude globs, the conversion strategy, the
+ * optimization risk level and validation strictness.
+ *
+ * The nearest config file at or above the working directory is used. Every
+ * command resolves a setting the same way (see `pick`): a command-line flag
+ * wins over the config file, which wins over the built-in default.
+ *
+ * .cacerc is YAML (so plain JSON works too); cace.config.ts / .js export the
+ * config as their default export and need a runtime that can import them.
+ * Plugins listed in the config are loaded before it is validated, so the
+ * agents they add can be used as source and targets.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import matter from 'gray-matter';
+import { z } from 'zod';
+import type { AgentId } from '../core/types.js';
+import { SUPPORTED_AGENTS } from '../core/constants.js';
+import type { RiskLevel } from '../optimization/optimizer-core.js';
+import { loadPlugins } from '../plugins/plugin-api.js';
+
+export interface TargetConfig {
+  /** Agent version to render for (default: the latest known version) */
+  version?: string;
+  /** Directory the agent's files are written under, relative to the config file */
+  output?: string;
+}
+
+export interface ProjectConfig {
+  /** Plugin packages or local modules (relative to the config file) */
+  plugins?: string[];
+  /** Canonical source agent: the format components are edited in */
+  source?: AgentId;
+  /** Target agents, as a list or as a mapping to their settings */
+  targets?: AgentId[] | Partial<Record<AgentId, TargetConfig | null>>;
+  include?: string[];
+  exclude?: string[];
+  /** "direct" or "dual-output" */
+  strategy?: 'direct' | 'dual-output';
+  optimize?: { risk?: RiskLevel };
+  validation?: { strict?: boolean };
+}
+
+/** A config as commands see it, with targets normalized and outputs resolved */
+export interface LoadedProjectConfig extends Omit<ProjectConfig, 'targets'> {
+  /** Config file the settings came from; undefined when there is none */
+  path?: string;
+  targets: Partial<Record<AgentId, TargetConfig>>;
+}
+
+/** Looked for in this order in each directory */
+export const CONFIG_FILES = [
+  '.cacerc',
+  '.cacerc.json',
+  '.cacerc.yaml',
+  '.cacerc.yml',
+  'cace.config.ts',
+  'cace.config.mjs',
+  'cace.config.js',
+];
+
+// Built-in agents and those added by plugins
+const AgentNameSchema = z.string().refine(
+  (id) => SUPPORTED_AGENTS.includes(id as AgentId),
+  (id) => ({ message: `Unknown agent "${id}"` })
+);
+
+const TargetConfigSchema = z.object({
+  version: z.string().optional(),
+  output: z.string().optional(),
+}).strict();
+
+export const ProjectConfigSchema = z.object({
+  plugins: z.array(z.string()).optional(),
+  source: AgentNameSchema.optional(),
+  targets: z.union([
+    z.array(AgentNameSchema),
+    z.record(AgentNameSchema, TargetConfigSchema.nullable()),
+  ]).optional(),
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  strategy: z.enum(['direct', 'dual-output']).optional(),
+  optimize: z.object({
+    risk: z.enum(['safe', 'medium', 'high', 'dangerous']).optional(),
+  }).strict().optional(),
+  validation: z.object({
+    strict: z.boolean().optional(),
+  }).strict().optional(),
+}).strict();
+
+/**
+ * Type a cace.config.ts export
+ */
+export function defineConfig(config: ProjectConfig): ProjectConfig {
+  return config;
+}
+
+/**
+ * Resolve a setting: command-line flag, then project config, then default
+ */
+export function pick<T>(flag: T | undefined, configured: T | undefined, fallback: T): T;
+export function pick<T>(flag: T | undefined, configured: T | undefined): T | undefined;
+export function pick<T>(flag: T | undefined, configured: T | undefined, fallback?: T): T | undefined {
+  return flag ?? configured ?? fallback;
+}
+
+/**
+ * Find the nearest config file at or above a directory
+ */
+export function findProjectConfig(startDir = process.cwd()): string | undefined {
+  let dir = resolve(startDir);
+  for (;;) {
+    const found = CONFIG_FILES.map((name) => join(dir, name)).find((path) => existsSync(path));
+    if (found) return found;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Validate raw config data and normalize it for the commands
+ */
+export function parseProjectConfig(data: unknown, path?: string): LoadedProjectConfig {
+  const result = ProjectConfigSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const errors = result.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new Error(`Invalid project config${path ? ` ${path}` : ''}: ${errors.join('; ')}`);
+  }
+
+  const { targets, ...rest } = result.data as ProjectConfig;
+  const baseDir = path ? dirname(path) : process.cwd();
+  const normalized: Partial<Record<AgentId, TargetConfig>> = {};
+  const entries = Array.isArray(targets)
+    ? targets.map((agent): [AgentId, TargetConfig] => [agent, {}])
+    : (Object.entries(targets ?? {}) as Array<[AgentId, TargetConfig | null]>);
+  for (const [agent, target] of entries) {
+    normalized[agent] = {
+      ...target,
+      ...(target?.output !== undefined ? { output: resolve(baseDir, target.output) } : {}),
+    };
+  }
+
+  return { ...rest, ...(path ? { path } : {}), targets: normalized };
+}
+
+async function readConfigFile(path: string): Promise<unknown> {
+  if (path.endsWith('.ts') || path.endsWith('.js') || path.endsWith('.mjs')) {
+    const module = (await import(pathToFileURL(path).href)) as { default?: unknown };
+    return module.default ?? module;
+  }
+  const content = readFileSync(path, 'utf-8');
+  if (extname(path) === '.json') return JSON.parse(content) as unknown;
+  return matter(`---\n${content}\n---\n`).data;
+}
+
+/**
+ * Load the nearest project config; an empty config when there is none
+ */
+export async function loadProjectConfig(startDir = process.cwd()): Promise<LoadedProjectConfig> {
+  const path = findProjectConfig(startDir);
+  if (!path) return { targets: {} };
+
+  let data: unknown;
+  try {
+    data = await readConfigFile(path);
+  } catch (err) {
+    throw new Error(`Failed to read project config ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const plugins = (data as ProjectConfig | undefined)?.plugins;
+  if (Array.isArray(plugins)) {
+    await loadPlugins(plugins.filter((p) => typeof p === 'string'), dirname(path));
+  }
+  return parseProjectConfig(data, path);
+}
+
+/**
+ * Target agents declared by the config, in declaration order
+ */
+export function configuredTargets(config: LoadedProjectConfig): AgentId[] {
+  return Object.keys(config.targets) as AgentId[];
+}
+
+/**
+ * One setting of every configured target, e.g. each target's output directory
+ */
+export function targetSettings(
+  config: LoadedProjectConfig,
+  key: keyof TargetConfig
+): Partial<Record<AgentId, string>> {
+  const settings: Partial<Record<AgentId, string>> = {};
+  for (const [agent, target] of Object.entries(config.targets) as Array<[AgentId, TargetConfig]>) {
+    if (target[key] !== undefined) settings[agent] = target[key];
+  }
+  return settings;
+}
+
+/**
+ * Move an agent to the front of the targets, keeping each target's settings
+ */
+export function withDefaultTarget(
+  targets: ProjectConfig['targets'],
+  agent: AgentId
+): NonNullable<ProjectConfig['targets']> {
+  if (Array.isArray(targets) || targets === undefined) {
+    return [agent, ...(targets ?? []).filter((t) => t !== agent)];
+  }
+  const { [agent]: settings, ...others } = targets;
+  return { [agent]: settings ?? null, ...others };
+}
+
+/**
+ * Rewrite <dir>/.cacerc, keeping whatever the update leaves untouched
+ *
+ * The file is written as JSON, which is valid YAML, so a YAML .cacerc
+ * keeps working but loses its comments.
+ */
+export function updateProjectConfig(dir: string, update: (config: ProjectConfig) => ProjectConfig): string {
+  const path = join(dir, '.cacerc');
+  const existing = existsSync(path)
+    ? (matter(`---\n${readFileSync(path, 'utf-8')}\n---\n`).data as ProjectConfig)
+    : {};
+  const config = update(existing);
+
+  parseProjectConfig(config, path);
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  return path;
+}
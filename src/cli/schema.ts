@@ -0,0 +1,76 @@
+/**
+ * CLI schema command - Print or write the JSON Schema for the IR
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import chalk from 'chalk';
+import {
+  PUBLISHED_SCHEMAS,
+  getJsonSchema,
+  isPublishedSchemaName,
+} from '../core/json-schema.js';
+import { formatAsJson } from '../core/output.js';
+
+export interface SchemaOptions {
+  output?: string;
+  /** Compare the output file with the generated schema instead of writing it */
+  check?: boolean;
+}
+
+export function schemaCommand(
+  name: string | undefined,
+  options: SchemaOptions
+): { success: boolean; upToDate?: boolean } {
+  if (!name) {
+    for (const [schemaName, { title, description }] of Object.entries(PUBLISHED_SCHEMAS)) {
+      console.log(`${chalk.cyan(schemaName.padEnd(20))} ${title} - ${chalk.gray(description)}`);
+    }
+    return { success: true };
+  }
+
+  if (!isPublishedSchemaName(name)) {
+    console.error(chalk.red(`Unknown schema: ${name}`));
+    console.error(chalk.gray(`Available: ${Object.keys(PUBLISHED_SCHEMAS).join(', ')}`));
+    return { success: false };
+  }
+
+  const json = formatAsJson(getJsonSchema(name)) + '\n';
+
+  if (!options.output) {
+    if (options.check) {
+      console.error(chalk.red('--check requires --output <path>'));
+      return { success: false };
+    }
+    process.stdout.write(json);
+    return { success: true };
+  }
+
+  if (options.check) {
+    let existing = '';
+    try {
+      existing = readFileSync(options.output, 'utf-8');
+    } catch {
+      // A missing file is reported as out of date below
+    }
+    const upToDate = existing === json;
+    if (upToDate) {
+      console.log(chalk.green(`✓ ${options.output} is up to date`));
+    } else {
+      console.error(chalk.red(`✗ ${options.output} does not match the ${name} schema`));
+      console.error(chalk.gray(`Regenerate it with: cace schema ${name} -o ${options.output}`));
+    }
+    return { success: true, upToDate };
+  }
+
+  try {
+    mkdirSync(dirname(options.output), { recursive: true });
+    writeFileSync(options.output, json);
+    console.log(chalk.green(`✓ Wrote ${name} schema to: ${options.output}`));
+    return { success: true };
+  } catch (err) {
+    console.error(chalk.red(`Error writing file: ${options.output}`));
+    console.error(chalk.gray(err instanceof Error ? err.message : String(err)));
+    return { success: false };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * CLI status command - Report generated files that drifted from the lockfile
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import chalk from 'chalk';
+import { formatAsJson } from '../core/output.js';
+import { LOCK_FILE, checkLock, type OutputIssue, type OutputStatus } from './lock.js';
+
+export interface StatusOptions {
+  json?: boolean;
+}
+
+const ISSUE_HINTS: Record<OutputIssue, string> = {
+  stale: 'source changed since conversion',
+  tampered: 'output edited since conversion',
+  orphaned: 'source deleted',
+  missing: 'output deleted',
+};
+
+export function statusCommand(
+  root: string,
+  options: StatusOptions
+): { success: boolean; issues: number } {
+  if (!existsSync(join(root, LOCK_FILE))) {
+    console.error(chalk.red(`No lockfile found at ${join(root, LOCK_FILE)}`));
+    console.error(chalk.gray('Outputs are recorded by cace convert and cace convert-dir.'));
+    return { success: false, issues: 0 };
+  }
+
+  let statuses: OutputStatus[];
+  try {
+    statuses = checkLock(root);
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    return { success: false, issues: 0 };
+  }
+  const withIssues = statuses.filter((s) => s.issues.length > 0);
+
+  if (options.json) {
+    console.log(formatAsJson(statuses.map((s) => ({ ...s.entry, issues: s.issues }))));
+    return { success: true, issues: withIssues.length };
+  }
+
+  if (withIssues.length === 0) {
+    console.log(chalk.green(`✓ All ${statuses.length} generated files are up to date`));
+    return { success: true, issues: 0 };
+  }
+
+  for (const issue of Object.keys(ISSUE_HINTS) as OutputIssue[]) {
+    const matching = withIssues.filter((s) => s.issues.includes(issue));
+    if (matching.length === 0) continue;
+
+    console.log(chalk.yellow.bold(`\n${issue} (${ISSUE_HINTS[issue]}):`));
+    for (const { entry } of matching) {
+      console.log(`  ${entry.output} ${chalk.gray(`← ${entry.source} (${entry.sourceAgent} → ${entry.targetAgent})`)}`);
+    }
+  }
+  console.log(chalk.gray(`\n${withIssues.length} of ${statuses.length} generated files need attention`));
+  return { success: true, issues: withIssues.length };
+}
@@ -297,6 +297,7 @@ interface BreakingChangesOptions {
 
 interface BreakingChangesResult {
   success: boolean;
+  breakingChanges?: number;
 }
 
 /**
@@ -344,7 +345,7 @@ export function breakingChangesCommand(
     }
   }
 
-  return { success: true };
+  return { success: true, breakingChanges: breakingChanges.length };
 }
 
 interface FeatureCheckOptions {
@@ -0,0 +1,328 @@
+/**
+ * CLI watch command - Keep agent outputs in sync while their sources are edited
+ *
+ * Changes are collected until the source directories have been quiet for
+ * the debounce period, then each changed source goes through the same
+ * per-file conversion as `cace convert-dir`. Removed sources take their
+ * outputs with them; a source that reappears under another name with the
+ * same content is treated as a rename and its outputs are moved, so hand
+ * edits kept with --merge survive.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, watch, type FSWatcher } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import chalk from 'chalk';
+import type { AgentId, ConversionLoss } from '../core/types.js';
+import {
+  convertDirFile,
+  detectAgentFromContents,
+  dirTargetPaths,
+  findConvertibleFiles,
+  generateDirOutputPath,
+  isConvertibleFile,
+  shouldIncludeFile,
+  type DirConversionContext,
+} from './convert-dir.js';
+import { forgetOutputs, hashContent, LOCK_FILE, readLock, recordOutputs, type LockedOutput } from './lock.js';
+import { generatedBasePath } from './merge.js';
+
+export interface WatchOptions {
+  to: AgentId[];
+  from?: AgentId;
+  /** Source agent of a directory whose agent cannot be detected (source in .cacerc) */
+  defaultFrom?: AgentId;
+  /** Output root for every target (default: `<source>.<agent>` like convert-dir) */
+  output?: string;
+  /** Output roots of individual targets, taking precedence over `output` */
+  outputs?: Partial<Record<AgentId, string>>;
+  /** Versions to render each target for (default: the latest known version) */
+  targetVersions?: Partial<Record<AgentId, string>>;
+  strategy?: string;
+  merge?: boolean;
+  include?: string[];
+  exclude?: string[];
+  /** Quiet period before a burst of changes is processed, in milliseconds */
+  debounce?: number;
+  /** Directory holding .cace/lock.json (default: the working directory) */
+  root?: string;
+}
+
+export interface WatchedSource {
+  dir: string;
+  fromAgent: AgentId;
+}
+
+export type WatchEventKind = 'converted' | 'removed' | 'renamed' | 'failed';
+
+export interface WatchEvent {
+  kind: WatchEventKind;
+  source: string;
+  /** Previous path of a renamed source */
+  previousSource?: string;
+  targetAgent: AgentId;
+  /** Outputs written, or deleted for a removed source */
+  outputs: string[];
+  fidelityScore?: number;
+  losses: ConversionLoss[];
+  error?: string;
+}
+
+const DEFAULT_DEBOUNCE_MS = 300;
+
+function conversionContext(source: WatchedSource, targetAgent: AgentId, options: WatchOptions): DirConversionContext {
+  return {
+    sourceDir: source.dir,
+    outputDir: options.outputs?.[targetAgent] ?? options.output ?? generateDirOutputPath(source.dir, targetAgent),
+    fromAgent: source.fromAgent,
+    targetAgent,
+    targetVersion: options.targetVersions?.[targetAgent],
+    strategy: options.strategy,
+    merge: options.merge,
+  };
+}
+
+function removeOutput(path: string, outputDir: string): void {
+  rmSync(path, { force: true });
+  rmSync(generatedBasePath(path, outputDir), { force: true });
+}
+
+function moveOutput(from: string, to: string, outputDir: string): void {
+  for (const [source, target] of [[from, to], [generatedBasePath(from, outputDir), generatedBasePath(to, outputDir)]] as const) {
+    if (!existsSync(source) || existsSync(target)) continue;
+    mkdirSync(dirname(target), { recursive: true });
+    renameSync(source, target);
+  }
+}
+
+/**
+ * Bring the outputs of a batch of changed source paths up to date
+ */
+export function syncSourceChanges(
+  changedPaths: string[],
+  sources: WatchedSource[],
+  options: WatchOptions
+): WatchEvent[] {
+  const root = options.root ?? process.cwd();
+  const events: WatchEvent[] = [];
+  const lockedOutputs: LockedOutput[] = [];
+  const forgotten: string[] = [];
+
+  let lockedSources = new Map<string, string>();
+  try {
+    lockedSources = new Map(readLock(root).entries.map((e) => [resolve(root, e.source), e.sourceHash]));
+  } catch (err) {
+    // Without the lock, renames are converted as a new source plus a removed one
+    console.error(chalk.yellow(`⚠ ${err instanceof Error ? err.message : String(err)}`));
+  }
+  const paths = new Set<string>();
+  for (const path of changedPaths.map((p) => resolve(p))) {
+    paths.add(path);
+    // A removed or renamed directory takes the sources under it along
+    if (!existsSync(path)) {
+      [...lockedSources.keys()].filter((source) => source.startsWith(path + sep)).forEach((source) => paths.add(source));
+    }
+  }
+
+  const owners = new Map<string, WatchedSource>();
+  for (const path of paths) {
+    const owner = sources.find((s) => path.startsWith(resolve(s.dir) + sep));
+    if (!owner || path.includes(`${sep}.cace${sep}`)) continue;
+    if (!isConvertibleFile(path) || !shouldIncludeFile(path, options.include, options.exclude)) continue;
+    owners.set(path, owner);
+  }
+
+  const present = [...owners.keys()].filter((p) => existsSync(p) && statSync(p).isFile());
+  const removed = [...owners.keys()].filter((p) => !existsSync(p));
+
+  // A removed source whose locked content reappeared elsewhere was renamed
+  const renamedFrom = new Map<string, string>();
+  for (const path of present) {
+    const hash = hashContent(readFileSync(path, 'utf-8'));
+    const previous = removed.find((r) => lockedSources.get(r) === hash && ![...renamedFrom.values()].includes(r));
+    if (previous) renamedFrom.set(path, previous);
+  }
+
+  for (const path of removed) {
+    if ([...renamedFrom.values()].includes(path)) continue;
+    for (const targetAgent of options.to) {
+      const context = conversionContext(owners.get(path)!, targetAgent, options);
+      const outputs = dirTargetPaths(path, context).filter((output) => existsSync(output));
+      if (outputs.length === 0) continue;
+      outputs.forEach((output) => removeOutput(output, context.outputDir));
+      forgotten.push(...outputs);
+      events.push({ kind: 'removed', source: path, targetAgent, outputs, losses: [] });
+    }
+  }
+
+  for (const path of present) {
+    const previousSource = renamedFrom.get(path);
+    for (const targetAgent of options.to) {
+      const context = conversionContext(owners.get(path)!, targetAgent, options);
+
+      if (previousSource) {
+        const previousOutputs = dirTargetPaths(previousSource, context);
+        const outputs = dirTargetPaths(path, context);
+        previousOutputs.forEach((output, i) => {
+          if (outputs[i] && outputs[i] !== output) moveOutput(output, outputs[i], context.outputDir);
+        });
+        forgotten.push(...previousOutputs.filter((output) => !outputs.includes(output)));
+      }
+
+      try {
+        const conversion = convertDirFile(path, context);
+        lockedOutputs.push(...conversion.lockedOutputs);
+        events.push({
+          kind: !conversion.success ? 'failed' : previousSource ? 'renamed' : 'converted',
+          source: path,
+          ...(previousSource ? { previousSource } : {}),
+          targetAgent,
+          outputs: conversion.writes.map((w) => w.path),
+          fidelityScore: conversion.report?.fidelityScore,
+          losses: conversion.report?.losses ?? [],
+          ...(conversion.error ? { error: conversion.error } : {}),
+        });
+      } catch (err) {
+        events.push({
+          kind: 'failed',
+          source: path,
+          targetAgent,
+          outputs: [],
+          losses: [],
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  try {
+    if (forgotten.length > 0) forgetOutputs(root, forgotten);
+    if (lockedOutputs.length > 0) recordOutputs(root, lockedOutputs);
+  } catch (err) {
+    // The outputs are written; only their provenance is missing from the lock
+    console.error(chalk.yellow(`⚠ ${join(root, LOCK_FILE)} not updated: ${err instanceof Error ? err.message : String(err)}`));
+  }
+  return events;
+}
+
+export function formatWatchEvent(event: WatchEvent, root: string): string {
+  const show = (path: string) => relative(root, path) || path;
+  const time = chalk.gray(new Date().toLocaleTimeString());
+  const target = chalk.cyan(event.targetAgent);
+
+  switch (event.kind) {
+    case 'failed':
+      return `${time} ${chalk.red('✗')} ${show(event.source)} → ${target} ${chalk.red(event.error ?? 'failed')}`;
+    case 'removed':
+      return `${time} ${chalk.yellow('−')} ${show(event.source)} removed → ${target} deleted ${event.outputs.map(show).join(', ')}`;
+    default: {
+      const fidelity = event.fidelityScore ?? 0;
+      const color = fidelity >= 90 ? chalk.green : fidelity >= 75 ? chalk.yellow : chalk.red;
+      const critical = event.losses.filter((l) => l.severity === 'critical').length;
+      const warnings = event.losses.filter((l) => l.severity === 'warning').length;
+      const losses = event.losses.length === 0
+        ? chalk.gray('no losses')
+        : `${event.losses.length} losses` + (critical > 0 ? chalk.red(` (${critical} critical)`) : warnings > 0 ? chalk.yellow(` (${warnings} warnings)`) : '');
+      const source = event.previousSource
+        ? `${show(event.previousSource)} ↪ ${show(event.source)}`
+        : show(event.source);
+      return `${time} ${color('✓')} ${source} → ${target} ${color(`${fidelity}%`)} · ${losses}`;
+    }
+  }
+}
+
+/**
+ * Watch a directory tree. Node's recursive fs.watch is not available on
+ * Linux before Node 20, so every directory gets its own watcher.
+ */
+function watchTree(dir: string, onChange: (path: string) => void): () => void {
+  const watchers = new Map<string, FSWatcher>();
+
+  const add = (current: string) => {
+    if (watchers.has(current) || current.endsWith(`${sep}.cace`)) return;
+    try {
+      watchers.set(current, watch(current, (_event, filename) => {
+        // A moved directory keeps reporting under its old path
+        if (!existsSync(current)) {
+          watchers.get(current)?.close();
+          watchers.delete(current);
+          return;
+        }
+        if (!filename) return;
+        const path = join(current, filename.toString());
+        if (existsSync(path) && statSync(path).isDirectory()) {
+          add(path);
+          // Files written before the new watcher was ready
+          findConvertibleFiles(path, { recursive: true }).forEach(onChange);
+        } else {
+          onChange(path);
+        }
+      }));
+      for (const sub of findSubdirectories(current)) add(sub);
+    } catch {
+      // Skip directories that can't be watched
+    }
+  };
+
+  add(dir);
+  return () => watchers.forEach((w) => w.close());
+}
+
+function findSubdirectories(dir: string): string[] {
+  try {
+    return readdirSync(dir)
+      .map((entry) => join(dir, entry))
+      .filter((path) => statSync(path).isDirectory());
+  } catch {
+    return [];
+  }
+}
+
+export function watchCommand(
+  sourceDirs: string[],
+  options: WatchOptions
+): { success: boolean; close: () => void } {
+  const root = options.root ?? process.cwd();
+  const sources: WatchedSource[] = [];
+  for (const dir of sourceDirs) {
+    if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+      console.error(chalk.red(`Source directory not found: ${dir}`));
+      return { success: false, close: () => undefined };
+    }
+    const fromAgent = options.from ?? detectAgentFromContents(dir) ?? options.defaultFrom;
+    if (!fromAgent) {
+      console.error(chalk.red(`Could not detect the source agent of ${dir}. Use --from to specify.`));
+      return { success: false, close: () => undefined };
+    }
+    sources.push({ dir: resolve(dir), fromAgent });
+  }
+
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const flush = () => {
+    timer = undefined;
+    const changed = [...pending];
+    pending.clear();
+    for (const event of syncSourceChanges(changed, sources, options)) {
+      console.log(formatWatchEvent(event, root));
+    }
+  };
+  const onChange = (path: string) => {
+    pending.add(path);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, options.debounce ?? DEFAULT_DEBOUNCE_MS);
+  };
+
+  const stops = sources.map((source) => watchTree(source.dir, onChange));
+  for (const source of sources) {
+    console.log(chalk.blue(`👀 Watching ${relative(root, source.dir) || '.'} (${source.fromAgent}) → ${options.to.join(', ')}`));
+  }
+  console.log(chalk.gray('Press Ctrl+C to stop.\n'));
+
+  return {
+    success: true,
+    close: () => {
+      if (timer) clearTimeout(timer);
+      stops.forEach((stop) => stop());
+    },
+  };
+}
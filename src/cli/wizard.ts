@@ -22,7 +22,11 @@ import { SUPPORTED_AGENTS, AGENTS } from "../core/constants.js";
 import { parseComponent, detectAgent } from "../parsing/parser-factory.js";
 import { renderComponent } from "../rendering/renderer-factory.js";
 import { validate } from "../validation/index.js";
-import ConfigurationAuditEngine, { AuditReportFormatter } from "../audit/audit-engine.js";
+import ConfigurationAuditEngine, {
+  AuditReportFormatter,
+  collectStaleCopies,
+  regenerateStaleCopy,
+} from "../audit/audit-engine.js";
 
 // ============================================================================
 // Types and Interfaces
@@ -977,15 +981,15 @@ function calculateTargetPath(component: ComponentInfo, targetAgent: AgentId, tar
   
   // Map component types between agents
   const typeMap: Record<AgentId, Record<ComponentType, string>> = {
-    claude: { skill: "skills", command: "commands", rule: "rules", hook: "hooks", memory: "memory", agent: "agents", config: "config", workflow: "skills" },
-    opencode: { skill: "skills", command: "commands", rule: "rules", hook: "skills", memory: "memory", agent: "agents", config: "config", workflow: "skills" },
-    cursor: { skill: "skills", command: "commands", rule: "rules", hook: "commands", memory: "memory", agent: "commands", config: "config", workflow: "commands" },
-    windsurf: { skill: "skills", command: "workflows", rule: "rules", hook: "skills", memory: "memory", agent: "skills", config: "config", workflow: "workflows" },
-    codex: { skill: "skills", command: "commands", rule: "rules", hook: "skills", memory: "memory", agent: "skills", config: "config", workflow: "skills" },
-    gemini: { skill: "skills", command: "commands", rule: "skills", hook: "skills", memory: "memory", agent: "skills", config: "config", workflow: "skills" },
-    universal: { skill: ".", command: ".", rule: ".", hook: ".", memory: ".", agent: ".", config: ".", workflow: "." },
-    aider: { skill: "commands", command: "commands", rule: "commands", hook: "commands", memory: "commands", agent: "commands", config: "config", workflow: "commands" },
-    continue: { skill: "commands", command: "commands", rule: "commands", hook: "commands", memory: "commands", agent: "commands", config: "config", workflow: "commands" },
+    claude: { skill: "skills", command: "commands", rule: "rules", hook: "hooks", memory: "memory", agent: "agents", config: "config", mcp: "mcp", workflow: "skills" },
+    opencode: { skill: "skills", command: "commands", rule: "rules", hook: "skills", memory: "memory", agent: "agents", config: "config", mcp: "mcp", workflow: "skills" },
+    cursor: { skill: "skills", command: "commands", rule: "rules", hook: "commands", memory: "memory", agent: "commands", config: "config", mcp: "mcp", workflow: "commands" },
+    windsurf: { skill: "skills", command: "workflows", rule: "rules", hook: "skills", memory: "memory", agent: "skills", config: "config", mcp: "mcp", workflow: "workflows" },
+    codex: { skill: "skills", command: "commands", rule: "rules", hook: "skills", memory: "memory", agent: "skills", config: "config", mcp: "mcp", workflow: "skills" },
+    gemini: { skill: "skills", command: "commands", rule: "skills", hook: "skills", memory: "memory", agent: "skills", config: "config", mcp: "mcp", workflow: "skills" },
+    universal: { skill: ".", command: ".", rule: ".", hook: ".", memory: ".", agent: ".", config: ".", mcp: ".", workflow: "." },
+    aider: { skill: ".", command: ".", rule: ".aider/conventions", hook: ".", memory: ".", agent: ".", config: ".", mcp: ".", workflow: "." },
+    continue: { skill: "prompts", command: "prompts", rule: "rules", hook: "rules", memory: "rules", agent: "prompts", config: "config", mcp: "mcp", workflow: "prompts" },
   };
   
   const targetType = typeMap[targetAgent]?.[component.type] || component.type + "s";
@@ -1217,6 +1221,24 @@ async function runAuditWizard(rl: ReturnType<typeof createInterface>): Promise<v
       console.log(chalk.green("🎉 Excellent! Your configurations are top-notch!"));
     }
     
+    // Offer to regenerate copies that drifted behind their counterparts
+    const staleCopies = collectStaleCopies(result.configs);
+    if (staleCopies.length > 0) {
+      console.log(chalk.blue(`\n🔄 ${staleCopies.length} components drifted between agents:`));
+      for (const drift of staleCopies) {
+        console.log(chalk.gray(`   • ${drift.stale} (${drift.severity}) ← ${drift.fresher}`));
+      }
+      const regenerate = await askQuestion(rl, chalk.cyan("Regenerate the stale copies from the fresher ones? (yes/no): "));
+      if (regenerate.toLowerCase().startsWith("y")) {
+        for (const drift of staleCopies) {
+          const regenerated = regenerateStaleCopy(drift);
+          console.log(regenerated.success
+            ? chalk.green(`   ✓ ${drift.stale}`)
+            : chalk.red(`   ✗ ${drift.stale}: ${regenerated.error}`));
+        }
+      }
+    }
+    
     // Offer to run conversion if there are issues
     const criticalRecs = result.recommendations.filter(r => r.priority === "critical" || r.priority === "high");
     if (criticalRecs.length > 0) {
@@ -0,0 +1,63 @@
+/**
+ * Agent configuration helpers
+ *
+ * Codex config.toml, Claude settings.json and Gemini settings.json express
+ * the same execution policy through different keys:
+ *
+ * | IR (metadata)  | Codex config.toml | Claude settings.json             | Gemini settings.json |
+ * |----------------|-------------------|----------------------------------|----------------------|
+ * | model          | model             | model                            | model.name           |
+ * | approvalPolicy | approval_policy   | permissions.defaultMode          | tools.autoAccept     |
+ * | sandboxMode    | sandbox_mode      | sandbox.enabled (+ deny edits)   | tools.sandbox        |
+ * | webSearch      | web_search        | permissions.deny WebSearch       | tools.exclude        |
+ * | mcpServers     | [mcp_servers.*]   | enabledMcpjsonServers (.mcp.json)| mcpServers           |
+ *
+ * Profiles and settings without a typed IR field are kept in a ConfigSpec so
+ * a Codex → Codex round-trip is lossless; other renderers report them as
+ * losses.
+ */
+
+import type { ComponentSpec, ConfigSpec, ExtendedComponentFields } from "./types.js";
+
+export const CODEX_APPROVAL_POLICIES = ["untrusted", "on-failure", "on-request", "never"] as const;
+export const CODEX_SANDBOX_MODES = ["read-only", "workspace-write", "danger-full-access"] as const;
+
+export type CodexApprovalPolicy = (typeof CODEX_APPROVAL_POLICIES)[number];
+export type CodexSandboxMode = (typeof CODEX_SANDBOX_MODES)[number];
+
+/**
+ * Claude permissions.defaultMode closest to each Codex approval policy
+ */
+export const CLAUDE_PERMISSION_MODES: Record<CodexApprovalPolicy, string> = {
+  untrusted: "default",
+  "on-request": "default",
+  "on-failure": "acceptEdits",
+  never: "bypassPermissions",
+};
+
+/**
+ * Gemini tools.autoAccept for each Codex approval policy. Gemini can only
+ * auto-accept read-only tool calls from settings; full auto-approval needs
+ * the --yolo flag.
+ */
+export const GEMINI_AUTO_ACCEPT: Record<CodexApprovalPolicy, boolean> = {
+  untrusted: false,
+  "on-request": false,
+  "on-failure": true,
+  never: true,
+};
+
+export function isCodexApprovalPolicy(value: unknown): value is CodexApprovalPolicy {
+  return typeof value === "string" && (CODEX_APPROVAL_POLICIES as readonly string[]).includes(value);
+}
+
+export function isCodexSandboxMode(value: unknown): value is CodexSandboxMode {
+  return typeof value === "string" && (CODEX_SANDBOX_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * ConfigSpec attached to a config component, if any
+ */
+export function getConfigSpec(spec: ComponentSpec): ConfigSpec | undefined {
+  return (spec as ComponentSpec & ExtendedComponentFields).config;
+}
@@ -23,7 +23,7 @@ export const AGENTS: Record<AgentId, AgentInfo> = {
   claude: {
     id: 'claude',
     displayName: 'Claude Code',
-    componentTypes: ['skill', 'hook', 'memory', 'rule', 'agent', 'config'],
+    componentTypes: ['skill', 'hook', 'memory', 'rule', 'agent', 'config', 'mcp'],
     fileExtension: '.md',
     configLocations: {
       project: '.claude/skills',
@@ -33,7 +33,7 @@ export const AGENTS: Record<AgentId, AgentInfo> = {
   windsurf: {
     id: 'windsurf',
     displayName: 'Windsurf (Cascade)',
-    componentTypes: ['skill', 'workflow', 'rule', 'memory', 'config'],
+    componentTypes: ['skill', 'workflow', 'rule', 'hook', 'memory', 'config', 'mcp'],
     fileExtension: '.md',
     configLocations: {
       project: '.windsurf/workflows',
@@ -43,7 +43,7 @@ export const AGENTS: Record<AgentId, AgentInfo> = {
   cursor: {
     id: 'cursor',
     displayName: 'Cursor',
-    componentTypes: ['skill', 'command', 'rule', 'memory', 'config'],
+    componentTypes: ['skill', 'command', 'rule', 'memory', 'config', 'mcp'],
     fileExtension: '.md',
     configLocations: {
       project: '.cursor',
@@ -53,7 +53,7 @@ export const AGENTS: Record<AgentId, AgentInfo> = {
   gemini: {
     id: 'gemini',
     displayName: 'Gemini CLI',
-    componentTypes: ['skill', 'command', 'memory', 'config'],
+    componentTypes: ['skill', 'command', 'memory', 'agent', 'config', 'mcp'],
     fileExtension: '.md',
     configLocations: {
       project: '.gemini',
@@ -73,7 +73,7 @@ export const AGENTS: Record<AgentId, AgentInfo> = {
   opencode: {
     id: 'opencode',
     displayName: 'OpenCode',
-    componentTypes: ['skill', 'command', 'memory', 'agent', 'config'],
+    componentTypes: ['skill', 'command', 'memory', 'agent', 'config', 'mcp'],
     fileExtension: '.md',
     configLocations: {
       project: '.opencode',
@@ -83,7 +83,7 @@ export const AGENTS: Record<AgentId, AgentInfo> = {
   codex: {
     id: 'codex',
     displayName: 'OpenAI Codex',
-    componentTypes: ['skill', 'command', 'memory', 'rule', 'config'],
+    componentTypes: ['skill', 'command', 'memory', 'rule', 'config', 'mcp'],
     fileExtension: '.md',
     configLocations: {
       project: '.codex/skills',
@@ -93,21 +93,21 @@ export const AGENTS: Record<AgentId, AgentInfo> = {
   aider: {
     id: 'aider',
     displayName: 'Aider',
-    componentTypes: ['command', 'config'],
+    componentTypes: ['memory', 'rule'],
     fileExtension: '.md',
     configLocations: {
-      project: '.aider/commands',
-      user: '~/.aider/commands',
+      project: '.',
+      user: '~',
     },
   },
   continue: {
     id: 'continue',
     displayName: 'Continue',
-    componentTypes: ['command', 'config'],
+    componentTypes: ['rule', 'command', 'memory'],
     fileExtension: '.md',
     configLocations: {
-      project: '.continue/commands',
-      user: '~/.continue/commands',
+      project: '.continue',
+      user: '~/.continue',
     },
   },
 };
@@ -123,6 +123,7 @@ export const COMPONENT_TYPE_EQUIVALENTS: Record<ComponentType, Partial<Record<Ag
     cursor: 'command',
     codex: 'skill',
     gemini: 'skill',
+    continue: 'command',
   },
   workflow: {
     claude: 'skill',
@@ -130,6 +131,7 @@ export const COMPONENT_TYPE_EQUIVALENTS: Record<ComponentType, Partial<Record<Ag
     cursor: 'command',
     codex: 'skill',
     gemini: 'skill',
+    continue: 'command',
   },
   command: {
     claude: 'skill',
@@ -137,27 +139,48 @@ export const COMPONENT_TYPE_EQUIVALENTS: Record<ComponentType, Partial<Record<Ag
     cursor: 'command',
     codex: 'command',
     gemini: 'command',
+    continue: 'command',
   },
   rule: {
+    claude: 'rule',
     windsurf: 'rule',
+    cursor: 'rule',
     codex: 'rule',
+    aider: 'rule',
+    continue: 'rule',
   },
   hook: {
     claude: 'hook',
+    windsurf: 'hook',
   },
   memory: {
     claude: 'memory',
     windsurf: 'memory',
     codex: 'memory',
     gemini: 'memory',
+    universal: 'memory',
+    aider: 'memory',
+    continue: 'rule',
   },
   agent: {
     claude: 'agent',
+    opencode: 'agent',
+    gemini: 'agent',
   },
   config: {
     claude: 'config',
     windsurf: 'config',
     cursor: 'config',
+    codex: 'config',
+    gemini: 'config',
+  },
+  mcp: {
+    claude: 'mcp',
+    windsurf: 'mcp',
+    cursor: 'mcp',
+    opencode: 'mcp',
+    codex: 'mcp',
+    gemini: 'mcp',
   },
 };
 
@@ -167,7 +190,13 @@ export const COMPONENT_TYPE_EQUIVALENTS: Record<ComponentType, Partial<Record<Ag
 
 export const DEFAULT_VERSION = { major: 1, minor: 0, patch: 0 };
 
-export const SUPPORTED_AGENTS: AgentId[] = ['claude', 'windsurf', 'cursor', 'opencode', 'gemini', 'codex', 'universal'];
+/** CACE release, recorded in lockfiles; keep in step with package.json */
+export const CACE_VERSION = '2.5.7';
+
+export const SUPPORTED_AGENTS: AgentId[] = ['claude', 'windsurf', 'cursor', 'opencode', 'gemini', 'codex', 'universal', 'aider', 'continue'];
+
+/** Agents registered by plugins at runtime; they are appended to SUPPORTED_AGENTS too */
+export const PLUGIN_AGENTS: AgentId[] = [];
 
 // ============================================================================
 // File Patterns
@@ -180,6 +209,7 @@ export const AGENT_FILE_PATTERNS: Record<AgentId, RegExp[]> = {
     /CLAUDE\.md$/,
     /CLAUDE\.local\.md$/,
     /\.claude\/rules\/.*\.md$/,
+    /\.claude\/agents\/.*\.md$/,
   ],
   windsurf: [
     /\.windsurf\/workflows\/.*\.md$/,
@@ -193,6 +223,7 @@ export const AGENT_FILE_PATTERNS: Record<AgentId, RegExp[]> = {
   gemini: [
     /GEMINI\.md$/,
     /\.gemini\/GEMINI\.md$/,
+    /\.gemini\/agents\/.*\.md$/,
   ],
   universal: [
     /AGENTS\.md$/,
@@ -204,10 +235,13 @@ export const AGENT_FILE_PATTERNS: Record<AgentId, RegExp[]> = {
     /AGENTS\.md$/,
   ],
   aider: [
-    /\.aider\/commands\/.*\.md$/,
+    /\.aider\.conf\.ya?ml$/,
+    /CONVENTIONS\.md$/,
+    /\.aider\/conventions\/.*\.md$/,
   ],
   continue: [
-    /\.continue\/commands\/.*\.md$/,
+    /\.continue\/rules\/.*\.md$/,
+    /\.continue\/prompts\/.*\.(prompt|md)$/,
   ],
   codex: [
     /\.codex\/skills\/.*\/SKILL\.md$/,
@@ -22,6 +22,48 @@ export interface SemanticDiff {
   summary: string;
   preservedAspects: string[];
   changedAspects: string[];
+  /** Line and word hunks of the body, present when the bodies differ */
+  bodyDiff?: BodyDiff;
+}
+
+export type BodyChangeKind = 'context' | 'added' | 'removed';
+
+export interface WordChange {
+  kind: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface BodyDiffLine {
+  kind: BodyChangeKind;
+  text: string;
+  /** 1-based line number in the old body (absent for added lines) */
+  oldLine?: number;
+  /** 1-based line number in the new body (absent for removed lines) */
+  newLine?: number;
+  /** Word-level changes when the line replaces a line on the other side */
+  words?: WordChange[];
+}
+
+export interface BodyDiffHunk {
+  /** Heading of the markdown section the hunk starts in ('' before the first heading) */
+  section: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: BodyDiffLine[];
+}
+
+export interface BodySectionChange {
+  heading: string;
+  status: 'changed' | 'added' | 'removed';
+}
+
+export interface BodyDiff {
+  linesAdded: number;
+  linesRemoved: number;
+  sections: BodySectionChange[];
+  hunks: BodyDiffHunk[];
 }
 
 export function diffSpecs(specA: ComponentSpec, specB: ComponentSpec): SemanticDiff {
@@ -146,16 +188,17 @@ export function diffSpecs(specA: ComponentSpec, specB: ComponentSpec): SemanticD
     preservedAspects.push('tool restrictions');
   }
 
-  // Body content
-  const bodyDiff = compareBodyContent(specA.body, specB.body);
-  if (bodyDiff.similarity < 1.0) {
+  // Body content, line by line: reordered steps and case-only edits count too
+  let structuredBodyDiff: BodyDiff | undefined;
+  if (specA.body !== specB.body) {
+    structuredBodyDiff = diffBodies(specA.body, specB.body);
     diffs.push({
       path: 'body',
       label: 'Body Content',
       oldValue: `${specA.body.length} chars`,
       newValue: `${specB.body.length} chars`,
-      severity: bodyDiff.similarity < 0.5 ? 'significant' : bodyDiff.similarity < 0.8 ? 'moderate' : 'minor',
-      description: `Body content ${Math.round(bodyDiff.similarity * 100)}% similar`,
+      severity: bodyChangeSeverity(structuredBodyDiff, specA.body, specB.body),
+      description: `Body content changed (+${structuredBodyDiff.linesAdded} -${structuredBodyDiff.linesRemoved} lines)`,
     });
     changedAspects.push('body content');
   } else {
@@ -185,6 +228,7 @@ export function diffSpecs(specA: ComponentSpec, specB: ComponentSpec): SemanticD
     summary,
     preservedAspects,
     changedAspects,
+    ...(structuredBodyDiff ? { bodyDiff: structuredBodyDiff } : {}),
   };
 }
 
@@ -195,23 +239,17 @@ function arraysEqual(a: unknown[], b: unknown[]): boolean {
   return sortedA.every((val, idx) => val === sortedB[idx]);
 }
 
-function compareBodyContent(bodyA: string, bodyB: string): { similarity: number } {
-  if (bodyA === bodyB) return { similarity: 1.0 };
-  
-  // Normalize whitespace for comparison
-  const normA = bodyA.replace(/\s+/g, ' ').trim();
-  const normB = bodyB.replace(/\s+/g, ' ').trim();
-  
-  if (normA === normB) return { similarity: 0.95 };
-  
-  // Simple word-based similarity
-  const wordsA = new Set(normA.toLowerCase().split(/\s+/));
-  const wordsB = new Set(normB.toLowerCase().split(/\s+/));
-  
-  const intersection = new Set([...wordsA].filter(x => wordsB.has(x)));
-  const union = new Set([...wordsA, ...wordsB]);
-  
-  return { similarity: intersection.size / union.size };
+/**
+ * Severity of a body change by the share of lines added or removed;
+ * whitespace-only edits are minor
+ */
+function bodyChangeSeverity(bodyDiff: BodyDiff, bodyA: string, bodyB: string): DiffSeverity {
+  const normalize = (body: string): string => body.replace(/\s+/g, ' ').trim();
+  if (normalize(bodyA) === normalize(bodyB)) return 'minor';
+
+  const lines = bodyA.split('\n').length + bodyB.split('\n').length;
+  const changed = (bodyDiff.linesAdded + bodyDiff.linesRemoved) / lines;
+  return changed >= 0.5 ? 'significant' : changed >= 0.2 ? 'moderate' : 'minor';
 }
 
 function compareCapabilities(
@@ -281,6 +319,280 @@ function generateDiffSummary(
   return parts.join('. ') + '.';
 }
 
+// ============================================================================
+// Body diff
+// ============================================================================
+
+const CONTEXT_LINES = 3;
+
+interface BodySection {
+  heading: string;
+  /** Index of the section's first line in the body */
+  start: number;
+  lines: string[];
+}
+
+interface LineOp {
+  kind: BodyChangeKind;
+  text: string;
+  oldIndex?: number;
+  newIndex?: number;
+  section: string;
+}
+
+/**
+ * Split a markdown body at its headings. Lines inside code fences never
+ * start a section, so a `# comment` in a shell block stays where it is.
+ */
+function splitSections(body: string): BodySection[] {
+  const sections: BodySection[] = [{ heading: '', start: 0, lines: [] }];
+  let inFence = false;
+
+  body.split('\n').forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && /^#{1,6}\s/.test(line)) {
+      sections.push({ heading: line.trim(), start: index, lines: [] });
+    }
+    sections[sections.length - 1]!.lines.push(line);
+  });
+
+  return sections.filter((s, i) => i > 0 || s.lines.length > 0);
+}
+
+function sectionKey(section: BodySection): string {
+  return section.heading.replace(/^#+\s*/, '').toLowerCase();
+}
+
+/**
+ * Longest-common-subsequence alignment of two sequences, as pairs of indexes
+ */
+export function alignSequences<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<[number, number]> {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = equal(a[i]!, b[j]!)
+        ? table[(i + 1) * width + j + 1]! + 1
+        : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i]!, b[j]!)) {
+      pairs.push([i++, j++]);
+    } else if (table[(i + 1) * width + j]! >= table[i * width + j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Line operations for two aligned runs, removals before additions
+ */
+function diffLineRuns(oldSection: BodySection | undefined, newSection: BodySection | undefined): LineOp[] {
+  const oldLines = oldSection?.lines ?? [];
+  const newLines = newSection?.lines ?? [];
+  const oldStart = oldSection?.start ?? 0;
+  const newStart = newSection?.start ?? 0;
+  const heading = newSection?.heading ?? oldSection?.heading ?? '';
+
+  const ops: LineOp[] = [];
+  let i = 0;
+  let j = 0;
+  const flush = (untilOld: number, untilNew: number) => {
+    for (; i < untilOld; i++) {
+      ops.push({ kind: 'removed', text: oldLines[i]!, oldIndex: oldStart + i, section: heading });
+    }
+    for (; j < untilNew; j++) {
+      ops.push({ kind: 'added', text: newLines[j]!, newIndex: newStart + j, section: heading });
+    }
+  };
+
+  for (const [oldIndex, newIndex] of alignSequences(oldLines, newLines, (x, y) => x === y)) {
+    flush(oldIndex, newIndex);
+    ops.push({ kind: 'context', text: oldLines[i]!, oldIndex: oldStart + i, newIndex: newStart + j, section: heading });
+    i++;
+    j++;
+  }
+  flush(oldLines.length, newLines.length);
+  return ops;
+}
+
+function diffWords(oldLine: string, newLine: string): { old: WordChange[]; new: WordChange[] } {
+  const oldTokens = oldLine.split(/(\s+)/).filter(t => t.length > 0);
+  const newTokens = newLine.split(/(\s+)/).filter(t => t.length > 0);
+  const pairs = alignSequences(oldTokens, newTokens, (x, y) => x === y);
+
+  const result: { old: WordChange[]; new: WordChange[] } = { old: [], new: [] };
+  const push = (changes: WordChange[], kind: WordChange['kind'], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else changes.push({ kind, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [oldIndex, newIndex] of [...pairs, [oldTokens.length, newTokens.length] as [number, number]]) {
+    for (; i < oldIndex; i++) push(result.old, 'removed', oldTokens[i]!);
+    for (; j < newIndex; j++) push(result.new, 'added', newTokens[j]!);
+    if (i < oldTokens.length && j < newTokens.length) {
+      push(result.old, 'equal', oldTokens[i++]!);
+      push(result.new, 'equal', newTokens[j++]!);
+    }
+  }
+  return result;
+}
+
+/**
+ * Pair each run of removed lines with the run of added lines that follows
+ * it and attach word-level changes to lines that replace one another
+ */
+function attachWordChanges(lines: BodyDiffLine[]): void {
+  let index = 0;
+  while (index < lines.length) {
+    const removedStart = index;
+    while (lines[index]?.kind === 'removed') index++;
+    const addedStart = index;
+    while (lines[index]?.kind === 'added') index++;
+
+    const pairs = Math.min(addedStart - removedStart, index - addedStart);
+    for (let k = 0; k < pairs; k++) {
+      const removed = lines[removedStart + k]!;
+      const added = lines[addedStart + k]!;
+      const words = diffWords(removed.text, added.text);
+      removed.words = words.old;
+      added.words = words.new;
+    }
+    if (index === removedStart) index++;
+  }
+}
+
+function buildHunks(ops: LineOp[]): BodyDiffHunk[] {
+  const hunks: BodyDiffHunk[] = [];
+  const changed = ops.map((op, i) => (op.kind === 'context' ? -1 : i)).filter(i => i >= 0);
+  if (changed.length === 0) return hunks;
+
+  // Merge changes whose context windows touch
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, index + CONTEXT_LINES);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else ranges.push([start, end]);
+  }
+
+  for (const [start, end] of ranges) {
+    const slice = ops.slice(start, end + 1);
+    const lines = slice.map((op): BodyDiffLine => ({
+      kind: op.kind,
+      text: op.text,
+      ...(op.oldIndex !== undefined ? { oldLine: op.oldIndex + 1 } : {}),
+      ...(op.newIndex !== undefined ? { newLine: op.newIndex + 1 } : {}),
+    }));
+    attachWordChanges(lines);
+
+    // Unified diff convention: an empty side starts at the line before it
+    const oldLines = lines.filter(l => l.oldLine !== undefined);
+    const newLines = lines.filter(l => l.newLine !== undefined);
+    const before = ops.slice(0, start);
+    hunks.push({
+      section: slice.find(op => op.kind !== 'context')!.section,
+      oldStart: oldLines[0]?.oldLine ?? before.filter(op => op.oldIndex !== undefined).length,
+      oldLines: oldLines.length,
+      newStart: newLines[0]?.newLine ?? before.filter(op => op.newIndex !== undefined).length,
+      newLines: newLines.length,
+      lines,
+    });
+  }
+  return hunks;
+}
+
+/**
+ * Structured diff of two markdown bodies.
+ *
+ * Sections are aligned by heading first, so a reordered or renamed section
+ * does not smear into its neighbours; the lines of each aligned pair are
+ * then diffed and grouped into unified-diff hunks with word-level changes.
+ */
+export function diffBodies(bodyA: string, bodyB: string): BodyDiff {
+  const sectionsA = splitSections(bodyA);
+  const sectionsB = splitSections(bodyB);
+
+  const ops: LineOp[] = [];
+  const sections: BodySectionChange[] = [];
+  let i = 0;
+  let j = 0;
+  const unmatched = (untilA: number, untilB: number) => {
+    for (; i < untilA; i++) {
+      ops.push(...diffLineRuns(sectionsA[i], undefined));
+      sections.push({ heading: sectionsA[i]!.heading, status: 'removed' });
+    }
+    for (; j < untilB; j++) {
+      ops.push(...diffLineRuns(undefined, sectionsB[j]));
+      sections.push({ heading: sectionsB[j]!.heading, status: 'added' });
+    }
+  };
+
+  const matches = alignSequences(sectionsA, sectionsB, (a, b) => sectionKey(a) === sectionKey(b));
+  for (const [indexA, indexB] of matches) {
+    unmatched(indexA, indexB);
+    const sectionOps = diffLineRuns(sectionsA[i], sectionsB[j]);
+    if (sectionOps.some(op => op.kind !== 'context')) {
+      sections.push({ heading: sectionsB[j]!.heading, status: 'changed' });
+    }
+    ops.push(...sectionOps);
+    i++;
+    j++;
+  }
+  unmatched(sectionsA.length, sectionsB.length);
+
+  return {
+    linesAdded: ops.filter(op => op.kind === 'added').length,
+    linesRemoved: ops.filter(op => op.kind === 'removed').length,
+    sections,
+    hunks: buildHunks(ops),
+  };
+}
+
+/**
+ * Render a body diff as a unified diff, with changed words highlighted when colored
+ */
+export function formatBodyDiff(bodyDiff: BodyDiff, useColor = true): string {
+  const paint = (code: string, text: string) => (useColor ? `${code}${text}\x1b[0m` : text);
+  const lineColors: Record<BodyChangeKind, string> = {
+    context: '',
+    added: '\x1b[32m',   // green
+    removed: '\x1b[31m', // red
+  };
+  const prefixes: Record<BodyChangeKind, string> = { context: ' ', added: '+', removed: '-' };
+
+  const lines: string[] = [];
+  for (const hunk of bodyDiff.hunks) {
+    const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+    lines.push(paint('\x1b[36m', header) + (hunk.section ? ` ${hunk.section}` : ''));
+
+    for (const line of hunk.lines) {
+      if (line.kind === 'context') {
+        lines.push(` ${line.text}`);
+        continue;
+      }
+      const color = lineColors[line.kind];
+      const text = useColor && line.words
+        ? line.words.map(w => (w.kind === 'equal' ? w.text : `\x1b[7m${w.text}\x1b[27m`)).join('')
+        : line.text;
+      lines.push(paint(color, `${prefixes[line.kind]}${text}`));
+    }
+  }
+  return lines.join('\n');
+}
+
 export function formatDiffForDisplay(diff: SemanticDiff, useColor: boolean = true): string {
   const lines: string[] = [];
   
@@ -309,6 +621,12 @@ export function formatDiffForDisplay(diff: SemanticDiff, useColor: boolean = tru
       lines.push(`  ${diffColor}[${d.severity}]${colorEnd} ${d.label}: ${d.description}`);
     }
   }
+
+  if (diff.bodyDiff && diff.bodyDiff.hunks.length > 0) {
+    lines.push('');
+    lines.push(`Body (+${diff.bodyDiff.linesAdded} -${diff.bodyDiff.linesRemoved} lines):`);
+    lines.push(formatBodyDiff(diff.bodyDiff, useColor));
+  }
   
   return lines.join('\n');
 }
@@ -0,0 +1,241 @@
+/**
+ * Hook event mapping
+ *
+ * Claude Code hooks (.claude/settings.json) fire on lifecycle events, and
+ * tool events are filtered by a tool-name matcher. Windsurf Cascade hooks
+ * (.windsurf/hooks.json) have one event per kind of action and no matcher:
+ *
+ * | Claude event + matcher                   | Windsurf event                       |
+ * |------------------------------------------|--------------------------------------|
+ * | Pre/PostToolUse  Read                    | pre_read_code / post_read_code       |
+ * | Pre/PostToolUse  Edit|MultiEdit|Write|…  | pre_write_code / post_write_code     |
+ * | Pre/PostToolUse  Bash                    | pre_run_command / post_run_command   |
+ * | Pre/PostToolUse  mcp__.*                 | pre_mcp_tool_use / post_mcp_tool_use |
+ * | UserPromptSubmit                         | pre_user_prompt                      |
+ * | Stop                                     | post_cascade_response                |
+ * | SessionStart, SessionEnd, Notification…  | (none)                               |
+ * | (none)                                   | post_setup_worktree                  |
+ *
+ * translateHooks() applies the table and returns a loss for every hook with
+ * no equivalent event, and for matchers that had to be widened or narrowed.
+ */
+
+import type {
+  ComponentSpec,
+  ConversionLoss,
+  ExtendedComponentFields,
+  HookEvent,
+  HookSpec,
+} from "./types.js";
+
+export type HookAgent = "claude" | "windsurf";
+
+export const CLAUDE_HOOK_EVENTS: readonly HookEvent[] = [
+  "PreToolUse",
+  "PostToolUse",
+  "Stop",
+  "SubagentStop",
+  "SessionStart",
+  "SessionEnd",
+  "UserPromptSubmit",
+  "Notification",
+  "PreCompact",
+  "Setup",
+  "PermissionRequest",
+];
+
+export const WINDSURF_HOOK_EVENTS: readonly HookEvent[] = [
+  "pre_read_code",
+  "post_read_code",
+  "pre_write_code",
+  "post_write_code",
+  "pre_run_command",
+  "post_run_command",
+  "pre_mcp_tool_use",
+  "post_mcp_tool_use",
+  "pre_user_prompt",
+  "post_cascade_response",
+  "post_setup_worktree",
+];
+
+interface ToolCategory {
+  /** Claude tools covered by the Windsurf event */
+  tools: string[];
+  /** Claude matcher equivalent to the Windsurf event */
+  matcher: string;
+  pre: HookEvent;
+  post: HookEvent;
+}
+
+/** Stand-in name used to test matchers against MCP tools (mcp__<server>__<tool>) */
+const MCP_TOOL_SAMPLE = "mcp__server__tool";
+
+const TOOL_CATEGORIES: ToolCategory[] = [
+  { tools: ["Read"], matcher: "Read", pre: "pre_read_code", post: "post_read_code" },
+  {
+    tools: ["Edit", "MultiEdit", "Write", "NotebookEdit"],
+    matcher: "Edit|MultiEdit|Write|NotebookEdit",
+    pre: "pre_write_code",
+    post: "post_write_code",
+  },
+  { tools: ["Bash"], matcher: "Bash", pre: "pre_run_command", post: "post_run_command" },
+  { tools: [MCP_TOOL_SAMPLE], matcher: "mcp__.*", pre: "pre_mcp_tool_use", post: "post_mcp_tool_use" },
+];
+
+/** Claude tools that no Windsurf hook event fires for */
+const UNHOOKABLE_TOOLS = ["Glob", "Grep", "LS", "WebFetch", "WebSearch", "Task", "TodoWrite"];
+
+/** Lifecycle events with a direct equivalent */
+const CLAUDE_TO_WINDSURF: Partial<Record<HookEvent, HookEvent>> = {
+  UserPromptSubmit: "pre_user_prompt",
+  Stop: "post_cascade_response",
+};
+
+const WINDSURF_TO_CLAUDE: Partial<Record<HookEvent, HookEvent>> = {
+  pre_user_prompt: "UserPromptSubmit",
+  post_cascade_response: "Stop",
+};
+
+export function isClaudeHookEvent(event: string): event is HookEvent {
+  return (CLAUDE_HOOK_EVENTS as readonly string[]).includes(event);
+}
+
+export function isWindsurfHookEvent(event: string): event is HookEvent {
+  return (WINDSURF_HOOK_EVENTS as readonly string[]).includes(event);
+}
+
+/**
+ * Hooks attached to a hook component, if any
+ */
+export function getHooks(spec: ComponentSpec): HookSpec[] {
+  return (spec as ComponentSpec & ExtendedComponentFields).hooks ?? [];
+}
+
+export interface HookTranslation {
+  hooks: HookSpec[];
+  losses: ConversionLoss[];
+}
+
+/**
+ * Translate hooks to the target agent's events. Hooks already in the
+ * target's event family pass through unchanged.
+ */
+export function translateHooks(hooks: HookSpec[], target: HookAgent): HookTranslation {
+  const result: HookTranslation = { hooks: [], losses: [] };
+
+  for (const hook of hooks) {
+    if (target === "windsurf") {
+      if (isWindsurfHookEvent(hook.event)) {
+        result.hooks.push(hook);
+      } else {
+        toWindsurf(hook, result);
+      }
+    } else if (isClaudeHookEvent(hook.event)) {
+      result.hooks.push(hook);
+    } else {
+      toClaude(hook, result);
+    }
+  }
+
+  return result;
+}
+
+function toWindsurf(hook: HookSpec, result: HookTranslation): void {
+  if (hook.event === "PreToolUse" || hook.event === "PostToolUse") {
+    const phase = hook.event === "PreToolUse" ? "pre" : "post";
+    const matches = compileMatcher(hook.matcher);
+    const categories = TOOL_CATEGORIES.filter(
+      (c) => c.tools.some(matches) || (c.tools[0] === MCP_TOOL_SAMPLE && /mcp__/.test(hook.matcher ?? "")),
+    );
+    const label = hook.matcher ? `'${hook.matcher}'` : "all tools";
+
+    if (categories.length === 0) {
+      result.losses.push(
+        dropped(hook, `${hook.event} hook for ${label} has no Windsurf equivalent; hook dropped`),
+      );
+      return;
+    }
+
+    for (const category of categories) {
+      result.hooks.push(withoutMatcher({ ...hook, event: category[phase] }));
+    }
+
+    // Windsurf events cannot be narrowed to single tools or MCP servers
+    const widened = categories.flatMap((c) => c.tools.filter((t) => !matches(t)));
+    if (widened.length > 0) {
+      const names = widened.map((t) => (t === MCP_TOOL_SAMPLE ? "all MCP tools" : t));
+      result.losses.push({
+        category: "activation",
+        severity: "info",
+        sourceField: `hooks.${hook.event}.matcher`,
+        description: `Matcher ${label} widened: Windsurf ${categories.map((c) => c[phase]).join(", ")} also runs for ${names.join(", ")}`,
+      });
+    }
+
+    const narrowed = UNHOOKABLE_TOOLS.filter(matches);
+    if (narrowed.length > 0) {
+      result.losses.push({
+        category: "activation",
+        severity: "info",
+        sourceField: `hooks.${hook.event}.matcher`,
+        description: `Matcher ${label} narrowed: Windsurf has no hook events for ${narrowed.join(", ")}`,
+      });
+    }
+    return;
+  }
+
+  const mapped = CLAUDE_TO_WINDSURF[hook.event];
+  if (mapped) {
+    result.hooks.push(withoutMatcher({ ...hook, event: mapped }));
+  } else {
+    result.losses.push(dropped(hook, `Claude hook event '${hook.event}' has no Windsurf equivalent; hook dropped`));
+  }
+}
+
+function toClaude(hook: HookSpec, result: HookTranslation): void {
+  for (const category of TOOL_CATEGORIES) {
+    if (hook.event === category.pre || hook.event === category.post) {
+      result.hooks.push({
+        ...hook,
+        event: hook.event === category.pre ? "PreToolUse" : "PostToolUse",
+        matcher: category.matcher,
+      });
+      return;
+    }
+  }
+
+  const mapped = WINDSURF_TO_CLAUDE[hook.event];
+  if (mapped) {
+    result.hooks.push(withoutMatcher({ ...hook, event: mapped }));
+  } else {
+    result.losses.push(dropped(hook, `Windsurf hook event '${hook.event}' has no Claude equivalent; hook dropped`));
+  }
+}
+
+/**
+ * Claude matchers are tool-name regexes; empty and "*" match every tool
+ */
+function compileMatcher(matcher?: string): (tool: string) => boolean {
+  if (!matcher || matcher === "*") return () => true;
+  try {
+    const regex = new RegExp(`^(?:${matcher})$`);
+    return (tool) => regex.test(tool);
+  } catch {
+    return (tool) => tool === matcher;
+  }
+}
+
+function withoutMatcher(hook: HookSpec): HookSpec {
+  const { matcher: _matcher, ...rest } = hook;
+  return rest;
+}
+
+function dropped(hook: HookSpec, description: string): ConversionLoss {
+  return {
+    category: "activation",
+    severity: "warning",
+    sourceField: `hooks.${hook.event}`,
+    description,
+    recommendation: `Run '${hook.command}' manually or from another hook`,
+  };
+}
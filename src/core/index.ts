@@ -5,6 +5,17 @@
 export * from './types.js';
 export * from './constants.js';
 export * from './schema.js';
+export * from './json-schema.js';
 export * from './diff.js';
 export * from './errors.js';
 export * from './output.js';
+export * from './rule-activation.js';
+export * from './toml.js';
+export * from './agent-config.js';
+export * from './hook-mapping.js';
+export * from './mcp-config.js';
+export * from './merge.js';
+export * from './tool-vocabulary.js';
+export * from './memory-imports.js';
+export * from './sub-agents.js';
+export * from './settings-file.js';
@@ -0,0 +1,113 @@
+/**
+ * JSON Schema export of the IR
+ *
+ * Converts the Zod schemas in core/schema.ts to JSON Schema (draft-07) so
+ * editors and non-TypeScript tools can validate ComponentSpec and
+ * ConversionReport documents. The published copies live in schemas/ and
+ * are regenerated with `cace schema <name> -o schemas/<name>.schema.json`.
+ *
+ * Only the Zod constructs used in core/schema.ts are supported.
+ */
+
+import { z } from 'zod';
+import { ConversionReportSchema, ExtendedComponentSpecSchema } from './schema.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface PublishedSchema {
+  title: string;
+  description: string;
+  schema: z.ZodTypeAny;
+}
+
+const SCHEMA_BASE_URL =
+  'https://raw.githubusercontent.com/AIntelligentTech/cross-agent-compatibility-engine/main/schemas';
+
+export const PUBLISHED_SCHEMAS = {
+  'component-spec': {
+    title: 'ComponentSpec',
+    description: 'CACE canonical intermediate representation of an agent component',
+    schema: ExtendedComponentSpecSchema,
+  },
+  'conversion-report': {
+    title: 'ConversionReport',
+    description: 'CACE report of what a conversion preserved and lost',
+    schema: ConversionReportSchema,
+  },
+} satisfies Record<string, PublishedSchema>;
+
+export type PublishedSchemaName = keyof typeof PUBLISHED_SCHEMAS;
+
+export function isPublishedSchemaName(name: string): name is PublishedSchemaName {
+  return Object.prototype.hasOwnProperty.call(PUBLISHED_SCHEMAS, name);
+}
+
+/**
+ * Build the top-level JSON Schema document for a published schema
+ */
+export function getJsonSchema(name: PublishedSchemaName): JsonSchema {
+  const { title, description, schema } = PUBLISHED_SCHEMAS[name];
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: `${SCHEMA_BASE_URL}/${name}.schema.json`,
+    title,
+    description,
+    ...zodToJsonSchema(schema),
+  };
+}
+
+/**
+ * Convert a Zod schema to JSON Schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    // Zod objects accept unknown keys, so additional properties stay allowed
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap() as z.ZodTypeAny);
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJsonSchema(schema.element as z.ZodTypeAny) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    const keySchema = schema.keySchema as z.ZodTypeAny;
+    return {
+      type: 'object',
+      ...(keySchema instanceof z.ZodEnum ? { propertyNames: zodToJsonSchema(keySchema) } : {}),
+      additionalProperties: zodToJsonSchema(schema.valueSchema as z.ZodTypeAny),
+    };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...(schema.options as string[])] };
+  }
+  if (schema instanceof z.ZodString) {
+    const min = schema.minLength;
+    return { type: 'string', ...(min !== null ? { minLength: min } : {}) };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: schema.isInt ? 'integer' : 'number',
+      ...(schema.minValue !== null ? { minimum: schema.minValue } : {}),
+      ...(schema.maxValue !== null ? { maximum: schema.maxValue } : {}),
+    };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodUnknown) {
+    return {};
+  }
+  throw new Error(`Unsupported Zod type for JSON Schema export: ${schema.constructor.name}`);
+}
@@ -0,0 +1,487 @@
+/**
+ * MCP server configuration mapping
+ *
+ * Every agent stores the same MCP server definitions under different keys:
+ *
+ * | IR (McpServerSpec) | Claude .mcp.json | Cursor mcp.json | Windsurf mcp_config.json | Gemini settings.json | Codex [mcp_servers.*]                  | OpenCode mcp            |
+ * |--------------------|------------------|-----------------|--------------------------|----------------------|----------------------------------------|-------------------------|
+ * | transport          | type             | (from url)      | (from serverUrl)         | url=sse, httpUrl=http| (from url; no sse)                     | type local/remote       |
+ * | command, args      | command, args    | command, args   | command, args            | command, args        | command, args                          | command [cmd, ...args]  |
+ * | env                | env              | env             | env                      | env                  | env, env_vars                          | environment             |
+ * | cwd                | -                | -               | -                        | cwd                  | cwd                                    | -                       |
+ * | url                | url              | url             | serverUrl                | url / httpUrl        | url                                    | url                     |
+ * | headers            | headers          | headers         | headers                  | headers              | http_headers, env_http_headers, bearer_token_env_var | headers   |
+ * | timeout (ms)       | -                | -               | -                        | timeout              | tool_timeout_sec                       | -                       |
+ * | enabled            | -                | -               | disabled                 | -                    | enabled                                | enabled                 |
+ * | includeTools       | -                | -               | -                        | includeTools         | enabled_tools                          | -                       |
+ * | excludeTools       | -                | -               | disabledTools            | excludeTools         | disabled_tools                         | -                       |
+ *
+ * Environment references are stored as ${VAR} and written in each agent's
+ * syntax: Claude ${VAR} (and ${VAR:-default}), Cursor and Windsurf
+ * ${env:VAR}, Gemini ${VAR}, OpenCode {env:VAR}. Codex does not expand
+ * references; env entries that forward a variable become env_vars.
+ *
+ * Fields marked "-" and keys without an IR field are reported as losses
+ * when rendering for another agent.
+ */
+
+import type {
+  AgentId,
+  ComponentSpec,
+  ConversionLoss,
+  ExtendedComponentFields,
+  McpServerSpec,
+  McpTransport,
+} from "./types.js";
+
+export type McpAgent = "claude" | "cursor" | "windsurf" | "gemini" | "codex" | "opencode";
+
+export const MCP_AGENTS: readonly McpAgent[] = ["claude", "cursor", "windsurf", "gemini", "codex", "opencode"];
+
+export function isMcpAgent(agent: string): agent is McpAgent {
+  return (MCP_AGENTS as readonly string[]).includes(agent);
+}
+
+/**
+ * Key holding the server table in each agent's file
+ */
+export const MCP_SERVERS_KEY: Record<McpAgent, string> = {
+  claude: "mcpServers",
+  cursor: "mcpServers",
+  windsurf: "mcpServers",
+  gemini: "mcpServers",
+  codex: "mcp_servers",
+  opencode: "mcp",
+};
+
+/**
+ * Server definitions attached to an mcp component, if any
+ */
+export function getMcpServers(spec: ComponentSpec): McpServerSpec[] {
+  return (spec as ComponentSpec & ExtendedComponentFields).mcpServers ?? [];
+}
+
+export interface McpServersParseResult {
+  servers: McpServerSpec[];
+  warnings: string[];
+}
+
+export interface McpServersRenderResult {
+  servers: Record<string, Record<string, unknown>>;
+  losses: ConversionLoss[];
+}
+
+type Entry = Record<string, unknown>;
+
+/**
+ * Parse an agent's server table (the value under MCP_SERVERS_KEY)
+ */
+export function parseMcpServers(agent: McpAgent, table: Record<string, unknown>): McpServersParseResult {
+  const result: McpServersParseResult = { servers: [], warnings: [] };
+
+  for (const [name, value] of Object.entries(table)) {
+    if (!isEntry(value)) {
+      result.warnings.push(`MCP server '${name}' is not an object; skipped`);
+      continue;
+    }
+
+    const rest: Entry = { ...value };
+    const server = PARSERS[agent](name, rest);
+    if (!server.command && !server.url) {
+      result.warnings.push(`MCP server '${name}' has neither a command nor a URL; skipped`);
+      continue;
+    }
+    if (Object.keys(rest).length > 0) {
+      server.extra = rest;
+    }
+    result.servers.push(mapStrings(server, (s) => fromAgentRefs(s, agent)));
+  }
+
+  return result;
+}
+
+/**
+ * Render servers in an agent's format. Extra fields are only written back
+ * when the servers came from the same agent.
+ */
+export function renderMcpServers(
+  agent: McpAgent,
+  servers: McpServerSpec[],
+  sourceAgent?: AgentId,
+): McpServersRenderResult {
+  const result: McpServersRenderResult = { servers: {}, losses: [] };
+
+  for (const server of servers) {
+    const defaults = new Set<string>();
+    const converted = mapStrings(server, (s) => toAgentRefs(s, agent, defaults));
+    const unsupported: string[] = [];
+    const entry = RENDERERS[agent](converted, unsupported, result.losses);
+
+    if (server.extra) {
+      if (sourceAgent === agent) {
+        Object.assign(entry, server.extra);
+      } else {
+        unsupported.push(...Object.keys(server.extra));
+      }
+    }
+
+    if (unsupported.length > 0) {
+      result.losses.push({
+        category: "configuration",
+        severity: unsupported.some((f) => SIGNIFICANT_FIELDS.has(f)) ? "warning" : "info",
+        description: `MCP server '${server.name}' fields not supported by ${agent}: ${unsupported.join(", ")}`,
+        sourceField: `mcpServers.${server.name}`,
+      });
+    }
+    if (defaults.size > 0) {
+      result.losses.push({
+        category: "configuration",
+        severity: "warning",
+        description: `MCP server '${server.name}': ${agent} does not support default values in ${[...defaults].join(", ")}`,
+        sourceField: `mcpServers.${server.name}.env`,
+        recommendation: "Set the variables in the environment instead of relying on defaults",
+      });
+    }
+
+    result.servers[server.name] = entry;
+  }
+
+  return result;
+}
+
+/** Dropping these changes which tools run or where, not just tuning */
+const SIGNIFICANT_FIELDS = new Set(["cwd", "enabled", "includeTools", "excludeTools"]);
+
+// ============================================================================
+// Environment references
+// ============================================================================
+
+const ENV_REF = /\$\{([A-Za-z_][A-Za-z0-9_]*)(:-[^}]*)?\}/g;
+const HAS_ENV_REF = /\$\{[A-Za-z_]/;
+
+function fromAgentRefs(value: string, agent: McpAgent): string {
+  switch (agent) {
+    case "cursor":
+    case "windsurf":
+      return value.replace(/\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g, "${$1}");
+    case "gemini":
+      return value.replace(/\$([A-Za-z_][A-Za-z0-9_]*)/g, "${$1}");
+    case "opencode":
+      return value.replace(/\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g, "${$1}");
+    default:
+      return value;
+  }
+}
+
+function toAgentRefs(value: string, agent: McpAgent, defaults: Set<string>): string {
+  if (agent === "claude" || agent === "codex") return value;
+
+  return value.replace(ENV_REF, (_match, name: string, fallback?: string) => {
+    if (fallback) defaults.add(name);
+    if (agent === "opencode") return `{env:${name}}`;
+    if (agent === "gemini") return `\${${name}}`;
+    return `\${env:${name}}`;
+  });
+}
+
+function mapStrings(server: McpServerSpec, fn: (value: string) => string): McpServerSpec {
+  const mapRecord = (record?: Record<string, string>) =>
+    record ? Object.fromEntries(Object.entries(record).map(([k, v]) => [k, fn(v)])) : undefined;
+
+  return withoutUndefined({
+    ...server,
+    command: server.command !== undefined ? fn(server.command) : undefined,
+    args: server.args?.map(fn),
+    env: mapRecord(server.env),
+    cwd: server.cwd !== undefined ? fn(server.cwd) : undefined,
+    url: server.url !== undefined ? fn(server.url) : undefined,
+    headers: mapRecord(server.headers),
+  });
+}
+
+// ============================================================================
+// Per-agent parsers. Each takes the keys it understands out of `rest`.
+// ============================================================================
+
+const PARSERS: Record<McpAgent, (name: string, rest: Entry) => McpServerSpec> = {
+  claude: (name, rest) => {
+    const type = take(rest, "type");
+    const server = parseCommon(name, rest, "url");
+    if (type === "stdio" || type === "http" || type === "sse") server.transport = type;
+    return server;
+  },
+
+  cursor: (name, rest) => {
+    take(rest, "type");
+    return parseCommon(name, rest, "url");
+  },
+
+  windsurf: (name, rest) => {
+    const server = parseCommon(name, rest, rest.serverUrl !== undefined ? "serverUrl" : "url");
+    if (take(rest, "disabled") === true) server.enabled = false;
+    server.excludeTools = stringArray(take(rest, "disabledTools"));
+    return server;
+  },
+
+  gemini: (name, rest) => {
+    const httpUrl = stringValue(take(rest, "httpUrl"));
+    const server = parseCommon(name, rest, "url");
+    if (httpUrl) {
+      server.url = httpUrl;
+      server.transport = "http";
+    } else if (server.url) {
+      server.transport = "sse";
+    }
+    server.cwd = stringValue(take(rest, "cwd"));
+    server.timeout = numberValue(take(rest, "timeout"));
+    server.includeTools = stringArray(take(rest, "includeTools"));
+    server.excludeTools = stringArray(take(rest, "excludeTools"));
+    return server;
+  },
+
+  codex: (name, rest) => {
+    const headers = stringRecord(take(rest, "http_headers")) ?? {};
+    const server = parseCommon(name, rest, "url");
+    if (server.url) server.transport = "http";
+
+    for (const variable of stringArray(take(rest, "env_vars")) ?? []) {
+      server.env = { ...server.env, [variable]: `\${${variable}}` };
+    }
+    for (const [header, variable] of Object.entries(stringRecord(take(rest, "env_http_headers")) ?? {})) {
+      headers[header] = `\${${variable}}`;
+    }
+    const bearer = stringValue(take(rest, "bearer_token_env_var"));
+    if (bearer) headers.Authorization = `Bearer \${${bearer}}`;
+    if (Object.keys(headers).length > 0) server.headers = headers;
+
+    server.cwd = stringValue(take(rest, "cwd"));
+    const timeout = numberValue(take(rest, "tool_timeout_sec"));
+    server.timeout = timeout !== undefined ? timeout * 1000 : undefined;
+    server.enabled = booleanValue(take(rest, "enabled"));
+    server.includeTools = stringArray(take(rest, "enabled_tools"));
+    server.excludeTools = stringArray(take(rest, "disabled_tools"));
+    return server;
+  },
+
+  opencode: (name, rest) => {
+    const type = take(rest, "type");
+    const command = stringArray(take(rest, "command")) ?? [];
+    const url = stringValue(take(rest, "url"));
+    return {
+      name,
+      transport: type === "remote" || (type === undefined && url) ? inferTransport(url) : "stdio",
+      command: command[0],
+      args: command.length > 1 ? command.slice(1) : undefined,
+      env: stringRecord(take(rest, "environment")),
+      url,
+      headers: stringRecord(take(rest, "headers")),
+      enabled: booleanValue(take(rest, "enabled")),
+    };
+  },
+};
+
+function parseCommon(name: string, rest: Entry, urlKey: string): McpServerSpec {
+  const url = stringValue(take(rest, urlKey));
+  return {
+    name,
+    transport: url ? inferTransport(url) : "stdio",
+    command: stringValue(take(rest, "command")),
+    args: stringArray(take(rest, "args")),
+    env: stringRecord(take(rest, "env")),
+    url,
+    headers: stringRecord(take(rest, "headers")),
+  };
+}
+
+/**
+ * Agents that infer the transport from the URL use a /sse path for SSE
+ */
+function inferTransport(url?: string): McpTransport {
+  return url && /\/sse\/?$/.test(url) ? "sse" : "http";
+}
+
+// ============================================================================
+// Per-agent renderers. Each lists IR fields it cannot express in `unsupported`.
+// ============================================================================
+
+type ServerRenderer = (server: McpServerSpec, unsupported: string[], losses: ConversionLoss[]) => Entry;
+
+const RENDERERS: Record<McpAgent, ServerRenderer> = {
+  claude: (server, unsupported) => {
+    unsupportedFields(server, ["cwd", "timeout", "enabled", "includeTools", "excludeTools"], unsupported);
+    return withoutUndefined({ type: server.transport, ...commonFields(server, "url") });
+  },
+
+  cursor: (server, unsupported) => {
+    unsupportedFields(server, ["cwd", "timeout", "enabled", "includeTools", "excludeTools"], unsupported);
+    return commonFields(server, "url");
+  },
+
+  windsurf: (server, unsupported) => {
+    unsupportedFields(server, ["cwd", "timeout", "includeTools"], unsupported);
+    return withoutUndefined({
+      ...commonFields(server, "serverUrl"),
+      disabled: server.enabled === false ? true : undefined,
+      disabledTools: server.excludeTools,
+    });
+  },
+
+  gemini: (server, unsupported) => {
+    unsupportedFields(server, ["enabled"], unsupported);
+    return withoutUndefined({
+      command: server.command,
+      args: server.args,
+      env: server.env,
+      cwd: server.cwd,
+      url: server.transport === "sse" ? server.url : undefined,
+      httpUrl: server.transport === "http" ? server.url : undefined,
+      headers: server.headers,
+      timeout: server.timeout,
+      includeTools: server.includeTools,
+      excludeTools: server.excludeTools,
+    });
+  },
+
+  codex: (server, _unsupported, losses) => {
+    const env: Record<string, string> = {};
+    const envVars: string[] = [];
+    for (const [key, value] of Object.entries(server.env ?? {})) {
+      if (value === `\${${key}}`) envVars.push(key);
+      else env[key] = value;
+    }
+
+    const httpHeaders: Record<string, string> = {};
+    const envHttpHeaders: Record<string, string> = {};
+    let bearer: string | undefined;
+    for (const [header, value] of Object.entries(server.headers ?? {})) {
+      const bearerMatch = header.toLowerCase() === "authorization" && /^Bearer \$\{(\w+)\}$/.exec(value);
+      const variableMatch = /^\$\{(\w+)\}$/.exec(value);
+      if (bearerMatch) bearer = bearerMatch[1];
+      else if (variableMatch) envHttpHeaders[header] = variableMatch[1]!;
+      else httpHeaders[header] = value;
+    }
+
+    if (server.transport === "sse") {
+      losses.push({
+        category: "configuration",
+        severity: "warning",
+        description: `MCP server '${server.name}' uses SSE; Codex only connects over stdio or streamable HTTP`,
+        sourceField: `mcpServers.${server.name}.transport`,
+        recommendation: "Point Codex at the server's streamable HTTP endpoint or run it through a stdio proxy",
+      });
+    }
+
+    const unexpanded = [
+      server.command,
+      ...(server.args ?? []),
+      ...Object.values(env),
+      server.cwd,
+      server.url,
+      ...Object.values(httpHeaders),
+    ].filter((value) => value !== undefined && HAS_ENV_REF.test(value));
+    if (unexpanded.length > 0) {
+      losses.push({
+        category: "configuration",
+        severity: "warning",
+        description: `MCP server '${server.name}': Codex does not expand environment references in ${unexpanded.join(", ")}`,
+        sourceField: `mcpServers.${server.name}.env`,
+        recommendation: "Use env_vars to forward variables, or write the values literally",
+      });
+    }
+
+    return withoutUndefined({
+      command: server.command,
+      args: server.args,
+      env: Object.keys(env).length > 0 ? env : undefined,
+      env_vars: envVars.length > 0 ? envVars : undefined,
+      cwd: server.cwd,
+      url: server.url,
+      bearer_token_env_var: bearer,
+      http_headers: Object.keys(httpHeaders).length > 0 ? httpHeaders : undefined,
+      env_http_headers: Object.keys(envHttpHeaders).length > 0 ? envHttpHeaders : undefined,
+      tool_timeout_sec: server.timeout !== undefined ? server.timeout / 1000 : undefined,
+      enabled: server.enabled,
+      enabled_tools: server.includeTools,
+      disabled_tools: server.excludeTools,
+    });
+  },
+
+  opencode: (server, unsupported) => {
+    unsupportedFields(server, ["cwd", "timeout", "includeTools", "excludeTools"], unsupported);
+    if (server.transport === "stdio") {
+      return withoutUndefined({
+        type: "local",
+        command: server.command ? [server.command, ...(server.args ?? [])] : undefined,
+        environment: server.env,
+        enabled: server.enabled,
+      });
+    }
+    return withoutUndefined({
+      type: "remote",
+      url: server.url,
+      headers: server.headers,
+      enabled: server.enabled,
+    });
+  },
+};
+
+function commonFields(server: McpServerSpec, urlKey: string): Entry {
+  return withoutUndefined({
+    command: server.command,
+    args: server.args,
+    env: server.env,
+    [urlKey]: server.url,
+    headers: server.headers,
+  });
+}
+
+function unsupportedFields(
+  server: McpServerSpec,
+  fields: Array<keyof McpServerSpec>,
+  unsupported: string[],
+): void {
+  for (const field of fields) {
+    // Listed servers are enabled by default, so only a disabled one is lost
+    const value = field === "enabled" ? server.enabled === false || undefined : server[field];
+    if (value !== undefined) unsupported.push(field);
+  }
+}
+
+// ============================================================================
+// Value helpers
+// ============================================================================
+
+function take(entry: Entry, key: string): unknown {
+  const value = entry[key];
+  Reflect.deleteProperty(entry, key);
+  return value;
+}
+
+function isEntry(value: unknown): value is Entry {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function numberValue(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function booleanValue(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+function stringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.map(String) : undefined;
+}
+
+function stringRecord(value: unknown): Record<string, string> | undefined {
+  if (!isEntry(value)) return undefined;
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, String(v)]));
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
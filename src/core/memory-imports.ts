@@ -0,0 +1,87 @@
+/**
+ * Memory file imports
+ *
+ * CLAUDE.md and GEMINI.md pull other files into the context with `@path`
+ * references. Parsers record them as ImportSpecs and, when they know where
+ * the memory file lives, load each one (see parsing/memory/import-resolver);
+ * renderers for agents without imports inline the loaded content instead.
+ */
+
+import type { AgentId, ImportSpec } from './types.js';
+
+/**
+ * How renderers carry imports over: keep them as the target's own imports
+ * (native, for agents that have them) or paste in the loaded content (inline)
+ */
+export type ImportMode = 'native' | 'inline';
+
+export const IMPORT_MODES: ImportMode[] = ['native', 'inline'];
+
+/** Claude Code follows nested imports at most this many hops deep */
+export const MAX_IMPORT_DEPTH = 5;
+
+/** Agents whose memory files resolve `@path` imports themselves */
+export const NATIVE_IMPORT_AGENTS: AgentId[] = ['claude', 'gemini'];
+
+/**
+ * `@path` not preceded by a word character (so email addresses don't match)
+ * and not followed by a backtick or word character
+ */
+const IMPORT_PATTERN = /(?<![\w@])@([a-zA-Z0-9_\-./~]+)(?![`\w])/g;
+
+/** Imports inside code spans and fenced code blocks are not evaluated */
+function withoutCode(content: string): string {
+  return content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+    .replace(/`[^`\n]*`/g, '');
+}
+
+/**
+ * Extract the `@path` imports of a memory file, in order and without duplicates
+ */
+export function extractImports(content: string): ImportSpec[] {
+  const imports: ImportSpec[] = [];
+  const seen = new Set<string>();
+
+  for (const match of withoutCode(content).matchAll(IMPORT_PATTERN)) {
+    const path = match[1]?.replace(/\.$/, '');
+    if (!path || path.startsWith('ts-') || path.startsWith('types/') || seen.has(path)) continue;
+    seen.add(path);
+    imports.push({
+      path,
+      type: path.startsWith('http') ? 'url' : 'file',
+      optional: false,
+    });
+  }
+
+  return imports;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace imports with the content they loaded. An import on a line of its
+ * own (optionally as a list item) is replaced by the content; one mentioned
+ * in running text stays as written and the content is appended at the end.
+ * Imports without content are left untouched.
+ */
+export function inlineImports(content: string, imports: ImportSpec[]): string {
+  let result = content;
+  const appended: string[] = [];
+
+  for (const imp of imports) {
+    if (imp.content === undefined) continue;
+    const imported = imp.content.trim();
+    const ownLine = new RegExp(`^[ \\t]*(?:[-*][ \\t]+)?@${escapeRegExp(imp.path)}[ \\t]*$`, 'm');
+    if (ownLine.test(result)) {
+      result = result.replace(ownLine, () => imported);
+    } else {
+      appended.push(`<!-- Imported from ${imp.path} -->\n${imported}`);
+    }
+  }
+
+  if (appended.length === 0) return result;
+  return `${result.trimEnd()}\n\n${appended.join('\n\n')}\n`;
+}
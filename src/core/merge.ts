@@ -0,0 +1,90 @@
+/**
+ * Line-based three-way merge
+ *
+ * Used to carry hand edits of a generated file over to a fresh render:
+ * the base is the output CACE generated last time, "ours" is the file as
+ * the user left it and "theirs" is the new render. Regions changed on one
+ * side only are taken from that side; regions changed differently on both
+ * sides become conflicts wrapped in git-style markers.
+ */
+
+import { alignSequences } from './diff.js';
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeConflict {
+  /** 1-based line of the `<<<<<<<` marker in the merged content */
+  line: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export interface ThreeWayMergeResult {
+  content: string;
+  clean: boolean;
+  conflicts: MergeConflict[];
+}
+
+const DEFAULT_LABELS: MergeLabels = { ours: 'local', theirs: 'generated' };
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge `ours` and `theirs`, both derived from `base`
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = DEFAULT_LABELS
+): ThreeWayMergeResult {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+
+  const toOurs = new Map(alignSequences(baseLines, ourLines, (x, y) => x === y));
+  const toTheirs = new Map(alignSequences(baseLines, theirLines, (x, y) => x === y));
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  // Base lines kept by both sides are stable anchors; merge the chunks between them
+  const resolveChunk = (baseChunk: string[], ourChunk: string[], theirChunk: string[]) => {
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts.push({ line: output.length + 1, base: baseChunk, ours: ourChunk, theirs: theirChunk });
+      output.push(`<<<<<<< ${labels.ours}`, ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`);
+    }
+  };
+
+  let baseIndex = 0;
+  let ourIndex = 0;
+  let theirIndex = 0;
+  for (let anchor = 0; anchor < baseLines.length; anchor++) {
+    const ourAnchor = toOurs.get(anchor);
+    const theirAnchor = toTheirs.get(anchor);
+    if (ourAnchor === undefined || theirAnchor === undefined) continue;
+
+    resolveChunk(
+      baseLines.slice(baseIndex, anchor),
+      ourLines.slice(ourIndex, ourAnchor),
+      theirLines.slice(theirIndex, theirAnchor)
+    );
+    output.push(baseLines[anchor]!);
+    baseIndex = anchor + 1;
+    ourIndex = ourAnchor + 1;
+    theirIndex = theirAnchor + 1;
+  }
+  resolveChunk(baseLines.slice(baseIndex), ourLines.slice(ourIndex), theirLines.slice(theirIndex));
+
+  return { content: output.join('\n'), clean: conflicts.length === 0, conflicts };
+}
@@ -0,0 +1,138 @@
+/**
+ * Rule activation helpers
+ *
+ * Cursor (.mdc), Windsurf, Claude and Continue rules express the same four
+ * activation kinds through different frontmatter:
+ *
+ * | Kind            | Cursor .mdc                      | Windsurf                 | Claude              | Continue                           |
+ * |-----------------|----------------------------------|--------------------------|---------------------|------------------------------------|
+ * | always          | alwaysApply: true                | trigger: always_on       | rule without paths  | alwaysApply: true (or no fields)   |
+ * | auto-attached   | globs: a,b                       | trigger: glob + globs    | rule with paths     | globs: [...]                       |
+ * | agent-requested | description only                 | trigger: model_decision  | (skill)             | alwaysApply: false + description   |
+ * | manual          | no description, globs or always  | trigger: manual          | (manual skill)      | alwaysApply: false, no description |
+ *
+ * Parsers store the kind as a RuleActivation plus the equivalent
+ * ActivationModel (mode + glob triggers); renderers read it back with
+ * getRuleKind/getRuleGlobs so glob triggers survive every hop.
+ */
+
+import type {
+  ActivationMode,
+  ComponentSpec,
+  ExtendedComponentFields,
+  RuleActivation,
+  RuleKind,
+  ScopeLevel,
+  TriggerSpec,
+} from "./types.js";
+
+const KIND_TO_MODE: Record<RuleKind, ActivationMode> = {
+  always: "auto",
+  "auto-attached": "contextual",
+  "agent-requested": "suggested",
+  manual: "manual",
+};
+
+/**
+ * Build a RuleActivation for the given kind
+ */
+export function createRuleActivation(
+  kind: RuleKind,
+  options: { globs?: string[]; description?: string; scope?: ScopeLevel } = {},
+): RuleActivation {
+  const globs = options.globs && options.globs.length > 0 ? options.globs : undefined;
+  return {
+    globs,
+    alwaysApply: kind === "always",
+    agentDecided: kind === "agent-requested",
+    description: options.description,
+    scope: options.scope ?? "project",
+  };
+}
+
+/**
+ * Activation mode and glob triggers equivalent to a rule kind
+ */
+export function activationForRuleKind(
+  kind: RuleKind,
+  globs?: string[],
+): { mode: ActivationMode; triggers?: TriggerSpec[] } {
+  const triggers =
+    globs && globs.length > 0
+      ? globs.map((pattern) => ({ type: "glob" as const, pattern }))
+      : undefined;
+  return { mode: KIND_TO_MODE[kind], triggers };
+}
+
+/**
+ * Glob patterns a spec is attached to, from its RuleActivation when present
+ * or from its glob triggers otherwise
+ */
+export function getRuleGlobs(spec: ComponentSpec): string[] {
+  const rule = (spec as ComponentSpec & ExtendedComponentFields).ruleActivation;
+  const fromRule = [...(rule?.globs ?? []), ...(rule?.paths ?? [])];
+  if (fromRule.length > 0) {
+    return Array.from(new Set(fromRule));
+  }
+
+  return (spec.activation.triggers ?? [])
+    .filter((t) => t.type === "glob" && t.pattern)
+    .map((t) => t.pattern as string);
+}
+
+/**
+ * Classify a spec into one of the four rule activation kinds
+ */
+export function getRuleKind(spec: ComponentSpec): RuleKind {
+  const rule = (spec as ComponentSpec & ExtendedComponentFields).ruleActivation;
+  const hasGlobs = getRuleGlobs(spec).length > 0;
+
+  if (rule) {
+    if (rule.alwaysApply) return "always";
+    if (hasGlobs) return "auto-attached";
+    if (rule.agentDecided) return "agent-requested";
+    return "manual";
+  }
+
+  switch (spec.activation.mode) {
+    case "auto":
+    case "hooked":
+      return hasGlobs ? "auto-attached" : "always";
+    case "contextual":
+      return hasGlobs ? "auto-attached" : "agent-requested";
+    case "suggested":
+      return hasGlobs ? "auto-attached" : "agent-requested";
+    case "manual":
+      return "manual";
+  }
+}
+
+/**
+ * Quote a bare globs value in .mdc frontmatter. Cursor writes
+ * `globs: *.ts,*.tsx` unquoted, which YAML reads as an alias.
+ */
+export function quoteBareGlobs(content: string): string {
+  const end = content.startsWith("---") ? content.indexOf("\n---", 3) : -1;
+  if (end < 0) return content;
+  const frontmatter = content
+    .slice(0, end)
+    .replace(/^(globs:[ \t]*)([*&!][^\n]*?)[ \t]*$/m, (_line, key: string, value: string) => `${key}${JSON.stringify(value)}`);
+  return frontmatter + content.slice(end);
+}
+
+/**
+ * Parse a globs frontmatter value. Cursor and Windsurf accept either a YAML
+ * list or a single comma-separated string.
+ */
+export function parseGlobList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((g): g is string => typeof g === "string" && g.trim().length > 0);
+  }
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((g) => g.trim())
+      .filter((g) => g.length > 0);
+  }
+  return [];
+}
@@ -1,14 +1,30 @@
 /**
  * Zod schemas for validation of ComponentSpec and related types
+ *
+ * Each schema mirrors an interface in core/types.ts. The drift check at the
+ * bottom of this file fails the type-check when the two disagree, and
+ * core/json-schema.ts publishes the same schemas as JSON Schema.
  */
 
 import { z } from 'zod';
+import type { AgentId, ComponentSpec, ConversionReport, ExtendedComponentFields } from './types.js';
+import { PLUGIN_AGENTS } from './constants.js';
 
 // ============================================================================
 // Base Schemas
 // ============================================================================
 
-export const AgentIdSchema = z.enum(['claude', 'windsurf', 'cursor', 'opencode', 'aider', 'continue']);
+export const AgentIdSchema = z.enum([
+  'claude',
+  'windsurf',
+  'cursor',
+  'gemini',
+  'universal',
+  'opencode',
+  'aider',
+  'continue',
+  'codex',
+]);
 
 export const SemanticVersionSchema = z.object({
   major: z.number().int().min(0),
@@ -26,6 +42,7 @@ export const ComponentTypeSchema = z.enum([
   'memory',
   'agent',
   'config',
+  'mcp',
 ]);
 
 // ============================================================================
@@ -74,9 +91,34 @@ export const InvocationModelSchema = z.object({
 
 export const ExecutionContextSchema = z.enum(['main', 'fork', 'isolated']);
 
+export const ToolKindSchema = z.enum([
+  'read',
+  'write',
+  'edit',
+  'shell',
+  'search',
+  'glob',
+  'list',
+  'web-fetch',
+  'web-search',
+  'task',
+  'todo',
+  'mcp',
+  'other',
+]);
+
+export const ToolPermissionSchema = z.object({
+  tool: ToolKindSchema,
+  pattern: z.string().optional(),
+  exact: z.boolean().optional(),
+  server: z.string().optional(),
+  name: z.string().optional(),
+});
+
 export const ExecutionModelSchema = z.object({
   context: ExecutionContextSchema,
   allowedTools: z.array(z.string()).optional(),
+  tools: z.array(ToolPermissionSchema).optional(),
   restrictedTools: z.array(z.string()).optional(),
   preferredModel: z.string().optional(),
   subAgent: z.string().optional(),
@@ -106,9 +148,11 @@ export const CapabilitySetSchema = z.object({
 
 export const SemanticIntentSchema = z.object({
   summary: z.string(),
-  purpose: z.string(),
+  purpose: z.string().optional(),
+  detailed: z.string().optional(),
   whenToUse: z.string().optional(),
   category: z.array(z.string()).optional(),
+  examples: z.array(z.string()).optional(),
 });
 
 // ============================================================================
@@ -123,6 +167,24 @@ export const ComponentMetadataSchema = z.object({
   tags: z.array(z.string()).optional(),
   sourceFile: z.string().optional(),
   originalFormat: z.string().optional(),
+  // Codex-specific
+  model: z.string().optional(),
+  approvalPolicy: z.string().optional(),
+  sandboxMode: z.string().optional(),
+  webSearch: z.string().optional(),
+  mcpServers: z.record(z.unknown()).optional(),
+  allowedTools: z.array(z.string()).optional(),
+  tools: z.array(z.string()).optional(),
+  features: z.record(z.boolean()).optional(),
+  subtask: z.boolean().optional(),
+  mode: z.string().optional(),
+  // Gemini-specific
+  temperature: z.number().optional(),
+  maxTokens: z.number().optional(),
+  codeExecution: z.boolean().optional(),
+  googleSearch: z.boolean().optional(),
+  includeDirectories: z.array(z.string()).optional(),
+  instruction: z.string().optional(),
 });
 
 // ============================================================================
@@ -168,11 +230,149 @@ export const ComponentSpecSchema = z.object({
   metadata: ComponentMetadataSchema,
 });
 
+// ============================================================================
+// Extended Component Fields (memory/rule/hook/config/mcp)
+// ============================================================================
+
+export const ScopeLevelSchema = z.enum(['system', 'user', 'project', 'local']);
+
+export const ImportSpecSchema = z.object({
+  path: z.string(),
+  type: z.enum(['file', 'url', 'package']),
+  resolved: z.string().optional(),
+  optional: z.boolean().optional(),
+  content: z.string().optional(),
+  error: z.string().optional(),
+  nestedErrors: z.array(z.string()).optional(),
+});
+
+export const MemorySectionSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  level: z.number().int().min(1),
+});
+
+export const MemorySpecSchema = z.object({
+  imports: z.array(ImportSpecSchema).optional(),
+  scope: ScopeLevelSchema,
+  hierarchical: z.boolean(),
+  sections: z.array(MemorySectionSchema).optional(),
+});
+
+export const RuleActivationSchema = z.object({
+  globs: z.array(z.string()).optional(),
+  paths: z.array(z.string()).optional(),
+  alwaysApply: z.boolean(),
+  agentDecided: z.boolean(),
+  description: z.string().optional(),
+  scope: ScopeLevelSchema,
+});
+
+export const HookEventSchema = z.enum([
+  'PreToolUse',
+  'PostToolUse',
+  'Stop',
+  'SubagentStop',
+  'SessionStart',
+  'SessionEnd',
+  'UserPromptSubmit',
+  'Notification',
+  'PreCompact',
+  'Setup',
+  'PermissionRequest',
+  'pre_read_code',
+  'post_read_code',
+  'pre_write_code',
+  'post_write_code',
+  'pre_run_command',
+  'post_run_command',
+  'pre_mcp_tool_use',
+  'post_mcp_tool_use',
+  'pre_user_prompt',
+  'post_cascade_response',
+  'post_setup_worktree',
+]);
+
+export const HookSpecSchema = z.object({
+  event: HookEventSchema,
+  matcher: z.string().optional(),
+  command: z.string(),
+  timeout: z.number().min(0).optional(),
+  workingDirectory: z.string().optional(),
+  showOutput: z.boolean().optional(),
+});
+
+export const ConfigSpecSchema = z.object({
+  profiles: z.record(z.record(z.unknown())).optional(),
+  settings: z.record(z.unknown()).optional(),
+  scope: ScopeLevelSchema,
+});
+
+export const McpServerSpecSchema = z.object({
+  name: z.string().min(1),
+  transport: z.enum(['stdio', 'http', 'sse']),
+  command: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  cwd: z.string().optional(),
+  url: z.string().optional(),
+  headers: z.record(z.string()).optional(),
+  timeout: z.number().min(0).optional(),
+  enabled: z.boolean().optional(),
+  includeTools: z.array(z.string()).optional(),
+  excludeTools: z.array(z.string()).optional(),
+  extra: z.record(z.unknown()).optional(),
+});
+
+export const SkillAssetSchema = z.object({
+  path: z.string(),
+  kind: z.enum(['script', 'reference', 'asset']),
+  content: z.string().optional(),
+});
+
+export const SkillBundleSchema = z.object({
+  dir: z.string(),
+  root: z.string(),
+  assets: z.array(SkillAssetSchema),
+});
+
+export const SubAgentSpecSchema = z.object({
+  mode: z.enum(['primary', 'subagent', 'all']),
+  temperature: z.number().optional(),
+  maxTurns: z.number().int().min(1).optional(),
+  permissions: z.record(z.unknown()).optional(),
+  permissionMode: z.string().optional(),
+  color: z.string().optional(),
+  hidden: z.boolean().optional(),
+});
+
+export const ExtendedComponentFieldsSchema = z.object({
+  memorySpec: MemorySpecSchema.optional(),
+  ruleActivation: RuleActivationSchema.optional(),
+  hooks: z.array(HookSpecSchema).optional(),
+  config: ConfigSpecSchema.optional(),
+  mcpServers: z.array(McpServerSpecSchema).optional(),
+  bundle: SkillBundleSchema.optional(),
+  subAgentSpec: SubAgentSpecSchema.optional(),
+});
+
+/** A ComponentSpec as produced by the parsers, extended fields included */
+export const ExtendedComponentSpecSchema = ComponentSpecSchema.merge(ExtendedComponentFieldsSchema);
+
 // ============================================================================
 // Conversion Report Schemas
 // ============================================================================
 
-export const LossCategorySchema = z.enum(['activation', 'execution', 'capability', 'metadata', 'content']);
+export const LossCategorySchema = z.enum([
+  'activation',
+  'execution',
+  'capability',
+  'metadata',
+  'content',
+  'security',
+  'configuration',
+  'tools',
+]);
 export const LossSeveritySchema = z.enum(['info', 'warning', 'critical']);
 
 export const ConversionLossSchema = z.object({
@@ -214,12 +414,32 @@ export const ConversionReportSchema = z.object({
 // ============================================================================
 
 export function validateComponentSpec(data: unknown): { valid: boolean; errors: string[] } {
-  const result = ComponentSpecSchema.safeParse(data);
+  const result = ExtendedComponentSpecSchema.safeParse(data);
   if (result.success) {
     return { valid: true, errors: [] };
   }
+  // AgentIdSchema lists the built-in agents; agents added by plugins are valid too
+  const issues = result.error.errors.filter(
+    (e) => !(e.code === 'invalid_enum_value' && PLUGIN_AGENTS.includes(e.received as AgentId))
+  );
   return {
-    valid: false,
-    errors: result.error.errors.map((e: { path: (string | number)[]; message: string }) => `${e.path.join('.')}: ${e.message}`),
+    valid: issues.length === 0,
+    errors: issues.map((e: { path: (string | number)[]; message: string }) => `${e.path.join('.')}: ${e.message}`),
   };
 }
+
+// ============================================================================
+// Drift Check
+// ============================================================================
+
+/** true only when A and B are the same type, not merely assignable */
+type Equals<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+// A schema that no longer matches its interface in types.ts turns one of
+// these into `false` and fails the type-check
+const _schemasMatchTypes: [
+  Equals<z.infer<typeof ComponentSpecSchema>, ComponentSpec>,
+  Equals<z.infer<typeof ExtendedComponentFieldsSchema>, ExtendedComponentFields>,
+  Equals<z.infer<typeof ConversionReportSchema>, ConversionReport>,
+] = [true, true, true];
@@ -0,0 +1,44 @@
+/**
+ * Shared settings files
+ *
+ * Hooks, agent config and MCP servers can all render into the same JSON
+ * file (.claude/settings.json, .gemini/settings.json, opencode.json), next
+ * to keys CACE knows nothing about. Such renders are marked `partial` and
+ * merged into an existing file instead of replacing it: each top-level key
+ * the render sets replaces the existing one, except that objects (hooks by
+ * event, permissions, mcpServers by name) are merged one level deeper.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseObject(content: string): JsonObject | undefined {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return isObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Merge a partial render into the existing content of a settings file.
+ * Returns undefined when the existing file is not a JSON object, so it
+ * cannot be merged without losing it.
+ */
+export function mergeSettingsJson(existing: string, rendered: string): string | undefined {
+  if (existing.trim() === '') return rendered;
+  const current = parseObject(existing);
+  const update = parseObject(rendered);
+  if (!current || !update) return undefined;
+
+  const merged: JsonObject = { ...current };
+  for (const [key, value] of Object.entries(update)) {
+    const previous = merged[key];
+    merged[key] = isObject(previous) && isObject(value) ? { ...previous, ...value } : value;
+  }
+  return JSON.stringify(merged, null, 2) + '\n';
+}
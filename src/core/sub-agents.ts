@@ -0,0 +1,168 @@
+/**
+ * Sub-agent definitions
+ *
+ * Claude (.claude/agents/<name>.md), OpenCode (.opencode/agents/<name>.md)
+ * and Gemini CLI (.gemini/agents/<name>.md) define sub-agents as markdown
+ * files: name, description, tools, model and a system prompt body. The rest
+ * differs per agent:
+ *
+ * | Setting          | Claude         | OpenCode          | Gemini      |
+ * |------------------|----------------|-------------------|-------------|
+ * | mode             | (subagent)     | mode              | (subagent)  |
+ * | temperature      | -              | temperature       | temperature |
+ * | turn limit       | -              | maxSteps          | max_turns   |
+ * | tool permissions | -              | permission        | -           |
+ * | permission mode  | permissionMode | -                 | -           |
+ * | color            | color          | -                 | -           |
+ * | hidden           | -              | hidden            | -           |
+ *
+ * Parsers store these as a SubAgentSpec; renderers for agents without
+ * sub-agents turn the definition into a skill with a delegating preamble
+ * (see rendering/sub-agents).
+ */
+
+import type { AgentId, ComponentSpec, ConversionLoss, ExtendedComponentFields, SubAgentMode, SubAgentSpec } from './types.js';
+import { AGENTS } from './constants.js';
+
+/** Where each agent with sub-agents keeps their definitions */
+export const SUB_AGENT_DIRECTORIES: Partial<Record<AgentId, string>> = {
+  claude: '.claude/agents',
+  opencode: '.opencode/agents',
+  gemini: '.gemini/agents',
+};
+
+export function supportsSubAgents(agent: AgentId): boolean {
+  return SUB_AGENT_DIRECTORIES[agent] !== undefined;
+}
+
+const SUB_AGENT_MODES: SubAgentMode[] = ['primary', 'subagent', 'all'];
+
+/**
+ * The sub-agent settings of a component; without parsed settings, a
+ * subagent in the mode recorded in metadata
+ */
+export function getSubAgentSpec(spec: ComponentSpec): SubAgentSpec {
+  const parsed = (spec as ComponentSpec & ExtendedComponentFields).subAgentSpec;
+  if (parsed) return parsed;
+  const mode = SUB_AGENT_MODES.find((m) => m === spec.metadata.mode) ?? 'subagent';
+  return { mode, temperature: spec.metadata.temperature };
+}
+
+interface SubAgentSetting {
+  field: Exclude<keyof SubAgentSpec, 'mode'>;
+  label: string;
+  /** Agents that have the setting */
+  agents: AgentId[];
+  category: ConversionLoss['category'];
+  severity: ConversionLoss['severity'];
+}
+
+const SUB_AGENT_SETTINGS: SubAgentSetting[] = [
+  { field: 'temperature', label: 'Temperature', agents: ['opencode', 'gemini'], category: 'execution', severity: 'info' },
+  { field: 'maxTurns', label: 'Turn limit', agents: ['opencode', 'gemini'], category: 'execution', severity: 'info' },
+  { field: 'permissions', label: 'Tool permissions', agents: ['opencode'], category: 'security', severity: 'warning' },
+  { field: 'permissionMode', label: 'Permission mode', agents: ['claude'], category: 'security', severity: 'warning' },
+  { field: 'color', label: 'Color', agents: ['claude'], category: 'metadata', severity: 'info' },
+  { field: 'hidden', label: 'Hidden from the @ menu', agents: ['opencode'], category: 'metadata', severity: 'info' },
+];
+
+function formatSetting(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * A loss for each sub-agent setting the target cannot express, and for a
+ * primary agent rendered where only sub-agents exist
+ */
+export function subAgentLosses(spec: ComponentSpec, targetAgent: AgentId): ConversionLoss[] {
+  const agent = getSubAgentSpec(spec);
+  const target = AGENTS[targetAgent].displayName;
+  const losses: ConversionLoss[] = [];
+
+  if (agent.mode !== 'subagent' && targetAgent !== 'opencode') {
+    losses.push({
+      category: 'activation',
+      severity: agent.mode === 'primary' ? 'warning' : 'info',
+      description: agent.mode === 'primary'
+        ? `${target} has no primary agents; ${spec.id} can only be delegated to`
+        : `${target} cannot also offer ${spec.id} as a primary agent`,
+      sourceField: 'subAgentSpec.mode',
+    });
+  }
+
+  for (const setting of SUB_AGENT_SETTINGS) {
+    const value = agent[setting.field];
+    if (value === undefined || setting.agents.includes(targetAgent)) continue;
+    losses.push({
+      category: setting.category,
+      severity: setting.severity,
+      description: `${setting.label} (${formatSetting(value)}) dropped; ${target} has no equivalent`,
+      sourceField: `subAgentSpec.${setting.field}`,
+    });
+  }
+  return losses;
+}
+
+// ============================================================================
+// Models
+// ============================================================================
+
+/** Model IDs behind Claude's sub-agent aliases, for agents that need a full ID */
+export const CLAUDE_MODEL_ALIASES: Record<string, string> = {
+  opus: 'claude-opus-4-1',
+  sonnet: 'claude-sonnet-4-5',
+  haiku: 'claude-haiku-4-5',
+};
+
+/** OpenCode provider prefix by model family */
+const OPENCODE_PROVIDERS: Array<[RegExp, string]> = [
+  [/^claude-/, 'anthropic'],
+  [/^gemini-/, 'google'],
+  [/^(?:gpt-|o\d|codex-)/, 'openai'],
+];
+
+export interface ModelTranslation {
+  model?: string;
+  loss?: ConversionLoss;
+}
+
+function claudeAlias(model: string): string | undefined {
+  if (CLAUDE_MODEL_ALIASES[model]) return model;
+  return model.match(/^claude-(?:\d[\d.-]*-)?(opus|sonnet|haiku)\b/)?.[1];
+}
+
+function modelLoss(description: string): ConversionLoss {
+  return { category: 'execution', severity: 'info', description, sourceField: 'execution.preferredModel' };
+}
+
+/**
+ * A sub-agent's model in the target's naming: a Claude alias (sonnet),
+ * an OpenCode provider/model ID or a Gemini model. `inherit` and models the
+ * target cannot run are dropped, so the sub-agent uses the session's model.
+ */
+export function translateModel(model: string | undefined, targetAgent: AgentId): ModelTranslation {
+  if (!model || model === 'inherit') return {};
+  // anthropic/claude-sonnet-4-5 → claude-sonnet-4-5
+  const bare = model.slice(model.lastIndexOf('/') + 1);
+  const alias = claudeAlias(bare);
+  const target = AGENTS[targetAgent].displayName;
+
+  switch (targetAgent) {
+    case 'claude':
+      return alias
+        ? { model: alias }
+        : { loss: modelLoss(`Model '${model}' is not a Claude model; the sub-agent uses the session's model in ${target}`) };
+    case 'opencode': {
+      if (model.includes('/')) return { model };
+      const id = alias && bare === alias ? CLAUDE_MODEL_ALIASES[alias] ?? bare : bare;
+      const provider = OPENCODE_PROVIDERS.find(([pattern]) => pattern.test(id))?.[1];
+      return { model: provider ? `${provider}/${id}` : model };
+    }
+    case 'gemini':
+      return bare.startsWith('gemini-')
+        ? { model: bare }
+        : { loss: modelLoss(`Model '${model}' is not a Gemini model; the sub-agent uses the session's model in ${target}`) };
+    default:
+      return { model };
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * Minimal TOML reader/writer
+ *
+ * Covers the subset of TOML used by agent configuration files (Gemini
+ * custom commands, Codex config.toml): tables, arrays of tables, dotted and
+ * quoted keys, basic/literal/multi-line strings, numbers, booleans, arrays
+ * and inline tables. Date-times are returned as strings.
+ */
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export class TomlParseError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(`TOML parse error on line ${line}: ${message}`);
+    this.name = "TomlParseError";
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+class TomlReader {
+  private pos = 0;
+  private readonly root: TomlTable = {};
+  private current: TomlTable = this.root;
+  /** Tables created implicitly or by headers, to reject duplicate headers */
+  private readonly definedTables = new Set<TomlTable>();
+
+  constructor(private readonly src: string) {}
+
+  parse(): TomlTable {
+    while (this.pos < this.src.length) {
+      this.skipWhitespaceAndNewlines();
+      if (this.pos >= this.src.length) break;
+
+      const ch = this.src[this.pos];
+      if (ch === "#") {
+        this.skipComment();
+      } else if (ch === "[") {
+        this.parseTableHeader();
+      } else {
+        this.parseKeyValue(this.current);
+        this.expectLineEnd();
+      }
+    }
+    return this.root;
+  }
+
+  private parseTableHeader(): void {
+    const isArray = this.src.startsWith("[[", this.pos);
+    this.pos += isArray ? 2 : 1;
+    this.skipInlineWhitespace();
+    const path = this.parseKey();
+    this.skipInlineWhitespace();
+
+    if (isArray) {
+      if (!this.src.startsWith("]]", this.pos)) this.fail("Expected ']]'");
+      this.pos += 2;
+      const parent = this.descend(this.root, path.slice(0, -1));
+      const last = path[path.length - 1]!;
+      const existing = parent[last];
+      const table: TomlTable = {};
+      if (existing === undefined) {
+        parent[last] = [table];
+      } else if (Array.isArray(existing)) {
+        existing.push(table);
+      } else {
+        this.fail(`Key "${path.join(".")}" is not an array of tables`);
+      }
+      this.current = table;
+    } else {
+      if (this.src[this.pos] !== "]") this.fail("Expected ']'");
+      this.pos += 1;
+      const table = this.descend(this.root, path);
+      if (this.definedTables.has(table)) {
+        this.fail(`Table [${path.join(".")}] defined more than once`);
+      }
+      this.definedTables.add(table);
+      this.current = table;
+    }
+
+    this.expectLineEnd();
+  }
+
+  /** Walk (creating as needed) to the table at `path` below `table` */
+  private descend(table: TomlTable, path: string[]): TomlTable {
+    let node = table;
+    for (const key of path) {
+      const next = node[key];
+      if (next === undefined) {
+        const created: TomlTable = {};
+        node[key] = created;
+        node = created;
+      } else if (Array.isArray(next)) {
+        // Headers below an array of tables refer to its last element
+        const last = next[next.length - 1];
+        if (!isTable(last)) this.fail(`Key "${key}" is not a table`);
+        node = last as TomlTable;
+      } else if (isTable(next)) {
+        node = next;
+      } else {
+        this.fail(`Key "${key}" is already defined as a value`);
+      }
+    }
+    return node;
+  }
+
+  private parseKeyValue(table: TomlTable): void {
+    const path = this.parseKey();
+    this.skipInlineWhitespace();
+    if (this.src[this.pos] !== "=") this.fail("Expected '=' after key");
+    this.pos += 1;
+    this.skipInlineWhitespace();
+    const value = this.parseValue();
+
+    const parent = this.descend(table, path.slice(0, -1));
+    const last = path[path.length - 1]!;
+    if (last in parent) this.fail(`Duplicate key "${path.join(".")}"`);
+    parent[last] = value;
+  }
+
+  private parseKey(): string[] {
+    const parts: string[] = [];
+    for (;;) {
+      this.skipInlineWhitespace();
+      const ch = this.src[this.pos];
+      if (ch === '"') {
+        parts.push(this.parseBasicString());
+      } else if (ch === "'") {
+        parts.push(this.parseLiteralString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.src.slice(this.pos));
+        if (!match) this.fail("Expected a key");
+        parts.push(match![0]);
+        this.pos += match![0].length;
+      }
+      this.skipInlineWhitespace();
+      if (this.src[this.pos] !== ".") return parts;
+      this.pos += 1;
+    }
+  }
+
+  private parseValue(): TomlValue {
+    const ch = this.src[this.pos];
+
+    if (this.src.startsWith('"""', this.pos)) return this.parseMultilineBasicString();
+    if (this.src.startsWith("'''", this.pos)) return this.parseMultilineLiteralString();
+    if (ch === '"') return this.parseBasicString();
+    if (ch === "'") return this.parseLiteralString();
+    if (ch === "[") return this.parseArray();
+    if (ch === "{") return this.parseInlineTable();
+
+    const rest = this.src.slice(this.pos);
+    const bool = /^(true|false)(?![A-Za-z0-9_-])/.exec(rest);
+    if (bool) {
+      this.pos += bool[0].length;
+      return bool[0] === "true";
+    }
+
+    // Date-times are kept as their string form
+    const date = /^\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[Zz]|[+-]\d{2}:\d{2})?)?|^\d{2}:\d{2}:\d{2}(?:\.\d+)?/.exec(rest);
+    if (date) {
+      this.pos += date[0].length;
+      return date[0];
+    }
+
+    const special = /^[+-]?(inf|nan)/.exec(rest);
+    if (special) {
+      this.pos += special[0].length;
+      if (special[1] === "nan") return NaN;
+      return special[0].startsWith("-") ? -Infinity : Infinity;
+    }
+
+    const prefixed = /^0x[0-9A-Fa-f_]+|^0o[0-7_]+|^0b[01_]+/.exec(rest);
+    if (prefixed) {
+      this.pos += prefixed[0].length;
+      return Number(prefixed[0].replace(/_/g, ""));
+    }
+
+    const num = /^[+-]?\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?/.exec(rest);
+    if (num) {
+      this.pos += num[0].length;
+      return Number(num[0].replace(/_/g, ""));
+    }
+
+    this.fail("Invalid value");
+  }
+
+  private parseBasicString(): string {
+    this.pos += 1; // opening quote
+    let out = "";
+    for (;;) {
+      const ch = this.src[this.pos];
+      if (ch === undefined || ch === "\n") this.fail("Unterminated string");
+      if (ch === '"') {
+        this.pos += 1;
+        return out;
+      }
+      if (ch === "\\") {
+        out += this.parseEscape();
+      } else {
+        out += ch;
+        this.pos += 1;
+      }
+    }
+  }
+
+  private parseMultilineBasicString(): string {
+    this.pos += 3;
+    if (this.src[this.pos] === "\r") this.pos += 1;
+    if (this.src[this.pos] === "\n") this.pos += 1;
+
+    let out = "";
+    for (;;) {
+      if (this.pos >= this.src.length) this.fail("Unterminated multi-line string");
+      if (this.src.startsWith('"""', this.pos)) {
+        // Up to two quotes may directly precede the closing delimiter
+        let end = this.pos + 3;
+        while (this.src[end] === '"' && end - this.pos < 5) end += 1;
+        out += '"'.repeat(end - this.pos - 3);
+        this.pos = end;
+        return out;
+      }
+      const ch = this.src[this.pos]!;
+      if (ch === "\\") {
+        // Line-ending backslash trims the newline and following whitespace
+        const trim = /^\\[ \t]*\r?\n[\s]*/.exec(this.src.slice(this.pos));
+        if (trim) {
+          this.pos += trim[0].length;
+        } else {
+          out += this.parseEscape();
+        }
+      } else {
+        out += ch;
+        this.pos += 1;
+      }
+    }
+  }
+
+  private parseLiteralString(): string {
+    const end = this.src.indexOf("'", this.pos + 1);
+    const newline = this.src.indexOf("\n", this.pos + 1);
+    if (end === -1 || (newline !== -1 && newline < end)) this.fail("Unterminated string");
+    const out = this.src.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return out;
+  }
+
+  private parseMultilineLiteralString(): string {
+    let start = this.pos + 3;
+    if (this.src[start] === "\r") start += 1;
+    if (this.src[start] === "\n") start += 1;
+    let end = this.src.indexOf("'''", start);
+    if (end === -1) this.fail("Unterminated multi-line string");
+    while (this.src[end + 3] === "'" && end + 3 - start < this.src.length) end += 1;
+    const out = this.src.slice(start, end);
+    this.pos = end + 3;
+    return out;
+  }
+
+  private parseEscape(): string {
+    const code = this.src[this.pos + 1];
+    this.pos += 2;
+    switch (code) {
+      case "b": return "\b";
+      case "t": return "\t";
+      case "n": return "\n";
+      case "f": return "\f";
+      case "r": return "\r";
+      case "e": return "\x1b";
+      case '"': return '"';
+      case "\\": return "\\";
+      case "u":
+      case "U": {
+        const len = code === "u" ? 4 : 8;
+        const hex = this.src.slice(this.pos, this.pos + len);
+        if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== len) this.fail("Invalid unicode escape");
+        this.pos += len;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      default:
+        this.fail(`Invalid escape sequence "\\${code ?? ""}"`);
+    }
+  }
+
+  private parseArray(): TomlValue[] {
+    this.pos += 1;
+    const items: TomlValue[] = [];
+    for (;;) {
+      this.skipWhitespaceNewlinesAndComments();
+      if (this.src[this.pos] === "]") {
+        this.pos += 1;
+        return items;
+      }
+      items.push(this.parseValue());
+      this.skipWhitespaceNewlinesAndComments();
+      const ch = this.src[this.pos];
+      if (ch === ",") {
+        this.pos += 1;
+      } else if (ch !== "]") {
+        this.fail("Expected ',' or ']' in array");
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.pos += 1;
+    const table: TomlTable = {};
+    this.skipInlineWhitespace();
+    if (this.src[this.pos] === "}") {
+      this.pos += 1;
+      return table;
+    }
+    for (;;) {
+      this.parseKeyValue(table);
+      this.skipInlineWhitespace();
+      const ch = this.src[this.pos];
+      this.pos += 1;
+      if (ch === "}") return table;
+      if (ch !== ",") this.fail("Expected ',' or '}' in inline table");
+      this.skipInlineWhitespace();
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipInlineWhitespace();
+    const ch = this.src[this.pos];
+    if (ch === "#") {
+      this.skipComment();
+    } else if (ch === "\r" || ch === "\n") {
+      this.pos += ch === "\r" && this.src[this.pos + 1] === "\n" ? 2 : 1;
+    } else if (ch !== undefined) {
+      this.fail(`Unexpected character "${ch}"`);
+    }
+  }
+
+  private skipComment(): void {
+    const newline = this.src.indexOf("\n", this.pos);
+    this.pos = newline === -1 ? this.src.length : newline + 1;
+  }
+
+  private skipInlineWhitespace(): void {
+    while (this.src[this.pos] === " " || this.src[this.pos] === "\t") this.pos += 1;
+  }
+
+  private skipWhitespaceAndNewlines(): void {
+    while (/[ \t\r\n]/.test(this.src[this.pos] ?? "")) this.pos += 1;
+  }
+
+  private skipWhitespaceNewlinesAndComments(): void {
+    for (;;) {
+      this.skipWhitespaceAndNewlines();
+      if (this.src[this.pos] !== "#") return;
+      this.skipComment();
+    }
+  }
+
+  private fail(message: string): never {
+    const line = this.src.slice(0, this.pos).split("\n").length;
+    throw new TomlParseError(message, line);
+  }
+}
+
+function isTable(value: unknown): value is TomlTable {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a TOML document into a plain object
+ * @throws TomlParseError on malformed input
+ */
+export function parseToml(text: string): TomlTable {
+  return new TomlReader(text).parse();
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Serialize a plain object to TOML. Nested objects become [tables], arrays of
+ * objects become [[arrays of tables]]; undefined and null values are skipped.
+ */
+export function stringifyToml(data: Record<string, unknown>): string {
+  const lines: string[] = [];
+  writeTable(data, [], lines);
+  return lines.join("\n").replace(/^\n+/, "") + "\n";
+}
+
+function writeTable(table: Record<string, unknown>, path: string[], lines: string[]): void {
+  const subTables: Array<[string, Record<string, unknown>]> = [];
+  const tableArrays: Array<[string, Array<Record<string, unknown>>]> = [];
+
+  for (const [key, value] of Object.entries(table)) {
+    if (value === undefined || value === null) continue;
+
+    if (isPlainObject(value)) {
+      subTables.push([key, value]);
+    } else if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) {
+      tableArrays.push([key, value as Array<Record<string, unknown>>]);
+    } else {
+      lines.push(`${formatKey(key)} = ${formatValue(value)}`);
+    }
+  }
+
+  for (const [key, sub] of subTables) {
+    const subPath = [...path, key];
+    const hasValues = Object.values(sub).some(
+      (v) => v !== undefined && v !== null && !isPlainObject(v) && !isTableArray(v),
+    );
+    // Omit headers for tables that only contain other tables
+    if (hasValues || Object.keys(sub).length === 0) {
+      lines.push("", `[${subPath.map(formatKey).join(".")}]`);
+    }
+    writeTable(sub, subPath, lines);
+  }
+
+  for (const [key, items] of tableArrays) {
+    const subPath = [...path, key];
+    for (const item of items) {
+      lines.push("", `[[${subPath.map(formatKey).join(".")}]]`);
+      writeTable(item, subPath, lines);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isTableArray(value: unknown): boolean {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return formatString(value);
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return "nan";
+    if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+    return String(value);
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return `[${value.filter((v) => v !== undefined && v !== null).map(formatValue).join(", ")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .map(([k, v]) => `${formatKey(k)} = ${formatValue(v)}`);
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return formatString(String(value));
+}
+
+function formatString(value: string): string {
+  if (!value.includes("\n")) {
+    // JSON string escapes are valid TOML basic-string escapes
+    return JSON.stringify(value);
+  }
+
+  // Prefer readable multi-line strings that need no escaping
+  if (!value.includes("\\") && !value.includes('"""') && !value.endsWith('"')) {
+    return `"""\n${value}"""`;
+  }
+  if (!value.includes("'''") && !value.endsWith("'")) {
+    return `'''\n${value}'''`;
+  }
+
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"""/g, '""\\"')
+    .replace(/"$/, '\\"');
+  return `"""\n${escaped}"""`;
+}
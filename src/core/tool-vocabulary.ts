@@ -0,0 +1,324 @@
+/**
+ * Canonical tool vocabulary
+ *
+ * Agents name the same tools differently: Claude's `Edit` is Gemini's
+ * `replace` and OpenCode's `edit`, and Claude limits a shell permission with
+ * `Bash(npm test:*)` where Gemini writes `run_shell_command(npm test)`.
+ * Parsers record tool names as ToolPermissions in `execution.tools`;
+ * renderers translate them into the target's names and report each
+ * permission the target has to drop (narrowing) or can only grant more
+ * broadly (widening) as a `tools` loss.
+ */
+
+import type { AgentId, ComponentSpec, ConversionLoss, ToolKind, ToolPermission } from './types.js';
+import { AGENTS } from './constants.js';
+
+export interface ToolVocabulary {
+  /** The agent's names for each tool kind; the first one is rendered */
+  names: Partial<Record<ToolKind, string[]>>;
+  /** Kinds whose permissions can be limited to a pattern, written `Name(pattern)` */
+  patterns: ToolKind[];
+  /**
+   * How shell patterns are written: `prefix:*` or a whole command (claude),
+   * or a bare command prefix (prefix)
+   */
+  shellPatterns?: 'claude' | 'prefix';
+  /**
+   * How MCP tools are named: prefix + server + separator + tool. With a
+   * prefix, the bare server name allows every tool on it; without one,
+   * `server<separator>*` does.
+   */
+  mcp?: { prefix: string; separator: string };
+}
+
+export interface ToolTranslation {
+  names: string[];
+  losses: ConversionLoss[];
+}
+
+export const TOOL_KINDS: ToolKind[] = [
+  'read',
+  'write',
+  'edit',
+  'shell',
+  'search',
+  'glob',
+  'list',
+  'web-fetch',
+  'web-search',
+  'task',
+  'todo',
+  'mcp',
+  'other',
+];
+
+const vocabularies: Partial<Record<AgentId, ToolVocabulary>> = {
+  claude: {
+    names: {
+      read: ['Read'],
+      write: ['Write'],
+      edit: ['Edit', 'MultiEdit'],
+      shell: ['Bash'],
+      search: ['Grep'],
+      glob: ['Glob'],
+      list: ['LS'],
+      'web-fetch': ['WebFetch'],
+      'web-search': ['WebSearch'],
+      task: ['Task'],
+      todo: ['TodoWrite'],
+    },
+    patterns: ['read', 'write', 'edit', 'shell', 'web-fetch'],
+    shellPatterns: 'claude',
+    mcp: { prefix: 'mcp__', separator: '__' },
+  },
+  gemini: {
+    names: {
+      read: ['read_file', 'read_many_files', 'file_read'],
+      write: ['write_file', 'file_write'],
+      edit: ['replace'],
+      shell: ['run_shell_command', 'code_execution'],
+      search: ['search_file_content'],
+      glob: ['glob'],
+      list: ['list_directory'],
+      'web-fetch': ['web_fetch'],
+      'web-search': ['google_web_search', 'google_search'],
+      todo: ['write_todos'],
+    },
+    patterns: ['shell'],
+    shellPatterns: 'prefix',
+    mcp: { prefix: '', separator: '__' },
+  },
+  codex: {
+    names: {
+      read: ['file_read'],
+      write: ['file_write'],
+      edit: ['file_write'],
+      shell: ['shell'],
+      'web-search': ['web_search'],
+    },
+    patterns: [],
+  },
+  opencode: {
+    names: {
+      read: ['read'],
+      write: ['write'],
+      edit: ['edit', 'patch'],
+      shell: ['bash'],
+      search: ['grep'],
+      glob: ['glob'],
+      list: ['list'],
+      'web-fetch': ['webfetch'],
+      'web-search': ['websearch'],
+      task: ['task'],
+      todo: ['todowrite'],
+    },
+    patterns: [],
+    mcp: { prefix: '', separator: '_' },
+  },
+  // The canonical names themselves, for AGENTS.md and agents without a vocabulary
+  universal: {
+    names: Object.fromEntries(
+      TOOL_KINDS.filter((kind) => kind !== 'mcp' && kind !== 'other').map((kind) => [kind, [kind]]),
+    ),
+    patterns: ['read', 'write', 'edit', 'shell', 'web-fetch'],
+    shellPatterns: 'claude',
+    mcp: { prefix: 'mcp__', separator: '__' },
+  },
+};
+
+/**
+ * The agent's tool names; agents without one use the canonical names
+ */
+export function getToolVocabulary(agent: AgentId): ToolVocabulary {
+  return vocabularies[agent] ?? vocabularies.universal!;
+}
+
+export function registerToolVocabulary(agent: AgentId, vocabulary: ToolVocabulary): void {
+  vocabularies[agent] = vocabulary;
+}
+
+/**
+ * Split a tool list written as one string, e.g.
+ * `Read, Grep, Bash(git add:*)`, on the commas outside patterns
+ */
+export function parseToolList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined || Array.isArray(value)) return value;
+  const names: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      names.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  names.push(current);
+  return names.map((name) => name.trim()).filter((name) => name.length > 0);
+}
+
+function parseMcpName(name: string, vocabulary: ToolVocabulary): ToolPermission | undefined {
+  if (!vocabulary.mcp || !name.startsWith(vocabulary.mcp.prefix)) return undefined;
+  const { prefix, separator } = vocabulary.mcp;
+  const rest = name.slice(prefix.length);
+  const index = rest.indexOf(separator);
+  if (index === -1) {
+    return prefix && rest ? { tool: 'mcp', server: rest } : undefined;
+  }
+  const server = rest.slice(0, index);
+  const tool = rest.slice(index + separator.length);
+  if (!server || !tool) return undefined;
+  return tool === '*' ? { tool: 'mcp', server } : { tool: 'mcp', server, name: tool };
+}
+
+/**
+ * Read one of the agent's tool names as a canonical permission
+ */
+export function parseTool(name: string, agent: AgentId): ToolPermission {
+  const vocabulary = getToolVocabulary(agent);
+  const trimmed = name.trim();
+  const match = /^([^(]+)\((.*)\)$/.exec(trimmed);
+  const base = (match?.[1] ?? trimmed).trim();
+  const pattern = match?.[2]?.trim();
+
+  const kind = TOOL_KINDS.find((k) => vocabulary.names[k]?.includes(base));
+  if (kind) {
+    if (!pattern) return { tool: kind };
+    if (kind !== 'shell') return { tool: kind, pattern };
+    if (vocabulary.shellPatterns === 'prefix') return { tool: kind, pattern };
+    // Claude: `npm test:*` (and the older `git*`) match prefixes, anything else the whole command
+    const prefix = /^(.*?):?\*$/.exec(pattern);
+    return prefix ? { tool: kind, pattern: prefix[1]!.trim() } : { tool: kind, pattern, exact: true };
+  }
+  return parseMcpName(base, vocabulary) ?? { tool: 'other', name: trimmed };
+}
+
+export function parseTools(names: string[], agent: AgentId): ToolPermission[] {
+  return names.map((name) => parseTool(name, agent));
+}
+
+/**
+ * The agent's name for a permission, with its pattern when the agent can
+ * express it; undefined when the agent has no such tool
+ */
+export function formatTool(permission: ToolPermission, agent: AgentId): string | undefined {
+  const vocabulary = getToolVocabulary(agent);
+  if (permission.tool === 'mcp') {
+    if (!vocabulary.mcp || !permission.server) return undefined;
+    const { prefix, separator } = vocabulary.mcp;
+    if (permission.name) return `${prefix}${permission.server}${separator}${permission.name}`;
+    return prefix ? `${prefix}${permission.server}` : `${permission.server}${separator}*`;
+  }
+
+  const name = vocabulary.names[permission.tool]?.[0];
+  if (!name) return undefined;
+  if (!permission.pattern || !vocabulary.patterns.includes(permission.tool)) return name;
+  if (permission.tool === 'shell' && vocabulary.shellPatterns === 'claude' && !permission.exact) {
+    return `${name}(${permission.pattern}:*)`;
+  }
+  return `${name}(${permission.pattern})`;
+}
+
+/** A permission in the canonical vocabulary, for messages */
+export function describeTool(permission: ToolPermission): string {
+  return formatTool(permission, 'universal') ?? permission.name ?? permission.tool;
+}
+
+function toolLoss(description: string): ConversionLoss {
+  return { category: 'tools', severity: 'warning', description, sourceField: 'execution.tools' };
+}
+
+/**
+ * Translate permissions into the target's tool names, with a loss for each
+ * permission the target drops or widens
+ */
+export function translateTools(permissions: ToolPermission[], targetAgent: AgentId): ToolTranslation {
+  const vocabulary = getToolVocabulary(targetAgent);
+  const target = AGENTS[targetAgent].displayName;
+  const unrestricted = new Set(permissions.filter((p) => !p.pattern).map((p) => p.tool));
+  const names: string[] = [];
+  const losses: ConversionLoss[] = [];
+
+  for (const permission of permissions) {
+    const described = describeTool(permission);
+    const name = formatTool(permission, targetAgent);
+    if (!name) {
+      losses.push(toolLoss(`${described} has no ${target} equivalent and was dropped`));
+      continue;
+    }
+    const added = !names.includes(name);
+    if (added) names.push(name);
+    // Widening a pattern matters only when the tool is not allowed outright anyway
+    if (permission.pattern && unrestricted.has(permission.tool)) continue;
+
+    if (permission.pattern && !vocabulary.patterns.includes(permission.tool)) {
+      losses.push(toolLoss(`${described} widened to ${name}: ${target} cannot limit it to "${permission.pattern}"`));
+    } else if (permission.exact && vocabulary.shellPatterns === 'prefix') {
+      losses.push(toolLoss(`${described} widened to ${name}: ${target} allows any command starting with "${permission.pattern}"`));
+    }
+
+    // A name shared by several kinds (Codex file_write) grants all of them
+    const base = name.replace(/\(.*\)$/, '');
+    const alsoGranted = added
+      ? TOOL_KINDS.filter((kind) => kind !== permission.tool && vocabulary.names[kind]?.[0] === base && !unrestricted.has(kind))
+      : [];
+    if (alsoGranted.length > 0) {
+      losses.push(toolLoss(`${described} widened to ${name}, which also allows ${alsoGranted.join(', ')}`));
+    }
+  }
+
+  if (permissions.length > 0 && names.length === 0) {
+    losses.push({
+      ...toolLoss(`None of the allowed tools exist in ${target}; the component gets ${target}'s default tools`),
+      recommendation: `Restrict tools in ${target}'s own settings`,
+    });
+  }
+  return { names, losses };
+}
+
+/**
+ * A component's tool permissions, read from allowedTools when the parser
+ * did not record them
+ */
+export function getToolPermissions(spec: ComponentSpec): ToolPermission[] {
+  return spec.execution.tools
+    ?? parseTools(spec.execution.allowedTools ?? [], spec.sourceAgent?.id ?? 'universal');
+}
+
+/**
+ * Tools disabled by name (OpenCode `tools: { write: false }`) as an allow-list
+ * of every other tool the target has; MCP and agent-specific tools are not on it
+ */
+function translateDisabledTools(spec: ComponentSpec, disabled: string[], targetAgent: AgentId): ToolTranslation {
+  const vocabulary = getToolVocabulary(targetAgent);
+  const target = AGENTS[targetAgent].displayName;
+  const denied = parseTools(disabled, spec.sourceAgent?.id ?? 'universal');
+  const allowed = TOOL_KINDS.filter((kind) => vocabulary.names[kind] && !denied.some((p) => p.tool === kind && !p.pattern));
+
+  const { names, losses } = translateTools(allowed.map((tool) => ({ tool })), targetAgent);
+  losses.push({
+    ...toolLoss(`Disabled tools (${denied.map(describeTool).join(', ')}) rendered as a list of the other ${target} tools; MCP and any tools not listed are disabled too`),
+    severity: 'info',
+    recommendation: `Add any MCP or other ${target} tools the component needs to its tools`,
+  });
+  return { names, losses };
+}
+
+/**
+ * Tool names to render for targetAgent: the source's own names when
+ * rendering for the agent the component came from
+ */
+export function renderTools(spec: ComponentSpec, targetAgent: AgentId): ToolTranslation {
+  if (spec.sourceAgent?.id === targetAgent && spec.execution.allowedTools) {
+    return { names: [...spec.execution.allowedTools], losses: [] };
+  }
+  const permissions = getToolPermissions(spec);
+  const disabled = spec.execution.restrictedTools ?? [];
+  if (permissions.length === 0 && disabled.length > 0) {
+    return translateDisabledTools(spec, disabled, targetAgent);
+  }
+  return translateTools(permissions, targetAgent);
+}
@@ -7,7 +7,16 @@
 // Agent Identifiers
 // ============================================================================
 
-export type AgentId = 'claude' | 'windsurf' | 'cursor' | 'gemini' | 'universal' | 'opencode' | 'aider' | 'continue' | 'codex';
+export type BuiltinAgentId = 'claude' | 'windsurf' | 'cursor' | 'gemini' | 'universal' | 'opencode' | 'aider' | 'continue' | 'codex';
+
+/**
+ * Agents added by plugins. A plugin declares its ids by augmenting this
+ * interface, e.g. `interface PluginAgentIds { acme: true }`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface PluginAgentIds {}
+
+export type AgentId = BuiltinAgentId | keyof PluginAgentIds;
 
 export interface AgentDescriptor {
   id: AgentId;
@@ -56,7 +65,8 @@ export type ComponentType =
   | 'hook'       // Lifecycle hook (Claude)
   | 'memory'     // Persistent memory/context
   | 'agent'      // Sub-agent definition
-  | 'config';    // Configuration fragment
+  | 'config'     // Configuration fragment
+  | 'mcp';       // MCP server definitions
 
 // ============================================================================
 // Activation Model
@@ -104,9 +114,44 @@ export interface InvocationModel {
 
 export type ExecutionContext = 'main' | 'fork' | 'isolated';
 
+/**
+ * Canonical tool kinds, named differently by each agent (Claude `Edit`,
+ * Gemini `replace`, OpenCode `edit`). `other` holds agent-specific tools
+ * with no canonical kind.
+ */
+export type ToolKind =
+  | 'read'
+  | 'write'
+  | 'edit'
+  | 'shell'
+  | 'search'
+  | 'glob'
+  | 'list'
+  | 'web-fetch'
+  | 'web-search'
+  | 'task'
+  | 'todo'
+  | 'mcp'
+  | 'other';
+
+export interface ToolPermission {
+  tool: ToolKind;
+  /** What the permission is limited to: a command prefix (shell), path glob or domain */
+  pattern?: string;
+  /** Shell only: the pattern is a whole command rather than a prefix */
+  exact?: boolean;
+  /** MCP server of an `mcp` tool */
+  server?: string;
+  /** MCP tool on the server (every tool when unset), or the agent's name for an `other` tool */
+  name?: string;
+}
+
 export interface ExecutionModel {
   context: ExecutionContext;
+  /** Tool names as written in the source format */
   allowedTools?: string[];
+  /** allowedTools in the canonical tool vocabulary */
+  tools?: ToolPermission[];
   restrictedTools?: string[];
   preferredModel?: string;
   subAgent?: string;
@@ -235,7 +280,7 @@ export interface ComponentSpec {
   capabilities: CapabilitySet;
 
   // Agent-Specific Overrides
-  agentOverrides?: Record<AgentId, AgentOverride>;
+  agentOverrides?: Partial<Record<AgentId, AgentOverride>>;
 
   // Metadata
   metadata: ComponentMetadata;
@@ -301,13 +346,15 @@ export interface ConversionReport {
 export type MappingStrategy =
   | { type: 'direct'; targetField: string }
   | { type: 'transform'; transformer: string; description: string }
-  | { type: 'fallback'; fallbackValue: unknown; warning: string }
-  | { type: 'unsupported'; lossDescription: string };
+  | { type: 'fallback'; fallbackValue: unknown; warning: string; recommendation?: string }
+  | { type: 'unsupported'; lossDescription: string; severity?: LossSeverity; recommendation?: string };
 
 export interface CapabilityMapping {
   sourceAgent: AgentId;
   targetAgent: AgentId;
   sourceField: string;
+  /** Component types the mapping is limited to (default: all) */
+  componentTypes?: ComponentType[];
   strategy: MappingStrategy;
 }
 
@@ -332,6 +379,17 @@ export interface RenderResult {
   filename?: string;
   errors: string[];
   report?: ConversionReport;
+  /** Supporting files to copy next to the output (skill bundle assets) */
+  assets?: RenderedAsset[];
+  /** The content only holds this component's keys of a shared settings file; merge it into an existing file */
+  partial?: boolean;
+}
+
+export interface RenderedAsset {
+  /** Absolute path of the source file */
+  source: string;
+  /** Path relative to the directory of the rendered file */
+  path: string;
 }
 
 // ============================================================================
@@ -343,10 +401,20 @@ export type ScopeLevel = 'system' | 'user' | 'project' | 'local';
 export interface ImportSpec {
   path: string;
   type: 'file' | 'url' | 'package';
+  /** Absolute path the import resolves to, relative to the importing file */
   resolved?: string;
   optional?: boolean;
+  /** Content of the resolved file, with its own imports inlined */
+  content?: string;
+  /** Why the import could not be loaded (missing file, cycle, depth limit) */
+  error?: string;
+  /** Imports of the imported file, at any depth, that could not be loaded, as `@path (error)`; content keeps them as written */
+  nestedErrors?: string[];
 }
 
+/** Cursor-style rule kinds: always, auto-attached (globs), agent-requested, manual */
+export type RuleKind = 'always' | 'auto-attached' | 'agent-requested' | 'manual';
+
 export interface RuleActivation {
   globs?: string[];
   paths?: string[];
@@ -369,10 +437,14 @@ export type HookEvent =
 
 export interface HookSpec {
   event: HookEvent;
+  /** Tool-name filter (Claude matcher regex) */
   matcher?: string;
   command: string;
+  /** Timeout in milliseconds */
   timeout?: number;
   workingDirectory?: string;
+  /** Show command output in the UI (Windsurf show_output) */
+  showOutput?: boolean;
 }
 
 export interface MemorySpec {
@@ -388,9 +460,100 @@ export interface MemorySection {
   level: number;
 }
 
-// Extended ComponentSpec fields (optional, for memory/rule/hook types)
+/**
+ * Agent settings file (Codex config.toml, Claude/Gemini settings.json).
+ * Model, approval policy, sandbox mode and MCP servers live in
+ * ComponentMetadata; this holds what has no typed IR field.
+ */
+export interface ConfigSpec {
+  /** Named setting overrides, e.g. Codex [profiles.<name>] tables */
+  profiles?: Record<string, Record<string, unknown>>;
+  /** Remaining settings, keyed as in the source file */
+  settings?: Record<string, unknown>;
+  scope: ScopeLevel;
+}
+
+export type McpTransport = 'stdio' | 'http' | 'sse';
+
+/**
+ * One MCP server. Environment references use the ${VAR} form in every
+ * string field; agent-specific syntax is converted on parse and render.
+ */
+export interface McpServerSpec {
+  name: string;
+  transport: McpTransport;
+  // stdio
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  // http / sse
+  url?: string;
+  headers?: Record<string, string>;
+  /** Tool call timeout in milliseconds */
+  timeout?: number;
+  enabled?: boolean;
+  includeTools?: string[];
+  excludeTools?: string[];
+  /** Fields with no IR equivalent, keyed as in the source agent's file */
+  extra?: Record<string, unknown>;
+}
+
+/** scripts/, references/ and assets/ (templates, images, data) of a skill directory */
+export type SkillAssetKind = 'script' | 'reference' | 'asset';
+
+/** A file shipped alongside a skill's SKILL.md */
+export interface SkillAsset {
+  /** Path relative to the skill directory, with forward slashes */
+  path: string;
+  kind: SkillAssetKind;
+  /** Text of small reference files, for agents the bundle has to be inlined into */
+  content?: string;
+}
+
+/**
+ * A skill directory: SKILL.md and the files next to it that its body refers
+ * to by relative path
+ */
+export interface SkillBundle {
+  /** Skill directory as found, relative to the project root when it is under an agent directory (.claude/skills/<id>) */
+  dir: string;
+  /** Absolute path of the skill directory */
+  root: string;
+  assets: SkillAsset[];
+}
+
+/** OpenCode agent mode: subagents are delegated to, primary agents are switched to, `all` is both */
+export type SubAgentMode = 'primary' | 'subagent' | 'all';
+
+/**
+ * Settings of a sub-agent definition that only some agents have. Name,
+ * description, tools, model and the system prompt live in the ComponentSpec.
+ */
+export interface SubAgentSpec {
+  mode: SubAgentMode;
+  temperature?: number;
+  /** OpenCode maxSteps, Gemini max_turns */
+  maxTurns?: number;
+  /** OpenCode permission: allow / ask / deny per tool (edit, bash, webfetch) */
+  permissions?: Record<string, unknown>;
+  /** Claude permissionMode: default, acceptEdits, bypassPermissions, plan */
+  permissionMode?: string;
+  /** Claude UI color */
+  color?: string;
+  /** OpenCode: hidden from the @ menu */
+  hidden?: boolean;
+}
+
+// Extended ComponentSpec fields (optional, for memory/rule/hook/config/mcp types)
 export interface ExtendedComponentFields {
   memorySpec?: MemorySpec;
   ruleActivation?: RuleActivation;
   hooks?: HookSpec[];
+  config?: ConfigSpec;
+  mcpServers?: McpServerSpec[];
+  /** Supporting files of a skill directory */
+  bundle?: SkillBundle;
+  /** Settings of a sub-agent definition */
+  subAgentSpec?: SubAgentSpec;
 }
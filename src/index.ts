@@ -9,6 +9,9 @@
 export * from "./core/types.js";
 export * from "./core/constants.js";
 export * from "./core/schema.js";
+export * from "./core/tool-vocabulary.js";
+export * from "./core/memory-imports.js";
+export * from "./core/sub-agents.js";
 
 // Parsing exports
 export * from "./parsing/index.js";
@@ -29,3 +32,10 @@ export {
   renderComponent,
   getTargetPath,
 } from "./rendering/renderer-factory.js";
+
+// Project configuration (.cacerc / cace.config.ts)
+export { defineConfig } from "./cli/project-config.js";
+export type { ProjectConfig, TargetConfig } from "./cli/project-config.js";
+
+// Plugin API
+export * from "./plugins/index.js";
@@ -0,0 +1,189 @@
+/**
+ * Parser for Aider conventions files + .aider.conf.yml
+ *
+ * Aider has no rule or command format of its own. Project guidance lives in
+ * plain Markdown conventions files (CONVENTIONS.md by convention) that are
+ * loaded read-only into every chat, either with `/read` or through the
+ * `read:` key of `.aider.conf.yml`:
+ *
+ *   read: [CONVENTIONS.md, docs/style.md]
+ *
+ * Conventions files parse as memory components. `.aider.conf.yml` parses as
+ * a memory component with an empty body whose imports are the `read:` files,
+ * so the list survives conversion to agents with @imports. Its other keys
+ * (auto-commits and the like) are kept as ConfigSpec settings for the
+ * return trip to Aider.
+ */
+
+import matter from "gray-matter";
+import type {
+  ComponentSpec,
+  ExtendedComponentFields,
+  ImportSpec,
+  ScopeLevel,
+} from "../core/types.js";
+import { createDefaultCapabilities } from "../core/types.js";
+import { DEFAULT_VERSION } from "../core/constants.js";
+import { BaseParser, type ParserOptions } from "./parser-interface.js";
+
+interface AiderConfig {
+  read?: string | string[];
+  model?: string;
+  [key: string]: unknown;
+}
+
+const AIDER_CONF_PATTERN = /(^|[/\\])\.aider\.conf\.ya?ml$/;
+
+export class AiderParser extends BaseParser {
+  readonly agentId = "aider" as const;
+
+  canParse(_content: string, filename?: string): boolean {
+    if (!filename) return false;
+    return (
+      AIDER_CONF_PATTERN.test(filename) ||
+      filename.endsWith("CONVENTIONS.md") ||
+      filename.includes(".aider/conventions/")
+    );
+  }
+
+  parse(
+    content: string,
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    if (options?.sourceFile && AIDER_CONF_PATTERN.test(options.sourceFile)) {
+      return this.parseConfig(content, options);
+    }
+    return this.parseConventions(content, options);
+  }
+
+  private parseConventions(
+    content: string,
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const body = content.trim();
+    if (!body) {
+      return this.createErrorResult(["Empty conventions file"]);
+    }
+
+    const id = this.extractIdFromFilename(options?.sourceFile) ?? "conventions";
+    const title = body.match(/^#\s+(.+)$/m)?.[1]?.trim();
+
+    const spec: ComponentSpec & ExtendedComponentFields = {
+      ...this.createMemorySpec(id),
+      intent: {
+        summary: title ?? `Aider conventions: ${id}`,
+        purpose: "Coding conventions loaded read-only into every Aider chat",
+        whenToUse: "Always loaded when working in this project",
+      },
+      body,
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: "aider-conventions",
+      },
+      memorySpec: {
+        scope: this.scopeFromFilename(options?.sourceFile),
+        hierarchical: false,
+      },
+    };
+
+    return this.createSuccessResult(spec);
+  }
+
+  private parseConfig(
+    content: string,
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const warnings: string[] = [];
+
+    let config: AiderConfig;
+    try {
+      // gray-matter exposes its YAML engine through frontmatter only
+      config = matter(`---\n${content}\n---\n`).data as AiderConfig;
+    } catch (err) {
+      return this.createErrorResult([
+        `Failed to parse .aider.conf.yml: ${err instanceof Error ? err.message : String(err)}`,
+      ]);
+    }
+
+    const files = (Array.isArray(config.read) ? config.read : [config.read]).filter(
+      (f): f is string => typeof f === "string" && f.trim().length > 0,
+    );
+    if (files.length === 0) {
+      return this.createErrorResult(["No read: conventions files found in .aider.conf.yml"]);
+    }
+
+    const imports: ImportSpec[] = files.map((path) => ({ path, type: "file" }));
+    const settings = Object.fromEntries(
+      Object.entries(config).filter(([key]) => key !== "read" && key !== "model"),
+    );
+    const otherKeys = Object.keys(settings);
+    if (otherKeys.length > 0) {
+      warnings.push(`Aider settings other than read and model are only kept for Aider: ${otherKeys.join(", ")}`);
+    }
+    const scope = this.scopeFromFilename(options?.sourceFile);
+
+    const spec: ComponentSpec & ExtendedComponentFields = {
+      ...this.createMemorySpec("aider-conf"),
+      intent: {
+        summary: `Aider conventions files: ${files.join(", ")}`,
+        purpose: "Conventions files loaded read-only into every Aider chat",
+        whenToUse: "Always loaded when working in this project",
+      },
+      body: "",
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: "aider-conf",
+        model: typeof config.model === "string" ? config.model : undefined,
+      },
+      memorySpec: {
+        imports,
+        scope,
+        hierarchical: false,
+      },
+      config: otherKeys.length > 0 ? { settings, scope } : undefined,
+    };
+
+    return this.createSuccessResult(spec, warnings);
+  }
+
+  private createMemorySpec(id: string): Omit<ComponentSpec, "intent" | "body" | "metadata"> {
+    return {
+      id,
+      version: DEFAULT_VERSION,
+      sourceAgent: {
+        id: "aider",
+        detectedAt: new Date().toISOString(),
+      },
+      componentType: "memory",
+      category: ["context", "instructions"],
+      activation: {
+        mode: "auto",
+        safetyLevel: "safe",
+      },
+      invocation: {
+        userInvocable: false,
+      },
+      execution: {
+        context: "main",
+      },
+      capabilities: createDefaultCapabilities(),
+    };
+  }
+
+  private scopeFromFilename(filename?: string): ScopeLevel {
+    return filename?.startsWith("~") ? "user" : "project";
+  }
+
+  private extractIdFromFilename(filename?: string): string | undefined {
+    if (!filename) return undefined;
+
+    const match = filename.match(/([^/\\]+)\.md$/i);
+    return match?.[1]?.toLowerCase().replace(/\s+/g, "-");
+  }
+}
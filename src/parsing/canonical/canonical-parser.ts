@@ -0,0 +1,165 @@
+/**
+ * Canonical Source Parser - Parses hand-authored .cace.yaml / .cace.md files
+ *
+ * A canonical source is a ComponentSpec written by hand instead of being
+ * parsed from one agent's files, so no agent is the source of truth.
+ * `cace build` renders it for every target agent.
+ *
+ * .cace.yaml - the whole spec as YAML, with the body in a `body: |` block
+ * .cace.md   - the spec (minus body) as frontmatter, the body as markdown
+ *
+ * Keys map 1:1 onto ComponentSpec and ExtendedComponentFields. To keep
+ * sources short, `version` may be a "1.2.0" string and these may be omitted:
+ * version, activation, invocation, execution, capabilities and metadata.
+ * `agentOverrides` is keyed by agent id; each entry's agentId is filled in.
+ * `execution.allowedTools` takes the canonical tool names (`read`, `edit`,
+ * `shell(npm test:*)`), which each target's renderer translates.
+ */
+
+import matter from 'gray-matter';
+import type { AgentId, AgentOverride, ComponentSpec, ParseResult } from '../../core/types.js';
+import { DEFAULT_VERSION, SUPPORTED_AGENTS } from '../../core/constants.js';
+import { createDefaultCapabilities, parseVersion } from '../../core/types.js';
+import { ExtendedComponentSpecSchema, validateComponentSpec } from '../../core/schema.js';
+
+export interface CanonicalParseContext {
+  sourceFile?: string;
+}
+
+const CANONICAL_FILE_PATTERN = /\.cace\.(ya?ml|md)$/;
+
+/** Keys only the build fills in; authors should not set them */
+const DERIVED_KEYS = ['sourceAgent'];
+
+/**
+ * Detect a canonical source by its filename
+ */
+export function isCanonicalSource(filename?: string): boolean {
+  return filename !== undefined && CANONICAL_FILE_PATTERN.test(filename);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+/**
+ * Read the YAML data and body from either file flavour
+ */
+function readSource(
+  content: string,
+  sourceFile?: string
+): { data: unknown; body: unknown } {
+  const isMarkdown = sourceFile ? sourceFile.endsWith('.md') : matter.test(content);
+  if (isMarkdown) {
+    const parsed = matter(content);
+    return { data: parsed.data, body: parsed.content };
+  }
+  const data = matter(`---\n${content}\n---\n`).data as Record<string, unknown>;
+  return { data, body: data.body };
+}
+
+function parseOverrides(
+  value: unknown,
+  errors: string[]
+): Partial<Record<AgentId, AgentOverride>> | undefined {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    errors.push('agentOverrides: must be a mapping of agent id to override');
+    return undefined;
+  }
+
+  const overrides: Partial<Record<AgentId, AgentOverride>> = {};
+  for (const [agentId, override] of Object.entries(value)) {
+    if (!SUPPORTED_AGENTS.includes(agentId as AgentId)) {
+      errors.push(`agentOverrides.${agentId}: unknown agent (expected one of ${SUPPORTED_AGENTS.join(', ')})`);
+      continue;
+    }
+    overrides[agentId as AgentId] = { ...asRecord(override), agentId: agentId as AgentId };
+  }
+  return overrides;
+}
+
+/**
+ * Parse a canonical source into a ComponentSpec
+ */
+export function parseCanonicalSpec(
+  content: string,
+  context?: CanonicalParseContext
+): ParseResult {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  let source: { data: unknown; body: unknown };
+  try {
+    source = readSource(content, context?.sourceFile);
+  } catch (err) {
+    return {
+      success: false,
+      errors: [`Invalid YAML: ${err instanceof Error ? err.message : String(err)}`],
+      warnings: [],
+    };
+  }
+
+  if (!isRecord(source.data) || Object.keys(source.data).length === 0) {
+    return {
+      success: false,
+      errors: ['Canonical source must be a YAML mapping of ComponentSpec fields'],
+      warnings: [],
+    };
+  }
+
+  const { version, agentOverrides, body: _yamlBody, ...rest } = source.data;
+  const known = Object.keys(ExtendedComponentSpecSchema.shape);
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (DERIVED_KEYS.includes(key)) {
+      warnings.push(`${key} is set by cace and was ignored`);
+    } else if (!known.includes(key)) {
+      warnings.push(`Unknown field ignored: ${key}`);
+    } else {
+      fields[key] = value;
+    }
+  }
+
+  if (typeof version === 'string' && !/^\d+\.\d+\.\d+(-.+)?$/.test(version)) {
+    errors.push(`version: "${version}" is not a semantic version (e.g. 1.0.0)`);
+  }
+
+  const isMemory = fields.componentType === 'memory';
+  const spec = {
+    ...fields,
+    version: typeof version === 'string' ? parseVersion(version) : (version ?? DEFAULT_VERSION),
+    sourceAgent: { id: 'universal' as AgentId },
+    activation: { mode: isMemory ? 'auto' : 'manual', safetyLevel: 'safe', ...asRecord(fields.activation) },
+    invocation: { userInvocable: !isMemory, ...asRecord(fields.invocation) },
+    execution: { context: 'main', ...asRecord(fields.execution) },
+    capabilities: { ...createDefaultCapabilities(), ...asRecord(fields.capabilities) },
+    metadata: {
+      ...asRecord(fields.metadata),
+      sourceFile: context?.sourceFile,
+      originalFormat: 'cace',
+    },
+    agentOverrides: parseOverrides(agentOverrides, errors),
+    body: typeof source.body === 'string' ? source.body.trim() : '',
+  };
+
+  if (!spec.body.trim() && !isMemory) {
+    warnings.push('Component has an empty body');
+  }
+
+  errors.push(...validateComponentSpec(spec).errors);
+  if (errors.length > 0) {
+    return { success: false, errors, warnings };
+  }
+
+  return {
+    success: true,
+    spec: spec as ComponentSpec,
+    errors,
+    warnings,
+  };
+}
@@ -0,0 +1,5 @@
+/**
+ * Canonical source parsers index
+ */
+
+export * from './canonical-parser.js';
@@ -5,16 +5,33 @@
  * - name, description, argument-hint
  * - disable-model-invocation, user-invocable
  * - allowed-tools, model, context, agent
+ *
+ * Files under .claude/rules/ are parsed as rules: `paths` globs make the
+ * rule auto-attached, otherwise it is always loaded. Files under
+ * .claude/agents/ are sub-agents (name, description, tools, model, color,
+ * permissionMode). The hooks section of .claude/settings.json is parsed as
+ * a hook component.
  */
 
 import matter from "gray-matter";
 import type {
   ComponentSpec,
   CapabilitySet,
+  ExtendedComponentFields,
   SemanticVersion,
+  SubAgentSpec,
 } from "../core/types.js";
 import { createDefaultCapabilities, parseVersion } from "../core/types.js";
+import {
+  activationForRuleKind,
+  createRuleActivation,
+  parseGlobList,
+} from "../core/rule-activation.js";
 import { BaseParser, type ParserOptions } from "./parser-interface.js";
+import { isMcpConfig, parseMcpConfig } from "./mcp/mcp-config-parser.js";
+import { parseToolList, parseTools } from "../core/tool-vocabulary.js";
+import { isClaudeHooks, parseClaudeHooks } from "./hooks/claude-hooks-parser.js";
+import { parseClaudeMemory } from "./memory/claude-memory-parser.js";
 import type { VersionDetectionResult } from "../versioning/types.js";
 import { detectClaudeVersion } from "../versioning/version-detector.js";
 
@@ -24,26 +41,47 @@ interface ClaudeFrontmatter {
   "argument-hint"?: string;
   "disable-model-invocation"?: boolean;
   "user-invocable"?: boolean;
-  "allowed-tools"?: string[];
+  /** A list, or one comma-separated string: `Read, Bash(git add:*)` */
+  "allowed-tools"?: string | string[];
   model?: string;
   context?: string;
   agent?: string;
   version?: string;
+  // Rule-specific
+  paths?: string | string[];
+  // Sub-agent-specific
+  /** A list, or one comma-separated string: `Read, Grep, Glob` */
+  tools?: string | string[];
+  color?: string;
+  permissionMode?: string;
 }
 
+/** CLAUDE.md and CLAUDE.local.md, at any level */
+const CLAUDE_MEMORY_FILE = /(^|[/\\])CLAUDE(\.local)?\.md$/;
+
 export class ClaudeParser extends BaseParser {
   readonly agentId = "claude" as const;
 
   canParse(content: string, filename?: string): boolean {
+    if (isMcpConfig(content, "claude", { sourceFile: filename })) {
+      return true;
+    }
+
     if (filename) {
       if (
         filename.includes(".claude/skills/") ||
-        filename.includes(".claude/commands/")
+        filename.includes(".claude/commands/") ||
+        filename.includes(".claude/rules/") ||
+        filename.includes(".claude/agents/")
       ) {
         return true;
       }
     }
 
+    if (isClaudeHooks(content, { sourceFile: filename })) {
+      return true;
+    }
+
     // Check for Claude-specific frontmatter fields
     try {
       const { data } = matter(content);
@@ -84,6 +122,18 @@ export class ClaudeParser extends BaseParser {
       ]);
     }
 
+    if (isClaudeHooks(content, options)) {
+      return parseClaudeHooks(content, options);
+    }
+
+    if (isMcpConfig(content, "claude", options)) {
+      return parseMcpConfig(content, "claude", options);
+    }
+
+    if (options?.sourceFile && CLAUDE_MEMORY_FILE.test(options.sourceFile)) {
+      return parseClaudeMemory(content, { sourceFile: options.sourceFile });
+    }
+
     let parsed: matter.GrayMatterFile<string>;
     try {
       parsed = matter(content);
@@ -96,6 +146,13 @@ export class ClaudeParser extends BaseParser {
     const fm = parsed.data as ClaudeFrontmatter;
     const body = parsed.content.trim();
 
+    if (options?.sourceFile?.includes(".claude/rules/")) {
+      return this.parseRule(fm, body, warnings, options);
+    }
+    if (options?.sourceFile?.includes(".claude/agents/")) {
+      return this.parseAgent(fm, body, warnings, options);
+    }
+
     // Extract ID from name or filename
     const id =
       fm.name ??
@@ -107,10 +164,12 @@ export class ClaudeParser extends BaseParser {
       ? parseVersion(fm.version)
       : { major: 1, minor: 0, patch: 0 };
 
+    const allowedTools = parseToolList(fm["allowed-tools"]);
+
     // Infer capabilities from body content
     const capabilities =
       options?.inferCapabilities !== false
-        ? this.inferCapabilities(body, fm["allowed-tools"])
+        ? this.inferCapabilities(body, allowedTools)
         : createDefaultCapabilities();
 
     // Build the ComponentSpec
@@ -140,7 +199,8 @@ export class ClaudeParser extends BaseParser {
       },
       execution: {
         context: this.mapContext(fm.context),
-        allowedTools: fm["allowed-tools"],
+        allowedTools,
+        tools: allowedTools && parseTools(allowedTools, "claude"),
         preferredModel: fm.model,
         subAgent: fm.agent,
       },
@@ -180,6 +240,144 @@ export class ClaudeParser extends BaseParser {
     return this.createSuccessResult(spec, warnings, validation);
   }
 
+  private parseRule(
+    fm: ClaudeFrontmatter,
+    body: string,
+    warnings: string[],
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const globs = parseGlobList(fm.paths);
+    const kind = globs.length > 0 ? "auto-attached" : "always";
+
+    const id =
+      this.extractIdFromFilename(options?.sourceFile) ??
+      fm.name ??
+      "unknown-rule";
+
+    const capabilities =
+      options?.inferCapabilities !== false
+        ? this.inferCapabilities(body)
+        : createDefaultCapabilities();
+
+    const spec: ComponentSpec = {
+      id,
+      version: fm.version ? parseVersion(fm.version) : { major: 1, minor: 0, patch: 0 },
+      sourceAgent: {
+        id: "claude",
+        detectedAt: new Date().toISOString(),
+      },
+      componentType: "rule",
+      category: this.inferCategory(fm.description, body),
+      intent: {
+        summary: fm.description ?? `Claude rule: ${id}`,
+        purpose: fm.description ?? "No description provided",
+        whenToUse:
+          kind === "auto-attached"
+            ? `When working with files matching: ${globs.join(", ")}`
+            : "Always loaded",
+      },
+      activation: {
+        ...activationForRuleKind(kind, globs),
+        safetyLevel: "safe",
+      },
+      invocation: {
+        userInvocable: false,
+      },
+      execution: {
+        context: "main",
+      },
+      body,
+      capabilities,
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: "claude-rule",
+        updatedAt: new Date().toISOString(),
+      },
+    };
+
+    (spec as ComponentSpec & ExtendedComponentFields).ruleActivation =
+      createRuleActivation(kind, { globs, description: fm.description });
+
+    return this.createSuccessResult(spec, warnings);
+  }
+
+  /**
+   * A sub-agent: the body is its system prompt, and the main agent delegates
+   * to it based on the description. Without `tools` it inherits every tool.
+   */
+  private parseAgent(
+    fm: ClaudeFrontmatter,
+    body: string,
+    warnings: string[],
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const id =
+      fm.name ??
+      this.extractIdFromFilename(options?.sourceFile) ??
+      "unknown-agent";
+
+    const tools = parseToolList(fm.tools);
+    const capabilities =
+      options?.inferCapabilities !== false
+        ? this.inferCapabilities(body, tools)
+        : createDefaultCapabilities();
+
+    const spec: ComponentSpec = {
+      id,
+      version: fm.version ? parseVersion(fm.version) : { major: 1, minor: 0, patch: 0 },
+      sourceAgent: {
+        id: "claude",
+        detectedAt: new Date().toISOString(),
+      },
+      componentType: "agent",
+      category: this.inferCategory(fm.description, body),
+      intent: {
+        summary: fm.description ?? `Claude sub-agent: ${id}`,
+        purpose: fm.description ?? "No description provided",
+        whenToUse: fm.description,
+      },
+      activation: {
+        mode: "suggested",
+        safetyLevel: this.inferSafetyLevel(body, capabilities),
+      },
+      invocation: {
+        userInvocable: false,
+      },
+      execution: {
+        context: "main",
+        allowedTools: tools,
+        tools: tools && parseTools(tools, "claude"),
+        preferredModel: fm.model,
+      },
+      body,
+      capabilities,
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: "claude-agent",
+        updatedAt: new Date().toISOString(),
+      },
+    };
+
+    const subAgentSpec: SubAgentSpec = { mode: "subagent" };
+    if (fm.color) {
+      subAgentSpec.color = fm.color;
+    }
+    if (fm.permissionMode) {
+      subAgentSpec.permissionMode = fm.permissionMode;
+    }
+    (spec as ComponentSpec & ExtendedComponentFields).subAgentSpec = subAgentSpec;
+
+    if (!fm.description) {
+      warnings.push(`Sub-agent "${id}" has no description; the main agent will not know when to delegate to it`);
+    }
+
+    return this.createSuccessResult(spec, warnings);
+  }
+
   private extractIdFromFilename(filename?: string): string | undefined {
     if (!filename) return undefined;
 
@@ -191,6 +389,14 @@ export class ClaudeParser extends BaseParser {
     const cmdMatch = filename.match(/\.claude\/commands\/([^/]+)\.md$/);
     if (cmdMatch?.[1]) return cmdMatch[1];
 
+    // Extract from .claude/agents/[<subdir>/]<name>.md
+    const agentMatch = filename.match(/\.claude\/agents\/(?:.+\/)?([^/]+)\.md$/);
+    if (agentMatch?.[1]) return agentMatch[1];
+
+    // Extract from .claude/rules/[<subdir>/]<name>.md
+    const ruleMatch = filename.match(/\.claude\/rules\/(?:.+\/)?([^/]+)\.md$/);
+    if (ruleMatch?.[1]) return ruleMatch[1];
+
     return undefined;
   }
 
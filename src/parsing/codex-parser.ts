@@ -1,12 +1,25 @@
 /**
- * Parser for OpenAI Codex skills and commands
+ * Parser for OpenAI Codex skills, custom prompts and config.toml
  * Based on Codex documentation from https://developers.openai.com/codex/
  */
 
-import type { AgentId, ComponentSpec, ComponentType, ParseResult, SemanticVersion } from "../core/types.js";
+import type {
+  AgentId,
+  ComponentSpec,
+  ComponentType,
+  ConfigSpec,
+  ExtendedComponentFields,
+  ParseResult,
+  ScopeLevel,
+  SemanticVersion,
+} from "../core/types.js";
 import { parseVersion, formatVersion } from "../core/types.js";
+import { isCodexApprovalPolicy, isCodexSandboxMode } from "../core/agent-config.js";
+import { parseToml } from "../core/toml.js";
 import matter from "gray-matter";
 import { BaseParser } from "./parser-interface.js";
+import { isMcpConfig, parseMcpConfig } from "./mcp/mcp-config-parser.js";
+import { parseTools } from "../core/tool-vocabulary.js";
 
 interface CodexFrontmatter {
   name?: string;
@@ -25,6 +38,8 @@ interface CodexFrontmatter {
   // Command-specific fields  
   slash_command?: string;
   argument_hint?: string;
+  // Custom prompt (~/.codex/prompts/*.md) argument hint
+  "argument-hint"?: string;
   // AGENTS.md compatibility
   globs?: string | string[];
   alwaysApply?: boolean;
@@ -38,6 +53,10 @@ export class CodexParser extends BaseParser {
   ];
 
   canParse(content: string, filename?: string): boolean {
+    if (isMcpConfig(content, "codex", { sourceFile: filename })) {
+      return true;
+    }
+
     // Check filename patterns first
     if (filename) {
       if (filename.includes(".codex/")) return true;
@@ -77,6 +96,14 @@ export class CodexParser extends BaseParser {
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    if (isMcpConfig(content, "codex", options)) {
+      return parseMcpConfig(content, "codex", options);
+    }
+
+    if (this.isConfigToml(content, options?.sourceFile)) {
+      return this.parseConfig(content, options?.sourceFile);
+    }
+
     try {
       // Parse frontmatter
       const parsed = matter(content);
@@ -85,6 +112,7 @@ export class CodexParser extends BaseParser {
 
       // Detect component type
       const componentType = this.detectComponentType(fm, body, options?.sourceFile);
+      const isPrompt = this.isCustomPrompt(options?.sourceFile);
 
       // Build component spec
       const spec: ComponentSpec = {
@@ -100,7 +128,7 @@ export class CodexParser extends BaseParser {
         },
         
         activation: {
-          mode: this.detectActivationMode(fm, body),
+          mode: isPrompt ? "manual" : this.detectActivationMode(fm, body),
           safetyLevel: this.detectSafetyLevel(fm),
           triggers: this.extractTriggers(fm, body),
         },
@@ -108,12 +136,13 @@ export class CodexParser extends BaseParser {
         invocation: {
           userInvocable: !!fm.slash_command || componentType === "command",
           slashCommand: fm.slash_command,
-          argumentHint: fm.argument_hint,
+          argumentHint: fm["argument-hint"] ?? fm.argument_hint,
         },
         
         execution: {
           context: fm.sandbox_mode === "danger-full-access" ? "isolated" : "main",
           allowedTools: fm.tools,
+          tools: fm.tools && parseTools(fm.tools, "codex"),
           preferredModel: fm.model,
         },
         
@@ -131,7 +160,7 @@ export class CodexParser extends BaseParser {
         },
         
         body,
-        metadata: {},
+        metadata: isPrompt ? { sourceFile: options?.sourceFile, originalFormat: "codex-prompt" } : {},
       };
 
       // Add Codex-specific metadata
@@ -172,6 +201,146 @@ export class CodexParser extends BaseParser {
     }
   }
 
+  /**
+   * config.toml, or TOML content that is not wrapped in frontmatter
+   */
+  private isConfigToml(content: string, filename?: string): boolean {
+    if (filename?.toLowerCase().endsWith(".toml")) return true;
+    if (content.trimStart().startsWith("---")) return false;
+    return (
+      /^\s*(?:model|approval_policy|sandbox_mode)\s*=/m.test(content) ||
+      /^\s*\[(?:mcp_servers|profiles)\./m.test(content)
+    );
+  }
+
+  /**
+   * Custom prompts live in ~/.codex/prompts/<name>.md and run as /prompts:<name>
+   */
+  private isCustomPrompt(filename?: string): boolean {
+    return !!filename && /(?:^|[/\\])prompts[/\\][^/\\]+\.md$/i.test(filename);
+  }
+
+  private parseConfig(content: string, sourceFile?: string): ParseResult {
+    const warnings: string[] = [];
+
+    try {
+      const data = parseToml(content);
+      const {
+        model,
+        approval_policy,
+        sandbox_mode,
+        web_search,
+        mcp_servers,
+        features,
+        profiles,
+        ...settings
+      } = data;
+
+      if (approval_policy !== undefined && !isCodexApprovalPolicy(approval_policy)) {
+        warnings.push(`Unknown approval_policy '${String(approval_policy)}'`);
+      }
+      if (sandbox_mode !== undefined && !isCodexSandboxMode(sandbox_mode)) {
+        warnings.push(`Unknown sandbox_mode '${String(sandbox_mode)}'`);
+      }
+
+      const fm: CodexFrontmatter = {
+        model: typeof model === "string" ? model : undefined,
+        approval_policy: isCodexApprovalPolicy(approval_policy) ? approval_policy : undefined,
+        sandbox_mode: isCodexSandboxMode(sandbox_mode) ? sandbox_mode : undefined,
+        web_search: typeof web_search === "string" ? (web_search as CodexFrontmatter["web_search"]) : undefined,
+        mcp_servers: isTable(mcp_servers) ? mcp_servers : undefined,
+        features: isTable(features) ? (features as Record<string, boolean>) : undefined,
+      };
+
+      const spec: ComponentSpec & ExtendedComponentFields = {
+        id: this.extractConfigId(sourceFile),
+        componentType: "config",
+        sourceAgent: { id: this.agentId },
+        version: { major: 1, minor: 0, patch: 0 },
+
+        intent: {
+          summary: "Codex configuration",
+        },
+
+        activation: {
+          mode: "auto",
+          safetyLevel: this.detectSafetyLevel(fm),
+        },
+
+        invocation: {
+          userInvocable: false,
+        },
+
+        execution: {
+          context: "main",
+          preferredModel: fm.model,
+        },
+
+        capabilities: {
+          needsShell: fm.sandbox_mode === "danger-full-access" || fm.sandbox_mode === "workspace-write",
+          needsFilesystem: true,
+          needsNetwork: fm.web_search === "live" || fm.sandbox_mode === "danger-full-access",
+          needsGit: false,
+          needsCodeSearch: false,
+          needsBrowser: fm.web_search !== undefined && fm.web_search !== "disabled",
+          providesAnalysis: false,
+          providesCodeGeneration: false,
+          providesRefactoring: false,
+          providesDocumentation: false,
+        },
+
+        body: "",
+        metadata: {
+          sourceFile,
+          originalFormat: "codex-config",
+          model: fm.model,
+          approvalPolicy: fm.approval_policy,
+          sandboxMode: fm.sandbox_mode,
+          webSearch: fm.web_search,
+          mcpServers: fm.mcp_servers,
+          features: fm.features,
+        },
+      };
+
+      const config: ConfigSpec = { scope: this.detectConfigScope(sourceFile) };
+      if (isTable(profiles)) {
+        config.profiles = profiles as Record<string, Record<string, unknown>>;
+      }
+      if (Object.keys(settings).length > 0) {
+        config.settings = settings;
+      }
+      spec.config = config;
+
+      return {
+        success: true,
+        spec,
+        errors: [],
+        warnings,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        errors: [err instanceof Error ? err.message : "Parse error"],
+        warnings,
+      };
+    }
+  }
+
+  private extractConfigId(filename?: string): string {
+    const match = filename?.match(/([^/\\]+)\.toml$/i);
+    return match?.[1] ?? "config";
+  }
+
+  private detectConfigScope(filename?: string): ScopeLevel {
+    if (!filename) return "project";
+    // ~/.codex/config.toml is the user config; repos may carry their own .codex/
+    const home = process.env.HOME;
+    if (filename.startsWith("~/.codex/") || (home && filename.startsWith(`${home}/.codex/`))) {
+      return "user";
+    }
+    return "project";
+  }
+
   private detectComponentType(
     fm: CodexFrontmatter,
     _body: string,
@@ -185,6 +354,9 @@ export class CodexParser extends BaseParser {
       if (filename.includes("/commands/") || filename.includes("COMMAND.md")) {
         return "command";
       }
+      if (this.isCustomPrompt(filename)) {
+        return "command";
+      }
       if (filename.includes("/rules/")) {
         return "rule";
       }
@@ -339,3 +511,7 @@ export class CodexParser extends BaseParser {
     return reqs;
   }
 }
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
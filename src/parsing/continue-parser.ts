@@ -0,0 +1,255 @@
+/**
+ * Parser for Continue rules + prompt files
+ *
+ * Continue rules live in `.continue/rules/*.md` with optional frontmatter:
+ * - name, description
+ * - globs: patterns the rule attaches to (string or list)
+ * - regex: content patterns the rule attaches to
+ * - alwaysApply: true (always), false (agent decides from description)
+ *
+ * Continue prompts live in `.continue/prompts/*.prompt` (or `.md`) with
+ * name, description and `invokable: true` to expose them as slash commands.
+ * Legacy `.prompt` files put the YAML header before a bare `---` line
+ * instead of fencing it. `{{{ input }}}` is the text typed after the command.
+ */
+
+import matter from "gray-matter";
+import type {
+  ComponentSpec,
+  ExtendedComponentFields,
+  RuleKind,
+} from "../core/types.js";
+import { createDefaultCapabilities } from "../core/types.js";
+import { DEFAULT_VERSION } from "../core/constants.js";
+import {
+  activationForRuleKind,
+  createRuleActivation,
+  parseGlobList,
+} from "../core/rule-activation.js";
+import { BaseParser, type ParserOptions } from "./parser-interface.js";
+
+interface ContinueFrontmatter {
+  name?: string;
+  description?: string;
+  // Rule-specific
+  globs?: string | string[];
+  regex?: string | string[];
+  alwaysApply?: boolean;
+  // Prompt-specific
+  invokable?: boolean;
+}
+
+const INPUT_PLACEHOLDER = /\{\{\{\s*input\s*\}\}\}/g;
+
+export class ContinueParser extends BaseParser {
+  readonly agentId = "continue" as const;
+
+  canParse(content: string, filename?: string): boolean {
+    if (filename) {
+      if (
+        filename.includes(".continue/rules/") ||
+        filename.includes(".continue/prompts/") ||
+        filename.endsWith(".prompt")
+      ) {
+        return true;
+      }
+    }
+
+    // invokable is specific to Continue prompt files
+    try {
+      const { data } = matter(content);
+      return typeof (data as ContinueFrontmatter).invokable === "boolean";
+    } catch {
+      return false;
+    }
+  }
+
+  parse(
+    content: string,
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const file = options?.sourceFile ?? "";
+    let fm: ContinueFrontmatter;
+    let body: string;
+    try {
+      ({ fm, body } = this.splitFrontmatter(content, file.endsWith(".prompt")));
+    } catch (err) {
+      return this.createErrorResult([
+        `Failed to parse frontmatter: ${err instanceof Error ? err.message : String(err)}`,
+      ]);
+    }
+
+    const isPrompt =
+      file.includes(".continue/prompts/") ||
+      file.endsWith(".prompt") ||
+      (!file.includes(".continue/rules/") && fm.invokable !== undefined);
+
+    return isPrompt
+      ? this.parsePrompt(fm, body, options)
+      : this.parseRule(fm, body, options);
+  }
+
+  private parseRule(
+    fm: ContinueFrontmatter,
+    body: string,
+    options?: ParserOptions,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const warnings: string[] = [];
+    const id = this.extractId(fm, options?.sourceFile, "continue-rule");
+    const globs = parseGlobList(fm.globs);
+
+    // Without alwaysApply a rule is always on unless globs restrict it;
+    // alwaysApply: false leaves the decision to the agent
+    let kind: RuleKind;
+    if (fm.alwaysApply === true) {
+      kind = "always";
+    } else if (globs.length > 0) {
+      kind = "auto-attached";
+    } else if (fm.alwaysApply === false) {
+      kind = fm.description ? "agent-requested" : "manual";
+    } else {
+      kind = "always";
+    }
+
+    if (fm.regex !== undefined) {
+      warnings.push("regex rule triggers have no equivalent in other agents and were dropped");
+    }
+
+    const spec: ComponentSpec & ExtendedComponentFields = {
+      id,
+      version: DEFAULT_VERSION,
+      sourceAgent: {
+        id: "continue",
+        detectedAt: new Date().toISOString(),
+      },
+      componentType: "rule",
+      category: ["rules"],
+      intent: {
+        summary: fm.description ?? fm.name ?? `Continue rule: ${id}`,
+        purpose: fm.description ?? "No description provided",
+        whenToUse:
+          kind === "auto-attached"
+            ? `When working with files matching: ${globs.join(", ")}`
+            : fm.description,
+      },
+      activation: {
+        ...activationForRuleKind(kind, globs),
+        safetyLevel: "safe",
+      },
+      invocation: {
+        userInvocable: kind === "manual",
+      },
+      execution: {
+        context: "main",
+      },
+      body,
+      capabilities: createDefaultCapabilities(),
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: "continue-rule",
+      },
+      ruleActivation: createRuleActivation(kind, { globs, description: fm.description }),
+    };
+
+    return this.createSuccessResult(spec, warnings);
+  }
+
+  private parsePrompt(
+    fm: ContinueFrontmatter,
+    body: string,
+    options?: ParserOptions,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const warnings: string[] = [];
+    const id = this.extractId(fm, options?.sourceFile, "continue-prompt");
+    const converted = body.replace(INPUT_PLACEHOLDER, "$ARGUMENTS");
+    const hasInput = converted !== body;
+
+    const otherVariables = converted.match(/\{\{\{?\s*[\w.]+\s*\}?\}\}/g);
+    if (otherVariables) {
+      warnings.push(
+        `Continue template variables have no equivalent in other agents: ${Array.from(new Set(otherVariables)).join(", ")}`,
+      );
+    }
+    if (fm.invokable === false) {
+      warnings.push("Prompt is not invokable; converting it as a slash command");
+    }
+
+    const spec: ComponentSpec = {
+      id,
+      version: DEFAULT_VERSION,
+      sourceAgent: {
+        id: "continue",
+        detectedAt: new Date().toISOString(),
+      },
+      componentType: "command",
+      category: ["general"],
+      intent: {
+        summary: fm.description ?? `Continue prompt: ${id}`,
+        purpose: fm.description ?? "No description provided",
+      },
+      activation: {
+        mode: "manual",
+        safetyLevel: "safe",
+        requiresConfirmation: true,
+      },
+      invocation: {
+        slashCommand: id,
+        argumentHint: hasInput ? "<input>" : undefined,
+        userInvocable: true,
+      },
+      execution: {
+        context: "main",
+      },
+      body: converted,
+      capabilities: createDefaultCapabilities(),
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: "continue-prompt",
+      },
+    };
+
+    return this.createSuccessResult(spec, warnings);
+  }
+
+  /**
+   * Split a file into frontmatter and body. `.prompt` files may also use
+   * the legacy header that ends at the first bare `---` line.
+   */
+  private splitFrontmatter(
+    content: string,
+    allowLegacyHeader: boolean,
+  ): { fm: ContinueFrontmatter; body: string } {
+    if (content.trimStart().startsWith("---")) {
+      const parsed = matter(content);
+      return { fm: parsed.data as ContinueFrontmatter, body: parsed.content.trim() };
+    }
+
+    const separator = allowLegacyHeader ? content.match(/^---\s*$/m) : null;
+    if (separator?.index !== undefined) {
+      const header = content.slice(0, separator.index);
+      if (/^\s*[\w-]+\s*:/m.test(header)) {
+        const data = matter(`---\n${header}\n---\n`).data as ContinueFrontmatter;
+        return {
+          fm: data,
+          body: content.slice(separator.index + separator[0].length).trim(),
+        };
+      }
+    }
+
+    return { fm: {}, body: content.trim() };
+  }
+
+  private extractId(fm: ContinueFrontmatter, filename: string | undefined, fallback: string): string {
+    const fromFile = filename?.match(/([^/\\]+)\.(?:md|prompt)$/)?.[1];
+    if (fromFile) return fromFile;
+    if (fm.name) {
+      return fm.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+    }
+    return fallback;
+  }
+}
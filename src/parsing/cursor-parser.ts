@@ -1,21 +1,34 @@
 /**
- * Parser for Cursor commands + skills
+ * Parser for Cursor commands, skills + rules
  *
  * Cursor commands are plain Markdown files with no required frontmatter.
  * Convention uses # Title, ## Objective, ## Requirements, ## Output sections.
  *
  * Cursor skills follow the Agent Skills standard:
  * `.cursor/skills/<skill-name>/SKILL.md` with YAML frontmatter (`name`, `description`, etc.).
+ *
+ * Cursor project rules live in `.cursor/rules/*.mdc` with `description`,
+ * `globs` and `alwaysApply` frontmatter selecting one of four rule kinds
+ * (always, auto-attached, agent-requested, manual).
  */
 
 import matter from "gray-matter";
 import type {
   ComponentSpec,
   CapabilitySet,
+  ExtendedComponentFields,
+  RuleKind,
   SemanticVersion,
 } from "../core/types.js";
 import { createDefaultCapabilities, parseVersion } from "../core/types.js";
+import {
+  activationForRuleKind,
+  createRuleActivation,
+  parseGlobList,
+  quoteBareGlobs,
+} from "../core/rule-activation.js";
 import { BaseParser, type ParserOptions } from "./parser-interface.js";
+import { isMcpConfig, parseMcpConfig } from "./mcp/mcp-config-parser.js";
 import type { VersionDetectionResult } from "../versioning/types.js";
 import { detectCursorVersion } from "../versioning/version-detector.js";
 
@@ -24,18 +37,25 @@ interface CursorFrontmatter {
   description?: string;
   version?: string;
   tags?: string[];
+  // .mdc rule fields
+  globs?: string | string[];
+  alwaysApply?: boolean;
 }
 
 export class CursorParser extends BaseParser {
   readonly agentId = "cursor" as const;
 
   canParse(content: string, filename?: string): boolean {
+    if (isMcpConfig(content, "cursor", { sourceFile: filename })) {
+      return true;
+    }
+
     // Check filename patterns first (most reliable)
     if (filename) {
       if (filename.includes(".cursor/commands/")) {
         return true;
       }
-      if (filename.includes(".cursor/rules/")) {
+      if (filename.includes(".cursor/rules/") || filename.endsWith(".mdc")) {
         return true;
       }
       if (filename.includes(".cursor/skills/") && filename.endsWith("/SKILL.md")) {
@@ -103,12 +123,16 @@ export class CursorParser extends BaseParser {
     | ReturnType<typeof this.createErrorResult> {
     const warnings: string[] = [];
 
+    if (isMcpConfig(content, "cursor", options)) {
+      return parseMcpConfig(content, "cursor", options);
+    }
+
     // Try to parse frontmatter
     let fm: CursorFrontmatter = {};
     let body = content;
 
     try {
-      const parsed = matter(content);
+      const parsed = matter(quoteBareGlobs(content));
       if (Object.keys(parsed.data).length > 0) {
         fm = parsed.data as CursorFrontmatter;
         body = parsed.content.trim();
@@ -118,6 +142,17 @@ export class CursorParser extends BaseParser {
       body = content.trim();
     }
 
+    // Detect .mdc project rules
+    const isRuleFile =
+      options?.sourceFile?.endsWith(".mdc") ||
+      options?.sourceFile?.includes(".cursor/rules/") ||
+      fm.globs !== undefined ||
+      fm.alwaysApply !== undefined;
+
+    if (isRuleFile) {
+      return this.parseRule(fm, body, warnings, options);
+    }
+
     // Detect Skill.md style (Agent Skills standard)
     const isSkillFile =
       options?.sourceFile?.includes(".cursor/skills/") ||
@@ -243,6 +278,90 @@ export class CursorParser extends BaseParser {
     return this.createSuccessResult(spec, warnings);
   }
 
+  private parseRule(
+    fm: CursorFrontmatter,
+    body: string,
+    warnings: string[],
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const globs = parseGlobList(fm.globs);
+    const kind: RuleKind =
+      fm.alwaysApply === true
+        ? "always"
+        : globs.length > 0
+          ? "auto-attached"
+          : fm.description
+            ? "agent-requested"
+            : "manual";
+
+    const titleMatch = body.match(/^#\s+(.+)$/m);
+    const id =
+      this.extractRuleIdFromFilename(options?.sourceFile) ??
+      (titleMatch?.[1] ? this.slugify(titleMatch[1]) : "unknown-rule");
+
+    const capabilities =
+      options?.inferCapabilities !== false
+        ? this.inferCapabilities(body)
+        : createDefaultCapabilities();
+
+    const spec: ComponentSpec = {
+      id,
+      version: fm.version ? parseVersion(fm.version) : { major: 1, minor: 0, patch: 0 },
+      sourceAgent: {
+        id: "cursor",
+        detectedAt: new Date().toISOString(),
+      },
+      componentType: "rule",
+      category: fm.tags ?? this.inferCategory(fm.description, body),
+      intent: {
+        summary: fm.description ?? `Cursor rule: ${id}`,
+        purpose: fm.description ?? "No description provided",
+        whenToUse:
+          kind === "auto-attached"
+            ? `When working with files matching: ${globs.join(", ")}`
+            : fm.description,
+      },
+      activation: {
+        ...activationForRuleKind(kind, globs),
+        safetyLevel: "safe",
+      },
+      invocation: {
+        // Manual rules are pulled in with @rule-name
+        userInvocable: kind === "manual",
+      },
+      execution: {
+        context: "main",
+      },
+      body,
+      capabilities,
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: "cursor-rule",
+        updatedAt: new Date().toISOString(),
+        tags: fm.tags,
+      },
+    };
+
+    (spec as ComponentSpec & ExtendedComponentFields).ruleActivation =
+      createRuleActivation(kind, { globs, description: fm.description });
+
+    if (fm.alwaysApply === true && globs.length > 0) {
+      warnings.push("Rule has alwaysApply: true, so its globs are ignored by Cursor");
+    }
+
+    return this.createSuccessResult(spec, warnings);
+  }
+
+  private extractRuleIdFromFilename(filename?: string): string | undefined {
+    if (!filename) return undefined;
+    const match =
+      filename.match(/([^/\\]+)\.mdc$/) ??
+      filename.match(/\.cursor\/rules\/(?:.+\/)?([^/]+)\.md$/);
+    return match?.[1];
+  }
+
   private extractIdFromFilename(filename?: string): string | undefined {
     if (!filename) return undefined;
 
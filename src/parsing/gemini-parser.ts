@@ -1,12 +1,26 @@
 /**
- * Parser for Google Gemini CLI skills and commands
+ * Parser for Google Gemini CLI skills, commands and sub-agents
  * Based on Gemini documentation from https://geminicli.com/
+ *
+ * Sub-agents live in .gemini/agents/<name>.md (name, description, kind,
+ * tools, model, temperature, max_turns).
  */
 
-import type { AgentId, ComponentSpec, ComponentType, ParseResult, SemanticVersion } from "../core/types.js";
+import type {
+  AgentId,
+  ComponentSpec,
+  ComponentType,
+  ExtendedComponentFields,
+  ParseResult,
+  SemanticVersion,
+  SubAgentSpec,
+} from "../core/types.js";
 import { parseVersion } from "../core/types.js";
+import { parseToml } from "../core/toml.js";
 import matter from "gray-matter";
 import { BaseParser } from "./parser-interface.js";
+import { isMcpConfig, parseMcpConfig } from "./mcp/mcp-config-parser.js";
+import { parseTools } from "../core/tool-vocabulary.js";
 
 interface GeminiFrontmatter {
   name?: string;
@@ -29,8 +43,14 @@ interface GeminiFrontmatter {
   examples?: string[];
   // AGENTS.md compatibility
   globs?: string | string[];
+  // Sub-agent fields
+  kind?: string;
+  max_turns?: number;
 }
 
+/** Keys understood in Gemini TOML custom commands (.gemini/commands/) */
+const TOML_COMMAND_KEYS = new Set(["description", "prompt"]);
+
 export class GeminiParser extends BaseParser {
   readonly agentId: AgentId = "gemini";
   readonly supportedVersions: SemanticVersion[] = [
@@ -39,6 +59,10 @@ export class GeminiParser extends BaseParser {
   ];
 
   canParse(content: string, filename?: string): boolean {
+    if (isMcpConfig(content, "gemini", { sourceFile: filename })) {
+      return true;
+    }
+
     // Check filename patterns first
     if (filename) {
       if (filename.includes(".gemini/")) return true;
@@ -47,6 +71,7 @@ export class GeminiParser extends BaseParser {
 
     // Check content patterns for Gemini-specific fields
     const hasGeminiFields = 
+      this.isTomlCommand(content) ||
       /code_execution\s*:/m.test(content) ||
       /google_search\s*:/m.test(content) ||
       /temperature\s*:/m.test(content) ||
@@ -78,6 +103,14 @@ export class GeminiParser extends BaseParser {
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    if (isMcpConfig(content, "gemini", options)) {
+      return parseMcpConfig(content, "gemini", options);
+    }
+
+    if (this.isTomlCommand(content, options?.sourceFile)) {
+      return this.parseTomlCommand(content, options?.sourceFile);
+    }
+
     try {
       // Parse frontmatter
       const parsed = matter(content);
@@ -114,6 +147,7 @@ export class GeminiParser extends BaseParser {
         execution: {
           context: "main",
           allowedTools: fm.tools,
+          tools: fm.tools && parseTools(fm.tools, "gemini"),
           preferredModel: fm.model,
         },
         
@@ -160,6 +194,20 @@ export class GeminiParser extends BaseParser {
         spec.metadata.tools = fm.tools;
       }
 
+      if (componentType === "agent") {
+        const subAgentSpec: SubAgentSpec = { mode: "subagent" };
+        if (fm.temperature !== undefined) {
+          subAgentSpec.temperature = fm.temperature;
+        }
+        if (fm.max_turns !== undefined) {
+          subAgentSpec.maxTurns = fm.max_turns;
+        }
+        (spec as ComponentSpec & ExtendedComponentFields).subAgentSpec = subAgentSpec;
+        if (fm.kind && fm.kind !== "local") {
+          warnings.push(`Gemini ${fm.kind} sub-agents run elsewhere; only local sub-agents convert to other agents`);
+        }
+      }
+
       return {
         success: true,
         spec,
@@ -175,6 +223,157 @@ export class GeminiParser extends BaseParser {
     }
   }
 
+  /**
+   * Custom commands are TOML files with a `prompt` key. Markdown files with
+   * YAML frontmatter never start with a TOML assignment.
+   */
+  private isTomlCommand(content: string, filename?: string): boolean {
+    if (filename?.toLowerCase().endsWith(".toml")) return true;
+    if (content.trimStart().startsWith("---")) return false;
+    return /^\s*prompt\s*=/m.test(content) && !this.isOtherAgentFormat(content);
+  }
+
+  private parseTomlCommand(content: string, sourceFile?: string): ParseResult {
+    const warnings: string[] = [];
+
+    try {
+      const data = parseToml(content);
+
+      if (typeof data.prompt !== "string") {
+        return {
+          success: false,
+          errors: ["Gemini TOML command is missing a 'prompt' string"],
+          warnings,
+        };
+      }
+
+      for (const key of Object.keys(data)) {
+        if (!TOML_COMMAND_KEYS.has(key)) {
+          warnings.push(`Unknown Gemini command key '${key}' ignored`);
+        }
+      }
+
+      const commandName = this.extractCommandName(sourceFile);
+      const id = commandName ? commandName.replace(/:/g, "-") : "unnamed";
+      const description = typeof data.description === "string" ? data.description : undefined;
+      const body = this.fromGeminiPrompt(data.prompt.trim());
+      const hasShell = data.prompt.includes("!{");
+
+      const spec: ComponentSpec = {
+        id,
+        componentType: "command",
+        sourceAgent: { id: this.agentId },
+        version: { major: 1, minor: 0, patch: 0 },
+
+        intent: {
+          summary: description || this.extractDescriptionFromBody(body) || "",
+          purpose: body,
+        },
+
+        activation: {
+          mode: "manual",
+          safetyLevel: hasShell ? "sensitive" : "safe",
+        },
+
+        invocation: {
+          userInvocable: true,
+          slashCommand: commandName ?? id,
+        },
+
+        execution: {
+          context: "main",
+        },
+
+        capabilities: {
+          needsShell: hasShell,
+          needsFilesystem: true,
+          needsNetwork: false,
+          needsGit: /\bgit\s/.test(data.prompt),
+          needsCodeSearch: true,
+          needsBrowser: false,
+          providesAnalysis: true,
+          providesCodeGeneration: true,
+          providesRefactoring: true,
+          providesDocumentation: true,
+        },
+
+        body,
+        metadata: {
+          sourceFile,
+          originalFormat: "gemini-command-toml",
+        },
+      };
+
+      return {
+        success: true,
+        spec,
+        errors: [],
+        warnings,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        errors: [err instanceof Error ? err.message : "Parse error"],
+        warnings,
+      };
+    }
+  }
+
+  /**
+   * Namespaced command name from the path below .gemini/commands/,
+   * e.g. .gemini/commands/git/commit.toml → git:commit
+   */
+  private extractCommandName(filename?: string): string | undefined {
+    if (!filename) return undefined;
+
+    const normalized = filename.replace(/\\/g, "/");
+    const match = normalized.match(/(?:^|\/)commands\/(.+)\.toml$/i);
+    const relativeName = match?.[1] ?? normalized.split("/").pop()?.replace(/\.toml$/i, "");
+    if (!relativeName) return undefined;
+
+    return relativeName.split("/").filter(Boolean).join(":");
+  }
+
+  /**
+   * Convert Gemini prompt syntax to the IR's Claude syntax:
+   * {{args}} → $ARGUMENTS and !{cmd} → !`cmd`
+   */
+  private fromGeminiPrompt(prompt: string): string {
+    let out = "";
+    let pos = 0;
+
+    while (pos < prompt.length) {
+      const start = prompt.indexOf("!{", pos);
+      if (start === -1) {
+        out += prompt.slice(pos);
+        break;
+      }
+      out += prompt.slice(pos, start);
+
+      // Shell blocks may contain balanced braces, e.g. !{echo {{args}}}
+      let depth = 0;
+      let end = -1;
+      for (let i = start + 1; i < prompt.length; i++) {
+        if (prompt[i] === "{") depth++;
+        else if (prompt[i] === "}" && --depth === 0) {
+          end = i;
+          break;
+        }
+      }
+      if (end === -1) {
+        out += prompt.slice(start);
+        break;
+      }
+
+      const command = prompt.slice(start + 2, end);
+      // Backticks cannot be expressed inside !`...`, keep the block verbatim
+      out += command.includes("`") ? prompt.slice(start, end + 1) : `!\`${command}\``;
+      pos = end + 1;
+    }
+
+    return out.replace(/\{\{args\}\}/g, "$ARGUMENTS");
+  }
+
   private detectComponentType(
     fm: GeminiFrontmatter,
     body: string,
@@ -191,6 +390,9 @@ export class GeminiParser extends BaseParser {
       if (filename.includes("/memory/")) {
         return "memory";
       }
+      if (filename.includes("/agents/")) {
+        return "agent";
+      }
     }
 
     // Check frontmatter hints
@@ -0,0 +1,186 @@
+/**
+ * Claude Hooks Parser - Parses the hooks section of .claude/settings.json
+ *
+ * Claude Code groups hooks by event, then by tool-name matcher:
+ *
+ *   { "hooks": { "PreToolUse": [
+ *       { "matcher": "Bash", "hooks": [{ "type": "command", "command": "...", "timeout": 30 }] }
+ *   ] } }
+ *
+ * Timeouts are given in seconds and stored in milliseconds.
+ */
+
+import type { AgentId, ComponentSpec, ExtendedComponentFields, HookSpec, ParseResult } from '../../core/types.js';
+import { DEFAULT_VERSION } from '../../core/constants.js';
+import { createDefaultCapabilities } from '../../core/types.js';
+import { isClaudeHookEvent } from '../../core/hook-mapping.js';
+
+export interface ClaudeHooksParseContext {
+  sourceFile?: string;
+}
+
+interface ClaudeHookEntry {
+  type?: string;
+  command?: string;
+  prompt?: string;
+  timeout?: number;
+}
+
+interface ClaudeHookMatcher {
+  matcher?: string;
+  hooks?: ClaudeHookEntry[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a JSON document and return its top-level object, if any
+ */
+function readJsonObject(content: string): Record<string, unknown> | undefined {
+  if (!content.trimStart().startsWith('{')) return undefined;
+  try {
+    const data: unknown = JSON.parse(content);
+    return isRecord(data) ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detect if content is a Claude settings file with hooks
+ */
+export function isClaudeHooks(content: string, context?: ClaudeHooksParseContext): boolean {
+  const data = readJsonObject(content);
+  const hooks = data?.hooks;
+  if (!hooks || typeof hooks !== 'object' || Array.isArray(hooks)) return false;
+
+  if (context?.sourceFile && /\.claude\/settings(\.local)?\.json$/.test(context.sourceFile)) {
+    return true;
+  }
+  const events = Object.keys(hooks);
+  return events.length > 0 && events.every(isClaudeHookEvent);
+}
+
+/**
+ * Parse Claude settings.json hooks into a hook ComponentSpec
+ */
+export function parseClaudeHooks(
+  content: string,
+  context?: ClaudeHooksParseContext
+): ParseResult {
+  const warnings: string[] = [];
+  const data = readJsonObject(content);
+
+  if (!data) {
+    return { success: false, errors: ['Invalid JSON: expected a settings object'], warnings: [] };
+  }
+  if (!data.hooks || typeof data.hooks !== 'object' || Array.isArray(data.hooks)) {
+    return { success: false, errors: ['No "hooks" object found in settings'], warnings: [] };
+  }
+
+  const otherKeys = Object.keys(data).filter(key => key !== 'hooks');
+  if (otherKeys.length > 0) {
+    warnings.push(`Ignoring settings other than hooks: ${otherKeys.join(', ')}`);
+  }
+
+  const hooks: HookSpec[] = [];
+  for (const [event, matchers] of Object.entries(data.hooks as Record<string, unknown>)) {
+    if (!isClaudeHookEvent(event)) {
+      warnings.push(`Unknown hook event '${event}' skipped`);
+      continue;
+    }
+    if (!Array.isArray(matchers)) {
+      warnings.push(`Hooks for '${event}' must be an array; skipped`);
+      continue;
+    }
+
+    for (const group of matchers as unknown[]) {
+      if (!isRecord(group)) {
+        warnings.push(`Skipped a '${event}' matcher group that is not an object`);
+        continue;
+      }
+      const { matcher, hooks: entries } = group as ClaudeHookMatcher;
+      if (entries !== undefined && !Array.isArray(entries)) {
+        warnings.push(`Hooks for '${event}' matcher '${matcher ?? ''}' must be an array; skipped`);
+        continue;
+      }
+      for (const item of (entries ?? []) as unknown[]) {
+        if (!isRecord(item)) {
+          warnings.push(`Skipped a '${event}' hook that is not an object`);
+          continue;
+        }
+        const entry = item as ClaudeHookEntry;
+        if (entry.type !== 'command' || typeof entry.command !== 'string' || !entry.command) {
+          warnings.push(`Skipped ${entry.type ?? 'untyped'} hook on '${event}': only command hooks are convertible`);
+          continue;
+        }
+        hooks.push({
+          event,
+          matcher: typeof matcher === 'string' && matcher ? matcher : undefined,
+          command: entry.command,
+          timeout: typeof entry.timeout === 'number' ? entry.timeout * 1000 : undefined,
+        });
+      }
+    }
+  }
+
+  if (hooks.length === 0) {
+    return { success: false, errors: ['No command hooks found'], warnings };
+  }
+
+  const events = [...new Set(hooks.map(h => h.event))];
+  const spec: ComponentSpec & ExtendedComponentFields = {
+    id: 'hooks',
+    version: DEFAULT_VERSION,
+    sourceAgent: { id: 'claude' as AgentId },
+    componentType: 'hook',
+    category: ['automation'],
+    intent: {
+      summary: `${hooks.length} hook${hooks.length === 1 ? '' : 's'} on ${events.join(', ')}`,
+      purpose: 'Run shell commands on Claude Code lifecycle events',
+    },
+    activation: {
+      mode: 'hooked',
+      safetyLevel: 'sensitive',
+      triggers: events.map(event => ({ type: 'hook' as const, hookName: event })),
+    },
+    invocation: {
+      userInvocable: false,
+    },
+    execution: {
+      context: 'main',
+    },
+    body: '',
+    capabilities: { ...createDefaultCapabilities(), needsShell: true },
+    metadata: {
+      sourceFile: context?.sourceFile,
+      originalFormat: 'claude-settings-hooks',
+    },
+    hooks,
+  };
+
+  return {
+    success: true,
+    spec,
+    errors: [],
+    warnings,
+  };
+}
+
+/**
+ * Claude Hooks Parser class
+ */
+export class ClaudeHooksParser {
+  readonly agentId: AgentId = 'claude';
+  readonly supportedTypes = ['hook'] as const;
+
+  canParse(content: string, context?: ClaudeHooksParseContext): boolean {
+    return isClaudeHooks(content, context);
+  }
+
+  parse(content: string, context?: ClaudeHooksParseContext): ParseResult {
+    return parseClaudeHooks(content, context);
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Hook parsers index
+ */
+
+export * from './claude-hooks-parser.js';
+export * from './windsurf-hooks-parser.js';
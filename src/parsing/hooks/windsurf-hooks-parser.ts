@@ -0,0 +1,156 @@
+/**
+ * Windsurf Hooks Parser - Parses Cascade hooks.json files
+ *
+ * Windsurf reads hooks from .windsurf/hooks.json (workspace) and
+ * ~/.codeium/windsurf/hooks.json (user). Each event lists commands:
+ *
+ *   { "hooks": { "pre_run_command": [
+ *       { "command": "...", "show_output": true, "working_directory": "scripts" }
+ *   ] } }
+ */
+
+import type { AgentId, ComponentSpec, ExtendedComponentFields, HookSpec, ParseResult } from '../../core/types.js';
+import { DEFAULT_VERSION } from '../../core/constants.js';
+import { createDefaultCapabilities } from '../../core/types.js';
+import { isWindsurfHookEvent } from '../../core/hook-mapping.js';
+
+export interface WindsurfHooksParseContext {
+  sourceFile?: string;
+}
+
+interface WindsurfHookEntry {
+  command?: string;
+  show_output?: boolean;
+  working_directory?: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readHooksObject(content: string): Record<string, unknown> | undefined {
+  if (!content.trimStart().startsWith('{')) return undefined;
+  try {
+    const data: unknown = JSON.parse(content);
+    return isRecord(data) && isRecord(data.hooks) ? data.hooks : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detect if content is a Windsurf hooks.json file
+ */
+export function isWindsurfHooks(content: string, context?: WindsurfHooksParseContext): boolean {
+  const hooks = readHooksObject(content);
+  if (!hooks) return false;
+
+  if (context?.sourceFile && /(\.windsurf|\.codeium\/windsurf)\/hooks\.json$/.test(context.sourceFile)) {
+    return true;
+  }
+  const events = Object.keys(hooks);
+  return events.length > 0 && events.every(isWindsurfHookEvent);
+}
+
+/**
+ * Parse Windsurf hooks.json into a hook ComponentSpec
+ */
+export function parseWindsurfHooks(
+  content: string,
+  context?: WindsurfHooksParseContext
+): ParseResult {
+  const warnings: string[] = [];
+  const events = readHooksObject(content);
+
+  if (!events) {
+    return { success: false, errors: ['Invalid hooks.json: expected a "hooks" object'], warnings: [] };
+  }
+
+  const hooks: HookSpec[] = [];
+  for (const [event, entries] of Object.entries(events)) {
+    if (!isWindsurfHookEvent(event)) {
+      warnings.push(`Unknown hook event '${event}' skipped`);
+      continue;
+    }
+    if (!Array.isArray(entries)) {
+      warnings.push(`Hooks for '${event}' must be an array; skipped`);
+      continue;
+    }
+
+    for (const item of entries as unknown[]) {
+      if (!isRecord(item)) {
+        warnings.push(`Skipped a '${event}' hook that is not an object`);
+        continue;
+      }
+      const entry = item as WindsurfHookEntry;
+      if (typeof entry.command !== 'string' || !entry.command) {
+        warnings.push(`Skipped '${event}' hook without a command`);
+        continue;
+      }
+      hooks.push({
+        event,
+        command: entry.command,
+        showOutput: entry.show_output,
+        workingDirectory: entry.working_directory,
+      });
+    }
+  }
+
+  if (hooks.length === 0) {
+    return { success: false, errors: ['No command hooks found'], warnings };
+  }
+
+  const hookEvents = [...new Set(hooks.map(h => h.event))];
+  const spec: ComponentSpec & ExtendedComponentFields = {
+    id: 'hooks',
+    version: DEFAULT_VERSION,
+    sourceAgent: { id: 'windsurf' as AgentId },
+    componentType: 'hook',
+    category: ['automation'],
+    intent: {
+      summary: `${hooks.length} hook${hooks.length === 1 ? '' : 's'} on ${hookEvents.join(', ')}`,
+      purpose: 'Run shell commands on Cascade actions',
+    },
+    activation: {
+      mode: 'hooked',
+      safetyLevel: 'sensitive',
+      triggers: hookEvents.map(event => ({ type: 'hook' as const, hookName: event })),
+    },
+    invocation: {
+      userInvocable: false,
+    },
+    execution: {
+      context: 'main',
+    },
+    body: '',
+    capabilities: { ...createDefaultCapabilities(), needsShell: true },
+    metadata: {
+      sourceFile: context?.sourceFile,
+      originalFormat: 'windsurf-hooks',
+    },
+    hooks,
+  };
+
+  return {
+    success: true,
+    spec,
+    errors: [],
+    warnings,
+  };
+}
+
+/**
+ * Windsurf Hooks Parser class
+ */
+export class WindsurfHooksParser {
+  readonly agentId: AgentId = 'windsurf';
+  readonly supportedTypes = ['hook'] as const;
+
+  canParse(content: string, context?: WindsurfHooksParseContext): boolean {
+    return isWindsurfHooks(content, context);
+  }
+
+  parse(content: string, context?: WindsurfHooksParseContext): ParseResult {
+    return parseWindsurfHooks(content, context);
+  }
+}
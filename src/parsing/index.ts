@@ -7,6 +7,18 @@ export * from './parser-factory.js';
 export * from './claude-parser.js';
 export * from './windsurf-parser.js';
 export * from './cursor-parser.js';
+export * from './opencode-parser.js';
+export * from './aider-parser.js';
+export * from './continue-parser.js';
 
 // Memory parsers
 export * from './memory/index.js';
+
+// Canonical source parser
+export * from './canonical/index.js';
+
+// Hook parsers
+export * from './hooks/index.js';
+
+// MCP config parsers
+export * from './mcp/index.js';
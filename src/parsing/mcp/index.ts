@@ -0,0 +1,5 @@
+/**
+ * MCP config parsers index
+ */
+
+export * from './mcp-config-parser.js';
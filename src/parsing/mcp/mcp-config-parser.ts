@@ -0,0 +1,167 @@
+/**
+ * MCP Config Parser - Parses MCP server definitions for every agent
+ *
+ * | Agent    | File                                   | Server table |
+ * |----------|----------------------------------------|--------------|
+ * | claude   | .mcp.json                              | mcpServers   |
+ * | cursor   | .cursor/mcp.json                       | mcpServers   |
+ * | windsurf | ~/.codeium/windsurf/mcp_config.json    | mcpServers   |
+ * | gemini   | .gemini/settings.json                  | mcpServers   |
+ * | codex    | .codex/config.toml                     | mcp_servers  |
+ * | opencode | opencode.json                          | mcp          |
+ *
+ * Field and env-reference mapping lives in core/mcp-config.ts.
+ */
+
+import type { AgentId, ComponentSpec, ExtendedComponentFields, ParseResult } from '../../core/types.js';
+import { DEFAULT_VERSION } from '../../core/constants.js';
+import { createDefaultCapabilities } from '../../core/types.js';
+import { MCP_SERVERS_KEY, parseMcpServers, type McpAgent } from '../../core/mcp-config.js';
+import { parseToml } from '../../core/toml.js';
+
+export interface McpConfigParseContext {
+  sourceFile?: string;
+}
+
+const MCP_FILE_PATTERNS: Record<McpAgent, RegExp> = {
+  claude: /(^|[/\\])\.mcp\.json$/,
+  cursor: /\.cursor[/\\]mcp\.json$/,
+  windsurf: /(\.codeium[/\\]windsurf|\.windsurf)[/\\]mcp_config\.json$/,
+  gemini: /\.gemini[/\\]settings\.json$/,
+  codex: /(^|[/\\])config\.toml$/,
+  opencode: /(^|[/\\])opencode\.jsonc?$/,
+};
+
+/**
+ * Read the file as JSON (or TOML for Codex); undefined if it is neither
+ */
+function readDocument(content: string, agent: McpAgent): Record<string, unknown> | undefined {
+  try {
+    if (agent === 'codex') {
+      return content.trimStart().startsWith('{') ? undefined : parseToml(content);
+    }
+    if (!content.trimStart().startsWith('{')) return undefined;
+    const data: unknown = JSON.parse(content);
+    return data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getServerTable(data: Record<string, unknown>, agent: McpAgent): Record<string, unknown> | undefined {
+  const table = data[MCP_SERVERS_KEY[agent]];
+  return table && typeof table === 'object' && !Array.isArray(table)
+    ? (table as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * Detect if content holds MCP server definitions in the agent's format.
+ * A Codex config.toml only counts when MCP servers are all it defines;
+ * otherwise it is parsed as a config component.
+ */
+export function isMcpConfig(content: string, agent: McpAgent, context?: McpConfigParseContext): boolean {
+  const file = context?.sourceFile;
+  if (file && !MCP_FILE_PATTERNS[agent].test(file)) {
+    const otherAgentFile = Object.values(MCP_FILE_PATTERNS).some(pattern => pattern.test(file));
+    if (otherAgentFile || agent === 'codex') return false;
+  }
+
+  const data = readDocument(content, agent);
+  if (!data || !getServerTable(data, agent)) return false;
+
+  return agent !== 'codex' || Object.keys(data).every(key => key === MCP_SERVERS_KEY.codex);
+}
+
+/**
+ * Parse an agent's MCP configuration into an mcp ComponentSpec
+ */
+export function parseMcpConfig(
+  content: string,
+  agent: McpAgent,
+  context?: McpConfigParseContext
+): ParseResult {
+  const data = readDocument(content, agent);
+  if (!data) {
+    return {
+      success: false,
+      errors: [`Invalid ${agent === 'codex' ? 'TOML' : 'JSON'}: expected an MCP configuration object`],
+      warnings: [],
+    };
+  }
+
+  const key = MCP_SERVERS_KEY[agent];
+  const table = getServerTable(data, agent);
+  if (!table) {
+    return { success: false, errors: [`No "${key}" object found`], warnings: [] };
+  }
+
+  const { servers, warnings } = parseMcpServers(agent, table);
+  const otherKeys = Object.keys(data).filter(k => k !== key && k !== '$schema');
+  if (otherKeys.length > 0) {
+    warnings.push(`Ignoring settings other than ${key}: ${otherKeys.join(', ')}`);
+  }
+  if (servers.length === 0) {
+    return { success: false, errors: ['No MCP servers found'], warnings };
+  }
+
+  const names = servers.map(s => s.name);
+  const spec: ComponentSpec & ExtendedComponentFields = {
+    id: 'mcp',
+    version: DEFAULT_VERSION,
+    sourceAgent: { id: agent as AgentId },
+    componentType: 'mcp',
+    category: ['integration'],
+    intent: {
+      summary: `MCP servers: ${names.join(', ')}`,
+      purpose: 'Connect the agent to external tools over the Model Context Protocol',
+    },
+    activation: {
+      mode: 'auto',
+      safetyLevel: 'sensitive',
+    },
+    invocation: {
+      userInvocable: false,
+    },
+    execution: {
+      context: 'main',
+    },
+    body: '',
+    capabilities: {
+      ...createDefaultCapabilities(),
+      needsNetwork: servers.some(s => s.transport !== 'stdio'),
+      needsMcp: names,
+    },
+    metadata: {
+      sourceFile: context?.sourceFile,
+      originalFormat: `${agent}-mcp`,
+    },
+    mcpServers: servers,
+  };
+
+  return {
+    success: true,
+    spec,
+    errors: [],
+    warnings,
+  };
+}
+
+/**
+ * MCP Config Parser class
+ */
+export class McpConfigParser {
+  readonly supportedTypes = ['mcp'] as const;
+
+  constructor(readonly agentId: McpAgent) {}
+
+  canParse(content: string, context?: McpConfigParseContext): boolean {
+    return isMcpConfig(content, this.agentId, context);
+  }
+
+  parse(content: string, context?: McpConfigParseContext): ParseResult {
+    return parseMcpConfig(content, this.agentId, context);
+  }
+}
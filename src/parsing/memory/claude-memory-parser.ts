@@ -11,10 +11,13 @@ import matter from 'gray-matter';
 import type { AgentId, ComponentSpec, ParseResult, ImportSpec, MemorySection, ScopeLevel } from '../../core/types.js';
 import { DEFAULT_VERSION } from '../../core/constants.js';
 import { createDefaultCapabilities } from '../../core/types.js';
+import { extractImports } from '../../core/memory-imports.js';
+import { resolveImports } from './import-resolver.js';
 
 export interface ClaudeMemoryParseContext {
   sourceFile?: string;
   sourcePath?: string;
+  /** Load @imports relative to sourceFile (default: true when sourceFile is set) */
   resolveImports?: boolean;
 }
 
@@ -39,28 +42,6 @@ export function isClaudeMemory(content: string, context?: ClaudeMemoryParseConte
   return hasClaudeHeader || (hasClaudeImports && !content.includes('AGENTS.md'));
 }
 
-/**
- * Extract @imports from content
- */
-function extractImports(content: string): ImportSpec[] {
-  const imports: ImportSpec[] = [];
-  const importRegex = /@([a-zA-Z0-9_\-./~]+)(?![`\w])/g;
-  
-  let match;
-  while ((match = importRegex.exec(content)) !== null) {
-    const path = match[1];
-    if (path && !path.startsWith('ts-') && !path.startsWith('types/')) {
-      imports.push({
-        path: path,
-        type: path.startsWith('http') ? 'url' : 'file',
-        optional: false,
-      });
-    }
-  }
-  
-  return imports;
-}
-
 /**
  * Parse markdown content into sections
  */
@@ -175,7 +156,13 @@ export function parseClaudeMemory(
     }
   }
   
-  const imports = extractImports(body);
+  let imports = extractImports(body);
+  const importingFile = context?.resolveImports !== false ? context?.sourceFile : undefined;
+  if (importingFile && imports.length > 0) {
+    const resolved = resolveImports(imports, importingFile);
+    imports = resolved.imports;
+    warnings.push(...resolved.warnings);
+  }
   const sections = parseMarkdownSections(body);
   const scope = determineScope(context?.sourceFile);
   const capabilities = inferCapabilities(body);
@@ -253,7 +240,7 @@ export function parseClaudeMemory(
     };
   }
   
-  if (imports.length > 0) {
+  if (!importingFile && imports.length > 0) {
     warnings.push(`Found ${imports.length} @imports that may need resolution`);
   }
   
@@ -0,0 +1,88 @@
+/**
+ * Import resolver - Loads the `@path` imports of a memory file from disk
+ *
+ * Paths resolve relative to the importing file (`~/` to the home directory),
+ * and imported files may import others up to MAX_IMPORT_DEPTH hops from the
+ * memory file, as in Claude Code. Each loaded import carries its content
+ * with its own imports inlined; imports that cannot be loaded carry an error.
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, relative, resolve } from 'node:path';
+import type { ImportSpec } from '../../core/types.js';
+import { MAX_IMPORT_DEPTH, extractImports, inlineImports } from '../../core/memory-imports.js';
+
+export interface ResolvedImports {
+  imports: ImportSpec[];
+  /** One message per import, nested or not, that could not be loaded */
+  warnings: string[];
+}
+
+function resolveImportPath(path: string, fromFile: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(dirname(fromFile), path);
+}
+
+function readImport(path: string): string | undefined {
+  try {
+    return statSync(path).isFile() ? readFileSync(path, 'utf-8') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @param chain Files from the memory file down to the one importing imp
+ */
+function loadImport(imp: ImportSpec, chain: string[], warnings: string[]): ImportSpec {
+  if (imp.type !== 'file') return imp;
+
+  const importer = chain[chain.length - 1]!;
+  const root = dirname(chain[0]!);
+  const resolved = resolveImportPath(imp.path, importer);
+  const failed = (error: string): ImportSpec => {
+    const from = chain.length > 1 ? ` (imported from ${relative(root, importer)})` : '';
+    warnings.push(`@${imp.path}${from}: ${error}`);
+    return { ...imp, resolved, error };
+  };
+
+  if (chain.includes(resolved)) {
+    const cycle = [...chain.slice(chain.indexOf(resolved)), resolved].map((file) => relative(root, file));
+    return failed(`import cycle ${cycle.join(' → ')}`);
+  }
+  if (chain.length > MAX_IMPORT_DEPTH) {
+    return failed(`more than ${MAX_IMPORT_DEPTH} hops from the memory file`);
+  }
+
+  const content = readImport(resolved);
+  if (content === undefined) {
+    return failed('file not found');
+  }
+
+  const nested = extractImports(content).map((child) => loadImport(child, [...chain, resolved], warnings));
+  const nestedErrors = nested.flatMap((child) => [
+    ...(child.error ? [`@${child.path} (${child.error})`] : []),
+    ...(child.nestedErrors ?? []),
+  ]);
+  return {
+    ...imp,
+    resolved,
+    content: inlineImports(content, nested),
+    ...(nestedErrors.length > 0 ? { nestedErrors } : {}),
+  };
+}
+
+/**
+ * Load the imports of the memory file at sourceFile
+ */
+export function resolveImports(imports: ImportSpec[], sourceFile: string): ResolvedImports {
+  const warnings: string[] = [];
+  const chain = [resolve(sourceFile)];
+  return {
+    imports: imports.map((imp) => loadImport(imp, chain, warnings)),
+    warnings,
+  };
+}
@@ -4,3 +4,4 @@
 
 export * from './universal-memory-parser.js';
 export * from './claude-memory-parser.js';
+export * from './import-resolver.js';
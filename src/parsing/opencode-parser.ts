@@ -0,0 +1,409 @@
+/**
+ * Parser for OpenCode skills, commands and agents
+ *
+ * OpenCode components are markdown files with YAML frontmatter:
+ * - Skills:   .opencode/skills/<name>/SKILL.md (or .opencode/skills/<name>.md)
+ * - Commands: .opencode/commands/<name>.md (also .opencode/command/)
+ * - Agents:   .opencode/agents/<name>.md (also .opencode/agent/)
+ *
+ * Frontmatter fields: name, description, agent, model, subtask,
+ * mode, temperature, tools, permission, hidden
+ */
+
+import matter from "gray-matter";
+import type {
+  ComponentSpec,
+  ComponentType,
+  CapabilitySet,
+  ExtendedComponentFields,
+  SemanticVersion,
+  SubAgentSpec,
+} from "../core/types.js";
+import { createDefaultCapabilities, parseVersion } from "../core/types.js";
+import { BaseParser, type ParserOptions } from "./parser-interface.js";
+import { isMcpConfig, parseMcpConfig } from "./mcp/mcp-config-parser.js";
+import { parseTools } from "../core/tool-vocabulary.js";
+
+interface OpenCodeFrontmatter {
+  name?: string;
+  description?: string;
+  version?: string;
+  // Skill / command fields
+  agent?: string;
+  model?: string;
+  subtask?: boolean;
+  arguments?: string[];
+  // Agent fields
+  mode?: "primary" | "subagent" | "all";
+  temperature?: number;
+  maxSteps?: number;
+  /** Either a list of enabled tools or a map of tool name -> enabled */
+  tools?: string[] | Record<string, boolean>;
+  permission?: string | Record<string, unknown>;
+  hidden?: boolean;
+}
+
+export class OpenCodeParser extends BaseParser {
+  readonly agentId = "opencode" as const;
+
+  canParse(content: string, filename?: string): boolean {
+    if (isMcpConfig(content, "opencode", { sourceFile: filename })) {
+      return true;
+    }
+
+    if (filename?.includes(".opencode/")) {
+      return true;
+    }
+
+    // Check for OpenCode-specific frontmatter fields
+    try {
+      const { data } = matter(content);
+      const fm = data as OpenCodeFrontmatter;
+      return (
+        fm.subtask !== undefined ||
+        fm.mode === "primary" ||
+        fm.mode === "subagent"
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  parse(
+    content: string,
+    options?: ParserOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const warnings: string[] = [];
+
+    if (isMcpConfig(content, "opencode", options)) {
+      return parseMcpConfig(content, "opencode", options);
+    }
+
+    if (!content || content.trim().length === 0) {
+      return this.createErrorResult([
+        "Content is empty. Please provide valid component content.",
+      ]);
+    }
+
+    let parsed: matter.GrayMatterFile<string>;
+    try {
+      parsed = matter(content);
+    } catch (err) {
+      return this.createErrorResult([
+        `Failed to parse frontmatter: ${err instanceof Error ? err.message : String(err)}`,
+      ]);
+    }
+
+    const fm = parsed.data as OpenCodeFrontmatter;
+    const body = parsed.content.trim();
+
+    const componentType = this.detectComponentType(fm, options?.sourceFile);
+
+    const id =
+      fm.name ??
+      this.extractIdFromFilename(options?.sourceFile) ??
+      `unknown-${componentType}`;
+
+    const version: SemanticVersion = fm.version
+      ? parseVersion(fm.version)
+      : { major: 1, minor: 0, patch: 0 };
+
+    const { enabled, disabled } = this.normalizeTools(fm.tools);
+
+    const capabilities =
+      options?.inferCapabilities !== false
+        ? this.inferCapabilities(body, enabled, disabled)
+        : createDefaultCapabilities();
+
+    const spec: ComponentSpec = {
+      id,
+      version,
+      sourceAgent: {
+        id: "opencode",
+        detectedAt: new Date().toISOString(),
+      },
+      componentType,
+      category: this.inferCategory(fm.description, body),
+      intent: {
+        summary: fm.description ?? `OpenCode ${componentType}: ${id}`,
+        purpose: fm.description ?? "No description provided",
+        whenToUse: fm.description,
+      },
+      activation: {
+        // Commands are always typed by the user; skills and subagents can be
+        // picked up by the model on its own
+        mode: componentType === "command" ? "manual" : "suggested",
+        safetyLevel: this.inferSafetyLevel(body, capabilities),
+      },
+      invocation: {
+        slashCommand: componentType === "command" ? id : undefined,
+        argumentHint: fm.arguments?.map((arg) => `<${arg}>`).join(" "),
+        userInvocable: componentType !== "agent" || fm.mode !== "subagent",
+      },
+      execution: {
+        context: fm.subtask === true ? "fork" : "main",
+        allowedTools: enabled,
+        tools: enabled && parseTools(enabled, "opencode"),
+        restrictedTools: disabled,
+        preferredModel: fm.model,
+        subAgent: componentType === "agent" ? undefined : fm.agent,
+      },
+      body,
+      capabilities,
+      metadata: {
+        sourceFile: options?.sourceFile,
+        originalFormat: `opencode-${componentType}`,
+        updatedAt: new Date().toISOString(),
+      },
+    };
+
+    // Populate OpenCode-specific metadata
+    if (fm.model) {
+      spec.metadata.model = fm.model;
+    }
+    if (fm.mode) {
+      spec.metadata.mode = fm.mode;
+    }
+    if (fm.subtask !== undefined) {
+      spec.metadata.subtask = fm.subtask;
+    }
+    if (fm.temperature !== undefined) {
+      spec.metadata.temperature = fm.temperature;
+    }
+    if (enabled) {
+      spec.metadata.tools = enabled;
+    }
+
+    if (componentType === "agent") {
+      (spec as ComponentSpec & ExtendedComponentFields).subAgentSpec = this.buildSubAgentSpec(fm);
+    }
+
+    if (fm.arguments && fm.arguments.length > 0) {
+      spec.arguments = fm.arguments.map((name) => ({
+        name,
+        type: "string" as const,
+        required: true,
+      }));
+    }
+
+    // Add warnings for features that may not convert well
+    if (fm.mode === "primary") {
+      warnings.push(
+        'OpenCode "primary" agents have no direct equivalent in other agents',
+      );
+    }
+    if (fm.permission !== undefined && componentType !== "agent") {
+      warnings.push(
+        "OpenCode permission settings are not preserved during conversion",
+      );
+    }
+
+    let validation;
+    if (options?.validateOnParse) {
+      validation = this.validateContent(content, componentType, {
+        strict: options?.strictValidation,
+      });
+
+      for (const warning of validation.warnings) {
+        warnings.push(`[Validation] ${warning.message}`);
+      }
+    }
+
+    return this.createSuccessResult(spec, warnings, validation);
+  }
+
+  private detectComponentType(
+    fm: OpenCodeFrontmatter,
+    filename?: string,
+  ): ComponentType {
+    if (filename) {
+      if (/\.opencode\/skills?\//.test(filename) || filename.endsWith("SKILL.md")) {
+        return "skill";
+      }
+      if (/\.opencode\/commands?\//.test(filename)) return "command";
+      if (/\.opencode\/agents?\//.test(filename)) return "agent";
+    }
+
+    // Agent-only frontmatter
+    if (
+      fm.mode !== undefined ||
+      fm.temperature !== undefined ||
+      fm.maxSteps !== undefined
+    ) {
+      return "agent";
+    }
+
+    return "skill";
+  }
+
+  /**
+   * Agent settings other agents may lack; a bare permission string
+   * (`permission: ask`) applies to every tool
+   */
+  private buildSubAgentSpec(fm: OpenCodeFrontmatter): SubAgentSpec {
+    const subAgentSpec: SubAgentSpec = { mode: fm.mode ?? "all" };
+    if (fm.temperature !== undefined) {
+      subAgentSpec.temperature = fm.temperature;
+    }
+    if (fm.maxSteps !== undefined) {
+      subAgentSpec.maxTurns = fm.maxSteps;
+    }
+    if (fm.permission !== undefined) {
+      subAgentSpec.permissions =
+        typeof fm.permission === "string" ? { "*": fm.permission } : fm.permission;
+    }
+    if (fm.hidden !== undefined) {
+      subAgentSpec.hidden = fm.hidden;
+    }
+    return subAgentSpec;
+  }
+
+  private extractIdFromFilename(filename?: string): string | undefined {
+    if (!filename) return undefined;
+
+    // Extract from .opencode/skills/<name>/SKILL.md
+    const skillMatch = filename.match(/\.opencode\/skills?\/([^/]+)\/SKILL\.md$/);
+    if (skillMatch?.[1]) return skillMatch[1];
+
+    // Extract from .opencode/{skills,commands,agents}/<name>.md
+    const fileMatch = filename.match(
+      /\.opencode\/(?:skills?|commands?|agents?)\/(.+)\.md$/,
+    );
+    if (fileMatch?.[1]) return fileMatch[1];
+
+    return undefined;
+  }
+
+  /**
+   * OpenCode accepts tools either as a list of enabled tools or as a map
+   * of tool name to boolean. Normalize both into enabled/disabled lists.
+   */
+  private normalizeTools(tools?: OpenCodeFrontmatter["tools"]): {
+    enabled?: string[];
+    disabled?: string[];
+  } {
+    if (!tools) return {};
+
+    if (Array.isArray(tools)) {
+      return { enabled: tools };
+    }
+
+    const entries = Object.entries(tools);
+    const enabled = entries.filter(([, on]) => on).map(([name]) => name);
+    const disabled = entries.filter(([, on]) => !on).map(([name]) => name);
+
+    return {
+      enabled: enabled.length > 0 ? enabled : undefined,
+      disabled: disabled.length > 0 ? disabled : undefined,
+    };
+  }
+
+  private inferCapabilities(
+    body: string,
+    enabledTools?: string[],
+    disabledTools?: string[],
+  ): CapabilitySet {
+    const caps = createDefaultCapabilities();
+    const lowerBody = body.toLowerCase();
+
+    caps.needsShell =
+      lowerBody.includes("terminal") ||
+      lowerBody.includes("shell") ||
+      body.includes("!`");
+    caps.needsGit =
+      lowerBody.includes("git") ||
+      lowerBody.includes("commit") ||
+      lowerBody.includes("branch");
+    caps.needsNetwork =
+      lowerBody.includes("http") ||
+      lowerBody.includes("api") ||
+      lowerBody.includes("fetch");
+    caps.needsBrowser =
+      lowerBody.includes("browser") || lowerBody.includes("screenshot");
+    caps.needsCodeSearch =
+      lowerBody.includes("search") ||
+      lowerBody.includes("find") ||
+      lowerBody.includes("grep");
+
+    if (enabledTools) {
+      for (const tool of enabledTools) {
+        const lower = tool.toLowerCase();
+        if (lower === "bash") caps.needsShell = true;
+        if (lower === "webfetch") caps.needsNetwork = true;
+        if (lower === "grep" || lower === "glob") caps.needsCodeSearch = true;
+      }
+    }
+
+    // Explicitly disabled tools win over body inference
+    if (disabledTools) {
+      for (const tool of disabledTools) {
+        const lower = tool.toLowerCase();
+        if (lower === "bash") caps.needsShell = false;
+        if (lower === "webfetch") caps.needsNetwork = false;
+      }
+    }
+
+    caps.providesAnalysis =
+      lowerBody.includes("analyz") ||
+      lowerBody.includes("review") ||
+      lowerBody.includes("audit");
+    caps.providesCodeGeneration =
+      lowerBody.includes("implement") ||
+      lowerBody.includes("create") ||
+      lowerBody.includes("generate");
+    caps.providesRefactoring =
+      lowerBody.includes("refactor") || lowerBody.includes("restructure");
+    caps.providesDocumentation =
+      lowerBody.includes("document") ||
+      lowerBody.includes("readme") ||
+      lowerBody.includes("spec");
+
+    return caps;
+  }
+
+  private inferCategory(description?: string, body?: string): string[] {
+    const categories: string[] = [];
+    const text = `${description ?? ""} ${body ?? ""}`.toLowerCase();
+
+    if (text.includes("architect")) categories.push("architecture");
+    if (text.includes("design")) categories.push("design");
+    if (text.includes("test")) categories.push("testing");
+    if (text.includes("debug")) categories.push("debugging");
+    if (text.includes("refactor")) categories.push("refactoring");
+    if (text.includes("document")) categories.push("documentation");
+    if (text.includes("security")) categories.push("security");
+    if (text.includes("performance") || text.includes("optimi"))
+      categories.push("performance");
+
+    return categories.length > 0 ? categories : ["general"];
+  }
+
+  private inferSafetyLevel(
+    body: string,
+    capabilities: CapabilitySet,
+  ): "safe" | "sensitive" | "dangerous" {
+    const lowerBody = body.toLowerCase();
+
+    if (
+      lowerBody.includes("delete") ||
+      lowerBody.includes("remove") ||
+      lowerBody.includes("destroy") ||
+      capabilities.needsShell
+    ) {
+      return "dangerous";
+    }
+
+    if (
+      capabilities.needsNetwork ||
+      capabilities.needsGit ||
+      lowerBody.includes("modify") ||
+      lowerBody.includes("update")
+    ) {
+      return "sensitive";
+    }
+
+    return "safe";
+  }
+}
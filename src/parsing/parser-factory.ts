@@ -2,14 +2,19 @@
  * Parser factory for creating agent-specific parsers
  */
 
-import type { AgentId, ParseResult } from "../core/types.js";
-import type { AgentParser, ParserOptions } from "./parser-interface.js";
+import type { AgentId, ComponentSpec, ExtendedComponentFields } from "../core/types.js";
+import { AGENT_FILE_PATTERNS, PLUGIN_AGENTS } from "../core/constants.js";
+import type { AgentParser, ParserOptions, ParseResultWithValidation } from "./parser-interface.js";
 import { ClaudeParser } from "./claude-parser.js";
 import { WindsurfParser } from "./windsurf-parser.js";
 import { CursorParser } from "./cursor-parser.js";
 import { UniversalParser } from "./universal-parser.js";
 import { CodexParser } from "./codex-parser.js";
 import { GeminiParser } from "./gemini-parser.js";
+import { OpenCodeParser } from "./opencode-parser.js";
+import { AiderParser } from "./aider-parser.js";
+import { ContinueParser } from "./continue-parser.js";
+import { scanSkillBundle } from "./skill-bundle.js";
 
 const parsers: Map<AgentId, AgentParser> = new Map();
 
@@ -20,6 +25,9 @@ parsers.set("cursor", new CursorParser());
 parsers.set("universal", new UniversalParser());
 parsers.set("codex", new CodexParser());
 parsers.set("gemini", new GeminiParser());
+parsers.set("opencode", new OpenCodeParser());
+parsers.set("aider", new AiderParser());
+parsers.set("continue", new ContinueParser());
 
 export function getParser(agentId: AgentId): AgentParser | undefined {
   return parsers.get(agentId);
@@ -33,20 +41,42 @@ export function getSupportedParsers(): AgentId[] {
   return Array.from(parsers.keys());
 }
 
+/**
+ * Agent added by a plugin whose file patterns match the filename
+ */
+export function detectPluginAgent(filename: string): AgentId | undefined {
+  return PLUGIN_AGENTS.find((agentId) =>
+    AGENT_FILE_PATTERNS[agentId]?.some((pattern) => pattern.test(filename)),
+  );
+}
+
 export function detectAgent(
   content: string,
   filename?: string,
 ): AgentId | undefined {
   // First try to detect from filename patterns (most specific first)
   if (filename) {
+    const pluginAgent = detectPluginAgent(filename);
+    if (pluginAgent) return pluginAgent;
+    if (/\.cace\.(ya?ml|md)$/.test(filename)) return "universal";
     if (filename.includes(".claude/")) return "claude";
     if (filename.includes(".windsurf/")) return "windsurf";
+    if (filename.includes(".codeium/windsurf/")) return "windsurf";
     if (filename.includes(".cursor/")) return "cursor";
     if (filename.includes(".opencode/")) return "opencode";
     if (filename.includes(".codex/")) return "codex";
+    if (filename.includes(".gemini/")) return "gemini";
+    if (filename.includes(".continue/")) return "continue";
+    if (filename.includes(".aider/")) return "aider";
+    if (/\.aider\.conf\.ya?ml$/.test(filename)) return "aider";
+    if (filename.endsWith(".mcp.json")) return "claude";
+    if (/opencode\.jsonc?$/.test(filename)) return "opencode";
     if (filename.endsWith("AGENTS.md")) return "universal";
+    if (/CLAUDE(\.local)?\.md$/.test(filename)) return "claude";
     if (filename.endsWith("GEMINI.md")) return "gemini";
     if (filename.endsWith("CODEX.md")) return "codex";
+    if (filename.endsWith("CONVENTIONS.md")) return "aider";
+    if (filename.endsWith(".prompt")) return "continue";
   }
 
   // Try parsers in priority order (specific formats before generic)
@@ -73,7 +103,7 @@ export function detectAgent(
 export function parseComponent(
   content: string,
   options?: ParserOptions & { agentId?: AgentId },
-): ParseResult {
+): ParseResultWithValidation {
   const agentId = options?.agentId ?? detectAgent(content, options?.sourceFile);
 
   if (!agentId) {
@@ -93,5 +123,13 @@ export function parseComponent(
     };
   }
 
-  return parser.parse(content, options);
+  const result = parser.parse(content, options);
+
+  // A skill is its whole directory; record the files that travel with SKILL.md
+  if (result.spec?.componentType === "skill" && options?.sourceFile) {
+    const scan = scanSkillBundle(options.sourceFile);
+    if (scan.bundle) (result.spec as ComponentSpec & ExtendedComponentFields).bundle = scan.bundle;
+    result.warnings.push(...scan.warnings);
+  }
+  return result;
 }
@@ -0,0 +1,135 @@
+/**
+ * Skill bundle scanner - Lists the supporting files of a skill directory
+ *
+ * A skill is a directory: SKILL.md plus scripts/, references/ and assets/
+ * (templates, images, data) that the body refers to by relative path. The
+ * manifest lets renderers copy the files into the target's skill directory,
+ * or link or inline them for agents without one.
+ *
+ * Only a SKILL.md under an agent's skills/ folder owns its whole directory;
+ * elsewhere (e.g. at a repository root) just the known subfolders are part
+ * of the bundle. Symlinks and unreadable entries are skipped with a warning.
+ */
+
+import { lstatSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, dirname, extname, join, relative, resolve } from 'node:path';
+import type { SkillAsset, SkillAssetKind, SkillBundle } from '../core/types.js';
+
+/** Reference files up to this size are kept in the manifest for inlining */
+const MAX_INLINE_BYTES = 32 * 1024;
+const MAX_DEPTH = 5;
+
+const KIND_BY_DIR: Record<string, SkillAssetKind> = {
+  scripts: 'script',
+  references: 'reference',
+  docs: 'reference',
+  assets: 'asset',
+  templates: 'asset',
+};
+
+const SCRIPT_EXTENSIONS = new Set(['.sh', '.bash', '.py', '.js', '.mjs', '.ts', '.rb', '.ps1']);
+const TEXT_EXTENSIONS = new Set(['.md', '.mdx', '.txt']);
+
+/** <...>/skills/<id>/SKILL.md (also skill/) */
+const SKILLS_FOLDER_FILE = /(?:^|[/\\])skills?[/\\][^/\\]+[/\\]SKILL\.md$/;
+
+export interface SkillBundleScan {
+  bundle?: SkillBundle;
+  /** Entries that were skipped: symlinks and files that could not be read */
+  warnings: string[];
+}
+
+interface ListedFile {
+  path: string;
+  size: number;
+}
+
+function assetKind(path: string): SkillAssetKind {
+  const top = path.includes('/') ? path.slice(0, path.indexOf('/')) : '';
+  const byDir = KIND_BY_DIR[top];
+  if (byDir) return byDir;
+  const ext = extname(path).toLowerCase();
+  if (SCRIPT_EXTENSIONS.has(ext)) return 'script';
+  return TEXT_EXTENSIONS.has(ext) ? 'reference' : 'asset';
+}
+
+/**
+ * Regular files under root; with `only`, just those in the named top-level
+ * folders
+ */
+function listFiles(root: string, warnings: string[], only?: string[]): ListedFile[] {
+  const files: ListedFile[] = [];
+  const walk = (dir: string, depth: number): void => {
+    if (depth > MAX_DEPTH) return;
+    let entries: string[];
+    try {
+      entries = readdirSync(dir).sort();
+    } catch {
+      warnings.push(`Skill asset directory ${relative(root, dir) || '.'} could not be read; skipped`);
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.startsWith('.') || entry === 'node_modules') continue;
+      if (depth === 0 && only && !only.includes(entry)) continue;
+      const path = join(dir, entry);
+      const shown = relative(root, path).replace(/\\/g, '/');
+      try {
+        const stat = lstatSync(path);
+        if (stat.isSymbolicLink()) {
+          warnings.push(`Skill asset ${shown} is a symlink; skipped`);
+        } else if (stat.isDirectory()) {
+          walk(path, depth + 1);
+        } else if (stat.isFile()) {
+          files.push({ path, size: stat.size });
+        }
+      } catch {
+        warnings.push(`Skill asset ${shown} could not be read; skipped`);
+      }
+    }
+  };
+  walk(root, 0);
+  return files;
+}
+
+/**
+ * The skill directory relative to the project root: the part of the path
+ * from the agent directory on (.claude/skills/<id>), else the path as given
+ */
+function bundleDir(sourceFile: string): string {
+  const dir = dirname(sourceFile.replace(/\\/g, '/'));
+  const match = dir.match(/(?:^|\/)(\.[^/]+\/skills?\/[^/]+)$/);
+  return match?.[1] ?? dir;
+}
+
+/**
+ * Manifest of the files next to a SKILL.md; no bundle when sourceFile is
+ * not a SKILL.md or its directory holds nothing else
+ */
+export function scanSkillBundle(sourceFile: string): SkillBundleScan {
+  const warnings: string[] = [];
+  if (basename(sourceFile) !== 'SKILL.md') return { warnings };
+
+  const root = dirname(resolve(sourceFile));
+  const only = SKILLS_FOLDER_FILE.test(sourceFile) ? undefined : Object.keys(KIND_BY_DIR);
+  const assets: SkillAsset[] = [];
+  for (const file of listFiles(root, warnings, only)) {
+    const path = relative(root, file.path).replace(/\\/g, '/');
+    if (path === 'SKILL.md') continue;
+
+    const kind = assetKind(path);
+    const asset: SkillAsset = { path, kind };
+    if (kind === 'reference' && TEXT_EXTENSIONS.has(extname(path).toLowerCase()) && file.size <= MAX_INLINE_BYTES) {
+      try {
+        asset.content = readFileSync(file.path, 'utf-8');
+      } catch {
+        warnings.push(`Skill asset ${path} could not be read; it will be linked, not inlined`);
+      }
+    }
+    assets.push(asset);
+  }
+
+  return {
+    bundle: assets.length > 0 ? { dir: bundleDir(sourceFile), root, assets } : undefined,
+    warnings,
+  };
+}
@@ -3,6 +3,9 @@
  *
  * Wraps the memory parser to implement the standard AgentParser interface.
  * AGENTS.md is a cross-agent standard for providing context to AI coding assistants.
+ *
+ * Also parses hand-authored canonical sources (*.cace.yaml / *.cace.md),
+ * which are agent-neutral like AGENTS.md.
  */
 
 import type { ParseResult } from "../core/types.js";
@@ -11,15 +14,19 @@ import {
   isAgentsMd,
   parseUniversalMemory,
 } from "./memory/universal-memory-parser.js";
+import { isCanonicalSource, parseCanonicalSpec } from "./canonical/canonical-parser.js";
 
 export class UniversalParser extends BaseParser {
   readonly agentId = "universal" as const;
 
   canParse(content: string, filename?: string): boolean {
-    return isAgentsMd(content, { sourceFile: filename });
+    return isCanonicalSource(filename) || isAgentsMd(content, { sourceFile: filename });
   }
 
   parse(content: string, options?: ParserOptions): ParseResult {
+    if (isCanonicalSource(options?.sourceFile)) {
+      return parseCanonicalSpec(content, { sourceFile: options?.sourceFile });
+    }
     return parseUniversalMemory(content, {
       sourceFile: options?.sourceFile,
     });
@@ -1,19 +1,32 @@
 /**
- * Parser for Windsurf (Cascade) workflows
+ * Parser for Windsurf (Cascade) workflows + rules
  *
  * Windsurf workflows use YAML frontmatter with:
  * - description: short summary
  * - auto_execution_mode: numeric activation setting (optional)
+ *
+ * Windsurf rules add:
+ * - trigger: always_on | glob | model_decision | manual
+ * - globs: patterns for glob-triggered rules
  */
 
 import matter from "gray-matter";
 import type {
   ComponentSpec,
   CapabilitySet,
+  ExtendedComponentFields,
+  RuleKind,
   SemanticVersion,
 } from "../core/types.js";
 import { createDefaultCapabilities, parseVersion } from "../core/types.js";
+import {
+  activationForRuleKind,
+  createRuleActivation,
+  parseGlobList,
+} from "../core/rule-activation.js";
 import { BaseParser, type ParserOptions } from "./parser-interface.js";
+import { isMcpConfig, parseMcpConfig } from "./mcp/mcp-config-parser.js";
+import { isWindsurfHooks, parseWindsurfHooks } from "./hooks/windsurf-hooks-parser.js";
 import type { VersionDetectionResult } from "../versioning/types.js";
 import { detectWindsurfVersion } from "../versioning/version-detector.js";
 
@@ -22,12 +35,26 @@ interface WindsurfFrontmatter {
   auto_execution_mode?: number;
   version?: string;
   tags?: string[];
+  // Rule-specific
+  trigger?: "always_on" | "glob" | "model_decision" | "manual";
+  globs?: string | string[];
 }
 
+const TRIGGER_TO_RULE_KIND: Record<NonNullable<WindsurfFrontmatter["trigger"]>, RuleKind> = {
+  always_on: "always",
+  glob: "auto-attached",
+  model_decision: "agent-requested",
+  manual: "manual",
+};
+
 export class WindsurfParser extends BaseParser {
   readonly agentId = "windsurf" as const;
 
   canParse(content: string, filename?: string): boolean {
+    if (isMcpConfig(content, "windsurf", { sourceFile: filename })) {
+      return true;
+    }
+
     if (filename) {
       if (
         filename.includes(".windsurf/workflows/") ||
@@ -37,6 +64,10 @@ export class WindsurfParser extends BaseParser {
       }
     }
 
+    if (isWindsurfHooks(content, { sourceFile: filename })) {
+      return true;
+    }
+
     // Check for Windsurf-specific patterns
     try {
       const { data } = matter(content);
@@ -68,6 +99,14 @@ export class WindsurfParser extends BaseParser {
     | ReturnType<typeof this.createErrorResult> {
     const warnings: string[] = [];
 
+    if (isMcpConfig(content, "windsurf", options)) {
+      return parseMcpConfig(content, "windsurf", options);
+    }
+
+    if (isWindsurfHooks(content, options)) {
+      return parseWindsurfHooks(content, options);
+    }
+
     let parsed: matter.GrayMatterFile<string>;
     try {
       parsed = matter(content);
@@ -142,6 +181,26 @@ export class WindsurfParser extends BaseParser {
       },
     };
 
+    if (componentType === "rule") {
+      const globs = parseGlobList(fm.globs);
+      const kind: RuleKind = fm.trigger
+        ? TRIGGER_TO_RULE_KIND[fm.trigger] ?? "always"
+        : globs.length > 0
+          ? "auto-attached"
+          : "always";
+
+      spec.activation = {
+        ...activationForRuleKind(kind, globs),
+        safetyLevel: spec.activation.safetyLevel,
+      };
+      spec.invocation = { userInvocable: kind === "manual" };
+      if (kind === "auto-attached") {
+        spec.intent.whenToUse = `When working with files matching: ${globs.join(", ")}`;
+      }
+      (spec as ComponentSpec & ExtendedComponentFields).ruleActivation =
+        createRuleActivation(kind, { globs, description: fm.description });
+    }
+
     // Add warnings for Windsurf-specific features
     if (fm.auto_execution_mode !== undefined && fm.auto_execution_mode > 0) {
       warnings.push(
@@ -159,8 +218,8 @@ export class WindsurfParser extends BaseParser {
     const workflowMatch = filename.match(/\.windsurf\/workflows\/([^/]+)\.md$/);
     if (workflowMatch?.[1]) return workflowMatch[1];
 
-    // Extract from .windsurf/rules/<name>.md
-    const ruleMatch = filename.match(/\.windsurf\/rules\/([^/]+)\.md$/);
+    // Extract from .windsurf/rules/[<subdir>/]<name>.md
+    const ruleMatch = filename.match(/\.windsurf\/rules\/(?:.+\/)?([^/]+)\.md$/);
     if (ruleMatch?.[1]) return ruleMatch[1];
 
     return undefined;
@@ -0,0 +1,5 @@
+/**
+ * Plugin module exports
+ */
+
+export * from './plugin-api.js';
@@ -0,0 +1,237 @@
+/**
+ * Plugin API - Support agent formats that CACE does not ship with
+ *
+ * A plugin is an npm package or local module whose default export is a
+ * `CacePlugin`. Listed under `plugins` in .cacerc, it is loaded before any
+ * command runs and can contribute:
+ * - agents: new AgentIds with their metadata, file patterns and component types
+ * - parsers / renderers: registered with registerParser / registerRenderer
+ * - validators / optimizers: registered with the validator registry and OptimizerFactory
+ * - version catalogs: versions, features and breaking changes per agent
+ * - tool vocabularies: the agent's names for read, edit, shell, ... tools
+ * - capability mappings: field mappings between agents, as in addMapping
+ *
+ * TypeScript plugins declare their agent ids by augmenting PluginAgentIds:
+ *
+ *   declare module '@AIntelligentTech/cace-cli' {
+ *     interface PluginAgentIds { acme: true }
+ *   }
+ *
+ * Installed packages named cace-plugin-* or @scope/cace-plugin-* are
+ * discovered by `cace plugins`, but only loaded once listed in the config.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { AgentId, CapabilityMapping, ComponentType } from '../core/types.js';
+import {
+  AGENT_FILE_PATTERNS,
+  AGENTS,
+  COMPONENT_TYPE_EQUIVALENTS,
+  PLUGIN_AGENTS,
+  SUPPORTED_AGENTS,
+  type AgentInfo,
+} from '../core/constants.js';
+import type { AgentParser } from '../parsing/parser-interface.js';
+import { registerParser } from '../parsing/parser-factory.js';
+import type { AgentRenderer } from '../rendering/renderer-interface.js';
+import { registerRenderer } from '../rendering/renderer-factory.js';
+import { globalValidatorRegistry, type BaseValidator } from '../validation/index.js';
+import { OptimizerFactory, type BaseOptimizer } from '../optimization/optimizer-core.js';
+import { registerVersionCatalog, type AgentVersionCatalog } from '../versioning/version-catalog.js';
+import { addMapping } from '../transformation/capability-mapper.js';
+import { registerToolVocabulary, type ToolVocabulary } from '../core/tool-vocabulary.js';
+
+export interface PluginAgent extends AgentInfo {
+  /** Paths that identify the agent's files during detection */
+  filePatterns?: RegExp[];
+  /**
+   * The agent's component type for each IR type it can hold, e.g.
+   * `{ skill: 'command' }` (default: each of componentTypes maps to itself)
+   */
+  componentTypeEquivalents?: Partial<Record<ComponentType, ComponentType>>;
+}
+
+export interface CacePlugin {
+  name: string;
+  version?: string;
+  agents?: PluginAgent[];
+  parsers?: AgentParser[];
+  renderers?: AgentRenderer[];
+  validators?: BaseValidator[];
+  optimizers?: BaseOptimizer[];
+  versionCatalogs?: Partial<Record<AgentId, AgentVersionCatalog>>;
+  toolVocabularies?: Partial<Record<AgentId, ToolVocabulary>>;
+  mappings?: CapabilityMapping[];
+}
+
+export interface LoadedPlugin {
+  plugin: CacePlugin;
+  /** How the config refers to the plugin */
+  specifier?: string;
+  /** Module the plugin was imported from */
+  path?: string;
+}
+
+export interface DiscoveredPlugin {
+  name: string;
+  version?: string;
+  path: string;
+}
+
+const AGENT_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+const PLUGIN_PACKAGE_PATTERN = /^(?:@[^/]+\/)?cace-plugin-/;
+
+const loadedPlugins: LoadedPlugin[] = [];
+
+/**
+ * Type a plugin's default export
+ */
+export function definePlugin(plugin: CacePlugin): CacePlugin {
+  return plugin;
+}
+
+export function getLoadedPlugins(): LoadedPlugin[] {
+  return [...loadedPlugins];
+}
+
+function registerAgent(agent: PluginAgent): void {
+  const { filePatterns, componentTypeEquivalents, ...info } = agent;
+  if (!AGENT_ID_PATTERN.test(info.id)) {
+    throw new Error(`Invalid agent id "${info.id}": use lowercase letters, digits and dashes`);
+  }
+  if (SUPPORTED_AGENTS.includes(info.id)) {
+    throw new Error(`Agent "${info.id}" is already registered`);
+  }
+
+  AGENTS[info.id] = info;
+  AGENT_FILE_PATTERNS[info.id] = filePatterns ?? [];
+  const equivalents = componentTypeEquivalents
+    ?? Object.fromEntries(info.componentTypes.map((type) => [type, type]));
+  for (const [irType, agentType] of Object.entries(equivalents) as Array<[ComponentType, ComponentType]>) {
+    COMPONENT_TYPE_EQUIVALENTS[irType][info.id] = agentType;
+  }
+  SUPPORTED_AGENTS.push(info.id);
+  PLUGIN_AGENTS.push(info.id);
+}
+
+/**
+ * Register everything a plugin contributes. Registering a plugin with the
+ * same name again is a no-op.
+ */
+export function registerPlugin(plugin: CacePlugin, source: Omit<LoadedPlugin, 'plugin'> = {}): LoadedPlugin {
+  if (typeof plugin.name !== 'string' || plugin.name.length === 0) {
+    throw new Error('Plugin must export a name');
+  }
+  const existing = loadedPlugins.find((p) => p.plugin.name === plugin.name);
+  if (existing) return existing;
+
+  // Check every contribution before registering any of them
+  const newAgents = (plugin.agents ?? []).map((a) => a.id);
+  const known = (agent: AgentId): boolean => SUPPORTED_AGENTS.includes(agent) || newAgents.includes(agent);
+  const contributions: Array<[string, AgentId]> = [
+    ...(plugin.parsers ?? []).map((p): [string, AgentId] => ['parser', p.agentId]),
+    ...(plugin.renderers ?? []).map((r): [string, AgentId] => ['renderer', r.agentId]),
+    ...(plugin.validators ?? []).map((v): [string, AgentId] => ['validator', v.agentId]),
+    ...(plugin.optimizers ?? []).map((o): [string, AgentId] => ['optimizer', o.targetAgent]),
+    ...(Object.keys(plugin.versionCatalogs ?? {}) as AgentId[]).map((a): [string, AgentId] => ['version catalog', a]),
+    ...(Object.keys(plugin.toolVocabularies ?? {}) as AgentId[]).map((a): [string, AgentId] => ['tool vocabulary', a]),
+    ...(plugin.mappings ?? []).flatMap((m): Array<[string, AgentId]> => [['mapping', m.sourceAgent], ['mapping', m.targetAgent]]),
+  ];
+  const unknown = contributions.find(([, agent]) => !known(agent));
+  if (unknown) {
+    throw new Error(`Plugin ${plugin.name} provides a ${unknown[0]} for unknown agent "${unknown[1]}"; declare it under agents`);
+  }
+
+  (plugin.agents ?? []).forEach(registerAgent);
+  for (const [agent, catalog] of Object.entries(plugin.versionCatalogs ?? {}) as Array<[AgentId, AgentVersionCatalog]>) {
+    registerVersionCatalog(agent, catalog);
+  }
+  for (const [agent, vocabulary] of Object.entries(plugin.toolVocabularies ?? {}) as Array<[AgentId, ToolVocabulary]>) {
+    registerToolVocabulary(agent, vocabulary);
+  }
+  (plugin.mappings ?? []).forEach(addMapping);
+  (plugin.parsers ?? []).forEach(registerParser);
+  (plugin.renderers ?? []).forEach(registerRenderer);
+  (plugin.validators ?? []).forEach((validator) => globalValidatorRegistry.register(validator));
+  (plugin.optimizers ?? []).forEach((optimizer) => OptimizerFactory.register(optimizer));
+
+  const loaded: LoadedPlugin = { plugin, ...source };
+  loadedPlugins.push(loaded);
+  return loaded;
+}
+
+/**
+ * Resolve a plugin specifier: a path relative to baseDir, or a package
+ * installed where baseDir can require it
+ */
+export function resolvePlugin(specifier: string, baseDir: string): string {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    return resolve(baseDir, specifier);
+  }
+  return createRequire(join(baseDir, 'noop.js')).resolve(specifier);
+}
+
+/**
+ * Import and register a plugin listed in the config
+ */
+export async function loadPlugin(specifier: string, baseDir: string): Promise<LoadedPlugin> {
+  let plugin: CacePlugin;
+  let path: string;
+  try {
+    path = resolvePlugin(specifier, baseDir);
+    const module = (await import(pathToFileURL(path).href)) as { default?: CacePlugin; plugin?: CacePlugin };
+    const exported = module.default ?? module.plugin;
+    if (!exported || typeof exported !== 'object') {
+      throw new Error('module has no default export');
+    }
+    plugin = exported;
+  } catch (err) {
+    throw new Error(`Failed to load plugin ${specifier}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  try {
+    return registerPlugin(plugin, { specifier, path });
+  } catch (err) {
+    throw new Error(`Failed to register plugin ${specifier}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Load plugins in order, so later plugins can extend agents added by earlier ones
+ */
+export async function loadPlugins(specifiers: string[], baseDir: string): Promise<LoadedPlugin[]> {
+  const loaded: LoadedPlugin[] = [];
+  for (const specifier of specifiers) {
+    loaded.push(await loadPlugin(specifier, baseDir));
+  }
+  return loaded;
+}
+
+/**
+ * Find cace-plugin-* packages installed in <baseDir>/node_modules
+ */
+export function discoverPlugins(baseDir: string): DiscoveredPlugin[] {
+  const nodeModules = join(baseDir, 'node_modules');
+  if (!existsSync(nodeModules)) return [];
+
+  const packageDirs = readdirSync(nodeModules).flatMap((entry) =>
+    entry.startsWith('@')
+      ? readdirSync(join(nodeModules, entry)).map((scoped) => `${entry}/${scoped}`)
+      : [entry]
+  );
+
+  return packageDirs
+    .filter((name) => PLUGIN_PACKAGE_PATTERN.test(name))
+    .map((name) => {
+      const path = join(nodeModules, name);
+      try {
+        const manifest = JSON.parse(readFileSync(join(path, 'package.json'), 'utf-8')) as { version?: string };
+        return { name, path, ...(manifest.version ? { version: manifest.version } : {}) };
+      } catch {
+        return { name, path };
+      }
+    });
+}
@@ -0,0 +1,223 @@
+/**
+ * Renderer for Aider conventions files + .aider.conf.yml
+ *
+ * Aider only reads plain Markdown conventions files, loaded into every chat
+ * through `/read` or the `read:` list in `.aider.conf.yml`:
+ *
+ * - memory → CONVENTIONS.md
+ * - memory that is only a list of imports → .aider.conf.yml `read:`, with the
+ *   other settings parsed from an .aider.conf.yml
+ * - rule → .aider/conventions/<id>.md (always loaded; activation is lost)
+ *
+ * Skills, commands and the other component types have no Aider equivalent.
+ */
+
+import type {
+  ComponentSpec,
+  ConversionLoss,
+  ConversionReport,
+  ConversionWarning,
+  ExtendedComponentFields,
+} from "../core/types.js";
+import matter from "gray-matter";
+import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { getConfigSpec } from "../core/agent-config.js";
+import { getRuleGlobs, getRuleKind } from "../core/rule-activation.js";
+
+export class AiderRenderer extends BaseRenderer {
+  readonly agentId = "aider" as const;
+
+  render(
+    spec: ComponentSpec,
+    options?: RenderOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const startTime = Date.now();
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = [];
+    const suggestions: string[] = [];
+
+    if (spec.componentType !== "memory" && spec.componentType !== "rule") {
+      return this.createErrorResult([
+        `Aider has no ${spec.componentType} equivalent; only memory and rules can be converted to conventions files`,
+      ]);
+    }
+
+    const imports = (spec as ComponentSpec & ExtendedComponentFields).memorySpec?.imports ?? [];
+    if (this.rendersAsConfig(spec)) {
+      return this.renderConfig(spec, startTime);
+    }
+
+    if (spec.componentType === "rule") {
+      const kind = getRuleKind(spec);
+      if (kind === "always") {
+        preservedSemantics.push("Always-applied rule");
+      } else {
+        const globs = getRuleGlobs(spec);
+        losses.push({
+          category: "activation",
+          severity: kind === "manual" ? "info" : "warning",
+          description:
+            kind === "auto-attached"
+              ? `Aider cannot attach conventions to files matching ${globs.join(", ")}; the rule is always loaded`
+              : `${kind} rule activation has no Aider equivalent; the rule is always loaded`,
+          sourceField: kind === "auto-attached" ? "activation.triggers" : "activation.mode",
+          recommendation: "Load the file with /read only in chats where it applies",
+        });
+      }
+    }
+
+    if (imports.length > 0) {
+      losses.push({
+        category: "content",
+        severity: "warning",
+        description: `${imports.length} @imports are not resolved by Aider`,
+        sourceField: "memorySpec.imports",
+        recommendation: `Add ${imports.map((i) => i.path).join(", ")} to read: in .aider.conf.yml`,
+      });
+    }
+
+    this.reportCapabilities(spec, losses, warnings, suggestions);
+
+    let body = spec.body;
+    const versionAdaptation = this.adaptForVersion(body, options);
+    body = versionAdaptation.body;
+    if (versionAdaptation.adapted) {
+      preservedSemantics.push("Version-adapted content");
+    }
+    for (const w of versionAdaptation.warnings) {
+      warnings.push({
+        code: "VERSION_ADAPTATION",
+        message: w,
+        field: "body",
+      });
+    }
+
+    // Conventions files have no frontmatter to override
+    body = this.applyAgentOverride(spec, undefined, body);
+
+    // Conventions files are plain markdown; frontmatter would be read as text
+    let content = "";
+    if (options?.includeComments) {
+      content += `<!-- Converted from ${spec.sourceAgent?.id ?? "unknown"} to Aider -->\n`;
+      content += `<!-- Original: ${spec.metadata.sourceFile ?? "unknown"} -->\n\n`;
+    }
+    content += body.trim() + "\n";
+
+    preservedSemantics.push("Conventions content");
+    const path = `${this.getTargetDirectory(spec)}/${this.getTargetFilename(spec)}`.replace(/^\.\//, "");
+    suggestions.push(`Add ${path} to read: in .aider.conf.yml so Aider loads it in every chat`);
+
+    const report: ConversionReport = {
+      ...this.createConversionReport(spec, "aider", startTime),
+      preservedSemantics,
+      losses,
+      warnings,
+      suggestions,
+      fidelityScore: this.calculateFidelity(losses, warnings),
+    };
+
+    return this.createSuccessResult(content, this.getTargetFilename(spec), report);
+  }
+
+  getTargetFilename(spec: ComponentSpec): string {
+    if (this.rendersAsConfig(spec)) {
+      return ".aider.conf.yml";
+    }
+    if (spec.componentType === "rule") {
+      return `${spec.id}.md`;
+    }
+    return "CONVENTIONS.md";
+  }
+
+  getTargetDirectory(spec: ComponentSpec): string {
+    if (spec.componentType === "rule") {
+      return ".aider/conventions";
+    }
+    return ".";
+  }
+
+  protected override mapComponentType(
+    sourceType: ComponentSpec["componentType"],
+  ): ComponentSpec["componentType"] {
+    return sourceType === "rule" ? "rule" : "memory";
+  }
+
+  /**
+   * Memory with no body of its own is just a list of files to load
+   */
+  private rendersAsConfig(spec: ComponentSpec): boolean {
+    const imports = (spec as ComponentSpec & ExtendedComponentFields).memorySpec?.imports ?? [];
+    return spec.componentType === "memory" && !spec.body.trim() && imports.length > 0;
+  }
+
+  private renderConfig(
+    spec: ComponentSpec,
+    startTime: number,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const imports = (spec as ComponentSpec & ExtendedComponentFields).memorySpec?.imports ?? [];
+    const files = imports.filter((i) => i.type === "file").map((i) => i.path);
+
+    const remote = imports.filter((i) => i.type !== "file");
+    if (remote.length > 0) {
+      losses.push({
+        category: "content",
+        severity: "warning",
+        description: `Aider can only read local files; dropped ${remote.map((i) => i.path).join(", ")}`,
+        sourceField: "memorySpec.imports",
+        recommendation: "Download the content into a local conventions file",
+      });
+    }
+
+    const preservedSemantics = [`${files.length} conventions file(s) loaded read-only`];
+    const lines = ["read:", ...files.map((f) => `  - ${this.quoteYaml(f)}`)];
+    if (spec.metadata.model) {
+      lines.push(`model: ${this.quoteYaml(spec.metadata.model)}`);
+    }
+
+    const settings = getConfigSpec(spec)?.settings ?? {};
+    const keys = Object.keys(settings);
+    if (keys.length > 0) {
+      // gray-matter wraps the YAML in --- fences; .aider.conf.yml is bare YAML
+      lines.push(matter.stringify("", settings).replace(/^---\n/, "").replace(/---\n*$/, "").trimEnd());
+      preservedSemantics.push(`Aider settings: ${keys.join(", ")}`);
+    }
+
+    const report: ConversionReport = {
+      ...this.createConversionReport(spec, "aider", startTime),
+      preservedSemantics,
+      losses,
+      warnings: [],
+      suggestions: ["Merge read: into any existing .aider.conf.yml"],
+      fidelityScore: this.calculateFidelity(losses, []),
+    };
+
+    return this.createSuccessResult(lines.join("\n") + "\n", ".aider.conf.yml", report);
+  }
+
+  private quoteYaml(value: string): string {
+    return /^[*&!|>'"%@`{[]|[:#]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+  }
+
+  private calculateFidelity(
+    losses: ConversionLoss[],
+    warnings: ConversionWarning[],
+  ): number {
+    let score = 100;
+
+    for (const loss of losses) {
+      if (loss.severity === "critical") score -= 20;
+      else if (loss.severity === "warning") score -= 10;
+      else score -= 5;
+    }
+
+    for (const _warning of warnings) {
+      score -= 3;
+    }
+
+    return Math.max(0, score);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Canonical Source Renderer - Writes a ComponentSpec as a hand-editable .cace.yaml
+ *
+ * Used to move an existing agent file to a canonical source. The output
+ * drops what parseCanonicalSpec fills in again (sourceAgent, source file,
+ * default capabilities, agentOverrides[].agentId) so it reads like a
+ * hand-written source.
+ */
+
+import matter from 'gray-matter';
+import type { ComponentSpec } from '../../core/types.js';
+import { createDefaultCapabilities, formatVersion } from '../../core/types.js';
+
+/** Metadata that only describes where a parsed spec came from */
+const SOURCE_METADATA_KEYS = ['sourceFile', 'originalFormat'];
+
+/**
+ * Render a ComponentSpec as .cace.yaml content
+ */
+export function renderCanonicalSpec(spec: ComponentSpec): string {
+  // JSON round-trip drops undefined values, which the YAML dumper rejects
+  const { sourceAgent: _sourceAgent, body, ...fields } = JSON.parse(
+    JSON.stringify(spec)
+  ) as ComponentSpec;
+
+  const defaults = createDefaultCapabilities();
+  const capabilities = Object.fromEntries(
+    Object.entries(fields.capabilities).filter(
+      ([key, value]) => defaults[key as keyof typeof defaults] !== value
+    )
+  );
+
+  const metadata = Object.fromEntries(
+    Object.entries(fields.metadata).filter(([key]) => !SOURCE_METADATA_KEYS.includes(key))
+  );
+
+  const agentOverrides = fields.agentOverrides
+    ? Object.fromEntries(
+        Object.entries(fields.agentOverrides).map(([agentId, override]) => {
+          const { agentId: _agentId, ...rest } = override;
+          return [agentId, rest];
+        })
+      )
+    : undefined;
+
+  const data: Record<string, unknown> = {
+    ...fields,
+    version: formatVersion(spec.version),
+    capabilities: Object.keys(capabilities).length > 0 ? capabilities : undefined,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    agentOverrides,
+    body,
+  };
+  for (const key of Object.keys(data)) {
+    if (data[key] === undefined) Reflect.deleteProperty(data, key);
+  }
+
+  // gray-matter wraps the YAML in --- fences; a .cace.yaml is bare YAML
+  return matter.stringify('', data).replace(/^---\n/, '').replace(/---\n*$/, '');
+}
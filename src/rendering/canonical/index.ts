@@ -0,0 +1,5 @@
+/**
+ * Canonical source renderers index
+ */
+
+export * from './canonical-renderer.js';
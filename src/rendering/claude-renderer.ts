@@ -1,5 +1,11 @@
 /**
- * Renderer for Claude Code skills
+ * Renderer for Claude Code skills + rules + settings
+ *
+ * Always-on and glob-attached rules render to `.claude/rules/<name>.md` with
+ * `paths` frontmatter. Agent-requested and manual rules have no Claude rule
+ * equivalent and render as skills instead. Sub-agents render to
+ * `.claude/agents/<name>.md`. Config components render to
+ * `.claude/settings.json`.
  */
 
 import type {
@@ -9,7 +15,13 @@ import type {
   ConversionWarning,
 } from "../core/types.js";
 import { formatVersion } from "../core/types.js";
+import { getRuleGlobs, getRuleKind } from "../core/rule-activation.js";
+import { renderTools } from "../core/tool-vocabulary.js";
+import { CLAUDE_PERMISSION_MODES, getConfigSpec, isCodexApprovalPolicy } from "../core/agent-config.js";
+import { getSubAgentSpec, subAgentLosses, translateModel } from "../core/sub-agents.js";
 import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { MCP_TARGET_PATHS, renderMcpConfig } from "./mcp/mcp-config-renderer.js";
+import { renderClaudeHooks } from "./hooks/claude-hooks-renderer.js";
 
 export class ClaudeRenderer extends BaseRenderer {
   readonly agentId = "claude" as const;
@@ -26,6 +38,28 @@ export class ClaudeRenderer extends BaseRenderer {
     const preservedSemantics: string[] = [];
     const suggestions: string[] = [];
 
+    if (this.rendersAsRule(spec)) {
+      return this.renderRule(spec, startTime, options);
+    }
+    if (spec.componentType === "config") {
+      return this.renderSettings(spec, startTime);
+    }
+    if (spec.componentType === "agent") {
+      return this.renderAgent(spec, startTime, options);
+    }
+    if (spec.componentType === "hook") {
+      return renderClaudeHooks(spec);
+    }
+    if (spec.componentType === "mcp") {
+      return renderMcpConfig(spec, "claude");
+    }
+
+    if (spec.componentType === "rule") {
+      preservedSemantics.push(
+        `${getRuleKind(spec)} rule rendered as a skill (no Claude rule equivalent)`,
+      );
+    }
+
     // Build frontmatter
     const frontmatter: Record<string, unknown> = {
       name: spec.id,
@@ -56,8 +90,10 @@ export class ClaudeRenderer extends BaseRenderer {
       preservedSemantics.push("Fork execution context");
     }
 
-    if (spec.execution.allowedTools && spec.execution.allowedTools.length > 0) {
-      frontmatter["allowed-tools"] = spec.execution.allowedTools;
+    const tools = renderTools(spec, "claude");
+    losses.push(...tools.losses);
+    if (tools.names.length > 0) {
+      frontmatter["allowed-tools"] = tools.names;
       preservedSemantics.push("Tool restrictions");
     }
 
@@ -81,42 +117,8 @@ export class ClaudeRenderer extends BaseRenderer {
     }
 
     // Check for losses from source agent features
-    if (spec.sourceAgent?.id === "windsurf") {
-      // Windsurf auto_execution_mode doesn't map perfectly
-      if (
-        spec.activation.mode === "auto" ||
-        spec.activation.mode === "contextual"
-      ) {
-        warnings.push({
-          code: "ACTIVATION_DEGRADED",
-          message:
-            "Windsurf auto_execution_mode mapped to suggested activation",
-          field: "activation.mode",
-        });
-      }
-    }
-
-    if (spec.sourceAgent?.id === "cursor") {
-      // Cursor has no structured arguments
-      losses.push({
-        category: "content",
-        severity: "info",
-        description: "Cursor commands have no structured argument system",
-        sourceField: "invocation.arguments",
-        recommendation: "Arguments will be handled via $ARGUMENTS placeholder",
-      });
-    }
+    this.reportCapabilities(spec, losses, warnings, suggestions);
 
-    // Handle agent-specific overrides
-    if (spec.agentOverrides?.claude) {
-      const override = spec.agentOverrides.claude;
-      if (override.frontmatterOverrides) {
-        Object.assign(frontmatter, override.frontmatterOverrides);
-      }
-    }
-
-    // Build the output
-    const frontmatterYaml = this.buildFrontmatter(frontmatter);
     let body = spec.body;
 
     // Apply version adaptation if needed
@@ -133,13 +135,9 @@ export class ClaudeRenderer extends BaseRenderer {
       });
     }
 
-    // Add prefix/suffix from overrides
-    if (spec.agentOverrides?.claude?.bodyPrefix) {
-      body = spec.agentOverrides.claude.bodyPrefix + "\n\n" + body;
-    }
-    if (spec.agentOverrides?.claude?.bodySuffix) {
-      body = body + "\n\n" + spec.agentOverrides.claude.bodySuffix;
-    }
+    // Handle agent-specific overrides
+    body = this.applyAgentOverride(spec, frontmatter, body);
+    const frontmatterYaml = this.buildFrontmatter(frontmatter);
 
     // Build output.
     // IMPORTANT: YAML frontmatter must remain the first meaningful content in the file
@@ -169,13 +167,332 @@ export class ClaudeRenderer extends BaseRenderer {
   }
 
   getTargetFilename(spec: ComponentSpec): string {
+    if (spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.claude.filename;
+    }
+    if (this.rendersAsRule(spec)) {
+      return `${spec.id}.md`;
+    }
+    if (spec.componentType === "config" || spec.componentType === "hook") {
+      return "settings.json";
+    }
+    if (spec.componentType === "agent") {
+      return `${spec.id}.md`;
+    }
     return `${spec.id}/SKILL.md`;
   }
 
-  getTargetDirectory(_spec: ComponentSpec): string {
+  getTargetDirectory(spec: ComponentSpec): string {
+    if (spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.claude.directory;
+    }
+    if (this.rendersAsRule(spec)) {
+      return ".claude/rules";
+    }
+    if (spec.componentType === "config" || spec.componentType === "hook") {
+      return ".claude";
+    }
+    if (spec.componentType === "agent") {
+      return ".claude/agents";
+    }
     return ".claude/skills";
   }
 
+  private rendersAsRule(spec: ComponentSpec): boolean {
+    if (spec.componentType !== "rule") return false;
+    const kind = getRuleKind(spec);
+    return kind === "always" || kind === "auto-attached";
+  }
+
+  private renderRule(
+    spec: ComponentSpec,
+    startTime: number,
+    options?: RenderOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = [];
+    const globs = getRuleGlobs(spec);
+
+    const frontmatter: Record<string, unknown> = {
+      description: spec.intent.summary,
+    };
+
+    if (getRuleKind(spec) === "auto-attached") {
+      frontmatter["paths"] = globs;
+      preservedSemantics.push(`Path-scoped rule for ${globs.length} glob pattern(s)`);
+    } else {
+      preservedSemantics.push("Always-loaded rule");
+      if (globs.length > 0) {
+        losses.push({
+          category: "activation",
+          severity: "info",
+          description: "Globs dropped: the rule is always loaded",
+          sourceField: "activation.triggers",
+        });
+      }
+    }
+
+    let body = spec.body;
+    const versionAdaptation = this.adaptForVersion(body, options);
+    body = versionAdaptation.body;
+    if (versionAdaptation.adapted) {
+      preservedSemantics.push("Version-adapted content");
+    }
+    for (const w of versionAdaptation.warnings) {
+      warnings.push({
+        code: "VERSION_ADAPTATION",
+        message: w,
+        field: "body",
+      });
+    }
+
+    body = this.applyAgentOverride(spec, frontmatter, body);
+
+    preservedSemantics.push("Rule instructions");
+
+    let content = this.buildFrontmatter(frontmatter) + "\n";
+    if (options?.includeComments) {
+      content += `<!-- Converted from ${spec.sourceAgent?.id ?? "unknown"} to Claude Code -->\n`;
+      content += `<!-- Original: ${spec.metadata.sourceFile ?? "unknown"} -->\n\n`;
+    }
+    content += body;
+
+    const baseReport = this.createConversionReport(spec, "claude", startTime);
+    const report: ConversionReport = {
+      ...baseReport,
+      target: { ...baseReport.target, componentType: "rule" },
+      preservedSemantics,
+      losses,
+      warnings,
+      suggestions: [],
+      fidelityScore: this.calculateFidelity(losses, warnings),
+    };
+
+    return this.createSuccessResult(content.trim() + "\n", this.getTargetFilename(spec), report);
+  }
+
+  /**
+   * Render a sub-agent as .claude/agents/<name>.md. Claude sub-agents take
+   * tools as one comma-separated string and a model alias (sonnet, opus,
+   * haiku); settings Claude lacks are reported by subAgentLosses.
+   */
+  private renderAgent(
+    spec: ComponentSpec,
+    startTime: number,
+    options?: RenderOptions,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = ["Sub-agent definition", "System prompt"];
+    const suggestions: string[] = [];
+    const agent = getSubAgentSpec(spec);
+
+    const frontmatter: Record<string, unknown> = {
+      name: spec.id,
+      description: spec.intent.summary,
+    };
+
+    const tools = renderTools(spec, "claude");
+    losses.push(...tools.losses);
+    if (tools.names.length > 0) {
+      frontmatter["tools"] = tools.names.join(", ");
+      preservedSemantics.push("Tool restrictions");
+    }
+
+    const model = translateModel(spec.execution.preferredModel ?? spec.metadata.model, "claude");
+    if (model.model) {
+      frontmatter["model"] = model.model;
+      preservedSemantics.push("Preferred model");
+    }
+    if (model.loss) {
+      losses.push(model.loss);
+    }
+
+    if (agent.color) {
+      frontmatter["color"] = agent.color;
+    }
+    if (agent.permissionMode) {
+      frontmatter["permissionMode"] = agent.permissionMode;
+      preservedSemantics.push("Permission mode");
+    }
+
+    losses.push(...subAgentLosses(spec, "claude"));
+    this.reportCapabilities(spec, losses, warnings, suggestions);
+
+    const body = this.applyAgentOverride(spec, frontmatter, spec.body);
+
+    let content = this.buildFrontmatter(frontmatter) + "\n";
+    if (options?.includeComments) {
+      content += `<!-- Converted from ${spec.sourceAgent?.id ?? "unknown"} to Claude Code -->\n`;
+      content += `<!-- Original: ${spec.metadata.sourceFile ?? "unknown"} -->\n\n`;
+    }
+    content += body;
+
+    const baseReport = this.createConversionReport(spec, "claude", startTime);
+    const report: ConversionReport = {
+      ...baseReport,
+      target: { ...baseReport.target, componentType: "agent" },
+      preservedSemantics,
+      losses,
+      warnings,
+      suggestions,
+      fidelityScore: this.calculateFidelity(losses, warnings),
+    };
+
+    return this.createSuccessResult(content.trim() + "\n", this.getTargetFilename(spec), report);
+  }
+
+  /**
+   * Render a config component (e.g. Codex config.toml) as settings.json.
+   * Approval policy maps to permissions.defaultMode and sandbox mode to the
+   * sandbox setting; see core/agent-config.ts for the mapping table.
+   */
+  private renderSettings(
+    spec: ComponentSpec,
+    startTime: number,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = [];
+    const config = getConfigSpec(spec);
+    const { approvalPolicy, sandboxMode, webSearch, mcpServers, features } = spec.metadata;
+    const model = spec.metadata.model ?? spec.execution.preferredModel;
+
+    const settings: Record<string, unknown> = {};
+    const permissions: Record<string, unknown> = {};
+    const deny: string[] = [];
+
+    if (model) {
+      settings["model"] = model;
+      preservedSemantics.push("Model");
+      if (spec.sourceAgent?.id !== "claude") {
+        warnings.push({
+          code: "MODEL_NAME",
+          message: `Model '${model}' comes from ${spec.sourceAgent?.id ?? "another agent"}; use a Claude model name`,
+          field: "model",
+        });
+      }
+    }
+
+    if (approvalPolicy) {
+      if (isCodexApprovalPolicy(approvalPolicy)) {
+        permissions["defaultMode"] = CLAUDE_PERMISSION_MODES[approvalPolicy];
+        preservedSemantics.push(`Approval policy '${approvalPolicy}' as permissions.defaultMode`);
+        if (approvalPolicy === "never") {
+          warnings.push({
+            code: "BYPASS_PERMISSIONS",
+            message: "approval_policy 'never' maps to bypassPermissions: Claude will not ask before using tools",
+            field: "permissions.defaultMode",
+          });
+        }
+      } else {
+        losses.push({
+          category: "security",
+          severity: "warning",
+          description: `Approval policy '${approvalPolicy}' has no Claude permission mode`,
+          sourceField: "approvalPolicy",
+        });
+      }
+    }
+
+    switch (sandboxMode) {
+      case undefined:
+        break;
+      case "read-only":
+        settings["sandbox"] = { enabled: true };
+        deny.push("Edit", "Write", "NotebookEdit");
+        preservedSemantics.push("Read-only sandbox as sandbox + denied edit tools");
+        break;
+      case "workspace-write":
+        settings["sandbox"] = { enabled: true };
+        preservedSemantics.push("Workspace-write sandbox");
+        break;
+      case "danger-full-access":
+        settings["sandbox"] = { enabled: false };
+        preservedSemantics.push("Unsandboxed access");
+        break;
+      default:
+        losses.push({
+          category: "security",
+          severity: "warning",
+          description: `Sandbox mode '${sandboxMode}' has no Claude equivalent`,
+          sourceField: "sandboxMode",
+        });
+    }
+
+    if (webSearch === "disabled") {
+      deny.push("WebSearch");
+      preservedSemantics.push("Web search disabled");
+    }
+
+    if (deny.length > 0) {
+      permissions["deny"] = deny;
+    }
+    if (Object.keys(permissions).length > 0) {
+      settings["permissions"] = permissions;
+    }
+
+    if (mcpServers) {
+      settings["enabledMcpjsonServers"] = Object.keys(mcpServers);
+      losses.push({
+        category: "configuration",
+        severity: "warning",
+        description: "MCP server definitions belong in .mcp.json; settings.json only enables them by name",
+        sourceField: "mcpServers",
+        recommendation: "Add the server definitions to .mcp.json",
+      });
+    }
+
+    if (config?.profiles) {
+      losses.push({
+        category: "configuration",
+        severity: "info",
+        description: `Profiles have no Claude equivalent: ${Object.keys(config.profiles).join(", ")}`,
+        sourceField: "profiles",
+      });
+    }
+    if (config?.settings) {
+      losses.push({
+        category: "configuration",
+        severity: "info",
+        description: `Settings with no Claude equivalent: ${Object.keys(config.settings).join(", ")}`,
+        sourceField: "settings",
+      });
+    }
+    if (features && Object.keys(features).length > 0) {
+      losses.push({
+        category: "configuration",
+        severity: "info",
+        description: `Feature flags dropped: ${Object.keys(features).join(", ")}`,
+        sourceField: "features",
+      });
+    }
+
+    const baseReport = this.createConversionReport(spec, "claude", startTime);
+    const report: ConversionReport = {
+      ...baseReport,
+      target: { ...baseReport.target, componentType: "config" },
+      preservedSemantics,
+      losses,
+      warnings,
+      suggestions: losses.flatMap((l) => (l.recommendation ? [l.recommendation] : [])),
+      fidelityScore: this.calculateFidelity(losses, warnings),
+    };
+
+    return {
+      ...this.createSuccessResult(
+        JSON.stringify(settings, null, 2) + "\n",
+        this.getTargetFilename(spec),
+        report,
+      ),
+      // Other keys of settings.json are kept when the CLI merges this in
+      partial: true,
+    };
+  }
+
   protected override mapComponentType(): "skill" {
     return "skill";
   }
@@ -189,7 +506,12 @@ export class ClaudeRenderer extends BaseRenderer {
       if (Array.isArray(value)) {
         lines.push(`${key}:`);
         for (const item of value) {
-          lines.push(`  - ${item}`);
+          // Quote glob patterns like **/*.ts that YAML would read as aliases
+          lines.push(
+            typeof item === "string" && /^[*&!|>'"%@`{[]/.test(item)
+              ? `  - "${item.replace(/"/g, '\\"')}"`
+              : `  - ${item}`,
+          );
         }
       } else if (typeof value === "boolean") {
         lines.push(`${key}: ${value}`);
@@ -1,5 +1,8 @@
 /**
- * Renderer for OpenAI Codex skills and commands
+ * Renderer for OpenAI Codex skills, custom prompts and config.toml
+ *
+ * Commands render as custom prompts (`.codex/prompts/<name>.md`, invoked as
+ * `/prompts:<name>`) and config components as `.codex/config.toml`.
  */
 
 import type {
@@ -10,7 +13,11 @@ import type {
   ConversionWarning,
 } from "../core/types.js";
 import { formatVersion } from "../core/types.js";
+import { getConfigSpec, isCodexApprovalPolicy, isCodexSandboxMode } from "../core/agent-config.js";
+import { stringifyToml } from "../core/toml.js";
+import { renderTools } from "../core/tool-vocabulary.js";
 import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { MCP_TARGET_PATHS, renderMcpConfig } from "./mcp/mcp-config-renderer.js";
 import matter from "gray-matter";
 
 export class CodexRenderer extends BaseRenderer {
@@ -21,6 +28,17 @@ export class CodexRenderer extends BaseRenderer {
     options?: RenderOptions,
   ): ReturnType<typeof this.createSuccessResult> | ReturnType<typeof this.createErrorResult> {
     const startTime = Date.now();
+
+    if (spec.componentType === "config") {
+      return this.renderConfig(spec, startTime);
+    }
+    if (spec.componentType === "command") {
+      return this.renderPrompt(spec, startTime);
+    }
+    if (spec.componentType === "mcp") {
+      return renderMcpConfig(spec, "codex");
+    }
+
     const losses: ConversionLoss[] = [];
     const warnings: ConversionWarning[] = [];
     const preservedSemantics: string[] = [];
@@ -61,8 +79,9 @@ export class CodexRenderer extends BaseRenderer {
     }
 
     // Map model if specified
-    if (spec.metadata?.model) {
-      frontmatter.model = spec.metadata.model;
+    const model = spec.metadata?.model ?? spec.execution.preferredModel;
+    if (model) {
+      frontmatter.model = model;
       preservedSemantics.push("Model specification");
     }
 
@@ -106,13 +125,12 @@ export class CodexRenderer extends BaseRenderer {
       preservedSemantics.push("MCP server configuration");
     }
 
-    // Map tools
-    if (spec.metadata?.allowedTools || spec.metadata?.tools) {
-      const tools = spec.metadata?.allowedTools || spec.metadata?.tools;
-      if (Array.isArray(tools)) {
-        frontmatter.tools = tools;
-        preservedSemantics.push("Tool permissions");
-      }
+    // Map tools to Codex's names
+    const tools = renderTools(spec, "codex");
+    losses.push(...tools.losses);
+    if (tools.names.length > 0) {
+      frontmatter.tools = tools.names;
+      preservedSemantics.push("Tool permissions");
     }
 
     // Map features
@@ -126,16 +144,7 @@ export class CodexRenderer extends BaseRenderer {
     }
 
     // Check for losses
-    if (spec.metadata?.subtask) {
-      losses.push({
-        sourceField: "subtask",
-        description: "subtask: true not supported in Codex",
-        severity: "warning",
-        category: "execution",
-        recommendation: "Use sandbox_mode for isolation control",
-      });
-      suggestions.push("Use sandbox_mode for isolation control");
-    }
+    this.reportCapabilities(spec, losses, warnings, suggestions);
 
     if (spec.metadata?.mode) {
       losses.push({
@@ -157,14 +166,176 @@ export class CodexRenderer extends BaseRenderer {
       });
     }
 
+    body = this.applyAgentOverride(spec, frontmatter, body);
+
     // Render final content
     const rendered = matter.stringify(body, frontmatter);
 
-    // Calculate fidelity
-    const fidelityScore = this.calculateFidelity(spec, losses);
+    return this.createSuccessResult(
+      rendered,
+      this.getTargetFilename(spec),
+      this.buildReport(spec, startTime, losses, warnings, preservedSemantics, suggestions),
+    );
+  }
 
-    // Build report
-    const report: ConversionReport = {
+  /**
+   * Render a command as a custom prompt. Prompts only support `description`
+   * and `argument-hint` frontmatter; $ARGUMENTS and $1..$9 work natively.
+   */
+  private renderPrompt(
+    spec: ComponentSpec,
+    startTime: number,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = ["Manual invocation (/prompts:<name>)"];
+    const suggestions: string[] = [];
+
+    const frontmatter: Record<string, unknown> = {
+      description: spec.intent.summary || undefined,
+      "argument-hint": spec.invocation.argumentHint,
+    };
+    if (spec.invocation.argumentHint) {
+      preservedSemantics.push("Argument hints");
+    }
+
+    let body = spec.body || spec.intent.purpose || "";
+    if (/\$(?:ARGUMENTS|[1-9])/.test(body)) {
+      preservedSemantics.push("Argument placeholders");
+    }
+
+    if (/!`[^`]+`/.test(body)) {
+      body = body.replace(/!`([^`]+)`/g, "(run: `$1`)");
+      losses.push({
+        sourceField: "body",
+        description: "Shell injection (!`cmd`) is not supported in Codex prompts; rewritten as instructions",
+        severity: "warning",
+        category: "content",
+        recommendation: "Check that the prompt still asks Codex to run the commands",
+      });
+      suggestions.push("Check that the prompt still asks Codex to run the commands");
+    }
+
+    this.reportCapabilities(spec, losses, warnings, suggestions);
+
+    const unsupported: Array<[string, unknown]> = [
+      ["approvalPolicy", spec.metadata?.approvalPolicy],
+      ["sandboxMode", spec.metadata?.sandboxMode],
+    ];
+    for (const [field, value] of unsupported) {
+      if (value !== undefined) {
+        losses.push({
+          sourceField: field,
+          description: `${field} cannot be set on Codex custom prompts`,
+          severity: "info",
+          category: "execution",
+          recommendation: "Set it in config.toml or a profile instead",
+        });
+      }
+    }
+
+    body = this.applyAgentOverride(spec, frontmatter, body);
+
+    const hasFrontmatter = Object.values(frontmatter).some((v) => v !== undefined);
+    const rendered = hasFrontmatter
+      ? matter.stringify(body, this.withoutUndefined(frontmatter))
+      : `${body.trim()}\n`;
+
+    return this.createSuccessResult(
+      rendered,
+      this.getTargetFilename(spec),
+      this.buildReport(spec, startTime, losses, warnings, preservedSemantics, suggestions),
+    );
+  }
+
+  /**
+   * Render a config component as config.toml
+   */
+  private renderConfig(
+    spec: ComponentSpec,
+    startTime: number,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = [];
+    const suggestions: string[] = [];
+    const config = getConfigSpec(spec);
+    const fromCodex = spec.sourceAgent?.id === this.agentId;
+
+    const model = spec.metadata?.model ?? spec.execution.preferredModel;
+    const { approvalPolicy, sandboxMode, webSearch, features, mcpServers } = spec.metadata ?? {};
+
+    if (approvalPolicy !== undefined && !isCodexApprovalPolicy(approvalPolicy)) {
+      warnings.push({
+        code: "UNKNOWN_APPROVAL_POLICY",
+        message: `approval_policy '${approvalPolicy}' is not a Codex policy`,
+        field: "approval_policy",
+      });
+    }
+    if (sandboxMode !== undefined && !isCodexSandboxMode(sandboxMode)) {
+      warnings.push({
+        code: "UNKNOWN_SANDBOX_MODE",
+        message: `sandbox_mode '${sandboxMode}' is not a Codex sandbox mode`,
+        field: "sandbox_mode",
+      });
+    }
+
+    const data: Record<string, unknown> = {
+      model,
+      approval_policy: approvalPolicy,
+      sandbox_mode: sandboxMode,
+      web_search: webSearch,
+    };
+
+    if (model) preservedSemantics.push("Model");
+    if (approvalPolicy) preservedSemantics.push("Approval policy");
+    if (sandboxMode) preservedSemantics.push("Sandbox mode");
+
+    if (config?.settings) {
+      if (fromCodex) {
+        Object.assign(data, config.settings);
+        preservedSemantics.push("Additional settings");
+      } else {
+        losses.push({
+          sourceField: "settings",
+          description: `Settings with no Codex equivalent: ${Object.keys(config.settings).join(", ")}`,
+          severity: "info",
+          category: "configuration",
+        });
+      }
+    }
+
+    data.features = features;
+    data.mcp_servers = mcpServers;
+    data.profiles = config?.profiles;
+
+    if (mcpServers) {
+      preservedSemantics.push(`${Object.keys(mcpServers).length} MCP server(s)`);
+    }
+    if (config?.profiles) {
+      preservedSemantics.push(`${Object.keys(config.profiles).length} profile(s)`);
+    }
+
+    return this.createSuccessResult(
+      stringifyToml(data),
+      this.getTargetFilename(spec),
+      this.buildReport(spec, startTime, losses, warnings, preservedSemantics, suggestions),
+    );
+  }
+
+  private withoutUndefined(data: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+  }
+
+  private buildReport(
+    spec: ComponentSpec,
+    startTime: number,
+    losses: ConversionLoss[],
+    warnings: ConversionWarning[],
+    preservedSemantics: string[],
+    suggestions: string[],
+  ): ConversionReport {
+    return {
       source: {
         agent: spec.sourceAgent?.id || this.agentId,
         componentType: spec.componentType,
@@ -175,7 +346,7 @@ export class CodexRenderer extends BaseRenderer {
         componentType: spec.componentType,
         id: spec.id,
       },
-      fidelityScore,
+      fidelityScore: this.calculateFidelity(spec, losses),
       convertedAt: new Date().toISOString(),
       durationMs: Date.now() - startTime,
       losses,
@@ -183,12 +354,6 @@ export class CodexRenderer extends BaseRenderer {
       preservedSemantics,
       suggestions,
     };
-
-    return this.createSuccessResult(
-      rendered,
-      this.getTargetFilename(spec),
-      report,
-    );
   }
 
   getTargetDirectory(spec: ComponentSpec): string {
@@ -196,11 +361,15 @@ export class CodexRenderer extends BaseRenderer {
       case "skill":
         return `.codex/skills/${spec.id}`;
       case "command":
-        return `.codex/commands`;
+        return `.codex/prompts`;
       case "rule":
         return `.codex/rules`;
       case "memory":
         return `.codex/memory`;
+      case "config":
+        return `.codex`;
+      case "mcp":
+        return MCP_TARGET_PATHS.codex.directory;
       default:
         return `.codex`;
     }
@@ -216,6 +385,10 @@ export class CodexRenderer extends BaseRenderer {
         return `${spec.id}.md`;
       case "memory":
         return `${spec.id}.md`;
+      case "config":
+        return "config.toml";
+      case "mcp":
+        return MCP_TARGET_PATHS.codex.filename;
       default:
         return `${spec.id}.md`;
     }
@@ -0,0 +1,239 @@
+/**
+ * Renderer for Continue rules + prompt files
+ *
+ * - rule, memory → .continue/rules/<id>.md (name/description/globs/alwaysApply)
+ * - skill, command, workflow → .continue/prompts/<id>.prompt (invokable: true)
+ *
+ * Prompt bodies use `{{{ input }}}` for the text typed after the slash
+ * command; `$ARGUMENTS` is rewritten, positional `$1..$9` are not supported.
+ */
+
+import type {
+  ComponentSpec,
+  ConversionLoss,
+  ConversionReport,
+  ConversionWarning,
+} from "../core/types.js";
+import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { getRuleGlobs, getRuleKind } from "../core/rule-activation.js";
+
+type ContinueTarget = "rule" | "prompt";
+
+export class ContinueRenderer extends BaseRenderer {
+  readonly agentId = "continue" as const;
+
+  render(
+    spec: ComponentSpec,
+    options?: RenderOptions,
+  ):
+    | ReturnType<typeof this.createSuccessResult>
+    | ReturnType<typeof this.createErrorResult> {
+    const startTime = Date.now();
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = [];
+    const suggestions: string[] = [];
+
+    const target = this.getContinueTarget(spec);
+    if (!target) {
+      return this.createErrorResult([
+        `Continue has no ${spec.componentType} equivalent; only rules, memory and prompts can be converted`,
+      ]);
+    }
+
+    const frontmatter: Record<string, unknown> = { name: spec.id };
+    let body = spec.body;
+
+    if (target === "rule") {
+      const kind = spec.componentType === "memory" ? "always" : getRuleKind(spec);
+      const globs = getRuleGlobs(spec);
+
+      switch (kind) {
+        case "always":
+          frontmatter["description"] = spec.intent.summary;
+          frontmatter["alwaysApply"] = true;
+          preservedSemantics.push(
+            spec.componentType === "memory"
+              ? "Memory rendered as an always-applied rule"
+              : "Always-applied rule (alwaysApply: true)",
+          );
+          break;
+        case "auto-attached":
+          frontmatter["description"] = spec.intent.summary;
+          frontmatter["globs"] = globs;
+          preservedSemantics.push(`Auto-attached rule for ${globs.length} glob pattern(s)`);
+          break;
+        case "agent-requested":
+          frontmatter["description"] = spec.intent.summary;
+          frontmatter["alwaysApply"] = false;
+          preservedSemantics.push("Agent-requested rule (alwaysApply: false + description)");
+          break;
+        case "manual":
+          frontmatter["alwaysApply"] = false;
+          losses.push({
+            category: "activation",
+            severity: "info",
+            description: "Continue has no manual rules; the rule is only applied when the agent selects it",
+            sourceField: "activation.mode",
+            recommendation: "Convert the rule to a prompt if it should only run on request",
+          });
+          break;
+      }
+    } else {
+      frontmatter["description"] = spec.intent.summary;
+      frontmatter["invokable"] = true;
+      preservedSemantics.push("Slash command (invokable prompt)");
+
+      body = this.transformPromptBody(body, losses, preservedSemantics);
+    }
+
+    this.reportCapabilities(spec, losses, warnings, suggestions);
+
+    const versionAdaptation = this.adaptForVersion(body, options);
+    body = versionAdaptation.body;
+    if (versionAdaptation.adapted) {
+      preservedSemantics.push("Version-adapted content");
+    }
+    for (const w of versionAdaptation.warnings) {
+      warnings.push({
+        code: "VERSION_ADAPTATION",
+        message: w,
+        field: "body",
+      });
+    }
+
+    body = this.applyAgentOverride(spec, frontmatter, body);
+
+    let content = this.buildFrontmatter(frontmatter) + "\n";
+    if (options?.includeComments) {
+      content += `<!-- Converted from ${spec.sourceAgent?.id ?? "unknown"} to Continue -->\n`;
+      content += `<!-- Original: ${spec.metadata.sourceFile ?? "unknown"} -->\n\n`;
+    }
+    content += body.trim() + "\n";
+
+    const report: ConversionReport = {
+      ...this.createConversionReport(spec, "continue", startTime),
+      preservedSemantics,
+      losses,
+      warnings,
+      suggestions,
+      fidelityScore: this.calculateFidelity(losses, warnings),
+    };
+
+    return this.createSuccessResult(content, this.getTargetFilename(spec), report);
+  }
+
+  getTargetFilename(spec: ComponentSpec): string {
+    return this.getContinueTarget(spec) === "prompt" ? `${spec.id}.prompt` : `${spec.id}.md`;
+  }
+
+  getTargetDirectory(spec: ComponentSpec): string {
+    return this.getContinueTarget(spec) === "prompt" ? ".continue/prompts" : ".continue/rules";
+  }
+
+  protected override mapComponentType(
+    sourceType: ComponentSpec["componentType"],
+  ): ComponentSpec["componentType"] {
+    return sourceType === "rule" || sourceType === "memory" ? "rule" : "command";
+  }
+
+  private getContinueTarget(spec: ComponentSpec): ContinueTarget | undefined {
+    switch (spec.componentType) {
+      case "rule":
+      case "memory":
+        return "rule";
+      case "skill":
+      case "command":
+      case "workflow":
+        return "prompt";
+      default:
+        return undefined;
+    }
+  }
+
+  private transformPromptBody(
+    body: string,
+    losses: ConversionLoss[],
+    preservedSemantics: string[],
+  ): string {
+    let transformed = body;
+
+    if (transformed.includes("$ARGUMENTS")) {
+      transformed = transformed.replace(/\$ARGUMENTS/g, "{{{ input }}}");
+      preservedSemantics.push("$ARGUMENTS → {{{ input }}}");
+    }
+
+    if (/\$[1-9]/.test(transformed)) {
+      losses.push({
+        category: "content",
+        severity: "warning",
+        description: "Positional arguments ($1..$9) are not supported by Continue prompts",
+        sourceField: "body",
+        recommendation: "Use {{{ input }}} and describe the expected arguments",
+      });
+    }
+
+    const shellMatches = transformed.match(/!`[^`]+`/g);
+    if (shellMatches) {
+      transformed = transformed.replace(/!`([^`]+)`/g, "(run: `$1`)");
+      losses.push({
+        category: "execution",
+        severity: "warning",
+        description: `${shellMatches.length} shell injection(s) became prose instructions`,
+        sourceField: "body",
+      });
+    }
+
+    return transformed;
+  }
+
+  private buildFrontmatter(data: Record<string, unknown>): string {
+    const lines: string[] = ["---"];
+
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined || value === null) continue;
+
+      if (Array.isArray(value)) {
+        lines.push(`${key}:`);
+        for (const item of value) {
+          // Quote glob patterns like **/*.ts that YAML would read as aliases
+          lines.push(
+            typeof item === "string" && /^[*&!|>'"%@`{[]/.test(item)
+              ? `  - "${item.replace(/"/g, '\\"')}"`
+              : `  - ${item}`,
+          );
+        }
+      } else if (typeof value === "string") {
+        if (value.includes(":") || value.includes("#") || value.includes("\n")) {
+          lines.push(`${key}: "${value.replace(/"/g, '\\"')}"`);
+        } else {
+          lines.push(`${key}: ${value}`);
+        }
+      } else {
+        lines.push(`${key}: ${value}`);
+      }
+    }
+
+    lines.push("---");
+    return lines.join("\n");
+  }
+
+  private calculateFidelity(
+    losses: ConversionLoss[],
+    warnings: ConversionWarning[],
+  ): number {
+    let score = 100;
+
+    for (const loss of losses) {
+      if (loss.severity === "critical") score -= 20;
+      else if (loss.severity === "warning") score -= 10;
+      else score -= 5;
+    }
+
+    for (const _warning of warnings) {
+      score -= 3;
+    }
+
+    return Math.max(0, score);
+  }
+}
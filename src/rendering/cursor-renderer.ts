@@ -1,9 +1,10 @@
 /**
  * Renderer for Cursor artifacts.
  *
- * Cursor supports BOTH:
+ * Cursor supports:
  * - Commands: `.cursor/commands/<name>.md` (manual, slash-command invoked)
  * - Skills:   `.cursor/skills/<name>/SKILL.md` (agent-decided by default, can be forced manual via `disable-model-invocation`)
+ * - Rules:    `.cursor/rules/<name>.mdc` (always, auto-attached via globs, agent-requested, or manual)
  *
  * Cursor also supports Claude-compat skill discovery from `.claude/skills/` (see Cursor docs),
  * but CACE emits native Cursor locations by default.
@@ -16,7 +17,9 @@ import type {
   ConversionWarning,
 } from "../core/types.js";
 import { formatVersion } from "../core/types.js";
+import { getRuleGlobs, getRuleKind } from "../core/rule-activation.js";
 import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { MCP_TARGET_PATHS, renderMcpConfig } from "./mcp/mcp-config-renderer.js";
 
 export class CursorRenderer extends BaseRenderer {
   readonly agentId = "cursor" as const;
@@ -27,6 +30,10 @@ export class CursorRenderer extends BaseRenderer {
   ):
     | ReturnType<typeof this.createSuccessResult>
     | ReturnType<typeof this.createErrorResult> {
+    if (spec.componentType === "mcp") {
+      return renderMcpConfig(spec, "cursor");
+    }
+
     const startTime = Date.now();
     const losses: ConversionLoss[] = [];
     const warnings: ConversionWarning[] = [];
@@ -60,31 +67,7 @@ export class CursorRenderer extends BaseRenderer {
 
       // Cursor Skills spec supports optional fields like `metadata`, but Cursor does not
       // document enforcement for Claude-only fields such as `allowed-tools` or `context`.
-      if (spec.execution.context === "fork") {
-        losses.push({
-          category: "execution",
-          severity: "warning",
-          description: 'Claude "fork" context has no Cursor equivalent',
-          sourceField: "execution.context",
-        });
-      }
-      if (spec.execution.subAgent) {
-        losses.push({
-          category: "execution",
-          severity: "warning",
-          description: `Sub-agent "${spec.execution.subAgent}" is not supported in Cursor skills`,
-          sourceField: "execution.subAgent",
-        });
-      }
-      if (spec.execution.allowedTools && spec.execution.allowedTools.length > 0) {
-        losses.push({
-          category: "capability",
-          severity: "warning",
-          description:
-            "Tool restrictions cannot be enforced in Cursor skills (no documented equivalent)",
-          sourceField: "execution.allowedTools",
-        });
-      }
+      this.reportCapabilities(spec, losses, warnings, suggestions);
 
       preservedSemantics.push("Skill instructions and workflow");
       preservedSemantics.push("Skill name/description metadata");
@@ -103,6 +86,8 @@ export class CursorRenderer extends BaseRenderer {
         });
       }
 
+      body = this.applyAgentOverride(spec, frontmatter, body);
+
       // Build output. For Skill.md, YAML frontmatter MUST be the first block.
       let content = this.buildFrontmatter(frontmatter) + "\n";
       if (options?.includeComments) {
@@ -125,75 +110,91 @@ export class CursorRenderer extends BaseRenderer {
       return this.createSuccessResult(content, filename, report);
     }
 
-    // Cursor commands are plain markdown with conventional structure
-    // No frontmatter required
-
-    // Check for losses - Cursor commands have limited features vs Claude skills
-    if (spec.sourceAgent?.id === "claude") {
-      // Many Claude features don't map
-      if (spec.activation.mode !== "manual") {
-        losses.push({
-          category: "activation",
-          severity: "warning",
-          description:
-            "Cursor commands are always manual - auto/suggested activation lost",
-          sourceField: "activation.mode",
-          recommendation:
-            "All Cursor commands require explicit /command invocation",
-        });
+    // Cursor project rules are .mdc files whose frontmatter selects the rule kind
+    if (spec.componentType === "rule") {
+      const kind = getRuleKind(spec);
+      const globs = getRuleGlobs(spec);
+      const frontmatter: Record<string, unknown> = {};
+
+      switch (kind) {
+        case "always":
+          frontmatter["description"] = spec.intent.summary;
+          frontmatter["alwaysApply"] = true;
+          preservedSemantics.push("Always-applied rule (alwaysApply: true)");
+          break;
+        case "auto-attached":
+          frontmatter["description"] = spec.intent.summary;
+          frontmatter["globs"] = globs.join(",");
+          frontmatter["alwaysApply"] = false;
+          preservedSemantics.push(`Auto-attached rule for ${globs.length} glob pattern(s)`);
+          break;
+        case "agent-requested":
+          frontmatter["description"] = spec.intent.summary;
+          frontmatter["alwaysApply"] = false;
+          preservedSemantics.push("Agent-requested rule (description only)");
+          break;
+        case "manual":
+          frontmatter["alwaysApply"] = false;
+          preservedSemantics.push("Manual rule (applied when @-mentioned)");
+          break;
       }
 
-      if (spec.execution.context === "fork") {
+      if (kind === "always" && globs.length > 0) {
         losses.push({
-          category: "execution",
-          severity: "warning",
-          description: 'Claude "fork" context has no Cursor equivalent',
-          sourceField: "execution.context",
+          category: "activation",
+          severity: "info",
+          description: "Globs are ignored by Cursor when alwaysApply is true",
+          sourceField: "activation.triggers",
         });
       }
+      this.reportCapabilities(spec, losses, warnings, suggestions);
 
-      if (spec.execution.subAgent) {
-        losses.push({
-          category: "execution",
-          severity: "warning",
-          description: `Sub-agent "${spec.execution.subAgent}" is not supported in Cursor`,
-          sourceField: "execution.subAgent",
-        });
-      }
+      preservedSemantics.push("Rule instructions");
 
-      if (
-        spec.execution.allowedTools &&
-        spec.execution.allowedTools.length > 0
-      ) {
-        losses.push({
-          category: "capability",
-          severity: "warning",
-          description: "Tool restrictions cannot be enforced in Cursor",
-          sourceField: "execution.allowedTools",
-        });
+      let body = spec.body;
+      const versionAdaptation = this.adaptForVersion(body, options);
+      body = versionAdaptation.body;
+      if (versionAdaptation.adapted) {
+        preservedSemantics.push("Version-adapted content");
       }
-
-      if (spec.invocation.argumentHint) {
+      for (const w of versionAdaptation.warnings) {
         warnings.push({
-          code: "NO_STRUCTURED_ARGS",
-          message:
-            "Cursor has no structured argument system - hint converted to prose",
-          field: "invocation.argumentHint",
+          code: "VERSION_ADAPTATION",
+          message: w,
+          field: "body",
         });
       }
-    }
 
-    if (spec.sourceAgent?.id === "windsurf") {
-      if (spec.activation.mode !== "manual") {
-        losses.push({
-          category: "activation",
-          severity: "info",
-          description: "Windsurf auto_execution_mode not supported in Cursor",
-          sourceField: "activation.mode",
-        });
+      body = this.applyAgentOverride(spec, frontmatter, body);
+
+      // .mdc frontmatter MUST be the first block for Cursor to pick up the rule
+      let content = this.buildFrontmatter(frontmatter) + "\n";
+      if (options?.includeComments) {
+        content += `<!-- Converted from ${spec.sourceAgent?.id ?? "unknown"} to Cursor Rule -->\n`;
+        content += `<!-- Original: ${spec.metadata.sourceFile ?? "unknown"} -->\n\n`;
       }
+      content += body.trim() + "\n";
+
+      const fidelityScore = this.calculateFidelity(losses, warnings);
+      const report: ConversionReport = {
+        ...this.createConversionReport(spec, "cursor", startTime),
+        preservedSemantics,
+        losses,
+        warnings,
+        suggestions,
+        fidelityScore,
+      };
+
+      const filename = this.getTargetFilename(spec);
+      return this.createSuccessResult(content, filename, report);
     }
 
+    // Cursor commands are plain markdown with conventional structure
+    // No frontmatter required
+
+    // Cursor commands have limited features vs Claude skills
+    this.reportCapabilities(spec, losses, warnings, suggestions);
+
     preservedSemantics.push("Core workflow instructions");
     preservedSemantics.push("Semantic intent and purpose");
 
@@ -265,15 +266,7 @@ export class CursorRenderer extends BaseRenderer {
     content += body;
 
     // Handle agent-specific overrides
-    if (spec.agentOverrides?.cursor) {
-      const override = spec.agentOverrides.cursor;
-      if (override.bodyPrefix) {
-        content = override.bodyPrefix + "\n\n" + content;
-      }
-      if (override.bodySuffix) {
-        content = content + "\n\n" + override.bodySuffix;
-      }
-    }
+    content = this.applyAgentOverride(spec, undefined, content);
 
     // Calculate fidelity score
     const fidelityScore = this.calculateFidelity(losses, warnings);
@@ -293,16 +286,28 @@ export class CursorRenderer extends BaseRenderer {
   }
 
   getTargetFilename(spec: ComponentSpec): string {
+    if (spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.cursor.filename;
+    }
     if (spec.componentType === "skill") {
       return `${spec.id}/SKILL.md`;
     }
+    if (spec.componentType === "rule") {
+      return `${spec.id}.mdc`;
+    }
     return `${spec.id}.md`;
   }
 
   getTargetDirectory(_spec: ComponentSpec): string {
+    if (_spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.cursor.directory;
+    }
     if (_spec.componentType === "skill") {
       return ".cursor/skills";
     }
+    if (_spec.componentType === "rule") {
+      return ".cursor/rules";
+    }
     return ".cursor/commands";
   }
 
@@ -371,7 +376,12 @@ export class CursorRenderer extends BaseRenderer {
       if (Array.isArray(value)) {
         lines.push(`${key}:`);
         for (const item of value) {
-          lines.push(`  - ${item}`);
+          // Quote glob patterns like **/*.ts that YAML would read as aliases
+          lines.push(
+            typeof item === "string" && /^[*&!|>'"%@`{[]/.test(item)
+              ? `  - "${item.replace(/"/g, '\\"')}"`
+              : `  - ${item}`,
+          );
         }
       } else if (typeof value === "boolean") {
         lines.push(`${key}: ${value}`);
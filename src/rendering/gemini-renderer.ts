@@ -1,5 +1,5 @@
 /**
- * Renderer for Google Gemini CLI skills and commands
+ * Renderer for Google Gemini CLI skills, commands and sub-agents
  */
 
 import type {
@@ -10,7 +10,13 @@ import type {
   ConversionWarning,
 } from "../core/types.js";
 import { formatVersion } from "../core/types.js";
+import { stringifyToml } from "../core/toml.js";
+import { GEMINI_AUTO_ACCEPT, getConfigSpec, isCodexApprovalPolicy } from "../core/agent-config.js";
+import { parseMcpServers, renderMcpServers } from "../core/mcp-config.js";
+import { getToolPermissions, renderTools } from "../core/tool-vocabulary.js";
+import { getSubAgentSpec, subAgentLosses, translateModel } from "../core/sub-agents.js";
 import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { MCP_TARGET_PATHS, renderMcpConfig } from "./mcp/mcp-config-renderer.js";
 import matter from "gray-matter";
 
 export class GeminiRenderer extends BaseRenderer {
@@ -21,6 +27,21 @@ export class GeminiRenderer extends BaseRenderer {
     options?: RenderOptions,
   ): ReturnType<typeof this.createSuccessResult> | ReturnType<typeof this.createErrorResult> {
     const startTime = Date.now();
+
+    // Gemini CLI custom commands are TOML files
+    if (spec.componentType === "command") {
+      return this.renderTomlCommand(spec, startTime);
+    }
+    if (spec.componentType === "config") {
+      return this.renderSettings(spec, startTime);
+    }
+    if (spec.componentType === "mcp") {
+      return renderMcpConfig(spec, "gemini");
+    }
+    if (spec.componentType === "agent") {
+      return this.renderAgent(spec, startTime);
+    }
+
     const losses: ConversionLoss[] = [];
     const warnings: ConversionWarning[] = [];
     const preservedSemantics: string[] = [];
@@ -55,8 +76,9 @@ export class GeminiRenderer extends BaseRenderer {
     }
 
     // Map model
-    if (spec.metadata?.model) {
-      frontmatter.model = spec.metadata.model;
+    const model = spec.metadata?.model ?? spec.execution.preferredModel;
+    if (model) {
+      frontmatter.model = model;
       preservedSemantics.push("Model specification");
     }
 
@@ -71,11 +93,10 @@ export class GeminiRenderer extends BaseRenderer {
     }
 
     // Map built-in tools
-    const allowedTools = spec.execution.allowedTools || [];
+    const permissions = getToolPermissions(spec);
     const hasCodeExecution = 
       spec.metadata?.codeExecution || 
-      spec.metadata?.tools?.includes("code_execution") ||
-      allowedTools.some(t => ["Bash", "Shell", "Terminal", "code_execution"].includes(t)) ||
+      permissions.some(p => p.tool === "shell") ||
       spec.capabilities.needsShell;
 
     if (hasCodeExecution) {
@@ -85,8 +106,7 @@ export class GeminiRenderer extends BaseRenderer {
 
     const hasGoogleSearch = 
       spec.metadata?.googleSearch || 
-      spec.metadata?.tools?.includes("google_search") ||
-      allowedTools.some(t => ["Search", "GoogleSearch", "google_search", "WebSearch"].includes(t)) ||
+      permissions.some(p => p.tool === "web-search") ||
       spec.capabilities.needsNetwork || 
       spec.capabilities.needsBrowser;
 
@@ -95,13 +115,12 @@ export class GeminiRenderer extends BaseRenderer {
       preservedSemantics.push("Google search enabled");
     }
 
-    // Map other tools to tools array
-    const otherTools = allowedTools.filter(t => 
-      !["Bash", "Shell", "Terminal", "code_execution", "Search", "GoogleSearch", "google_search", "WebSearch"].includes(t)
-    );
-    if (otherTools.length > 0) {
-      frontmatter.tools = otherTools;
-      preservedSemantics.push(`Mapped ${otherTools.length} additional tools`);
+    // Map tools to Gemini's names (read_file, replace, run_shell_command(git), ...)
+    const tools = renderTools(spec, "gemini");
+    losses.push(...tools.losses);
+    if (tools.names.length > 0) {
+      frontmatter.tools = tools.names;
+      preservedSemantics.push(`Mapped ${tools.names.length} tools`);
     }
 
     // Map include directories
@@ -157,14 +176,7 @@ export class GeminiRenderer extends BaseRenderer {
       suggestions.push("Consider using Gemini's built-in tools instead");
     }
 
-    if (spec.metadata?.subtask) {
-      losses.push({
-        sourceField: "subtask",
-        description: "subtask isolation not supported",
-        severity: "info",
-        category: "execution",
-      });
-    }
+    this.reportCapabilities(spec, losses, warnings, suggestions);
 
     // Build body
     let body = spec.body || spec.intent.purpose || "";
@@ -174,14 +186,284 @@ export class GeminiRenderer extends BaseRenderer {
       body = `# ${spec.id}\n\n${spec.metadata.instruction}\n\n${body}`;
     }
 
+    body = this.applyAgentOverride(spec, frontmatter, body);
+
     // Render final content
     const rendered = matter.stringify(body, frontmatter);
 
-    // Calculate fidelity
-    const fidelityScore = this.calculateFidelity(spec, losses);
+    return this.createSuccessResult(
+      rendered,
+      this.getTargetFilename(spec),
+      this.buildReport(spec, startTime, losses, warnings, preservedSemantics, suggestions),
+    );
+  }
+
+  /**
+   * Render a sub-agent as .gemini/agents/<name>.md. Gemini runs sub-agents
+   * on Gemini models only, so other models are dropped with a loss.
+   */
+  private renderAgent(
+    spec: ComponentSpec,
+    startTime: number,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = ["Sub-agent definition", "System prompt"];
+    const suggestions: string[] = [];
+    const agent = getSubAgentSpec(spec);
+
+    const frontmatter: Record<string, unknown> = {
+      name: spec.id,
+      description: spec.intent.summary,
+      kind: "local",
+    };
+
+    const tools = renderTools(spec, "gemini");
+    losses.push(...tools.losses);
+    if (tools.names.length > 0) {
+      frontmatter.tools = tools.names;
+      preservedSemantics.push(`Mapped ${tools.names.length} tools`);
+    }
+
+    const model = translateModel(spec.execution.preferredModel ?? spec.metadata?.model, "gemini");
+    if (model.model) {
+      frontmatter.model = model.model;
+      preservedSemantics.push("Model specification");
+    }
+    if (model.loss) {
+      losses.push(model.loss);
+    }
+    if (agent.temperature !== undefined) {
+      frontmatter.temperature = agent.temperature;
+    }
+    if (agent.maxTurns !== undefined) {
+      frontmatter.max_turns = agent.maxTurns;
+    }
+
+    losses.push(...subAgentLosses(spec, "gemini"));
+    this.reportCapabilities(spec, losses, warnings, suggestions);
+
+    let body = spec.body || spec.intent.purpose || "";
+    body = this.applyAgentOverride(spec, frontmatter, body);
+
+    return this.createSuccessResult(
+      matter.stringify(body, frontmatter),
+      this.getTargetFilename(spec),
+      this.buildReport(spec, startTime, losses, warnings, preservedSemantics, suggestions),
+    );
+  }
+
+  /**
+   * Render a command as .gemini/commands/<namespace>/<name>.toml. Only
+   * `description` and `prompt` are supported, so execution settings are
+   * reported as losses.
+   */
+  private renderTomlCommand(
+    spec: ComponentSpec,
+    startTime: number,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = ["Manual invocation", "Slash command"];
+    const suggestions: string[] = [];
+
+    // TOML keys play the role of frontmatter for command overrides
+    const overrides: Record<string, unknown> = {};
+    const body = this.applyAgentOverride(spec, overrides, spec.body || spec.intent.purpose || "");
+
+    if (body.includes("$ARGUMENTS")) {
+      preservedSemantics.push("Arguments placeholder ({{args}})");
+    }
+    if (/!`[^`]+`/.test(body)) {
+      preservedSemantics.push("Shell injection (!{...})");
+    }
+
+    if (/\$[1-9]\b/.test(body)) {
+      losses.push({
+        sourceField: "$1..$9",
+        description: "Positional arguments are not supported in Gemini commands",
+        severity: "warning",
+        category: "content",
+        recommendation: "Use {{args}} and describe the expected argument order in the prompt",
+      });
+      suggestions.push("Use {{args}} and describe the expected argument order in the prompt");
+    }
+
+    this.reportCapabilities(spec, losses, warnings, suggestions);
+
+    if (spec.metadata?.temperature !== undefined) {
+      losses.push({
+        sourceField: "temperature",
+        description: "temperature cannot be set on Gemini TOML commands",
+        severity: "info",
+        category: "execution",
+      });
+    }
+
+    const rendered = stringifyToml({
+      description: spec.intent.summary || undefined,
+      prompt: `${this.toGeminiPrompt(body).trimEnd()}\n`,
+      ...overrides,
+    });
+
+    return this.createSuccessResult(
+      rendered,
+      this.getTargetFilename(spec),
+      this.buildReport(spec, startTime, losses, warnings, preservedSemantics, suggestions),
+    );
+  }
+
+  /**
+   * Render a config component (e.g. Codex config.toml) as settings.json.
+   * See core/agent-config.ts for the approval/sandbox mapping.
+   */
+  private renderSettings(
+    spec: ComponentSpec,
+    startTime: number,
+  ): ReturnType<typeof this.createSuccessResult> {
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const preservedSemantics: string[] = [];
+    const suggestions: string[] = [];
+    const config = getConfigSpec(spec);
+    const { approvalPolicy, sandboxMode, webSearch, mcpServers, features } = spec.metadata ?? {};
+    const model = spec.metadata?.model ?? spec.execution.preferredModel;
+
+    const settings: Record<string, unknown> = {};
+    const tools: Record<string, unknown> = {};
+
+    if (model) {
+      settings.model = { name: model };
+      preservedSemantics.push("Model");
+      if (spec.sourceAgent?.id !== this.agentId) {
+        warnings.push({
+          code: "MODEL_NAME",
+          message: `Model '${model}' comes from ${spec.sourceAgent?.id ?? "another agent"}; use a Gemini model name`,
+          field: "model.name",
+        });
+      }
+    }
+
+    if (approvalPolicy) {
+      if (isCodexApprovalPolicy(approvalPolicy)) {
+        tools.autoAccept = GEMINI_AUTO_ACCEPT[approvalPolicy];
+        preservedSemantics.push(`Approval policy '${approvalPolicy}' as tools.autoAccept`);
+        if (approvalPolicy === "never") {
+          losses.push({
+            sourceField: "approvalPolicy",
+            description: "Gemini settings can only auto-accept read-only tools; full auto-approval needs --yolo",
+            severity: "warning",
+            category: "security",
+            recommendation: "Start Gemini with --approval-mode=yolo to skip all approvals",
+          });
+          suggestions.push("Start Gemini with --approval-mode=yolo to skip all approvals");
+        }
+      } else {
+        losses.push({
+          sourceField: "approvalPolicy",
+          description: `Approval policy '${approvalPolicy}' has no Gemini equivalent`,
+          severity: "warning",
+          category: "security",
+        });
+      }
+    }
+
+    if (sandboxMode) {
+      tools.sandbox = sandboxMode !== "danger-full-access";
+      preservedSemantics.push(`Sandbox mode '${sandboxMode}' as tools.sandbox`);
+      if (sandboxMode === "read-only") {
+        losses.push({
+          sourceField: "sandboxMode",
+          description: "Gemini's sandbox does not distinguish read-only from workspace-write",
+          severity: "info",
+          category: "security",
+        });
+      }
+    }
+
+    if (webSearch === "disabled") {
+      tools.exclude = ["google_web_search"];
+      preservedSemantics.push("Web search disabled");
+    }
+
+    if (Object.keys(tools).length > 0) {
+      settings.tools = tools;
+    }
 
-    // Build report
-    const report: ConversionReport = {
+    if (mcpServers) {
+      // Config metadata keeps Codex's [mcp_servers] shape
+      const { servers } = parseMcpServers("codex", mcpServers);
+      const rendered = renderMcpServers("gemini", servers, spec.sourceAgent?.id);
+      settings.mcpServers = rendered.servers;
+      losses.push(...rendered.losses);
+      preservedSemantics.push(`${servers.length} MCP server(s)`);
+    }
+
+    if (config?.profiles) {
+      losses.push({
+        sourceField: "profiles",
+        description: `Profiles have no Gemini equivalent: ${Object.keys(config.profiles).join(", ")}`,
+        severity: "info",
+        category: "configuration",
+      });
+    }
+    if (config?.settings) {
+      losses.push({
+        sourceField: "settings",
+        description: `Settings with no Gemini equivalent: ${Object.keys(config.settings).join(", ")}`,
+        severity: "info",
+        category: "configuration",
+      });
+    }
+    if (features && Object.keys(features).length > 0) {
+      losses.push({
+        sourceField: "features",
+        description: `Feature flags dropped: ${Object.keys(features).join(", ")}`,
+        severity: "info",
+        category: "configuration",
+      });
+    }
+
+    const report = this.buildReport(spec, startTime, losses, warnings, preservedSemantics, suggestions);
+    return {
+      ...this.createSuccessResult(
+        JSON.stringify(settings, null, 2) + "\n",
+        this.getTargetFilename(spec),
+        report,
+      ),
+      // Other keys of settings.json are kept when the CLI merges this in
+      partial: true,
+    };
+  }
+
+  /**
+   * Convert the IR's Claude syntax to Gemini prompt syntax:
+   * $ARGUMENTS → {{args}} and !`cmd` → !{cmd}
+   */
+  private toGeminiPrompt(body: string): string {
+    return body
+      .replace(/!`([^`]+)`/g, "!{$1}")
+      .replace(/\$ARGUMENTS/g, "{{args}}");
+  }
+
+  /**
+   * Command path segments from the slash command, e.g. git:commit → [git, commit]
+   */
+  private getCommandSegments(spec: ComponentSpec): string[] {
+    const name = (spec.invocation.slashCommand || spec.id).replace(/^\//, "");
+    const segments = name.split(":").filter(Boolean);
+    return segments.length > 0 ? segments : [spec.id];
+  }
+
+  private buildReport(
+    spec: ComponentSpec,
+    startTime: number,
+    losses: ConversionLoss[],
+    warnings: ConversionWarning[],
+    preservedSemantics: string[],
+    suggestions: string[],
+  ): ConversionReport {
+    return {
       source: {
         agent: spec.sourceAgent?.id || this.agentId,
         componentType: spec.componentType,
@@ -192,7 +474,7 @@ export class GeminiRenderer extends BaseRenderer {
         componentType: spec.componentType,
         id: spec.id,
       },
-      fidelityScore,
+      fidelityScore: this.calculateFidelity(spec, losses),
       convertedAt: new Date().toISOString(),
       durationMs: Date.now() - startTime,
       losses,
@@ -200,12 +482,6 @@ export class GeminiRenderer extends BaseRenderer {
       preservedSemantics,
       suggestions,
     };
-
-    return this.createSuccessResult(
-      rendered,
-      this.getTargetFilename(spec),
-      report,
-    );
   }
 
   getTargetDirectory(spec: ComponentSpec): string {
@@ -213,9 +489,15 @@ export class GeminiRenderer extends BaseRenderer {
       case "skill":
         return `.gemini/skills/${spec.id}`;
       case "command":
-        return `.gemini/commands`;
+        return [".gemini/commands", ...this.getCommandSegments(spec).slice(0, -1)].join("/");
       case "memory":
         return `.gemini/memory`;
+      case "agent":
+        return `.gemini/agents`;
+      case "config":
+        return `.gemini`;
+      case "mcp":
+        return MCP_TARGET_PATHS.gemini.directory;
       default:
         return `.gemini`;
     }
@@ -226,9 +508,13 @@ export class GeminiRenderer extends BaseRenderer {
       case "skill":
         return "SKILL.md";
       case "command":
-        return `${spec.id}.md`;
+        return `${this.getCommandSegments(spec).at(-1)}.toml`;
       case "memory":
         return `${spec.id}.md`;
+      case "config":
+        return "settings.json";
+      case "mcp":
+        return MCP_TARGET_PATHS.gemini.filename;
       default:
         return `${spec.id}.md`;
     }
@@ -0,0 +1,126 @@
+/**
+ * Claude Hooks Renderer - Renders hook components to .claude/settings.json
+ *
+ * Hooks from other agents are mapped to Claude events and matchers via
+ * core/hook-mapping.ts; hooks without an equivalent are reported as losses.
+ */
+
+import type { AgentId, ComponentSpec, ConversionLoss, ConversionReport, RenderResult } from '../../core/types.js';
+import { getHooks, translateHooks } from '../../core/hook-mapping.js';
+
+interface ClaudeHookEntry {
+  type: 'command';
+  command: string;
+  timeout?: number;
+}
+
+interface ClaudeHookMatcher {
+  matcher?: string;
+  hooks: ClaudeHookEntry[];
+}
+
+/**
+ * Render a hook ComponentSpec as Claude settings.json
+ */
+export function renderClaudeHooks(spec: ComponentSpec): RenderResult {
+  const startTime = Date.now();
+  const { hooks, losses } = translateHooks(getHooks(spec), 'claude');
+
+  if (hooks.length === 0) {
+    return {
+      success: false,
+      errors: ['No hooks can be rendered for Claude', ...losses.map(l => l.description)],
+    };
+  }
+
+  const events: Record<string, ClaudeHookMatcher[]> = {};
+  for (const hook of hooks) {
+    const groups = (events[hook.event] ??= []);
+    let group = groups.find(g => g.matcher === hook.matcher);
+    if (!group) {
+      group = hook.matcher === undefined ? { hooks: [] } : { matcher: hook.matcher, hooks: [] };
+      groups.push(group);
+    }
+
+    const entry: ClaudeHookEntry = { type: 'command', command: hook.command };
+    if (hook.timeout !== undefined) {
+      entry.timeout = Math.ceil(hook.timeout / 1000);
+    }
+    group.hooks.push(entry);
+  }
+
+  const withWorkingDirectory = hooks.filter(h => h.workingDirectory);
+  if (withWorkingDirectory.length > 0) {
+    losses.push({
+      category: 'execution',
+      severity: 'info',
+      description: `Claude hooks run in the project directory; working directory dropped from ${withWorkingDirectory.length} hook(s)`,
+      sourceField: 'hooks.workingDirectory',
+      recommendation: 'Prefix the command with cd <directory> &&',
+    });
+  }
+  if (hooks.some(h => h.showOutput)) {
+    losses.push({
+      category: 'execution',
+      severity: 'info',
+      description: 'Claude has no show_output option; hook output is shown in transcript mode',
+      sourceField: 'hooks.showOutput',
+    });
+  }
+
+  const preservedSemantics = [...new Set(hooks.map(h => (h.matcher ? `${h.event} (${h.matcher})` : h.event)))];
+  const report: ConversionReport = {
+    source: {
+      agent: spec.sourceAgent?.id ?? 'claude',
+      componentType: spec.componentType,
+      id: spec.id,
+    },
+    target: {
+      agent: 'claude',
+      componentType: 'hook',
+      id: spec.id,
+    },
+    preservedSemantics,
+    losses,
+    warnings: [],
+    suggestions: losses.flatMap(l => (l.recommendation ? [l.recommendation] : [])),
+    fidelityScore: calculateFidelity(losses),
+    convertedAt: new Date().toISOString(),
+    durationMs: Date.now() - startTime,
+  };
+
+  return {
+    success: true,
+    content: JSON.stringify({ hooks: events }, null, 2) + '\n',
+    filename: 'settings.json',
+    errors: [],
+    report,
+    partial: true,
+  };
+}
+
+function calculateFidelity(losses: ConversionLoss[]): number {
+  let score = 100;
+  for (const loss of losses) {
+    if (loss.severity === 'critical') score -= 20;
+    else if (loss.severity === 'warning') score -= 10;
+    else score -= 5;
+  }
+  return Math.max(0, score);
+}
+
+/**
+ * Claude Hooks Renderer class
+ */
+export class ClaudeHooksRenderer {
+  readonly agentId: AgentId = 'claude';
+  readonly supportedTypes = ['hook'] as const;
+
+  render(spec: ComponentSpec): RenderResult {
+    return renderClaudeHooks(spec);
+  }
+
+  getOutputPath(_spec: ComponentSpec): string {
+    return '.claude/settings.json';
+  }
+}
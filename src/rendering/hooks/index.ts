@@ -0,0 +1,6 @@
+/**
+ * Hook renderers index
+ */
+
+export * from './claude-hooks-renderer.js';
+export * from './windsurf-hooks-renderer.js';
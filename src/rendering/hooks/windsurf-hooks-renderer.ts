@@ -0,0 +1,103 @@
+/**
+ * Windsurf Hooks Renderer - Renders hook components to .windsurf/hooks.json
+ *
+ * Claude events and matchers are mapped to Cascade events via
+ * core/hook-mapping.ts; hooks without an equivalent are reported as losses.
+ */
+
+import type { AgentId, ComponentSpec, ConversionLoss, ConversionReport, RenderResult } from '../../core/types.js';
+import { getHooks, translateHooks } from '../../core/hook-mapping.js';
+
+interface WindsurfHookEntry {
+  command: string;
+  show_output?: boolean;
+  working_directory?: string;
+}
+
+/**
+ * Render a hook ComponentSpec as Windsurf hooks.json
+ */
+export function renderWindsurfHooks(spec: ComponentSpec): RenderResult {
+  const startTime = Date.now();
+  const { hooks, losses } = translateHooks(getHooks(spec), 'windsurf');
+
+  if (hooks.length === 0) {
+    return {
+      success: false,
+      errors: ['No hooks can be rendered for Windsurf', ...losses.map(l => l.description)],
+    };
+  }
+
+  const events: Record<string, WindsurfHookEntry[]> = {};
+  for (const hook of hooks) {
+    const entry: WindsurfHookEntry = { command: hook.command };
+    if (hook.showOutput !== undefined) entry.show_output = hook.showOutput;
+    if (hook.workingDirectory) entry.working_directory = hook.workingDirectory;
+    (events[hook.event] ??= []).push(entry);
+  }
+
+  const withTimeout = hooks.filter(h => h.timeout !== undefined);
+  if (withTimeout.length > 0) {
+    losses.push({
+      category: 'execution',
+      severity: 'info',
+      description: `Windsurf hooks have no timeout; timeout dropped from ${withTimeout.length} hook(s)`,
+      sourceField: 'hooks.timeout',
+      recommendation: 'Wrap the command with timeout <seconds> if it may hang',
+    });
+  }
+
+  const report: ConversionReport = {
+    source: {
+      agent: spec.sourceAgent?.id ?? 'claude',
+      componentType: spec.componentType,
+      id: spec.id,
+    },
+    target: {
+      agent: 'windsurf',
+      componentType: 'hook',
+      id: spec.id,
+    },
+    preservedSemantics: [...new Set(hooks.map(h => h.event))],
+    losses,
+    warnings: [],
+    suggestions: losses.flatMap(l => (l.recommendation ? [l.recommendation] : [])),
+    fidelityScore: calculateFidelity(losses),
+    convertedAt: new Date().toISOString(),
+    durationMs: Date.now() - startTime,
+  };
+
+  return {
+    success: true,
+    content: JSON.stringify({ hooks: events }, null, 2) + '\n',
+    filename: 'hooks.json',
+    errors: [],
+    report,
+  };
+}
+
+function calculateFidelity(losses: ConversionLoss[]): number {
+  let score = 100;
+  for (const loss of losses) {
+    if (loss.severity === 'critical') score -= 20;
+    else if (loss.severity === 'warning') score -= 10;
+    else score -= 5;
+  }
+  return Math.max(0, score);
+}
+
+/**
+ * Windsurf Hooks Renderer class
+ */
+export class WindsurfHooksRenderer {
+  readonly agentId: AgentId = 'windsurf';
+  readonly supportedTypes = ['hook'] as const;
+
+  render(spec: ComponentSpec): RenderResult {
+    return renderWindsurfHooks(spec);
+  }
+
+  getOutputPath(_spec: ComponentSpec): string {
+    return '.windsurf/hooks.json';
+  }
+}
@@ -7,6 +7,17 @@ export * from './renderer-factory.js';
 export * from './claude-renderer.js';
 export * from './windsurf-renderer.js';
 export * from './cursor-renderer.js';
+export * from './aider-renderer.js';
+export * from './continue-renderer.js';
 
 // Memory renderers
 export * from './memory/index.js';
+
+// Canonical source renderer
+export * from './canonical/index.js';
+
+// Hook renderers
+export * from './hooks/index.js';
+
+// MCP config renderers
+export * from './mcp/index.js';
@@ -0,0 +1,5 @@
+/**
+ * MCP config renderers index
+ */
+
+export * from './mcp-config-renderer.js';
@@ -0,0 +1,115 @@
+/**
+ * MCP Config Renderer - Renders mcp components in each agent's format
+ *
+ * Servers are written to the file the agent reads (see MCP_TARGET_PATHS);
+ * fields the agent cannot express are reported as losses by
+ * core/mcp-config.ts.
+ */
+
+import type { ComponentSpec, ConversionLoss, ConversionReport, RenderResult } from '../../core/types.js';
+import { getMcpServers, MCP_SERVERS_KEY, renderMcpServers, type McpAgent } from '../../core/mcp-config.js';
+import { stringifyToml } from '../../core/toml.js';
+
+export interface McpTargetPath {
+  directory: string;
+  filename: string;
+}
+
+export const MCP_TARGET_PATHS: Record<McpAgent, McpTargetPath> = {
+  claude: { directory: '.', filename: '.mcp.json' },
+  cursor: { directory: '.cursor', filename: 'mcp.json' },
+  windsurf: { directory: '.codeium/windsurf', filename: 'mcp_config.json' },
+  gemini: { directory: '.gemini', filename: 'settings.json' },
+  codex: { directory: '.codex', filename: 'config.toml' },
+  opencode: { directory: '.', filename: 'opencode.json' },
+};
+
+/**
+ * Render an mcp ComponentSpec for the given agent
+ */
+export function renderMcpConfig(spec: ComponentSpec, agent: McpAgent): RenderResult {
+  const startTime = Date.now();
+  const servers = getMcpServers(spec);
+
+  if (servers.length === 0) {
+    return { success: false, errors: ['No MCP servers to render'] };
+  }
+
+  const { servers: rendered, losses } = renderMcpServers(agent, servers, spec.sourceAgent?.id);
+  const key = MCP_SERVERS_KEY[agent];
+
+  let content: string;
+  if (agent === 'codex') {
+    content = stringifyToml({ [key]: rendered });
+  } else if (agent === 'opencode') {
+    content = JSON.stringify({ $schema: 'https://opencode.ai/config.json', [key]: rendered }, null, 2) + '\n';
+  } else {
+    content = JSON.stringify({ [key]: rendered }, null, 2) + '\n';
+  }
+
+  const suggestions = losses.flatMap(l => (l.recommendation ? [l.recommendation] : []));
+  if (agent === 'windsurf') {
+    suggestions.push('Windsurf only reads MCP servers from ~/.codeium/windsurf/mcp_config.json; merge this file there');
+  }
+  if (agent === 'gemini' || agent === 'codex' || agent === 'opencode') {
+    suggestions.push(`Merge ${key} into any existing ${MCP_TARGET_PATHS[agent].filename}`);
+  }
+
+  const report: ConversionReport = {
+    source: {
+      agent: spec.sourceAgent?.id ?? 'claude',
+      componentType: spec.componentType,
+      id: spec.id,
+    },
+    target: {
+      agent,
+      componentType: 'mcp',
+      id: spec.id,
+    },
+    preservedSemantics: servers.map(s => `MCP server '${s.name}' (${s.transport})`),
+    losses,
+    warnings: [],
+    suggestions,
+    fidelityScore: calculateFidelity(losses),
+    convertedAt: new Date().toISOString(),
+    durationMs: Date.now() - startTime,
+  };
+
+  return {
+    success: true,
+    content,
+    filename: MCP_TARGET_PATHS[agent].filename,
+    errors: [],
+    report,
+    // Gemini and OpenCode keep their other settings in the same file
+    partial: agent === 'gemini' || agent === 'opencode',
+  };
+}
+
+function calculateFidelity(losses: ConversionLoss[]): number {
+  let score = 100;
+  for (const loss of losses) {
+    if (loss.severity === 'critical') score -= 20;
+    else if (loss.severity === 'warning') score -= 10;
+    else score -= 5;
+  }
+  return Math.max(0, score);
+}
+
+/**
+ * MCP Config Renderer class
+ */
+export class McpConfigRenderer {
+  readonly supportedTypes = ['mcp'] as const;
+
+  constructor(readonly agentId: McpAgent) {}
+
+  render(spec: ComponentSpec): RenderResult {
+    return renderMcpConfig(spec, this.agentId);
+  }
+
+  getOutputPath(_spec: ComponentSpec): string {
+    const { directory, filename } = MCP_TARGET_PATHS[this.agentId];
+    return `${directory}/${filename}`;
+  }
+}
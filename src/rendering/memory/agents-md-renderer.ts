@@ -9,6 +9,8 @@ import type { AgentId, ComponentSpec, RenderResult, ConversionReport } from '../
 export interface AgentsMdRenderOptions {
   outputPath?: string;
   includeMetadata?: boolean;
+  /** Apply the component's agent overrides to the markdown body */
+  applyOverride?: (content: string) => string;
 }
 
 /**
@@ -38,14 +40,18 @@ export function renderAgentsMd(
       content += `${spec.intent.purpose}\n\n`;
     }
   }
+
+  if (options?.applyOverride) {
+    content = options.applyOverride(content);
+  }
   
-  // Check for imports that need to be inlined
+  // Imports whose content was loaded are inlined before rendering (see ./imports.ts)
   const extendedSpec = spec as ComponentSpec & { 
-    memorySpec?: { imports?: Array<{ path: string; resolved?: string }> } 
+    memorySpec?: { imports?: Array<{ path: string; content?: string }> } 
   };
   
   if (extendedSpec.memorySpec?.imports && extendedSpec.memorySpec.imports.length > 0) {
-    const unresolvedImports = extendedSpec.memorySpec.imports.filter(i => !i.resolved);
+    const unresolvedImports = extendedSpec.memorySpec.imports.filter(i => i.content === undefined);
     if (unresolvedImports.length > 0) {
       losses.push({
         category: 'content',
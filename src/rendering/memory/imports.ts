@@ -0,0 +1,91 @@
+/**
+ * Import rendering - Carries memory @imports over to the target agent
+ *
+ * Agents with imports keep them as `@path` lines; for the others the content
+ * the parser loaded for each import is inlined into the body. Imports that
+ * could not be loaded are left for the renderer to report.
+ */
+
+import type { AgentId, ComponentSpec, ConversionReport, ExtendedComponentFields, ImportSpec } from '../../core/types.js';
+import { AGENTS } from '../../core/constants.js';
+import { NATIVE_IMPORT_AGENTS, extractImports, inlineImports, type ImportMode } from '../../core/memory-imports.js';
+
+export interface PreparedImports {
+  /** The component with its body ready for the target */
+  spec: ComponentSpec;
+  mode: ImportMode;
+  /** Imports kept as the target's own `@path` imports */
+  kept: ImportSpec[];
+  inlined: ImportSpec[];
+  /** Imports with no loaded content to inline */
+  unresolved: ImportSpec[];
+}
+
+/**
+ * Rewrite the body of a memory component for the target's import support.
+ * Native mode falls back to inline for targets without imports.
+ */
+export function prepareImports(spec: ComponentSpec, targetAgent: AgentId, mode?: ImportMode): PreparedImports {
+  const memorySpec = (spec as ComponentSpec & ExtendedComponentFields).memorySpec;
+  const imports = memorySpec?.imports ?? [];
+  const native = mode !== 'inline' && NATIVE_IMPORT_AGENTS.includes(targetAgent);
+
+  if (!memorySpec || imports.length === 0) {
+    return { spec, mode: native ? 'native' : 'inline', kept: [], inlined: [], unresolved: [] };
+  }
+
+  // Aider loads the imports of a memory with no body of its own through .aider.conf.yml read:
+  if (targetAgent === 'aider' && !spec.body.trim()) {
+    return { spec, mode: 'native', kept: imports, inlined: [], unresolved: [] };
+  }
+
+  if (native) {
+    // Imports the body doesn't mention (e.g. Aider read: files) become @path lines
+    const mentioned = new Set(extractImports(spec.body).map((imp) => imp.path));
+    const missing = imports.filter((imp) => !mentioned.has(imp.path));
+    const body = missing.length > 0
+      ? [spec.body.trimEnd(), ...missing.map((imp) => `@${imp.path}`)].join('\n').trimStart() + '\n'
+      : spec.body;
+    return { spec: { ...spec, body }, mode: 'native', kept: imports, inlined: [], unresolved: [] };
+  }
+
+  const inlined = imports.filter((imp) => imp.content !== undefined);
+  const unresolved = imports.filter((imp) => imp.content === undefined);
+  const prepared = {
+    ...spec,
+    body: inlineImports(spec.body, inlined),
+    memorySpec: { ...memorySpec, imports: unresolved },
+  } as ComponentSpec;
+  return { spec: prepared, mode: 'inline', kept: [], inlined, unresolved };
+}
+
+/**
+ * Add how the imports were carried over to a render report. Renderers that
+ * already report unresolved imports keep their own wording; imports that
+ * failed inside inlined files are always added.
+ */
+export function reportImports(report: ConversionReport, prepared: PreparedImports, targetAgent: AgentId): void {
+  if (prepared.kept.length > 0) {
+    report.preservedSemantics.push(`${prepared.kept.length} @imports`);
+  }
+  if (prepared.inlined.length > 0) {
+    report.preservedSemantics.push(`${prepared.inlined.length} @imports inlined`);
+  }
+
+  const reported = report.losses.some((loss) => loss.sourceField === 'memorySpec.imports');
+  const paths = [
+    ...(reported ? [] : prepared.unresolved.map((imp) => (imp.error ? `@${imp.path} (${imp.error})` : `@${imp.path}`))),
+    // Inlined files keep the imports they could not load as raw @path lines
+    ...prepared.inlined.flatMap((imp) => imp.nestedErrors ?? []),
+  ];
+  if (paths.length === 0) return;
+
+  report.losses.push({
+    category: 'content',
+    severity: 'warning',
+    description: `${paths.length} @imports could not be inlined for ${AGENTS[targetAgent].displayName}: ${paths.join(', ')}`,
+    sourceField: 'memorySpec.imports',
+    recommendation: 'Convert from the memory file on disk so its imports can be loaded, or inline them manually',
+  });
+  report.fidelityScore = Math.max(0, report.fidelityScore - 10);
+}
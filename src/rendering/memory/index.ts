@@ -3,3 +3,4 @@
  */
 
 export * from './agents-md-renderer.js';
+export * from './imports.js';
@@ -3,16 +3,35 @@
  * Renders components to OpenCode format (skills, commands, agents)
  */
 
-import type { ComponentSpec, RenderResult, ConversionReport } from "../core/types.js";
+import type {
+  ComponentSpec,
+  RenderResult,
+  ConversionReport,
+  ConversionLoss,
+  ConversionWarning,
+} from "../core/types.js";
+import { renderTools } from "../core/tool-vocabulary.js";
+import { getSubAgentSpec, subAgentLosses, translateModel } from "../core/sub-agents.js";
 import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { MCP_TARGET_PATHS, renderMcpConfig } from "./mcp/mcp-config-renderer.js";
 import matter from "gray-matter";
 
 export class OpenCodeRenderer extends BaseRenderer {
   readonly agentId = "opencode" as const;
 
   render(spec: ComponentSpec, options?: RenderOptions): RenderResult {
+    if (spec.componentType === "mcp") {
+      return renderMcpConfig(spec, "opencode");
+    }
+
     const startTime = Date.now();
-    const warnings: string[] = [];
+    const losses: ConversionLoss[] = [];
+    const warnings: ConversionWarning[] = [];
+    const suggestions: string[] = [
+      "Review $ARGUMENTS placeholders for command inputs",
+      "Verify subtask mode matches your isolation needs",
+    ];
+    this.reportCapabilities(spec, losses, warnings, suggestions);
 
     // Determine component type mapping
     const componentType = this.mapComponentType(spec.componentType);
@@ -22,6 +41,11 @@ export class OpenCodeRenderer extends BaseRenderer {
       description: spec.intent.summary || spec.intent.purpose,
     };
 
+    // Skills and agents are identified by name; commands by filename
+    if (componentType === "skill" || componentType === "agent") {
+      frontmatter.name = spec.id;
+    }
+
     // Add type-specific frontmatter
     if (componentType === "skill") {
       if (spec.execution.subAgent) {
@@ -37,16 +61,42 @@ export class OpenCodeRenderer extends BaseRenderer {
       if (spec.execution.subAgent) {
         frontmatter.agent = spec.execution.subAgent;
       }
+      if (spec.execution.context === "fork") {
+        frontmatter.subtask = true;
+      }
     }
 
     if (componentType === "agent") {
-      if (spec.execution.preferredModel) {
-        frontmatter.model = spec.execution.preferredModel;
+      const agent = getSubAgentSpec(spec);
+      frontmatter.mode = agent.mode;
+      const model = translateModel(spec.execution.preferredModel, "opencode");
+      if (model.model) {
+        frontmatter.model = model.model;
+      }
+      if (agent.temperature !== undefined) {
+        frontmatter.temperature = agent.temperature;
       }
+      if (agent.maxTurns !== undefined) {
+        frontmatter.maxSteps = agent.maxTurns;
+      }
+      const tools = renderTools(spec, "opencode");
+      losses.push(...tools.losses);
+      if (tools.names.length > 0) {
+        frontmatter.tools = tools.names;
+      }
+      if (agent.permissions) {
+        // { "*": "ask" } was parsed from `permission: ask`
+        const all = Object.keys(agent.permissions).length === 1 ? agent.permissions["*"] : undefined;
+        frontmatter.permission = typeof all === "string" ? all : agent.permissions;
+      }
+      if (agent.hidden !== undefined) {
+        frontmatter.hidden = agent.hidden;
+      }
+      losses.push(...subAgentLosses(spec, "opencode"));
     }
 
     // Build body
-    let body = spec.body;
+    let body = this.applyAgentOverride(spec, frontmatter, spec.body);
 
     // Adapt body for OpenCode if needed
     if (options?.includeComments) {
@@ -78,13 +128,10 @@ export class OpenCodeRenderer extends BaseRenderer {
         ...(spec.execution.subAgent ? ["agent delegation"] : []),
         ...(spec.execution.context === "fork" ? ["subtask isolation"] : []),
       ],
-      losses: [],
-      warnings: warnings.map(w => ({ code: "RENDER_WARNING", message: w })),
-      suggestions: [
-        "Review $ARGUMENTS placeholders for command inputs",
-        "Verify subtask mode matches your isolation needs",
-      ],
-      fidelityScore: 95, // OpenCode has good feature parity
+      losses,
+      warnings,
+      suggestions,
+      fidelityScore: Math.max(0, 95 - losses.length * 5), // OpenCode has good feature parity
       convertedAt: new Date().toISOString(),
       durationMs: Date.now() - startTime,
     };
@@ -93,6 +140,9 @@ export class OpenCodeRenderer extends BaseRenderer {
   }
 
   getTargetFilename(spec: ComponentSpec): string {
+    if (spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.opencode.filename;
+    }
     const type = this.mapComponentType(spec.componentType);
     
     switch (type) {
@@ -108,6 +158,9 @@ export class OpenCodeRenderer extends BaseRenderer {
   }
 
   getTargetDirectory(spec: ComponentSpec): string {
+    if (spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.opencode.directory;
+    }
     const type = this.mapComponentType(spec.componentType);
     
     switch (type) {
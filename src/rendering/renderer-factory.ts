@@ -2,7 +2,9 @@
  * Renderer factory for creating agent-specific renderers
  */
 
-import type { AgentId, ComponentSpec, RenderResult } from "../core/types.js";
+import type { AgentId, ComponentSpec, ConversionReport, RenderResult } from "../core/types.js";
+import { AGENTS } from "../core/constants.js";
+import { getConfigSpec } from "../core/agent-config.js";
 import type { AgentRenderer, RenderOptions } from "./renderer-interface.js";
 import { ClaudeRenderer } from "./claude-renderer.js";
 import { WindsurfRenderer } from "./windsurf-renderer.js";
@@ -11,6 +13,11 @@ import { UniversalRenderer } from "./universal-renderer.js";
 import { OpenCodeRenderer } from "./opencode-renderer.js";
 import { CodexRenderer } from "./codex-renderer.js";
 import { GeminiRenderer } from "./gemini-renderer.js";
+import { AiderRenderer } from "./aider-renderer.js";
+import { ContinueRenderer } from "./continue-renderer.js";
+import { prepareImports, reportImports } from "./memory/imports.js";
+import { prepareSkillAssets, reportSkillAssets } from "./skill-assets.js";
+import { prepareSubAgent, reportSubAgent } from "./sub-agents.js";
 
 const renderers: Map<AgentId, AgentRenderer> = new Map();
 
@@ -22,6 +29,8 @@ renderers.set("universal", new UniversalRenderer());
 renderers.set("opencode", new OpenCodeRenderer());
 renderers.set("codex", new CodexRenderer());
 renderers.set("gemini", new GeminiRenderer());
+renderers.set("aider", new AiderRenderer());
+renderers.set("continue", new ContinueRenderer());
 
 export function getRenderer(agentId: AgentId): AgentRenderer | undefined {
   return renderers.get(agentId);
@@ -35,6 +44,24 @@ export function getSupportedRenderers(): AgentId[] {
   return Array.from(renderers.keys());
 }
 
+/**
+ * Report the settings a memory component carries from its source's config
+ * file (the keys of .aider.conf.yml besides read: and model:), which only
+ * the source agent's renderer writes back
+ */
+function reportMemorySettings(report: ConversionReport, spec: ComponentSpec, targetAgent: AgentId): void {
+  const settings = getConfigSpec(spec)?.settings;
+  if (spec.componentType !== "memory" || !settings || targetAgent === spec.sourceAgent?.id) return;
+
+  const source = spec.sourceAgent ? AGENTS[spec.sourceAgent.id].displayName : "Source";
+  report.losses.push({
+    category: "configuration",
+    severity: "info",
+    description: `${source} settings dropped; ${AGENTS[targetAgent].displayName} has no equivalent: ${Object.keys(settings).join(", ")}`,
+    sourceField: "settings",
+  });
+}
+
 export function renderComponent(
   spec: ComponentSpec,
   targetAgent: AgentId,
@@ -49,7 +76,20 @@ export function renderComponent(
     };
   }
 
-  return renderer.render(spec, options);
+  const subAgent = prepareSubAgent(spec, targetAgent);
+  const prepared = prepareImports(subAgent.spec, targetAgent, options?.imports);
+  const assets = prepareSkillAssets(prepared.spec, renderer);
+  const result = renderer.render(assets.spec, options);
+  if (result.report) {
+    reportSubAgent(result.report, subAgent, targetAgent);
+    reportImports(result.report, prepared, targetAgent);
+    reportSkillAssets(result.report, assets, targetAgent);
+    reportMemorySettings(result.report, spec, targetAgent);
+  }
+  if (result.success && assets.copied.length > 0) {
+    result.assets = assets.copied;
+  }
+  return result;
 }
 
 export function getTargetPath(
@@ -61,7 +101,8 @@ export function getTargetPath(
     return `${spec.id}.md`;
   }
 
-  const dir = renderer.getTargetDirectory(spec);
-  const filename = renderer.getTargetFilename(spec);
+  const rendered = prepareSubAgent(spec, targetAgent).spec;
+  const dir = renderer.getTargetDirectory(rendered);
+  const filename = renderer.getTargetFilename(rendered);
   return `${dir}/${filename}`;
 }
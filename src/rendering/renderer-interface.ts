@@ -7,13 +7,17 @@ import type {
   ComponentSpec,
   RenderResult,
   ConversionReport,
+  ConversionLoss,
+  ConversionWarning,
 } from "../core/types.js";
+import type { ImportMode } from "../core/memory-imports.js";
 import {
   adaptVersion,
   needsAdaptation,
   getDefaultTargetVersion,
 } from "../versioning/version-adapter.js";
 import { validate, type ValidationResult } from "../validation/index.js";
+import { mapCapabilities } from "../transformation/capability-mapper.js";
 
 export interface RenderOptions {
   includeComments?: boolean;
@@ -26,6 +30,11 @@ export interface RenderOptions {
   validateOutput?: boolean;
   /** Strict validation mode */
   strictValidation?: boolean;
+  /**
+   * How to carry memory @imports over (default: native where the target
+   * supports imports, inline elsewhere)
+   */
+  imports?: ImportMode;
 }
 
 export interface AgentRenderer {
@@ -168,6 +177,48 @@ export abstract class BaseRenderer implements AgentRenderer {
     return mappings[sourceType] ?? sourceType;
   }
 
+  /**
+   * Apply the component's agentOverrides for this agent: frontmatter keys
+   * replace the rendered ones, and the body prefix and suffix are joined on
+   * with a blank line. Returns the body.
+   */
+  protected applyAgentOverride(
+    spec: ComponentSpec,
+    frontmatter: Record<string, unknown> | undefined,
+    body: string,
+  ): string {
+    const override = spec.agentOverrides?.[this.agentId];
+    if (!override) return body;
+
+    if (frontmatter && override.frontmatterOverrides) {
+      Object.assign(frontmatter, override.frontmatterOverrides);
+    }
+    let result = body;
+    if (override.bodyPrefix) {
+      result = override.bodyPrefix + "\n\n" + result;
+    }
+    if (override.bodySuffix) {
+      result = result + "\n\n" + override.bodySuffix;
+    }
+    return result;
+  }
+
+  /**
+   * Add the losses and warnings the capability mapping table lists for the
+   * capabilities the component uses
+   */
+  protected reportCapabilities(
+    spec: ComponentSpec,
+    losses: ConversionLoss[],
+    warnings: ConversionWarning[],
+    suggestions: string[],
+  ): void {
+    const report = mapCapabilities(spec, this.agentId);
+    losses.push(...report.losses);
+    warnings.push(...report.warnings);
+    suggestions.push(...report.suggestions);
+  }
+
   /**
    * Validate rendered output using the validation framework
    */
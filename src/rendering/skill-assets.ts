@@ -0,0 +1,112 @@
+/**
+ * Skill assets - Carries the supporting files of a skill bundle over to the
+ * target agent
+ *
+ * Targets that render the skill as <dir>/SKILL.md get the files copied to
+ * the same relative paths, so the body's links keep working. Targets
+ * without skill directories get small reference files inlined into the body
+ * and links to the other files rewritten to where they live in the source
+ * skill, with a recorded loss.
+ */
+
+import { join } from 'node:path';
+import type {
+  AgentId,
+  ComponentSpec,
+  ConversionReport,
+  ExtendedComponentFields,
+  RenderedAsset,
+  SkillAsset,
+  SkillBundle,
+} from '../core/types.js';
+import { AGENTS } from '../core/constants.js';
+import type { AgentRenderer } from './renderer-interface.js';
+
+export interface PreparedAssets {
+  /** The component with its body ready for the target */
+  spec: ComponentSpec;
+  bundle?: SkillBundle;
+  /** Files to copy next to the output */
+  copied: RenderedAsset[];
+  /** Files linked at their source location */
+  linked: SkillAsset[];
+  /** Reference files inlined into the body */
+  inlined: SkillAsset[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace references to an asset (`scripts/run.sh`, `./scripts/run.sh`) with
+ * another path
+ */
+function relink(body: string, asset: SkillAsset, to: string): string {
+  const reference = new RegExp(`(?<=^|[\\s(\\[<"'\`])(?:\\./)?${escapeRegExp(asset.path)}(?=$|[\\s)\\]>"'\`.,:;])`, 'gm');
+  return body.replace(reference, () => to);
+}
+
+/**
+ * Rewrite the body of a skill for the target's layout and list the files
+ * to copy alongside it
+ */
+export function prepareSkillAssets(spec: ComponentSpec, renderer: AgentRenderer): PreparedAssets {
+  const bundle = (spec as ComponentSpec & ExtendedComponentFields).bundle;
+  if (!bundle || bundle.assets.length === 0) {
+    return { spec, copied: [], linked: [], inlined: [] };
+  }
+
+  if (renderer.getTargetFilename(spec) === 'SKILL.md') {
+    // Paths spelled from the project root move with the skill directory
+    const targetDir = renderer.getTargetDirectory(spec).replace(/^\.\//, '');
+    const body = bundle.dir === targetDir
+      ? spec.body
+      : spec.body.replace(new RegExp(`${escapeRegExp(bundle.dir)}/`, 'g'), () => `${targetDir}/`);
+    const copied = bundle.assets.map((asset) => ({ source: join(bundle.root, asset.path), path: asset.path }));
+    return { spec: { ...spec, body }, bundle, copied, linked: [], inlined: [] };
+  }
+
+  const inlined = bundle.assets.filter((asset) => asset.content !== undefined);
+  const linked = bundle.assets.filter((asset) => asset.content === undefined);
+  let body = spec.body;
+  for (const asset of bundle.assets) {
+    body = relink(body, asset, `${bundle.dir}/${asset.path}`);
+  }
+  if (inlined.length > 0) {
+    const sections = inlined.map((asset) => `<!-- Inlined from ${bundle.dir}/${asset.path} -->\n${(asset.content ?? '').trim()}`);
+    body = `${body.trimEnd()}\n\n${sections.join('\n\n')}\n`;
+  }
+  return { spec: { ...spec, body }, bundle, copied: [], linked, inlined };
+}
+
+/**
+ * Add how the bundle was carried over to a render report
+ */
+export function reportSkillAssets(report: ConversionReport, prepared: PreparedAssets, targetAgent: AgentId): void {
+  const { bundle } = prepared;
+  if (!bundle) return;
+  const target = AGENTS[targetAgent].displayName;
+
+  if (prepared.copied.length > 0) {
+    report.preservedSemantics.push(`${prepared.copied.length} skill assets`);
+  }
+  if (prepared.inlined.length > 0) {
+    report.losses.push({
+      category: 'content',
+      severity: 'info',
+      description: `${prepared.inlined.length} reference files inlined into the body; ${target} loads them on every use instead of on demand`,
+      sourceField: 'bundle.assets',
+    });
+  }
+  if (prepared.linked.length > 0) {
+    report.losses.push({
+      category: 'content',
+      severity: 'warning',
+      description: `${target} has no skill directories; ${prepared.linked.length} supporting files stay in ${bundle.dir} and are linked from there`,
+      sourceField: 'bundle.assets',
+      recommendation: `Keep ${bundle.dir} in the repository, or copy ${prepared.linked.map((asset) => asset.path).join(', ')} next to the converted file`,
+    });
+    report.fidelityScore = Math.max(0, report.fidelityScore - 10);
+  }
+}
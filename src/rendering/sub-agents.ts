@@ -0,0 +1,72 @@
+/**
+ * Sub-agents for agents without them
+ *
+ * Claude, OpenCode and Gemini CLI render sub-agent definitions natively.
+ * Every other target gets the definition as a skill: the system prompt
+ * becomes the body, behind a preamble that tells the main agent to treat
+ * the work as a self-contained, delegated task. What that loses (a separate
+ * context, and settings such as temperature) is reported.
+ */
+
+import type { AgentId, ComponentSpec, ConversionReport } from '../core/types.js';
+import { AGENTS } from '../core/constants.js';
+import { subAgentLosses, supportsSubAgents, translateModel } from '../core/sub-agents.js';
+import { describeTool, getToolPermissions } from '../core/tool-vocabulary.js';
+
+export interface PreparedSubAgent {
+  /** The component to render: the sub-agent, or the skill standing in for it */
+  spec: ComponentSpec;
+  /** The sub-agent, when it was turned into a skill */
+  degraded?: ComponentSpec;
+}
+
+function delegatingPreamble(spec: ComponentSpec, targetAgent: AgentId): string {
+  const tools = getToolPermissions(spec).map(describeTool);
+  const lines = [
+    `<!-- Converted from the ${spec.id} sub-agent: ${AGENTS[targetAgent].displayName} has no sub-agents -->`,
+    'Handle this as a delegated task, separate from the rest of the conversation: work through it on its own, ' +
+      'then finish with a short summary of what you found or changed.',
+  ];
+  if (tools.length > 0) {
+    lines.push(`Use only these tools: ${tools.join(', ')}.`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Turn a sub-agent into a skill for targets without sub-agents
+ */
+export function prepareSubAgent(spec: ComponentSpec, targetAgent: AgentId): PreparedSubAgent {
+  if (spec.componentType !== 'agent' || supportsSubAgents(targetAgent)) {
+    return { spec };
+  }
+
+  const skill: ComponentSpec = {
+    ...spec,
+    componentType: 'skill',
+    invocation: { ...spec.invocation, userInvocable: true, slashCommand: spec.id },
+    execution: { ...spec.execution, preferredModel: translateModel(spec.execution.preferredModel, targetAgent).model },
+    body: `${delegatingPreamble(spec, targetAgent)}\n\n${spec.body}`,
+  };
+  return { spec: skill, degraded: spec };
+}
+
+/**
+ * Add the losses of a sub-agent rendered as a skill to a render report
+ */
+export function reportSubAgent(report: ConversionReport, prepared: PreparedSubAgent, targetAgent: AgentId): void {
+  const { degraded } = prepared;
+  if (!degraded) return;
+  const target = AGENTS[targetAgent].displayName;
+
+  report.preservedSemantics.push('Sub-agent prompt as a skill with a delegating preamble');
+  // Primary or not, the skill runs in the main conversation: the loss below covers the mode
+  report.losses.push({
+    category: 'execution',
+    severity: 'warning',
+    description: `${target} has no sub-agents; ${degraded.id} becomes a skill that runs in the main conversation instead of its own context`,
+    sourceField: 'componentType',
+    recommendation: `Invoke /${degraded.id} when the task comes up, or keep the sub-agent for an agent that supports them`,
+  }, ...subAgentLosses(degraded, targetAgent).filter((loss) => loss.sourceField !== 'subAgentSpec.mode'));
+  report.fidelityScore = Math.max(0, report.fidelityScore - 10);
+}
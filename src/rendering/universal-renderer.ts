@@ -16,10 +16,14 @@ export class UniversalRenderer extends BaseRenderer {
     const startTime = Date.now();
     const result = renderAgentsMd(spec, {
       includeMetadata: options?.preserveOriginalMetadata,
+      // AGENTS.md has no frontmatter, so only body overrides apply
+      applyOverride: (content) => this.applyAgentOverride(spec, undefined, content),
     });
 
-    // If successful, update the report with proper timing
+    // If successful, update the report with capability losses and proper timing
     if (result.success && result.report) {
+      const { losses, warnings, suggestions } = result.report;
+      this.reportCapabilities(spec, losses, warnings, suggestions);
       result.report.durationMs = Date.now() - startTime;
     }
 
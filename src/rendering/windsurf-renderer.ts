@@ -20,6 +20,16 @@ import type {
   ConversionWarning,
 } from "../core/types.js";
 import { BaseRenderer, type RenderOptions } from "./renderer-interface.js";
+import { MCP_TARGET_PATHS, renderMcpConfig } from "./mcp/mcp-config-renderer.js";
+import { renderWindsurfHooks } from "./hooks/windsurf-hooks-renderer.js";
+import { getRuleGlobs, getRuleKind } from "../core/rule-activation.js";
+
+const RULE_KIND_TO_TRIGGER = {
+  always: "always_on",
+  "auto-attached": "glob",
+  "agent-requested": "model_decision",
+  manual: "manual",
+} as const;
 
 export class WindsurfRenderer extends BaseRenderer {
   readonly agentId = "windsurf" as const;
@@ -36,27 +46,38 @@ export class WindsurfRenderer extends BaseRenderer {
     const preservedSemantics: string[] = [];
     const suggestions: string[] = [];
 
+    if (spec.componentType === "hook") {
+      return renderWindsurfHooks(spec);
+    }
+    if (spec.componentType === "mcp") {
+      return renderMcpConfig(spec, "windsurf");
+    }
+
     // Build frontmatter
     const frontmatter: Record<string, unknown> = {
       description: spec.intent.summary,
     };
 
+    // Rules carry their own activation trigger
+    if (spec.componentType === "rule") {
+      const kind = getRuleKind(spec);
+      frontmatter["trigger"] = RULE_KIND_TO_TRIGGER[kind];
+      if (kind === "auto-attached") {
+        frontmatter["globs"] = getRuleGlobs(spec);
+        preservedSemantics.push("Glob-triggered rule activation");
+      } else {
+        preservedSemantics.push(`Rule trigger: ${RULE_KIND_TO_TRIGGER[kind]}`);
+      }
+    }
+
     // CRITICAL: Windsurf workflows do NOT support auto-execution
     // All workflows are slash commands requiring manual user invocation
     // This is a fundamental architectural difference from Claude skills
-    if (spec.activation.mode !== "manual") {
-      losses.push({
-        category: "activation",
-        severity: "warning",
-        description: `Claude "${spec.activation.mode}" activation mode has no Windsurf equivalent`,
-        sourceField: "activation.mode",
-        recommendation: "Windsurf workflows are always slash commands (manual invocation only)",
-      });
-    }
+    this.reportCapabilities(spec, losses, warnings, suggestions);
 
     // Claude user-invocable: false means UI hides but model can still invoke
     // Windsurf has no equivalent - all workflows are visible and user-invocable
-    if (spec.invocation.userInvocable === false) {
+    if (spec.componentType !== "rule" && spec.invocation.userInvocable === false) {
       losses.push({
         category: "content",
         severity: "info",
@@ -83,64 +104,6 @@ export class WindsurfRenderer extends BaseRenderer {
       frontmatter["tags"] = spec.category;
     }
 
-    // Check for losses from source agent features
-    if (spec.sourceAgent?.id === "claude") {
-      // Claude-specific features that don't map
-      if (spec.execution.context === "fork") {
-        losses.push({
-          category: "execution",
-          severity: "warning",
-          description: 'Claude "fork" context has no Windsurf equivalent',
-          sourceField: "execution.context",
-          recommendation: "Workflow will run in main context",
-        });
-      }
-
-      if (spec.execution.subAgent) {
-        losses.push({
-          category: "execution",
-          severity: "warning",
-          description: `Sub-agent "${spec.execution.subAgent}" is Claude-specific`,
-          sourceField: "execution.subAgent",
-          recommendation:
-            "Remove sub-agent reference or add as prose instruction",
-        });
-      }
-
-      if (
-        spec.execution.allowedTools &&
-        spec.execution.allowedTools.length > 0
-      ) {
-        warnings.push({
-          code: "TOOL_RESTRICTION_LOST",
-          message: "Claude tool restrictions cannot be enforced in Windsurf",
-          field: "execution.allowedTools",
-        });
-        suggestions.push(
-          "Consider adding tool usage guidance in the workflow body",
-        );
-      }
-
-      if (spec.invocation.argumentHint) {
-        warnings.push({
-          code: "ARGUMENT_HINT_DEGRADED",
-          message:
-            "Claude argument hints become prose instructions in Windsurf",
-          field: "invocation.argumentHint",
-        });
-      }
-    }
-
-    // Handle agent-specific overrides
-    if (spec.agentOverrides?.windsurf) {
-      const override = spec.agentOverrides.windsurf;
-      if (override.frontmatterOverrides) {
-        Object.assign(frontmatter, override.frontmatterOverrides);
-      }
-    }
-
-    // Build the output
-    const frontmatterYaml = this.buildFrontmatter(frontmatter);
     let body = spec.body;
 
     // Apply version adaptation if needed
@@ -160,13 +123,9 @@ export class WindsurfRenderer extends BaseRenderer {
     // Transform Claude-specific syntax
     body = this.transformBody(body, spec);
 
-    // Add prefix/suffix from overrides
-    if (spec.agentOverrides?.windsurf?.bodyPrefix) {
-      body = spec.agentOverrides.windsurf.bodyPrefix + "\n\n" + body;
-    }
-    if (spec.agentOverrides?.windsurf?.bodySuffix) {
-      body = body + "\n\n" + spec.agentOverrides.windsurf.bodySuffix;
-    }
+    // Handle agent-specific overrides
+    body = this.applyAgentOverride(spec, frontmatter, body);
+    const frontmatterYaml = this.buildFrontmatter(frontmatter);
 
     // Build output.
     // IMPORTANT: Windsurf workflow loaders can require YAML frontmatter to be the
@@ -233,10 +192,22 @@ export class WindsurfRenderer extends BaseRenderer {
   }
 
   getTargetFilename(spec: ComponentSpec): string {
+    if (spec.componentType === "hook") {
+      return "hooks.json";
+    }
+    if (spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.windsurf.filename;
+    }
     return `${spec.id}.md`;
   }
 
   getTargetDirectory(spec: ComponentSpec): string {
+    if (spec.componentType === "hook") {
+      return ".windsurf";
+    }
+    if (spec.componentType === "mcp") {
+      return MCP_TARGET_PATHS.windsurf.directory;
+    }
     if (spec.componentType === "rule") {
       return ".windsurf/rules";
     }
@@ -281,7 +252,12 @@ export class WindsurfRenderer extends BaseRenderer {
       if (Array.isArray(value)) {
         lines.push(`${key}:`);
         for (const item of value) {
-          lines.push(`  - ${item}`);
+          // Quote glob patterns like **/*.ts that YAML would read as aliases
+          lines.push(
+            typeof item === "string" && /^[*&!|>'"%@`{[]/.test(item)
+              ? `  - "${item.replace(/"/g, '\\"')}"`
+              : `  - ${item}`,
+          );
         }
       } else if (typeof value === "boolean") {
         lines.push(`${key}: ${value}`);
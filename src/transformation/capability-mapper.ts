@@ -1,155 +1,386 @@
 /**
  * Capability mapping between agents
+ *
+ * The mapping table says, for every pair of agents, what happens to each
+ * capability a component can use (fork context, sub-agent, tool
+ * restrictions, ...) when it is converted: kept as-is, transformed, kept
+ * with a warning, or lost. Renderers derive their conversion losses and
+ * warnings from it through mapCapabilities, and `cace mappings` prints it,
+ * so the documented behaviour is the real behaviour.
  */
 
 import type {
   AgentId,
   CapabilityMapping,
+  ComponentSpec,
+  ComponentType,
+  ConversionLoss,
+  ConversionWarning,
+  LossCategory,
+  LossSeverity,
   MappingStrategy,
 } from "../core/types.js";
+import { AGENTS } from "../core/constants.js";
 
-// Capability mappings database
-const mappings: CapabilityMapping[] = [
-  // Claude to Windsurf
+export interface CapabilityFeature {
+  /** ComponentSpec field holding the capability; the mappings' sourceField */
+  field: string;
+  label: string;
+  category: LossCategory;
+  /** Severity of the loss when a target has no equivalent */
+  severity: LossSeverity;
+  /** Agents whose format can express the capability */
+  sources: AgentId[];
+  /** Whether a component uses the capability */
+  isUsed(spec: ComponentSpec): boolean;
+}
+
+export interface CapabilityReport {
+  losses: ConversionLoss[];
+  warnings: ConversionWarning[];
+  suggestions: string[];
+}
+
+/** Built-in agents the table covers */
+const MAPPED_AGENTS: AgentId[] = [
+  "claude",
+  "windsurf",
+  "cursor",
+  "opencode",
+  "gemini",
+  "codex",
+  "universal",
+  "aider",
+  "continue",
+];
+
+/** Component types that are invoked, as opposed to always loaded */
+const INVOCABLE_TYPES: ComponentType[] = ["skill", "command", "workflow", "agent"];
+
+export const CAPABILITY_FEATURES: CapabilityFeature[] = [
   {
-    sourceAgent: "claude",
-    targetAgent: "windsurf",
-    sourceField: "disable-model-invocation",
-    strategy: {
-      type: "transform",
-      transformer: "mapToAutoExecutionMode",
-      description:
-        "Maps disable-model-invocation: true to auto_execution_mode: 0",
-    },
+    field: "activation.mode",
+    label: "Model-initiated activation",
+    category: "activation",
+    severity: "warning",
+    sources: ["claude", "windsurf", "cursor", "opencode", "gemini", "codex", "universal"],
+    isUsed: (spec) =>
+      INVOCABLE_TYPES.includes(spec.componentType) && spec.activation.mode !== "manual",
+  },
+  {
+    field: "execution.context",
+    label: "Forked (subtask) execution",
+    category: "execution",
+    severity: "warning",
+    sources: ["claude", "opencode", "universal"],
+    isUsed: (spec) => spec.execution.context === "fork" || spec.metadata?.subtask === true,
+  },
+  {
+    field: "execution.subAgent",
+    label: "Sub-agent assignment",
+    category: "execution",
+    severity: "warning",
+    sources: ["claude", "opencode", "universal"],
+    isUsed: (spec) => Boolean(spec.execution.subAgent),
+  },
+  {
+    field: "execution.allowedTools",
+    label: "Tool restrictions",
+    category: "capability",
+    severity: "warning",
+    sources: ["claude", "opencode", "gemini", "codex", "universal"],
+    isUsed: (spec) => (spec.execution.tools?.length ?? spec.execution.allowedTools?.length ?? 0) > 0,
+  },
+  {
+    field: "execution.preferredModel",
+    label: "Preferred model",
+    category: "execution",
+    severity: "info",
+    sources: ["claude", "opencode", "gemini", "codex", "universal"],
+    isUsed: (spec) => Boolean(spec.execution.preferredModel ?? spec.metadata?.model),
+  },
+  {
+    field: "invocation.argumentHint",
+    label: "Argument hint",
+    category: "metadata",
+    severity: "info",
+    sources: ["claude", "codex", "universal"],
+    isUsed: (spec) => Boolean(spec.invocation.argumentHint),
   },
+];
+
+/**
+ * How each target handles a capability, whatever the source. Targets without
+ * an unscoped entry for a capability lose it.
+ */
+const TARGET_SUPPORT: Array<Omit<CapabilityMapping, "sourceAgent">> = [
+  // Model-initiated activation
+  { targetAgent: "claude", sourceField: "activation.mode", strategy: { type: "direct", targetField: "disable-model-invocation" } },
   {
-    sourceAgent: "claude",
     targetAgent: "windsurf",
-    sourceField: "context: fork",
+    sourceField: "activation.mode",
     strategy: {
       type: "unsupported",
-      lossDescription: "Claude fork context has no Windsurf equivalent",
+      lossDescription: "Windsurf workflows are always slash commands; auto/suggested activation is lost",
+      recommendation: "Windsurf workflows are always slash commands (manual invocation only)",
     },
   },
   {
-    sourceAgent: "claude",
-    targetAgent: "windsurf",
-    sourceField: "allowed-tools",
+    targetAgent: "cursor",
+    sourceField: "activation.mode",
+    componentTypes: ["skill"],
+    strategy: { type: "direct", targetField: "disable-model-invocation" },
+  },
+  {
+    targetAgent: "cursor",
+    sourceField: "activation.mode",
     strategy: {
-      type: "fallback",
-      fallbackValue: null,
-      warning: "Tool restrictions cannot be enforced in Windsurf",
+      type: "unsupported",
+      lossDescription: "Cursor commands are always manual - auto/suggested activation lost",
+      recommendation: "All Cursor commands require explicit /command invocation",
     },
   },
   {
-    sourceAgent: "claude",
-    targetAgent: "windsurf",
-    sourceField: "$ARGUMENTS",
+    targetAgent: "opencode",
+    sourceField: "activation.mode",
+    componentTypes: ["skill", "agent"],
+    strategy: { type: "direct", targetField: "description" },
+  },
+  { targetAgent: "gemini", sourceField: "activation.mode", strategy: { type: "direct", targetField: "description" } },
+  {
+    targetAgent: "gemini",
+    sourceField: "activation.mode",
+    componentTypes: ["command"],
+    strategy: { type: "unsupported", lossDescription: "Gemini TOML commands only run as slash commands; auto/suggested activation is lost" },
+  },
+  { targetAgent: "codex", sourceField: "activation.mode", strategy: { type: "direct", targetField: "description" } },
+  {
+    targetAgent: "codex",
+    sourceField: "activation.mode",
+    componentTypes: ["command"],
+    strategy: { type: "unsupported", lossDescription: "Codex custom prompts only run as slash commands; auto/suggested activation is lost" },
+  },
+  {
+    targetAgent: "continue",
+    sourceField: "activation.mode",
     strategy: {
-      type: "transform",
-      transformer: "convertArgumentsToProseHint",
-      description: "Converts $ARGUMENTS placeholder to prose instruction",
+      type: "unsupported",
+      lossDescription: "Continue prompts only run as slash commands; auto/suggested activation is lost",
     },
   },
 
-  // Claude to Cursor
+  // Forked execution
+  { targetAgent: "claude", sourceField: "execution.context", strategy: { type: "direct", targetField: "context" } },
   {
-    sourceAgent: "claude",
-    targetAgent: "cursor",
-    sourceField: "disable-model-invocation",
+    targetAgent: "opencode",
+    sourceField: "execution.context",
+    componentTypes: ["skill", "command", "workflow"],
+    strategy: { type: "transform", transformer: "subtask", description: "Fork context becomes subtask: true" },
+  },
+  {
+    targetAgent: "windsurf",
+    sourceField: "execution.context",
     strategy: {
-      type: "fallback",
-      fallbackValue: true,
-      warning: "Cursor commands are always manual",
+      type: "unsupported",
+      lossDescription: "Forked execution has no Windsurf equivalent",
+      recommendation: "Workflow will run in main context",
     },
   },
   {
-    sourceAgent: "claude",
-    targetAgent: "cursor",
-    sourceField: "context: fork",
+    targetAgent: "gemini",
+    sourceField: "execution.context",
+    strategy: { type: "unsupported", lossDescription: "Forked/subtask execution is not supported in Gemini", severity: "info" },
+  },
+  {
+    targetAgent: "codex",
+    sourceField: "execution.context",
     strategy: {
       type: "unsupported",
-      lossDescription: "Claude fork context not supported in Cursor",
+      lossDescription: "Forked/subtask execution is not supported in Codex",
+      severity: "info",
+      recommendation: "Use sandbox_mode for isolation control",
     },
   },
+
+  // Sub-agents
+  { targetAgent: "claude", sourceField: "execution.subAgent", strategy: { type: "direct", targetField: "agent" } },
   {
-    sourceAgent: "claude",
-    targetAgent: "cursor",
-    sourceField: "agent",
+    targetAgent: "opencode",
+    sourceField: "execution.subAgent",
+    componentTypes: ["skill", "command", "workflow"],
+    strategy: { type: "direct", targetField: "agent" },
+  },
+  {
+    targetAgent: "windsurf",
+    sourceField: "execution.subAgent",
     strategy: {
       type: "unsupported",
-      lossDescription: "Sub-agent assignment not supported in Cursor",
+      lossDescription: "Sub-agents are not supported in Windsurf",
+      recommendation: "Remove sub-agent reference or add as prose instruction",
     },
   },
 
-  // Windsurf to Claude
+  // Tool restrictions
+  { targetAgent: "claude", sourceField: "execution.allowedTools", strategy: { type: "direct", targetField: "allowed-tools" } },
   {
-    sourceAgent: "windsurf",
-    targetAgent: "claude",
-    sourceField: "auto_execution_mode",
+    targetAgent: "opencode",
+    sourceField: "execution.allowedTools",
+    componentTypes: ["agent"],
+    strategy: { type: "direct", targetField: "tools" },
+  },
+  {
+    targetAgent: "gemini",
+    sourceField: "execution.allowedTools",
     strategy: {
       type: "transform",
-      transformer: "mapFromAutoExecutionMode",
-      description: "Maps auto_execution_mode to disable-model-invocation",
+      transformer: "toolVocabulary",
+      description: "Tool names are translated to Gemini's (read_file, replace, run_shell_command(git), ...)",
     },
   },
   {
-    sourceAgent: "windsurf",
-    targetAgent: "claude",
-    sourceField: "tool_references",
+    targetAgent: "gemini",
+    sourceField: "execution.allowedTools",
+    componentTypes: ["command"],
+    strategy: { type: "unsupported", lossDescription: "Tool restrictions cannot be set on Gemini TOML commands", severity: "info" },
+  },
+  {
+    targetAgent: "codex",
+    sourceField: "execution.allowedTools",
+    strategy: { type: "transform", transformer: "toolVocabulary", description: "Tool names are translated to Codex's (file_read, file_write, shell, web_search)" },
+  },
+  {
+    targetAgent: "codex",
+    sourceField: "execution.allowedTools",
+    componentTypes: ["command"],
     strategy: {
-      type: "transform",
-      transformer: "convertToolReferencesToAllowedTools",
-      description: "Infers allowed-tools from tool references in body",
+      type: "unsupported",
+      lossDescription: "Tool restrictions cannot be set on Codex custom prompts",
+      severity: "info",
+      recommendation: "Set it in config.toml or a profile instead",
     },
   },
-
-  // Windsurf to Cursor
   {
-    sourceAgent: "windsurf",
-    targetAgent: "cursor",
-    sourceField: "auto_execution_mode",
+    targetAgent: "windsurf",
+    sourceField: "execution.allowedTools",
     strategy: {
       type: "fallback",
       fallbackValue: null,
-      warning:
-        "Cursor commands are always manual - auto_execution_mode ignored",
+      warning: "Tool restrictions cannot be enforced in Windsurf",
+      recommendation: "Consider adding tool usage guidance in the workflow body",
     },
   },
+
+  // Preferred model
+  { targetAgent: "claude", sourceField: "execution.preferredModel", strategy: { type: "direct", targetField: "model" } },
+  {
+    targetAgent: "opencode",
+    sourceField: "execution.preferredModel",
+    componentTypes: ["agent"],
+    strategy: { type: "direct", targetField: "model" },
+  },
+  { targetAgent: "gemini", sourceField: "execution.preferredModel", strategy: { type: "direct", targetField: "model" } },
+  {
+    targetAgent: "gemini",
+    sourceField: "execution.preferredModel",
+    componentTypes: ["command"],
+    strategy: { type: "unsupported", lossDescription: "Preferred model cannot be set on Gemini TOML commands", severity: "info" },
+  },
+  { targetAgent: "codex", sourceField: "execution.preferredModel", strategy: { type: "direct", targetField: "model" } },
+  {
+    targetAgent: "codex",
+    sourceField: "execution.preferredModel",
+    componentTypes: ["command"],
+    strategy: {
+      type: "unsupported",
+      lossDescription: "Preferred model cannot be set on Codex custom prompts",
+      severity: "info",
+      recommendation: "Set it in config.toml or a profile instead",
+    },
+  },
+
+  // Argument hints
+  { targetAgent: "claude", sourceField: "invocation.argumentHint", strategy: { type: "direct", targetField: "argument-hint" } },
+  { targetAgent: "codex", sourceField: "invocation.argumentHint", strategy: { type: "direct", targetField: "argument-hint" } },
   {
-    sourceAgent: "windsurf",
     targetAgent: "cursor",
-    sourceField: "tool_references",
+    sourceField: "invocation.argumentHint",
+    componentTypes: ["command", "workflow", "agent"],
     strategy: {
-      type: "transform",
-      transformer: "convertToolReferencesToProse",
-      description: "Converts tool references to prose instructions",
+      type: "fallback",
+      fallbackValue: "Expected input",
+      warning: "Cursor has no structured argument system - hint converted to prose",
+    },
+  },
+  {
+    targetAgent: "windsurf",
+    sourceField: "invocation.argumentHint",
+    strategy: {
+      type: "fallback",
+      fallbackValue: null,
+      warning: "Argument hints become prose instructions in Windsurf",
     },
   },
+];
 
-  // Cursor to Claude
+/**
+ * Mappings specific to a source agent; they replace the target's defaults
+ * for that capability
+ */
+const PAIR_MAPPINGS: CapabilityMapping[] = [
   {
-    sourceAgent: "cursor",
+    sourceAgent: "windsurf",
     targetAgent: "claude",
-    sourceField: "markdown_structure",
+    sourceField: "activation.mode",
     strategy: {
-      type: "direct",
-      targetField: "body",
+      type: "fallback",
+      fallbackValue: "suggested",
+      warning: "Windsurf auto_execution_mode mapped to suggested activation",
     },
   },
-
-  // Cursor to Windsurf
   {
-    sourceAgent: "cursor",
-    targetAgent: "windsurf",
-    sourceField: "markdown_structure",
+    sourceAgent: "windsurf",
+    targetAgent: "cursor",
+    sourceField: "activation.mode",
     strategy: {
-      type: "direct",
-      targetField: "body",
+      type: "unsupported",
+      lossDescription: "Windsurf auto_execution_mode not supported in Cursor",
+      severity: "info",
     },
   },
 ];
 
+function buildMappings(): CapabilityMapping[] {
+  const table: CapabilityMapping[] = [...PAIR_MAPPINGS];
+  const hasPairMapping = (source: AgentId, target: AgentId, field: string): boolean =>
+    PAIR_MAPPINGS.some((m) => m.sourceAgent === source && m.targetAgent === target && m.sourceField === field);
+
+  for (const feature of CAPABILITY_FEATURES) {
+    for (const sourceAgent of feature.sources) {
+      for (const targetAgent of MAPPED_AGENTS) {
+        if (targetAgent === sourceAgent || hasPairMapping(sourceAgent, targetAgent, feature.field)) continue;
+
+        const support = TARGET_SUPPORT.filter((m) => m.targetAgent === targetAgent && m.sourceField === feature.field);
+        table.push(...support.map((m) => ({ sourceAgent, ...m })));
+        if (!support.some((m) => !m.componentTypes)) {
+          table.push({
+            sourceAgent,
+            targetAgent,
+            sourceField: feature.field,
+            strategy: {
+              type: "unsupported",
+              lossDescription: `${feature.label} cannot be expressed in ${AGENTS[targetAgent].displayName}`,
+            },
+          });
+        }
+      }
+    }
+  }
+  return table;
+}
+
+// Capability mappings database
+const mappings: CapabilityMapping[] = buildMappings();
+
 export function getMappings(
   sourceAgent: AgentId,
   targetAgent: AgentId,
@@ -159,23 +390,83 @@ export function getMappings(
   );
 }
 
+/**
+ * The mapping for one capability; with a component type, a mapping limited
+ * to that type wins over the general one
+ */
 export function getMapping(
   sourceAgent: AgentId,
   targetAgent: AgentId,
   sourceField: string,
+  componentType?: ComponentType,
 ): CapabilityMapping | undefined {
-  return mappings.find(
+  const candidates = mappings.filter(
     (m) =>
       m.sourceAgent === sourceAgent &&
       m.targetAgent === targetAgent &&
       m.sourceField === sourceField,
   );
+  return (
+    (componentType && candidates.find((m) => m.componentTypes?.includes(componentType))) ||
+    candidates.find((m) => !m.componentTypes)
+  );
 }
 
 export function addMapping(mapping: CapabilityMapping): void {
   mappings.push(mapping);
 }
 
+/**
+ * The agent whose mappings apply to components from sourceAgent: agents the
+ * table does not cover (such as plugin agents without mappings) are mapped
+ * as if they came from the universal format
+ */
+export function getMappingSource(sourceAgent: AgentId | undefined): AgentId {
+  return sourceAgent && mappings.some((m) => m.sourceAgent === sourceAgent)
+    ? sourceAgent
+    : "universal";
+}
+
+/**
+ * Losses and warnings for the capabilities a component uses when rendered
+ * for targetAgent
+ */
+export function mapCapabilities(
+  spec: ComponentSpec,
+  targetAgent: AgentId,
+): CapabilityReport {
+  const report: CapabilityReport = { losses: [], warnings: [], suggestions: [] };
+  if ((spec.sourceAgent?.id ?? "universal") === targetAgent) return report;
+  const sourceAgent = getMappingSource(spec.sourceAgent?.id);
+
+  for (const feature of CAPABILITY_FEATURES) {
+    if (!feature.isUsed(spec)) continue;
+    const mapping = getMapping(sourceAgent, targetAgent, feature.field, spec.componentType);
+    if (!mapping) continue;
+
+    const { strategy } = mapping;
+    if (strategy.type === "unsupported") {
+      report.losses.push({
+        category: feature.category,
+        severity: strategy.severity ?? feature.severity,
+        description: strategy.lossDescription,
+        sourceField: feature.field,
+        ...(strategy.recommendation ? { recommendation: strategy.recommendation } : {}),
+      });
+    } else if (strategy.type === "fallback") {
+      report.warnings.push({
+        code: "CAPABILITY_FALLBACK",
+        message: strategy.warning,
+        field: feature.field,
+      });
+    }
+    if ((strategy.type === "unsupported" || strategy.type === "fallback") && strategy.recommendation) {
+      report.suggestions.push(strategy.recommendation);
+    }
+  }
+  return report;
+}
+
 export function describeStrategy(strategy: MappingStrategy): string {
   switch (strategy.type) {
     case "direct":
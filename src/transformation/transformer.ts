@@ -2,7 +2,7 @@
  * Core transformation logic for converting between agents
  */
 
-import type { AgentId, ComponentSpec, RenderResult } from '../core/types.js';
+import type { AgentId, ComponentSpec, ConversionReport, RenderResult } from '../core/types.js';
 import { parseComponent } from '../parsing/parser-factory.js';
 import { renderComponent } from '../rendering/renderer-factory.js';
 import type { ParserOptions } from '../parsing/parser-interface.js';
@@ -21,6 +21,7 @@ export interface TransformResult {
   errors: string[];
   warnings: string[];
   fidelityScore?: number;
+  report?: ConversionReport;
 }
 
 export function transform(
@@ -76,6 +77,7 @@ export function transform(
     errors: [],
     warnings,
     fidelityScore: renderResult.report?.fidelityScore,
+    report: renderResult.report,
   };
 }
 
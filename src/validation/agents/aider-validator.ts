@@ -0,0 +1,150 @@
+/**
+ * Aider validator
+ * Validates conventions files (memory, rules) and .aider.conf.yml read: lists
+ */
+
+import matter from 'gray-matter';
+import { BaseValidator, type ValidationResult, type ValidationIssue, type ValidatorOptions } from '../validator-framework.js';
+import type { ComponentType } from '../../core/types.js';
+
+// Conventions files and read: have been stable since Aider 0.50
+const AIDER_VERSIONS = ['0.50.0', '0.86.0'];
+
+export class AiderValidator extends BaseValidator {
+  readonly agentId = 'aider' as const;
+  readonly supportedVersions = AIDER_VERSIONS;
+  readonly componentTypes: ComponentType[] = ['memory', 'rule'];
+
+  validate(
+    content: string,
+    componentType: ComponentType,
+    options?: ValidatorOptions
+  ): ValidationResult {
+    const version = options?.version ?? this.getLatestVersion();
+    const issues: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const info: ValidationIssue[] = [];
+
+    try {
+      // Memory that only lists files renders as .aider.conf.yml
+      if (content.trimStart().startsWith('read:')) {
+        return this.validateConfig(content, componentType, version);
+      }
+
+      if (!['memory', 'rule'].includes(componentType)) {
+        issues.push(
+          this.createIssue(
+            'UNSUPPORTED_TYPE',
+            `Component type ${componentType} not supported for Aider`,
+            'error'
+          )
+        );
+      }
+
+      const body = content.trim();
+      if (!body) {
+        issues.push(this.createIssue('EMPTY_CONTENT', 'Conventions file is empty', 'error'));
+      }
+
+      if (body.startsWith('---')) {
+        warnings.push(
+          this.createIssue(
+            'FRONTMATTER_IGNORED',
+            'Aider does not read frontmatter; it is passed to the model as text',
+            'warning',
+            undefined,
+            'Remove the frontmatter block'
+          )
+        );
+      }
+
+      const imports = body.match(/(^|\s)@[\w.\-/~]+\.\w+/g);
+      if (imports) {
+        info.push(
+          this.createIssue(
+            'IMPORTS_NOT_RESOLVED',
+            `Aider does not resolve @imports (${imports.length} found)`,
+            'info',
+            undefined,
+            'List the imported files under read: in .aider.conf.yml'
+          )
+        );
+      }
+
+      return {
+        valid: issues.length === 0,
+        agent: this.agentId,
+        componentType,
+        version,
+        issues,
+        warnings,
+        info,
+        metadata: {
+          hasFrontmatter: body.startsWith('---'),
+          bodyLength: body.length,
+        },
+      };
+    } catch (err) {
+      return this.createErrorResult(
+        componentType,
+        version,
+        [
+          this.createIssue(
+            'PARSE_ERROR',
+            `Failed to parse content: ${err instanceof Error ? err.message : String(err)}`,
+            'error'
+          ),
+        ],
+        { parseError: true }
+      );
+    }
+  }
+
+  private validateConfig(
+    content: string,
+    componentType: ComponentType,
+    version: string
+  ): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const data = matter(`---\n${content}\n---\n`).data as Record<string, unknown>;
+    const read = data['read'];
+
+    if (read === undefined) {
+      warnings.push(
+        this.createIssue(
+          'NO_READ_FILES',
+          'Config does not load any conventions files',
+          'warning',
+          'read',
+          'Add read: [CONVENTIONS.md]'
+        )
+      );
+    } else if (
+      typeof read !== 'string' &&
+      !(Array.isArray(read) && read.every(f => typeof f === 'string'))
+    ) {
+      issues.push(
+        this.createIssue(
+          'INVALID_READ',
+          'read must be a file path or a list of file paths',
+          'error',
+          'read'
+        )
+      );
+    }
+
+    return {
+      valid: issues.length === 0,
+      agent: this.agentId,
+      componentType,
+      version,
+      issues,
+      warnings,
+      info: [],
+      metadata: {
+        detectedFields: Object.keys(data),
+      },
+    };
+  }
+}
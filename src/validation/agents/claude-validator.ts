@@ -6,6 +6,7 @@
 import matter from 'gray-matter';
 import { BaseValidator, type ValidationResult, type ValidationIssue, type ValidatorOptions } from '../validator-framework.js';
 import type { ComponentType } from '../../core/types.js';
+import { parseTool, parseToolList } from '../../core/tool-vocabulary.js';
 
 // Version 2.1.0 - January 2026 - Skills/commands unification, context: fork
 // Version 2.0.0 - 2025 - Initial skills system
@@ -18,7 +19,7 @@ interface ClaudeFrontmatter {
   'argument-hint'?: string;
   'disable-model-invocation'?: boolean;
   'user-invocable'?: boolean;
-  'allowed-tools'?: string[];
+  'allowed-tools'?: string | string[];
   model?: string;
   context?: 'main' | 'fork' | 'isolated';
   agent?: string;
@@ -215,8 +216,9 @@ export class ClaudeValidator extends BaseValidator {
         'Exit',
       ];
 
-      for (const tool of fm['allowed-tools']) {
-        if (!validTools.includes(tool)) {
+      for (const tool of parseToolList(fm['allowed-tools']) ?? []) {
+        // Bash(git:*), mcp__server__tool and the other names the tool vocabulary knows
+        if (!validTools.includes(tool) && parseTool(tool, 'claude').tool === 'other') {
           warnings.push(
             this.createIssue(
               'UNKNOWN_TOOL',
@@ -1,9 +1,16 @@
 /**
- * Validator for OpenAI Codex skills and commands
+ * Validator for OpenAI Codex skills, custom prompts and config.toml
  */
 
 import type { AgentId, ComponentType } from "../../core/types.js";
 import type { ValidationIssue, ValidationResult, ValidatorOptions } from "../validator-framework.js";
+import { parseToml } from "../../core/toml.js";
+import {
+  CODEX_APPROVAL_POLICIES,
+  CODEX_SANDBOX_MODES,
+  isCodexApprovalPolicy,
+  isCodexSandboxMode,
+} from "../../core/agent-config.js";
 import matter from "gray-matter";
 import { BaseValidator } from "../validator-framework.js";
 
@@ -22,14 +29,16 @@ interface CodexFrontmatter {
   instruction?: string;
   slash_command?: string;
   argument_hint?: string;
+  "argument-hint"?: string;
   globs?: string | string[];
   alwaysApply?: boolean;
+  profiles?: Record<string, CodexFrontmatter>;
 }
 
 export class CodexValidator extends BaseValidator {
   readonly agentId: AgentId = "codex";
   readonly supportedVersions = ["1.0.0", "1.1.0"];
-  readonly componentTypes: ComponentType[] = ["skill", "command", "rule", "memory"];
+  readonly componentTypes: ComponentType[] = ["skill", "command", "rule", "memory", "config"];
 
   validate(
     content: string,
@@ -41,8 +50,10 @@ export class CodexValidator extends BaseValidator {
     const info: ValidationIssue[] = [];
 
     try {
-      // Parse frontmatter
-      const parsed = matter(content);
+      // config.toml is plain TOML; everything else is markdown with frontmatter
+      const parsed = componentType === "config"
+        ? { data: parseToml(content), content: "" }
+        : matter(content);
       const fm = parsed.data as CodexFrontmatter;
       const body = parsed.content.trim();
 
@@ -65,6 +76,9 @@ export class CodexValidator extends BaseValidator {
         case "memory":
           this.validateMemory(fm, body, version, issues, warnings, info, options);
           break;
+        case "config":
+          this.validateConfig(fm, issues, info);
+          break;
         default:
           warnings.push(
             this.createIssue(
@@ -72,7 +86,7 @@ export class CodexValidator extends BaseValidator {
               `Unknown component type: ${detectedType}`,
               "warning",
               "type",
-              "Use skill, command, rule, or memory"
+              "Use skill, command, rule, memory, or config"
             )
           );
       }
@@ -113,7 +127,7 @@ export class CodexValidator extends BaseValidator {
   }
 
   private detectComponentType(fm: CodexFrontmatter, body: string): string {
-    if (fm.slash_command || fm.argument_hint) return "command";
+    if (fm.slash_command || fm.argument_hint || fm["argument-hint"]) return "command";
     if (fm.globs || fm.alwaysApply !== undefined) return "rule";
     if (body.length < 500 && !fm.prompt && !fm.instruction) return "memory";
     return "skill";
@@ -182,17 +196,20 @@ export class CodexValidator extends BaseValidator {
       }
     }
 
+    this.validatePolicies(fm, issues);
+  }
+
+  private validatePolicies(fm: CodexFrontmatter, issues: ValidationIssue[], prefix = ""): void {
     // Validate approval policy
     if (fm.approval_policy) {
-      const validPolicies = ["untrusted", "on-failure", "on-request", "never"];
-      if (!validPolicies.includes(fm.approval_policy)) {
+      if (!isCodexApprovalPolicy(fm.approval_policy)) {
         issues.push(
           this.createIssue(
             "INVALID_APPROVAL_POLICY",
             `Invalid approval_policy: ${fm.approval_policy}`,
             "error",
-            "approval_policy",
-            `Valid values: ${validPolicies.join(", ")}`
+            `${prefix}approval_policy`,
+            `Valid values: ${CODEX_APPROVAL_POLICIES.join(", ")}`
           )
         );
       }
@@ -200,63 +217,72 @@ export class CodexValidator extends BaseValidator {
 
     // Validate sandbox mode
     if (fm.sandbox_mode) {
-      const validModes = ["read-only", "workspace-write", "danger-full-access"];
-      if (!validModes.includes(fm.sandbox_mode)) {
+      if (!isCodexSandboxMode(fm.sandbox_mode)) {
         issues.push(
           this.createIssue(
             "INVALID_SANDBOX_MODE",
             `Invalid sandbox_mode: ${fm.sandbox_mode}`,
             "error",
-            "sandbox_mode",
-            `Valid values: ${validModes.join(", ")}`
+            `${prefix}sandbox_mode`,
+            `Valid values: ${CODEX_SANDBOX_MODES.join(", ")}`
           )
         );
       }
     }
   }
 
+  private validateConfig(
+    fm: CodexFrontmatter,
+    issues: ValidationIssue[],
+    info: ValidationIssue[]
+  ): void {
+    this.validatePolicies(fm, issues);
+
+    if (fm.profiles) {
+      for (const [name, profile] of Object.entries(fm.profiles)) {
+        this.validatePolicies(profile, issues, `profiles.${name}.`);
+      }
+      info.push(
+        this.createIssue(
+          "PROFILES",
+          `Configured ${Object.keys(fm.profiles).length} profile(s)`,
+          "info",
+          "profiles"
+        )
+      );
+    }
+  }
+
   private validateCommand(
     fm: CodexFrontmatter,
     _body: string,
     _version: string,
-    issues: ValidationIssue[],
+    _issues: ValidationIssue[],
     warnings: ValidationIssue[],
-    _info: ValidationIssue[],
+    info: ValidationIssue[],
     _options?: ValidatorOptions
   ): void {
-    // Commands need a name
-    if (!fm.name) {
-      issues.push(
+    // Commands are custom prompts (~/.codex/prompts/<name>.md): they are
+    // named after their file and invoked as /prompts:<name>
+    if (fm.name || fm.slash_command) {
+      info.push(
         this.createIssue(
-          "MISSING_NAME",
-          "Command must have a 'name' field",
-          "error",
-          "name"
+          "PROMPT_NAME_FROM_FILENAME",
+          "Custom prompts are named after their file; name and slash_command are ignored",
+          "info",
+          fm.slash_command ? "slash_command" : "name"
         )
       );
     }
 
-    // Slash command validation
-    if (fm.slash_command) {
-      if (!fm.slash_command.startsWith("/")) {
-        warnings.push(
-          this.createIssue(
-            "SLASH_COMMAND_FORMAT",
-            "Slash command should start with /",
-            "warning",
-            "slash_command",
-            "Use format: /command-name"
-          )
-        );
-      }
-    } else {
+    if (fm.argument_hint && !fm["argument-hint"]) {
       warnings.push(
         this.createIssue(
-          "MISSING_SLASH_COMMAND",
-          "Command should have a slash_command for easy invocation",
+          "ARGUMENT_HINT_KEY",
+          "Custom prompts read 'argument-hint', not 'argument_hint'",
           "warning",
-          "slash_command",
-          "Add 'slash_command: /my-command'"
+          "argument_hint",
+          "Rename to 'argument-hint'"
         )
       );
     }
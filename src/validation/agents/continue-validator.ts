@@ -0,0 +1,234 @@
+/**
+ * Continue validator
+ * Validates rules (.continue/rules/*.md) and prompt files (.continue/prompts/*.prompt)
+ */
+
+import matter from 'gray-matter';
+import { BaseValidator, type ValidationResult, type ValidationIssue, type ValidatorOptions } from '../validator-framework.js';
+import type { ComponentType } from '../../core/types.js';
+
+// Version 1.0+ - 2025 - Markdown rules and invokable prompt files
+const CONTINUE_VERSIONS = ['1.0.0'];
+
+interface ContinueFrontmatter {
+  name?: string;
+  description?: string;
+  // Rule-specific
+  globs?: unknown;
+  regex?: unknown;
+  alwaysApply?: unknown;
+  // Prompt-specific
+  invokable?: unknown;
+}
+
+export class ContinueValidator extends BaseValidator {
+  readonly agentId = 'continue' as const;
+  readonly supportedVersions = CONTINUE_VERSIONS;
+  readonly componentTypes: ComponentType[] = ['rule', 'memory', 'command', 'skill', 'workflow'];
+
+  validate(
+    content: string,
+    componentType: ComponentType,
+    options?: ValidatorOptions
+  ): ValidationResult {
+    const version = options?.version ?? this.getLatestVersion();
+    const issues: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const info: ValidationIssue[] = [];
+
+    try {
+      const parsed = matter(content);
+      const fm = parsed.data as ContinueFrontmatter;
+      const body = parsed.content.trim();
+
+      switch (componentType) {
+        case 'rule':
+        case 'memory':
+          this.validateRule(fm, body, issues, warnings, info);
+          break;
+        case 'command':
+        case 'skill':
+        case 'workflow':
+          this.validatePrompt(fm, body, issues, warnings, info);
+          break;
+        default:
+          issues.push(
+            this.createIssue(
+              'UNSUPPORTED_TYPE',
+              `Component type ${componentType} not supported for Continue`,
+              'error'
+            )
+          );
+      }
+
+      return {
+        valid: issues.length === 0,
+        agent: this.agentId,
+        componentType,
+        version,
+        issues,
+        warnings,
+        info,
+        metadata: {
+          hasFrontmatter: Object.keys(fm).length > 0,
+          bodyLength: body.length,
+          detectedFields: Object.keys(fm),
+        },
+      };
+    } catch (err) {
+      return this.createErrorResult(
+        componentType,
+        version,
+        [
+          this.createIssue(
+            'PARSE_ERROR',
+            `Failed to parse content: ${err instanceof Error ? err.message : String(err)}`,
+            'error'
+          ),
+        ],
+        { parseError: true }
+      );
+    }
+  }
+
+  private validateRule(
+    fm: ContinueFrontmatter,
+    body: string,
+    issues: ValidationIssue[],
+    warnings: ValidationIssue[],
+    info: ValidationIssue[]
+  ): void {
+    if (!body) {
+      issues.push(this.createIssue('EMPTY_CONTENT', 'Rule has no content', 'error'));
+    }
+
+    if (!fm.name) {
+      warnings.push(
+        this.createIssue(
+          'MISSING_NAME',
+          'Rule should have a name',
+          'warning',
+          'name'
+        )
+      );
+    }
+
+    if (fm.alwaysApply !== undefined && typeof fm.alwaysApply !== 'boolean') {
+      issues.push(
+        this.createIssue(
+          'INVALID_ALWAYS_APPLY',
+          'alwaysApply must be true or false',
+          'error',
+          'alwaysApply'
+        )
+      );
+    }
+
+    if (
+      fm.globs !== undefined &&
+      typeof fm.globs !== 'string' &&
+      !(Array.isArray(fm.globs) && fm.globs.every(g => typeof g === 'string'))
+    ) {
+      issues.push(
+        this.createIssue(
+          'INVALID_GLOBS',
+          'globs must be a pattern or a list of patterns',
+          'error',
+          'globs'
+        )
+      );
+    }
+
+    // alwaysApply: false with nothing to decide on is never applied
+    if (fm.alwaysApply === false && !fm.description && fm.globs === undefined && fm.regex === undefined) {
+      warnings.push(
+        this.createIssue(
+          'RULE_NEVER_APPLIED',
+          'Rule has alwaysApply: false but no description, globs or regex',
+          'warning',
+          'description',
+          'Add a description so the agent can decide when to apply it'
+        )
+      );
+    }
+
+    if (fm.regex !== undefined) {
+      info.push(
+        this.createIssue(
+          'REGEX_TRIGGER',
+          'Rule attaches by file content regex',
+          'info',
+          'regex'
+        )
+      );
+    }
+  }
+
+  private validatePrompt(
+    fm: ContinueFrontmatter,
+    body: string,
+    issues: ValidationIssue[],
+    warnings: ValidationIssue[],
+    info: ValidationIssue[]
+  ): void {
+    if (!body) {
+      issues.push(this.createIssue('EMPTY_CONTENT', 'Prompt has no content', 'error'));
+    }
+
+    if (!fm.name) {
+      issues.push(
+        this.createIssue(
+          'MISSING_NAME',
+          'Prompt must have a "name" field',
+          'error',
+          'name'
+        )
+      );
+    }
+
+    if (!fm.description) {
+      warnings.push(
+        this.createIssue(
+          'MISSING_DESCRIPTION',
+          'Prompt should have a description',
+          'warning',
+          'description'
+        )
+      );
+    }
+
+    if (fm.invokable !== true) {
+      warnings.push(
+        this.createIssue(
+          'NOT_INVOKABLE',
+          'Prompt is not available as a slash command',
+          'warning',
+          'invokable',
+          'Add invokable: true'
+        )
+      );
+    }
+
+    if (body.includes('$ARGUMENTS')) {
+      warnings.push(
+        this.createIssue(
+          'ARGUMENTS_PLACEHOLDER',
+          'Continue does not expand $ARGUMENTS',
+          'warning',
+          undefined,
+          'Use {{{ input }}} for the text typed after the command'
+        )
+      );
+    }
+
+    if (/\{\{\{\s*input\s*\}\}\}/.test(body)) {
+      info.push(
+        this.createIssue(
+          'INPUT_PLACEHOLDER',
+          'Prompt uses {{{ input }}}',
+          'info'
+        )
+      );
+    }
+  }
+}
@@ -9,6 +9,7 @@
 import matter from 'gray-matter';
 import { BaseValidator, type ValidationResult, type ValidationIssue, type ValidatorOptions } from '../validator-framework.js';
 import type { ComponentType } from '../../core/types.js';
+import { parseGlobList, quoteBareGlobs } from '../../core/rule-activation.js';
 
 // Cursor has historically had multiple versioning eras (0.x rules era, 1.x commands/rules,
 // 2.x agent-era). We treat these as a single ordered list for validation defaults.
@@ -16,7 +17,7 @@ const CURSOR_VERSIONS = ['0.40.0', '0.45.0', '0.46.0', '1.6.0', '1.7.0', '2.4.0'
 
 interface CursorFrontmatter {
   description?: string;
-  globs?: string[];
+  globs?: string | string[];
   alwaysApply?: boolean;
   // Legacy .cursorrules didn't use frontmatter
 }
@@ -67,7 +68,7 @@ export class CursorValidator extends BaseValidator {
     }
 
     try {
-      const parsed = matter(content);
+      const parsed = matter(quoteBareGlobs(content));
       const fm = parsed.data as CursorFrontmatter;
       const body = parsed.content.trim();
 
@@ -133,8 +134,25 @@ export class CursorValidator extends BaseValidator {
     info: ValidationIssue[],
     options?: ValidatorOptions
   ): void {
+    // Cursor writes globs as a comma-separated string; older rules use a list
+    const globs = typeof fm.globs === 'string' ? parseGlobList(fm.globs) : fm.globs;
+
+    // Manual rules are only applied when @-mentioned: alwaysApply: false, no globs or description
+    const isManualRule =
+      fm.alwaysApply === false &&
+      (!globs || globs.length === 0) &&
+      !fm.description;
+
     // Required fields for .mdc
-    if (!fm.description) {
+    if (isManualRule) {
+      info.push(
+        this.createIssue(
+          'MANUAL_RULE',
+          'Rule has no description, globs or alwaysApply - it only applies when @-mentioned',
+          'info'
+        )
+      );
+    } else if (!fm.description) {
       issues.push(
         this.createIssue(
           'MISSING_DESCRIPTION',
@@ -147,20 +165,20 @@ export class CursorValidator extends BaseValidator {
     }
 
     // Validate globs
-    if (fm.globs) {
-      if (!Array.isArray(fm.globs)) {
+    if (globs) {
+      if (!Array.isArray(globs)) {
         issues.push(
           this.createIssue(
             'INVALID_GLOBS',
-            'globs must be an array of strings',
+            'globs must be a comma-separated string or an array of strings',
             'error',
             'globs',
-            'Use format: globs: ["src/**/*.ts", "**/*.tsx"]'
+            'Use format: globs: src/**/*.ts,**/*.tsx'
           )
         );
       } else {
         // Validate glob patterns
-        for (const glob of fm.globs) {
+        for (const glob of globs) {
           if (typeof glob !== 'string') {
             issues.push(
               this.createIssue(
@@ -185,7 +203,7 @@ export class CursorValidator extends BaseValidator {
         info.push(
           this.createIssue(
             'GLOBS',
-            `Rule applies to ${fm.globs.length} file patterns`,
+            `Rule applies to ${globs.length} file patterns`,
             'info',
             'globs'
           )
@@ -214,7 +232,7 @@ export class CursorValidator extends BaseValidator {
               'alwaysApply'
             )
           );
-        } else if (!fm.globs || fm.globs.length === 0) {
+        } else if ((!globs || globs.length === 0) && !isManualRule) {
           info.push(
             this.createIssue(
               'AGENT_DECIDED',
@@ -6,6 +6,7 @@ import type { AgentId, ComponentType } from "../../core/types.js";
 import type { ValidationIssue, ValidationResult, ValidatorOptions } from "../validator-framework.js";
 import matter from "gray-matter";
 import { BaseValidator } from "../validator-framework.js";
+import { parseTool } from "../../core/tool-vocabulary.js";
 
 interface GeminiFrontmatter {
   name?: string;
@@ -253,9 +254,9 @@ export class GeminiValidator extends BaseValidator {
     info: ValidationIssue[]
   ): void {
     if (fm.tools && fm.tools.length > 0) {
-      const validTools = ["code_execution", "google_search", "file_read", "file_write"];
       fm.tools.forEach(tool => {
-        if (!validTools.includes(tool)) {
+        // Built-in tools (read_file, run_shell_command(git), ...) and MCP server__tool names
+        if (parseTool(tool, "gemini").tool === "other") {
           warnings.push(
             this.createIssue(
               "UNKNOWN_TOOL",
@@ -14,6 +14,8 @@ import { WindsurfValidator } from './agents/windsurf-validator.js';
 import { OpenCodeValidator } from './agents/opencode-validator.js';
 import { CodexValidator } from './agents/codex-validator.js';
 import { GeminiValidator } from './agents/gemini-validator.js';
+import { AiderValidator } from './agents/aider-validator.js';
+import { ContinueValidator } from './agents/continue-validator.js';
 
 // Register all validators
 export function registerAllValidators(): void {
@@ -23,6 +25,8 @@ export function registerAllValidators(): void {
   globalValidatorRegistry.register(new OpenCodeValidator());
   globalValidatorRegistry.register(new CodexValidator());
   globalValidatorRegistry.register(new GeminiValidator());
+  globalValidatorRegistry.register(new AiderValidator());
+  globalValidatorRegistry.register(new ContinueValidator());
 }
 
 // Auto-register on import
@@ -35,6 +39,8 @@ export { WindsurfValidator } from './agents/windsurf-validator.js';
 export { OpenCodeValidator } from './agents/opencode-validator.js';
 export { CodexValidator } from './agents/codex-validator.js';
 export { GeminiValidator } from './agents/gemini-validator.js';
+export { AiderValidator } from './agents/aider-validator.js';
+export { ContinueValidator } from './agents/continue-validator.js';
 
 // Convenience validation function
 import type { AgentId, ComponentType } from '../core/types.js';
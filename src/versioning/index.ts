@@ -44,7 +44,9 @@ export {
   getBreakingChangesBetween,
   compareVersions,
   getVersionSummary,
+  registerVersionCatalog,
 } from "./version-catalog.js";
+export type { AgentVersionCatalog } from "./version-catalog.js";
 
 // Version Detection
 export {
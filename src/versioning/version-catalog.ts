@@ -570,6 +570,22 @@ const ALL_BREAKING_CHANGES: Record<AgentId, BreakingChange[]> = {
   continue: [],
 };
 
+export interface AgentVersionCatalog {
+  versions?: VersionCatalogEntry[];
+  features?: FeatureFlag[];
+  breakingChanges?: BreakingChange[];
+}
+
+/**
+ * Add catalog entries for an agent, e.g. from a plugin. New versions are
+ * looked up before the existing ones, so they can supersede the current one.
+ */
+export function registerVersionCatalog(agent: AgentId, catalog: AgentVersionCatalog): void {
+  ALL_VERSIONS.unshift(...(catalog.versions ?? []).map((v) => ({ ...v, agent })));
+  ALL_FEATURES[agent] = [...(ALL_FEATURES[agent] ?? []), ...(catalog.features ?? [])];
+  ALL_BREAKING_CHANGES[agent] = [...(ALL_BREAKING_CHANGES[agent] ?? []), ...(catalog.breakingChanges ?? [])];
+}
+
 /**
  * Get all versions for an agent
  */
@@ -0,0 +1,176 @@
+/**
+ * Tests for Aider conventions files and Continue rules/prompts
+ */
+
+import { describe, it, expect } from "bun:test";
+import { getRuleGlobs, getRuleKind } from "../src/core/rule-activation.js";
+import { detectAgent, parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent, getTargetPath } from "../src/rendering/renderer-factory.js";
+import { validate } from "../src/validation/index.js";
+import type { ComponentSpec, ExtendedComponentFields } from "../src/core/types.js";
+
+const CONVENTIONS = `# Coding Conventions
+
+- Prefer httpx over requests
+- Use type hints everywhere
+`;
+
+const AIDER_CONF = `model: sonnet
+read:
+  - CONVENTIONS.md
+  - docs/style.md
+auto-commits: false
+`;
+
+const CONTINUE_RULE = `---
+name: TypeScript style
+description: Conventions for TypeScript sources
+globs: ["src/**/*.ts", "tests/**/*.ts"]
+---
+
+Use strict null checks.
+`;
+
+const CONTINUE_PROMPT = `name: review
+description: Review the selected code
+invokable: true
+---
+Review this code for bugs:
+
+{{{ input }}}
+`;
+
+function parse(content: string, sourceFile: string): ComponentSpec & ExtendedComponentFields {
+  const result = parseComponent(content, { sourceFile });
+  if (!result.success) throw new Error(result.errors.join(", "));
+  return result.spec as ComponentSpec & ExtendedComponentFields;
+}
+
+describe("Aider", () => {
+  it("should detect Aider files", () => {
+    expect(detectAgent(CONVENTIONS, "CONVENTIONS.md")).toBe("aider");
+    expect(detectAgent(AIDER_CONF, "/repo/.aider.conf.yml")).toBe("aider");
+    expect(detectAgent(CONVENTIONS, ".aider/conventions/python.md")).toBe("aider");
+  });
+
+  it("should parse CONVENTIONS.md as memory", () => {
+    const spec = parse(CONVENTIONS, "CONVENTIONS.md");
+    expect(spec.componentType).toBe("memory");
+    expect(spec.intent.summary).toBe("Coding Conventions");
+    expect(spec.metadata.originalFormat).toBe("aider-conventions");
+  });
+
+  it("should parse read: entries from .aider.conf.yml as imports", () => {
+    const result = parseComponent(AIDER_CONF, { sourceFile: ".aider.conf.yml" });
+    const spec = result.spec as ComponentSpec & ExtendedComponentFields;
+    expect(spec.body).toBe("");
+    expect(spec.metadata.model).toBe("sonnet");
+    expect(spec.memorySpec?.imports?.map((i) => i.path)).toEqual(["CONVENTIONS.md", "docs/style.md"]);
+    expect(result.warnings[0]).toContain("auto-commits");
+  });
+
+  it("should round-trip .aider.conf.yml", () => {
+    const spec = parse(AIDER_CONF, ".aider.conf.yml");
+    const rendered = renderComponent(spec, "aider");
+    expect(rendered.filename).toBe(".aider.conf.yml");
+    expect(rendered.content).toBe("read:\n  - CONVENTIONS.md\n  - docs/style.md\nmodel: sonnet\nauto-commits: false\n");
+    expect(rendered.report?.losses).toEqual([]);
+
+    const reparsed = parse(rendered.content!, ".aider.conf.yml");
+    expect(reparsed.memorySpec?.imports).toEqual(spec.memorySpec?.imports);
+    expect(reparsed.metadata.model).toBe("sonnet");
+    expect(reparsed.config).toEqual({ settings: { "auto-commits": false }, scope: "project" });
+  });
+
+  it("should report Aider settings other agents cannot keep", () => {
+    const rendered = renderComponent(parse(AIDER_CONF, ".aider.conf.yml"), "claude");
+    const losses = rendered.report!.losses.filter((l) => l.sourceField === "settings");
+    expect(losses.map((l) => l.description)).toEqual(["Aider settings dropped; Claude Code has no equivalent: auto-commits"]);
+  });
+
+  it("should render rules as always-loaded conventions files", () => {
+    const rule = parse(CONTINUE_RULE, ".continue/rules/typescript.md");
+    const rendered = renderComponent(rule, "aider");
+
+    expect(getTargetPath(rule, "aider")).toBe(".aider/conventions/typescript.md");
+    expect(rendered.content).toBe("Use strict null checks.\n");
+    expect(rendered.report?.losses.map((l) => l.sourceField)).toEqual(["activation.triggers"]);
+    expect(rendered.report?.suggestions[0]).toContain(".aider/conventions/typescript.md");
+  });
+
+  it("should reject components Aider cannot express", () => {
+    const prompt = parse(CONTINUE_PROMPT, ".continue/prompts/review.prompt");
+    expect(renderComponent(prompt, "aider").success).toBe(false);
+  });
+});
+
+describe("Continue rules", () => {
+  it("should parse rule frontmatter into rule kinds", () => {
+    const spec = parse(CONTINUE_RULE, ".continue/rules/typescript.md");
+    expect(spec.sourceAgent?.id).toBe("continue");
+    expect(getRuleKind(spec)).toBe("auto-attached");
+    expect(getRuleGlobs(spec)).toEqual(["src/**/*.ts", "tests/**/*.ts"]);
+
+    const kinds = [
+      "---\nname: a\n---\nBody",
+      "---\nalwaysApply: true\nglobs: '*.ts'\n---\nBody",
+      "---\nalwaysApply: false\ndescription: When testing\n---\nBody",
+      "---\nalwaysApply: false\n---\nBody",
+    ].map((content) => getRuleKind(parse(content, ".continue/rules/a.md")));
+    expect(kinds).toEqual(["always", "always", "agent-requested", "manual"]);
+  });
+
+  it("should round-trip rules through Cursor", () => {
+    const cursor = renderComponent(parse(CONTINUE_RULE, ".continue/rules/typescript.md"), "cursor");
+    const back = parse(cursor.content!, ".cursor/rules/typescript.mdc");
+    const rendered = renderComponent(back, "continue");
+
+    expect(rendered.content).toBe(`---
+name: typescript
+description: Conventions for TypeScript sources
+globs:
+  - src/**/*.ts
+  - tests/**/*.ts
+---
+Use strict null checks.
+`);
+    expect(validate(rendered.content!, "continue", "rule").valid).toBe(true);
+  });
+
+  it("should render memory as an always-applied rule", () => {
+    const rendered = renderComponent(parse(CONVENTIONS, "CONVENTIONS.md"), "continue");
+    expect(rendered.filename).toBe("conventions.md");
+    expect(rendered.content).toContain("alwaysApply: true");
+  });
+});
+
+describe("Continue prompts", () => {
+  it("should parse legacy .prompt headers and {{{ input }}}", () => {
+    const spec = parse(CONTINUE_PROMPT, ".continue/prompts/review.prompt");
+    expect(spec.componentType).toBe("command");
+    expect(spec.invocation.slashCommand).toBe("review");
+    expect(spec.intent.summary).toBe("Review the selected code");
+    expect(spec.body).toBe("Review this code for bugs:\n\n$ARGUMENTS");
+  });
+
+  it("should render Claude skills as invokable prompts", () => {
+    const skill = parse(
+      "---\nname: fix\ndescription: Fix an issue\n---\nFix issue $ARGUMENTS\n\nContext: !`git status`\n",
+      ".claude/skills/fix/SKILL.md",
+    );
+    const rendered = renderComponent(skill, "continue");
+
+    expect(getTargetPath(skill, "continue")).toBe(".continue/prompts/fix.prompt");
+    expect(rendered.content).toContain("invokable: true");
+    expect(rendered.content).toContain("Fix issue {{{ input }}}");
+    expect(rendered.report?.losses.some((l) => l.description.includes("shell injection"))).toBe(true);
+    expect(validate(rendered.content!, "continue", "command").valid).toBe(true);
+  });
+
+  it("should round-trip prompts", () => {
+    const spec = parse(CONTINUE_PROMPT, ".continue/prompts/review.prompt");
+    const reparsed = parse(renderComponent(spec, "continue").content!, ".continue/prompts/review.prompt");
+    expect(reparsed.body).toBe(spec.body);
+    expect(reparsed.intent.summary).toBe(spec.intent.summary);
+  });
+});
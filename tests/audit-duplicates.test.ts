@@ -0,0 +1,123 @@
+/**
+ * Tests for content-aware duplicate detection in the audit engine
+ */
+
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  compareFingerprints,
+  findDuplicateGroups,
+  fingerprintComponent,
+  normalizeBody,
+  type DuplicateCandidate,
+} from "../src/audit/duplicate-detection.js";
+import ConfigurationAuditEngine, { AuditReportFormatter } from "../src/audit/audit-engine.js";
+import { parseComponent } from "../src/parsing/parser-factory.js";
+
+const REVIEW_BODY = `Review the changes in $ARGUMENTS.
+
+1. Read every modified file
+2. Look for bugs, missing tests and unclear names
+3. Summarize the findings as a checklist
+`;
+
+const FILES: Record<string, string> = {
+  ".claude/skills/review/SKILL.md": `---\nname: review\ndescription: Review code changes\n---\n${REVIEW_BODY}`,
+  ".windsurf/workflows/code-review.md": `---\ndescription: Review code changes\n---\n<!-- Converted from claude to Windsurf -->\n${REVIEW_BODY}`,
+  ".cursor/commands/review.md": `# Review\n\n${REVIEW_BODY.replace("a checklist", "a short checklist")}`,
+  ".claude/skills/deploy/SKILL.md": "---\nname: deploy\ndescription: Deploy the app\n---\nBuild the docker image, push it to the registry and roll out the new version.\n",
+};
+
+function candidate(path: string, modified = 0): DuplicateCandidate {
+  const content = FILES[path]!;
+  const spec = parseComponent(content, { sourceFile: path }).spec!;
+  return {
+    path,
+    agent: path.split("/")[0]!.slice(1),
+    level: "project",
+    spec,
+    size: content.length,
+    lastModified: new Date(modified),
+  };
+}
+
+describe("fingerprints", () => {
+  it("should ignore formatting, comments and placeholder syntax", () => {
+    expect(normalizeBody("<!-- banner -->\n**Fix** {{args}} now!")).toBe("fix arguments now");
+    expect(normalizeBody("Fix $ARGUMENTS now")).toBe(normalizeBody("fix {{{ input }}} NOW"));
+  });
+
+  it("should score identical bodies by intent and unrelated bodies low", () => {
+    const review = fingerprintComponent(candidate(".claude/skills/review/SKILL.md").spec);
+    const workflow = fingerprintComponent(candidate(".windsurf/workflows/code-review.md").spec);
+    const deploy = fingerprintComponent(candidate(".claude/skills/deploy/SKILL.md").spec);
+
+    expect(review.hash).toBe(workflow.hash);
+    expect(compareFingerprints(review, workflow)).toBeGreaterThan(0.9);
+    expect(compareFingerprints(review, deploy)).toBeLessThan(0.2);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("should group copies across agents and names and flag the drifted one", () => {
+    const groups = findDuplicateGroups([
+      candidate(".claude/skills/review/SKILL.md", 1),
+      candidate(".windsurf/workflows/code-review.md", 2),
+      candidate(".cursor/commands/review.md", 3),
+      candidate(".claude/skills/deploy/SKILL.md"),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    const [group] = groups;
+    // Two copies share a body, so the newer of them is canonical
+    expect(group!.canonical).toBe(".windsurf/workflows/code-review.md");
+    expect(group!.files).toHaveLength(3);
+
+    const cursor = group!.members.find((m) => m.agent === "cursor")!;
+    expect(cursor.drifted).toBe(true);
+    expect(cursor.similarity).toBeGreaterThanOrEqual(0.7);
+    expect(cursor.similarity).toBeLessThan(1);
+    expect(group!.members.filter((m) => m.drifted)).toHaveLength(1);
+    expect(group!.similarity).toBe(cursor.similarity);
+  });
+
+  it("should respect the similarity threshold", () => {
+    const groups = findDuplicateGroups(
+      [candidate(".claude/skills/review/SKILL.md"), candidate(".cursor/commands/review.md")],
+      { threshold: 0.99 },
+    );
+    expect(groups).toEqual([]);
+  });
+});
+
+describe("ConfigurationAuditEngine duplicates", () => {
+  it("should report duplicate groups in pruning, sync and the report", async () => {
+    const root = mkdtempSync(join(tmpdir(), "cace-audit-"));
+    for (const [path, content] of Object.entries(FILES)) {
+      mkdirSync(join(root, path, ".."), { recursive: true });
+      writeFileSync(join(root, path), content);
+    }
+
+    const engine = new ConfigurationAuditEngine({
+      searchPaths: [root],
+      agentTypes: ["claude", "windsurf", "cursor"],
+      checkVersionCurrency: false,
+      checkOptimization: false,
+    });
+    const result = await engine.audit();
+
+    expect(result.duplicates).toHaveLength(1);
+    const claude = result.configs.find((c) => c.agent === "claude")!;
+    expect(claude.pruning.duplicates).toHaveLength(1);
+    expect(claude.pruning.canPrune).toBe(true);
+
+    // The Windsurf workflow is named differently but is the same component
+    expect(claude.synchronization.missingInOther.windsurf).toEqual(["SKILL"]);
+    expect(claude.synchronization.divergentVersions.SKILL).toBe(join(root, ".cursor/commands/review.md"));
+
+    expect(result.recommendations.some((r) => r.description.startsWith("Consolidate 1 duplicated"))).toBe(true);
+    expect(AuditReportFormatter.formatMarkdownReport(result)).toContain("| drifted |");
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for cross-agent content drift in the audit engine
+ */
+
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, mkdirSync, readFileSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import ConfigurationAuditEngine, {
+  AuditReportFormatter,
+  collectStaleCopies,
+  regenerateStaleCopy,
+} from "../src/audit/audit-engine.js";
+import { parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent, getTargetPath } from "../src/rendering/renderer-factory.js";
+import type { AgentId } from "../src/core/types.js";
+
+const SKILL = `---
+name: review
+description: Review code changes
+---
+Review the changes in $ARGUMENTS.
+
+1. Read every modified file
+2. Look for bugs and missing tests
+`;
+
+/** A project with the Claude skill converted to Cursor and Windsurf */
+function createProject(): string {
+  const root = mkdtempSync(join(tmpdir(), "cace-sync-"));
+  const write = (path: string, content: string, mtime: number) => {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+    utimesSync(join(root, path), mtime, mtime);
+  };
+
+  const claudePath = ".claude/skills/review/SKILL.md";
+  write(claudePath, SKILL, 1_000);
+  const spec = parseComponent(SKILL, { sourceFile: claudePath }).spec!;
+  for (const agent of ["cursor", "windsurf"] as AgentId[]) {
+    write(getTargetPath(spec, agent), renderComponent(spec, agent).content!, 2_000);
+  }
+  return root;
+}
+
+function audit(root: string) {
+  return new ConfigurationAuditEngine({
+    searchPaths: [root],
+    agentTypes: ["claude", "cursor", "windsurf"],
+    checkVersionCurrency: false,
+    checkOptimization: false,
+    checkPruning: false,
+  }).audit();
+}
+
+describe("ConfigurationAuditEngine sync drift", () => {
+  it("should not report drift for freshly converted copies", async () => {
+    const result = await audit(createProject());
+
+    for (const config of result.configs) {
+      expect({ agent: config.agent, drift: config.synchronization.drift }).toEqual({ agent: config.agent, drift: [] });
+      expect(config.synchronization.missingInOther).toEqual({});
+    }
+  });
+
+  it("should report drift severity and the fresher side", async () => {
+    const root = createProject();
+    const claudeFile = join(root, ".claude/skills/review/SKILL.md");
+    writeFileSync(claudeFile, SKILL + "3. Check the changelog entry\n4. Run the linters\n");
+    utimesSync(claudeFile, 3_000, 3_000);
+
+    const result = await audit(root);
+    const claude = result.configs.find((c) => c.agent === "claude")!;
+
+    expect(claude.synchronization.drift.map((d) => d.otherAgent).sort()).toEqual(["cursor", "windsurf"]);
+    const cursor = claude.synchronization.drift.find((d) => d.otherAgent === "cursor")!;
+    expect(cursor.component).toBe("review");
+    expect(cursor.severity).toBe("moderate");
+    expect(cursor.changedFields).toEqual(["body"]);
+    expect(cursor.fresher).toBe(claudeFile);
+    expect(cursor.stale).toBe(join(root, ".cursor/skills/review/SKILL.md"));
+    expect(claude.synchronization.divergentVersions.SKILL).toBeDefined();
+    expect(claude.synchronization.syncScore).toBe(90);
+
+    expect(result.recommendations.some((r) => r.description.startsWith("Regenerate 2 stale copies"))).toBe(true);
+    expect(AuditReportFormatter.formatMarkdownReport(result)).toContain("| review | cursor | moderate | body |");
+  });
+
+  it("should regenerate the stale side from the fresher one", async () => {
+    const root = createProject();
+    const cursorFile = join(root, ".cursor/skills/review/SKILL.md");
+    writeFileSync(cursorFile, readFileSync(cursorFile, "utf-8").replace("missing tests", "missing tests and docs"));
+    utimesSync(cursorFile, 3_000, 3_000);
+
+    const stale = collectStaleCopies((await audit(root)).configs);
+    // Claude and Windsurf each drifted from the edited Cursor copy
+    expect(stale.map((d) => d.fresher)).toEqual([cursorFile, cursorFile]);
+
+    for (const drift of stale) {
+      expect(regenerateStaleCopy(drift).success).toBe(true);
+    }
+    expect(readFileSync(join(root, ".claude/skills/review/SKILL.md"), "utf-8")).toContain("missing tests and docs");
+
+    const after = await audit(root);
+    expect(collectStaleCopies(after.configs)).toEqual([]);
+  });
+});
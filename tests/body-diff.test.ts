@@ -0,0 +1,123 @@
+/**
+ * Tests for the structured body diff in core/diff.ts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { diffBodies, diffSpecs, formatBodyDiff, formatDiffForDisplay } from '../src/core/diff.js';
+import type { ComponentSpec } from '../src/core/types.js';
+
+const OLD_BODY = `Review the changes in $ARGUMENTS.
+
+Be thorough.
+Focus on correctness.
+
+## Steps
+
+1. Read every modified file
+2. Look for bugs
+3. Summarize the findings
+
+## Output
+
+Post a checklist.`;
+
+const NEW_BODY = `Review the changes in {{args}}.
+
+Be thorough.
+Focus on correctness.
+
+## Steps
+
+1. Read every modified file
+2. Look for bugs and missing tests
+3. Summarize the findings
+
+## Notes
+
+Skip generated files.
+
+## Output
+
+Post a checklist.`;
+
+describe('diffBodies', () => {
+  test('produces unified hunks labelled with their section', () => {
+    const diff = diffBodies(OLD_BODY, NEW_BODY);
+
+    expect(diff.linesAdded).toBe(6);
+    expect(diff.linesRemoved).toBe(2);
+    expect(diff.sections).toEqual([
+      { heading: '', status: 'changed' },
+      { heading: '## Steps', status: 'changed' },
+      { heading: '## Notes', status: 'added' },
+    ]);
+
+    const [first, second] = diff.hunks;
+    expect(diff.hunks).toHaveLength(2);
+    expect(first).toMatchObject({ section: '', oldStart: 1, oldLines: 4, newStart: 1, newLines: 4 });
+    expect(second).toMatchObject({ section: '## Steps', oldStart: 6, oldLines: 9, newStart: 6, newLines: 13 });
+    expect(second!.lines.filter(l => l.kind === 'added').map(l => l.newLine)).toEqual([9, 12, 13, 14, 15]);
+  });
+
+  test('attaches word changes to replaced lines', () => {
+    const removed = diffBodies(OLD_BODY, NEW_BODY).hunks[1]!.lines.find(l => l.kind === 'removed')!;
+    expect(removed.text).toBe('2. Look for bugs');
+    expect(removed.words).toEqual([{ kind: 'equal', text: '2. Look for bugs' }]);
+
+    const added = diffBodies(OLD_BODY, NEW_BODY).hunks[1]!.lines.find(l => l.kind === 'added')!;
+    expect(added.words).toEqual([
+      { kind: 'equal', text: '2. Look for bugs' },
+      { kind: 'added', text: ' and missing tests' },
+    ]);
+  });
+
+  test('does not split sections at headings inside code fences', () => {
+    const diff = diffBodies('Run:\n\n```sh\n# build\nmake\n```', 'Run:\n\n```sh\n# build\nmake all\n```');
+    expect(diff.sections).toEqual([{ heading: '', status: 'changed' }]);
+  });
+
+  test('renders as a unified diff', () => {
+    const text = formatBodyDiff(diffBodies(OLD_BODY, NEW_BODY), false);
+    expect(text).toContain('@@ -6,9 +6,13 @@ ## Steps');
+    expect(text).toContain('-2. Look for bugs\n+2. Look for bugs and missing tests');
+    expect(text).toContain('+## Notes');
+  });
+});
+
+describe('diffSpecs body diff', () => {
+  const spec = {
+    id: 'review',
+    version: { major: 1, minor: 0, patch: 0 },
+    componentType: 'skill',
+    intent: { summary: 'Review', purpose: 'Review' },
+    activation: { mode: 'manual', safetyLevel: 'safe' },
+    invocation: { userInvocable: true },
+    execution: { context: 'main' },
+    capabilities: {
+      needsShell: false, needsFilesystem: false, needsNetwork: false, needsGit: false,
+      needsCodeSearch: false, needsBrowser: false, providesAnalysis: false,
+      providesCodeGeneration: false, providesRefactoring: false, providesDocumentation: false,
+    },
+    body: OLD_BODY,
+    metadata: {},
+  } as ComponentSpec;
+
+  test('is only attached when the bodies differ', () => {
+    expect(diffSpecs(spec, spec).bodyDiff).toBeUndefined();
+
+    const diff = diffSpecs(spec, { ...spec, body: NEW_BODY });
+    expect(diff.bodyDiff?.hunks).toHaveLength(2);
+    expect(JSON.parse(JSON.stringify(diff)).bodyDiff.hunks[0].lines[0].kind).toBe('removed');
+    expect(formatDiffForDisplay(diff, false)).toContain('Body (+6 -2 lines):');
+  });
+
+  test('catches reordered steps and case-only edits', () => {
+    const reordered = diffSpecs(spec, { ...spec, body: OLD_BODY.replace('2. Look for bugs\n3. Summarize the findings', '3. Summarize the findings\n2. Look for bugs') });
+    expect(reordered.overallSeverity).toBe('minor');
+    expect(reordered.bodyDiff?.hunks).toHaveLength(1);
+
+    const recased = diffSpecs(spec, { ...spec, body: OLD_BODY.replace('Be thorough.', 'BE THOROUGH.') });
+    expect(recased.identical).toBe(false);
+    expect(recased.diffs.map((d) => d.description)).toEqual(['Body content changed (+1 -1 lines)']);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for canonical .cace.yaml sources, agent overrides and `cace build`
+ */
+
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parseCanonicalSpec } from "../src/parsing/canonical/canonical-parser.js";
+import { renderCanonicalSpec } from "../src/rendering/canonical/canonical-renderer.js";
+import { detectAgent, parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent } from "../src/rendering/renderer-factory.js";
+import { buildCommand, buildComponent, defaultBuildTargets } from "../src/cli/build.js";
+import type { ComponentSpec } from "../src/core/types.js";
+
+const SKILL_YAML = `id: review
+componentType: skill
+version: 1.2.0
+intent:
+  summary: Review code for bugs
+invocation:
+  argumentHint: <file>
+capabilities:
+  needsGit: true
+agentOverrides:
+  codex:
+    frontmatterOverrides:
+      model: gpt-5-codex
+    bodySuffix: Run the tests first.
+  gemini:
+    bodyPrefix: Be concise.
+body: |
+  Review $ARGUMENTS for bugs.
+`;
+
+const RULE_MD = `---
+id: typescript
+componentType: rule
+intent:
+  summary: TypeScript conventions
+activation:
+  mode: contextual
+  triggers:
+    - type: glob
+      pattern: src/**/*.ts
+---
+
+Use strict null checks.
+`;
+
+const HOOKS_YAML = `id: hooks
+componentType: hook
+intent:
+  summary: Check shell commands
+hooks:
+  - event: PreToolUse
+    matcher: Bash
+    command: ./check.sh
+body: Check shell commands before they run.
+`;
+
+const CONFIG_YAML = `id: settings
+componentType: config
+intent:
+  summary: Project settings
+execution:
+  preferredModel: opus
+body: Project settings.
+`;
+
+function parse(content: string, sourceFile: string): ComponentSpec {
+  const result = parseCanonicalSpec(content, { sourceFile });
+  if (!result.success) throw new Error(result.errors.join(", "));
+  return result.spec!;
+}
+
+describe("parseCanonicalSpec", () => {
+  it("should map YAML keys onto ComponentSpec and fill in defaults", () => {
+    const spec = parse(SKILL_YAML, "review.cace.yaml");
+
+    expect(spec.version).toEqual({ major: 1, minor: 2, patch: 0, prerelease: undefined });
+    expect(spec.sourceAgent?.id).toBe("universal");
+    expect(spec.activation.mode).toBe("manual");
+    expect(spec.invocation).toEqual({ userInvocable: true, argumentHint: "<file>" });
+    expect(spec.capabilities.needsGit).toBe(true);
+    expect(spec.capabilities.needsShell).toBe(false);
+    expect(spec.agentOverrides?.codex?.agentId).toBe("codex");
+    expect(spec.body).toBe("Review $ARGUMENTS for bugs.");
+  });
+
+  it("should read .cace.md frontmatter and markdown body", () => {
+    const spec = parse(RULE_MD, "rules/typescript.cace.md");
+    expect(spec.componentType).toBe("rule");
+    expect(spec.body).toBe("Use strict null checks.");
+    expect(spec.metadata.originalFormat).toBe("cace");
+  });
+
+  it("should report invalid sources with field paths", () => {
+    const result = parseCanonicalSpec(
+      "id: x\ncomponentType: widget\nversion: one\nintent:\n  summary: X\nagentOverrides:\n  copilot: {}\nbody: X\n",
+      { sourceFile: "x.cace.yaml" },
+    );
+    expect(result.success).toBe(false);
+    expect(result.errors).toContain('version: "one" is not a semantic version (e.g. 1.0.0)');
+    expect(result.errors.some((e) => e.startsWith("agentOverrides.copilot"))).toBe(true);
+    expect(result.errors.some((e) => e.startsWith("componentType"))).toBe(true);
+  });
+
+  it("should warn about fields ComponentSpec does not have", () => {
+    const result = parseCanonicalSpec(SKILL_YAML + "targets: [claude]\n", { sourceFile: "review.cace.yaml" });
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(["Unknown field ignored: targets"]);
+  });
+
+  it("should be detected and parsed through the parser factory", () => {
+    expect(detectAgent(SKILL_YAML, ".cace/review.cace.yaml")).toBe("universal");
+    const result = parseComponent(SKILL_YAML, { sourceFile: ".cace/review.cace.yaml" });
+    expect(result.spec?.id).toBe("review");
+  });
+});
+
+describe("agentOverrides", () => {
+  it("should apply frontmatter and body overrides in Codex and Gemini", () => {
+    const spec = parse(SKILL_YAML, "review.cace.yaml");
+
+    const codex = renderComponent(spec, "codex").content!;
+    expect(codex).toContain("model: gpt-5-codex");
+    expect(codex).toContain("Review $ARGUMENTS for bugs.\n\nRun the tests first.");
+
+    const gemini = renderComponent({ ...spec, componentType: "command" }, "gemini").content!;
+    expect(gemini).toContain("Be concise.\n\nReview {{args}} for bugs.");
+  });
+
+  it("should apply body overrides to AGENTS.md and OpenCode", () => {
+    const memory = parse("id: project\ncomponentType: memory\nintent:\n  summary: Project\nbody: Use bun.\n", "project.cace.yaml");
+    const withOverrides: ComponentSpec = {
+      ...memory,
+      agentOverrides: {
+        universal: { agentId: "universal", bodySuffix: "Generated by cace build." },
+        opencode: { agentId: "opencode", bodyPrefix: "OpenCode:", frontmatterOverrides: { mode: "plan" } },
+      },
+    };
+
+    expect(renderComponent(withOverrides, "universal").content).toContain("Use bun.\n\nGenerated by cace build.");
+    const opencode = renderComponent(withOverrides, "opencode").content!;
+    expect(opencode).toContain("mode: plan");
+    expect(opencode).toContain("OpenCode:\n\nUse bun.");
+  });
+
+  it("should apply the same override in every renderer", () => {
+    const rule = parse(RULE_MD, "typescript.cace.md");
+    const override = { bodyPrefix: "Generated.", frontmatterOverrides: { description: "Overridden" } };
+    const withOverrides: ComponentSpec = {
+      ...rule,
+      agentOverrides: Object.fromEntries(
+        (["claude", "windsurf", "cursor", "aider", "continue"] as const).map((agentId) => [agentId, { agentId, ...override }]),
+      ),
+    };
+
+    for (const agent of ["claude", "windsurf", "cursor", "continue"] as const) {
+      const content = renderComponent(withOverrides, agent).content!;
+      expect(content).toContain("description: Overridden");
+      expect(content).toContain("Generated.\n\nUse strict null checks.");
+    }
+    expect(renderComponent(withOverrides, "aider").content).toBe("Generated.\n\nUse strict null checks.\n");
+  });
+});
+
+describe("renderCanonicalSpec", () => {
+  it("should round-trip a canonical source", () => {
+    const spec = parse(SKILL_YAML, "review.cace.yaml");
+    const rendered = renderCanonicalSpec(spec);
+
+    expect(rendered).not.toContain("sourceAgent");
+    expect(rendered).not.toContain("needsShell");
+    expect(parse(rendered, "review.cace.yaml")).toEqual(spec);
+  });
+
+  it("should move a Claude skill to a canonical source", () => {
+    const claude = parseComponent("---\nname: fix\ndescription: Fix an issue\n---\nFix issue $ARGUMENTS\n", {
+      sourceFile: ".claude/skills/fix/SKILL.md",
+    }).spec!;
+    const spec = parse(renderCanonicalSpec(claude), "fix.cace.yaml");
+
+    expect(spec.id).toBe("fix");
+    expect(spec.body).toBe(claude.body.trim());
+    expect(renderComponent(spec, "claude").content).toBe(renderComponent(claude, "claude").content);
+  });
+});
+
+describe("cace build", () => {
+  it("should target every agent with an equivalent component type", () => {
+    const rule = parse(RULE_MD, "typescript.cace.md");
+    expect(defaultBuildTargets(rule)).toEqual(["claude", "windsurf", "cursor", "codex", "aider", "continue"]);
+
+    const paths = buildComponent(rule, defaultBuildTargets(rule)).map((t) => t.path);
+    expect(paths).toContain(".cursor/rules/typescript.mdc");
+    expect(paths).toContain(".continue/rules/typescript.md");
+  });
+
+  it("should report agents that cannot render the component", () => {
+    const [target] = buildComponent(parse(SKILL_YAML, "review.cace.yaml"), ["aider"]);
+    expect(target?.error).toBeDefined();
+    expect(target?.content).toBeUndefined();
+  });
+
+  it("should write agent files from a directory of sources", () => {
+    const root = mkdtempSync(join(tmpdir(), "cace-build-"));
+    mkdirSync(join(root, "src"));
+    writeFileSync(join(root, "src", "review.cace.yaml"), SKILL_YAML);
+    writeFileSync(join(root, "src", "typescript.cace.md"), RULE_MD);
+    const out = join(root, "out");
+
+    const result = buildCommand([join(root, "src")], { to: ["claude", "cursor"], output: out });
+
+    expect(result).toEqual({ success: true, written: 4, failed: 0 });
+    expect(readFileSync(join(out, ".claude/skills/review/SKILL.md"), "utf-8")).toContain("argument-hint: <file>");
+    expect(existsSync(join(out, ".cursor/rules/typescript.mdc"))).toBe(true);
+  });
+
+  it("should merge sources that share a settings file into what is there", () => {
+    const root = mkdtempSync(join(tmpdir(), "cace-build-"));
+    writeFileSync(join(root, "hooks.cace.yaml"), HOOKS_YAML);
+    writeFileSync(join(root, "settings.cace.yaml"), CONFIG_YAML);
+    const out = join(root, "out");
+    mkdirSync(join(out, ".claude"), { recursive: true });
+    writeFileSync(join(out, ".claude/settings.json"), JSON.stringify({ theme: "dark", permissions: { deny: ["Read(.env)"] } }));
+
+    const result = buildCommand([root], { to: ["claude"], output: out });
+
+    expect(result).toEqual({ success: true, written: 2, failed: 0 });
+    const settings = JSON.parse(readFileSync(join(out, ".claude/settings.json"), "utf-8"));
+    expect(settings.theme).toBe("dark");
+    expect(settings.model).toBe("opus");
+    expect(settings.hooks.PreToolUse).toEqual([{ matcher: "Bash", hooks: [{ type: "command", command: "./check.sh" }] }]);
+    expect(settings.permissions).toEqual({ deny: ["Read(.env)"] });
+  });
+
+  it("should not overwrite a settings file that is not JSON without --force", () => {
+    const root = mkdtempSync(join(tmpdir(), "cace-build-"));
+    writeFileSync(join(root, "hooks.cace.yaml"), HOOKS_YAML);
+    const out = join(root, "out");
+    mkdirSync(join(out, ".claude"), { recursive: true });
+    writeFileSync(join(out, ".claude/settings.json"), "{ not json");
+
+    expect(buildCommand([root], { to: ["claude"], output: out })).toEqual({ success: false, written: 0, failed: 1 });
+    expect(readFileSync(join(out, ".claude/settings.json"), "utf-8")).toBe("{ not json");
+
+    expect(buildCommand([root], { to: ["claude"], output: out, force: true }).success).toBe(true);
+    expect(JSON.parse(readFileSync(join(out, ".claude/settings.json"), "utf-8")).hooks).toBeDefined();
+  });
+
+  it("should not write anything when a source is invalid", () => {
+    const root = mkdtempSync(join(tmpdir(), "cace-build-"));
+    writeFileSync(join(root, "good.cace.yaml"), SKILL_YAML);
+    writeFileSync(join(root, "bad.cace.yaml"), "id: bad\n");
+
+    const result = buildCommand([root], { output: join(root, "out") });
+    expect(result).toEqual({ success: false, written: 0, failed: 1 });
+    expect(existsSync(join(root, "out"))).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for the capability mapping table and the losses renderers derive from it
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { AgentId, ComponentSpec } from "../src/core/types.js";
+import {
+  CAPABILITY_FEATURES,
+  getMapping,
+  getMappingSource,
+  mapCapabilities,
+} from "../src/transformation/capability-mapper.js";
+import { renderComponent } from "../src/rendering/renderer-factory.js";
+import { mappingRows } from "../src/cli/mappings.js";
+
+const BUILTIN_AGENTS: AgentId[] = ["claude", "windsurf", "cursor", "opencode", "gemini", "codex", "universal", "aider", "continue"];
+
+function skillSpec(overrides: Partial<ComponentSpec> = {}): ComponentSpec {
+  return {
+    id: "review",
+    version: { major: 1, minor: 0, patch: 0 },
+    sourceAgent: { id: "claude" },
+    componentType: "skill",
+    category: [],
+    intent: { summary: "Review code changes", purpose: "Review code changes" },
+    activation: { mode: "suggested", safetyLevel: "safe" },
+    invocation: { userInvocable: true, argumentHint: "[file]" },
+    execution: { context: "fork", subAgent: "Explore", allowedTools: ["Read", "Grep"], preferredModel: "opus" },
+    body: "Review $ARGUMENTS.\n",
+    capabilities: {
+      needsShell: false,
+      needsGit: false,
+      needsNetwork: false,
+      needsBrowser: false,
+      needsCodeSearch: false,
+      needsMcp: false,
+      providesAnalysis: true,
+      providesCodeGeneration: false,
+      providesRefactoring: false,
+      providesDocumentation: false,
+      modifiesFiles: false,
+      modifiesGit: false,
+      runsCommands: false,
+    },
+    metadata: {},
+    ...overrides,
+  } as ComponentSpec;
+}
+
+describe("capability mapping table", () => {
+  it("covers every capability for every pair of built-in agents", () => {
+    for (const feature of CAPABILITY_FEATURES) {
+      for (const source of feature.sources) {
+        for (const target of BUILTIN_AGENTS.filter((a) => a !== source)) {
+          expect(getMapping(source, target, feature.field)).toBeDefined();
+        }
+      }
+    }
+  });
+
+  it("prefers mappings limited to the component type", () => {
+    expect(getMapping("claude", "gemini", "execution.allowedTools", "command")?.strategy.type).toBe("unsupported");
+    expect(getMapping("claude", "gemini", "execution.allowedTools", "skill")?.strategy.type).toBe("transform");
+    expect(getMapping("windsurf", "claude", "activation.mode")?.strategy.type).toBe("fallback");
+  });
+
+  it("maps agents the table does not cover as the universal format", () => {
+    expect(getMappingSource("claude")).toBe("claude");
+    expect(getMappingSource("aider")).toBe("universal");
+    expect(getMappingSource(undefined)).toBe("universal");
+  });
+});
+
+describe("renderer losses", () => {
+  const targets: AgentId[] = ["windsurf", "cursor", "opencode", "gemini", "codex", "continue"];
+
+  for (const target of targets) {
+    for (const componentType of ["skill", "command"] as const) {
+      it(`match the table for a Claude ${componentType} rendered for ${target}`, () => {
+        const spec = skillSpec({ componentType });
+        const report = renderComponent(spec, target).report!;
+
+        for (const feature of CAPABILITY_FEATURES) {
+          const strategy = getMapping("claude", target, feature.field, componentType)!.strategy;
+          const loss = report.losses.find((l) => l.sourceField === feature.field);
+          const warning = report.warnings.find((w) => w.field === feature.field);
+
+          expect(loss?.description).toBe(strategy.type === "unsupported" ? strategy.lossDescription : undefined);
+          expect(warning?.message).toBe(strategy.type === "fallback" ? strategy.warning : undefined);
+        }
+      });
+    }
+  }
+
+  it("reports nothing for capabilities the component does not use", () => {
+    const spec = skillSpec({
+      activation: { mode: "manual", safetyLevel: "safe" },
+      invocation: { userInvocable: true },
+      execution: { context: "main" },
+    });
+    expect(mapCapabilities(spec, "cursor")).toEqual({ losses: [], warnings: [], suggestions: [] });
+  });
+
+  it("reports nothing when rendering for the source agent", () => {
+    expect(mapCapabilities(skillSpec(), "claude").losses).toEqual([]);
+  });
+});
+
+describe("cace mappings", () => {
+  it("lists each capability with type-specific rows first", () => {
+    const rows = mappingRows("claude", "gemini");
+    expect([...new Set(rows.map((r) => r.field))]).toEqual(CAPABILITY_FEATURES.map((f) => f.field));
+
+    const tools = rows.filter((r) => r.field === "execution.allowedTools");
+    expect(tools.map((r) => [r.componentTypes, r.strategy])).toEqual([
+      [["command"], "unsupported"],
+      [undefined, "transform"],
+    ]);
+    expect(mappingRows("claude", "claude")).toEqual([]);
+  });
+});
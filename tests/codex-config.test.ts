@@ -0,0 +1,190 @@
+/**
+ * Tests for Codex config.toml and custom prompts (~/.codex/prompts/*.md)
+ */
+
+import { describe, it, expect } from "bun:test";
+import matter from "gray-matter";
+import { getConfigSpec } from "../src/core/agent-config.js";
+import { parseToml } from "../src/core/toml.js";
+import { CodexParser } from "../src/parsing/codex-parser.js";
+import { renderComponent, getTargetPath } from "../src/rendering/renderer-factory.js";
+import { CodexValidator } from "../src/validation/agents/codex-validator.js";
+
+const CONFIG = `model = "gpt-5-codex"
+approval_policy = "on-request"
+sandbox_mode = "read-only"
+model_reasoning_effort = "high"
+
+[features]
+web_search_request = true
+
+[mcp_servers.docs]
+command = "npx"
+args = ["-y", "docs-mcp"]
+env = { DOCS_TOKEN = "\${DOCS_TOKEN}" }
+startup_timeout_sec = 20
+
+[mcp_servers.remote]
+url = "https://mcp.example.com/mcp"
+
+[profiles.yolo]
+model = "o3"
+approval_policy = "never"
+sandbox_mode = "danger-full-access"
+`;
+
+const PROMPT = `---
+description: Review a pull request
+argument-hint: PR=<number>
+---
+
+Review pull request $PR. Focus on $1 and summarise $ARGUMENTS.
+`;
+
+describe("Codex config.toml", () => {
+  const parser = new CodexParser();
+
+  function parseConfig() {
+    const result = parser.parse(CONFIG, { sourceFile: ".codex/config.toml" });
+    if (!result.success) throw new Error(result.errors.join(", "));
+    return result.spec;
+  }
+
+  it("should parse config into metadata", () => {
+    const spec = parseConfig();
+    expect(spec.componentType).toBe("config");
+    expect(spec.metadata.model).toBe("gpt-5-codex");
+    expect(spec.metadata.approvalPolicy).toBe("on-request");
+    expect(spec.metadata.sandboxMode).toBe("read-only");
+    expect(spec.metadata.features).toEqual({ web_search_request: true });
+    expect(Object.keys(spec.metadata.mcpServers ?? {})).toEqual(["docs", "remote"]);
+    expect(spec.metadata.originalFormat).toBe("codex-config");
+  });
+
+  it("should keep profiles and unmapped settings in the config spec", () => {
+    const config = getConfigSpec(parseConfig());
+    expect(config?.profiles?.yolo).toEqual({
+      model: "o3",
+      approval_policy: "never",
+      sandbox_mode: "danger-full-access",
+    });
+    expect(config?.settings).toEqual({ model_reasoning_effort: "high" });
+    expect(config?.scope).toBe("project");
+  });
+
+  it("should detect config.toml without a path", () => {
+    const result = parser.parse(CONFIG);
+    expect(result.success).toBe(true);
+    expect(result.spec?.componentType).toBe("config");
+  });
+
+  it("should warn about unknown policies", () => {
+    const result = parser.parse('approval_policy = "sometimes"\n', { sourceFile: "config.toml" });
+    expect(result.success).toBe(true);
+    expect(result.warnings[0]).toContain("sometimes");
+    expect(result.spec?.metadata.approvalPolicy).toBeUndefined();
+  });
+
+  it("should round-trip losslessly through the Codex renderer", () => {
+    const spec = parseConfig();
+    const rendered = renderComponent(spec, "codex");
+    expect(rendered.success).toBe(true);
+    expect(getTargetPath(spec, "codex")).toBe(".codex/config.toml");
+    expect(parseToml(rendered.content!)).toEqual(parseToml(CONFIG));
+    expect(rendered.report?.losses).toEqual([]);
+  });
+
+  it("should render Claude settings.json", () => {
+    const spec = parseConfig();
+    const rendered = renderComponent(spec, "claude");
+    expect(getTargetPath(spec, "claude")).toBe(".claude/settings.json");
+
+    const settings = JSON.parse(rendered.content!);
+    expect(settings.model).toBe("gpt-5-codex");
+    expect(settings.permissions.defaultMode).toBe("default");
+    expect(settings.permissions.deny).toEqual(["Edit", "Write", "NotebookEdit"]);
+    expect(settings.sandbox).toEqual({ enabled: true });
+    expect(settings.enabledMcpjsonServers).toEqual(["docs", "remote"]);
+
+    const lossFields = rendered.report!.losses.map((l) => l.sourceField);
+    expect(lossFields).toEqual(["mcpServers", "profiles", "settings", "features"]);
+    expect(rendered.report?.target.componentType).toBe("config");
+    expect(rendered.partial).toBe(true);
+  });
+
+  it("should render Gemini settings.json", () => {
+    const spec = parseConfig();
+    const rendered = renderComponent(spec, "gemini");
+    expect(getTargetPath(spec, "gemini")).toBe(".gemini/settings.json");
+
+    const settings = JSON.parse(rendered.content!);
+    expect(settings.model).toEqual({ name: "gpt-5-codex" });
+    expect(settings.tools).toEqual({ autoAccept: false, sandbox: true });
+    expect(settings.mcpServers.docs).toEqual({
+      command: "npx",
+      args: ["-y", "docs-mcp"],
+      env: { DOCS_TOKEN: "${DOCS_TOKEN}" },
+    });
+    expect(settings.mcpServers.remote).toEqual({ httpUrl: "https://mcp.example.com/mcp" });
+
+    const lossFields = rendered.report!.losses.map((l) => l.sourceField);
+    expect(lossFields).toContain("sandboxMode");
+    expect(lossFields).toContain("mcpServers.docs");
+    expect(rendered.partial).toBe(true);
+  });
+
+  it("should map approval_policy never to bypassPermissions with a warning", () => {
+    const result = parser.parse('approval_policy = "never"\n', { sourceFile: "config.toml" });
+    const rendered = renderComponent(result.spec!, "claude");
+    expect(JSON.parse(rendered.content!).permissions.defaultMode).toBe("bypassPermissions");
+    expect(rendered.report?.warnings.some((w) => w.code === "BYPASS_PERMISSIONS")).toBe(true);
+  });
+
+  it("should validate policies in profiles", () => {
+    const validator = new CodexValidator();
+    expect(validator.validate(CONFIG, "config").valid).toBe(true);
+
+    const invalid = validator.validate('[profiles.bad]\nsandbox_mode = "everything"\n', "config");
+    expect(invalid.valid).toBe(false);
+    expect(invalid.issues[0]?.field).toBe("profiles.bad.sandbox_mode");
+  });
+});
+
+describe("Codex custom prompts", () => {
+  const parser = new CodexParser();
+
+  it("should parse prompts as manual commands", () => {
+    const result = parser.parse(PROMPT, { sourceFile: "/home/me/.codex/prompts/review.md" });
+    if (!result.success) throw new Error(result.errors.join(", "));
+
+    expect(result.spec.id).toBe("review");
+    expect(result.spec.componentType).toBe("command");
+    expect(result.spec.activation.mode).toBe("manual");
+    expect(result.spec.invocation.argumentHint).toBe("PR=<number>");
+    expect(result.spec.metadata.originalFormat).toBe("codex-prompt");
+  });
+
+  it("should render commands as prompts", () => {
+    const result = parser.parse(PROMPT, { sourceFile: ".codex/prompts/review.md" });
+    const rendered = renderComponent(result.spec!, "codex");
+    expect(getTargetPath(result.spec!, "codex")).toBe(".codex/prompts/review.md");
+
+    const parsed = matter(rendered.content!);
+    expect(parsed.data).toEqual({
+      description: "Review a pull request",
+      "argument-hint": "PR=<number>",
+    });
+    expect(parsed.content).toContain("$PR");
+    expect(parsed.content).toContain("$ARGUMENTS");
+    expect(new CodexValidator().validate(rendered.content!, "command").valid).toBe(true);
+  });
+
+  it("should report shell injection as a loss", () => {
+    const result = parser.parse("---\ndescription: Diff\n---\n\nExplain !`git diff`\n", {
+      sourceFile: ".codex/prompts/diff.md",
+    });
+    const rendered = renderComponent(result.spec!, "codex");
+    expect(rendered.content).toContain("(run: `git diff`)");
+    expect(rendered.report?.losses[0]?.sourceField).toBe("body");
+  });
+});
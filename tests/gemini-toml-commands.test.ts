@@ -0,0 +1,172 @@
+/**
+ * Tests for Gemini CLI TOML custom commands (.gemini/commands/**\/*.toml)
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { ComponentSpec } from "../src/core/types.js";
+import { parseToml } from "../src/core/toml.js";
+import { GeminiParser } from "../src/parsing/gemini-parser.js";
+import { detectAgent, parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent, getTargetPath } from "../src/rendering/renderer-factory.js";
+
+const COMMIT_COMMAND = `description = "Generate a commit message from staged changes"
+prompt = """
+Write a conventional commit message for these changes:
+
+!{git diff --staged}
+
+Focus on: {{args}}
+"""
+`;
+
+function commandSpec(overrides: Partial<ComponentSpec> = {}): ComponentSpec {
+  return {
+    id: "review",
+    version: { major: 1, minor: 0, patch: 0 },
+    sourceAgent: { id: "claude" },
+    componentType: "command",
+    intent: { summary: "Review a file", purpose: "Review a file" },
+    activation: { mode: "manual", safetyLevel: "safe" },
+    invocation: { userInvocable: true, slashCommand: "review" },
+    execution: { context: "main" },
+    capabilities: {
+      needsShell: false,
+      needsFilesystem: true,
+      needsNetwork: false,
+      needsGit: false,
+      needsCodeSearch: false,
+      needsBrowser: false,
+      providesAnalysis: true,
+      providesCodeGeneration: false,
+      providesRefactoring: false,
+      providesDocumentation: false,
+    },
+    body: "Review $ARGUMENTS for bugs.\n\nCurrent branch: !`git branch --show-current`",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe("GeminiParser TOML commands", () => {
+  const parser = new GeminiParser();
+
+  it("should parse description and prompt", () => {
+    const result = parser.parse(COMMIT_COMMAND, { sourceFile: ".gemini/commands/commit.toml" });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.spec.componentType).toBe("command");
+    expect(result.spec.id).toBe("commit");
+    expect(result.spec.intent.summary).toBe("Generate a commit message from staged changes");
+    expect(result.spec.activation.mode).toBe("manual");
+    expect(result.spec.invocation.userInvocable).toBe(true);
+    expect(result.spec.metadata.originalFormat).toBe("gemini-command-toml");
+  });
+
+  it("should map {{args}} and !{...} to IR syntax", () => {
+    const result = parser.parse(COMMIT_COMMAND, { sourceFile: ".gemini/commands/commit.toml" });
+    if (!result.success) throw new Error(result.errors.join(", "));
+
+    expect(result.spec.body).toContain("!`git diff --staged`");
+    expect(result.spec.body).toContain("Focus on: $ARGUMENTS");
+    expect(result.spec.body).not.toContain("{{args}}");
+    expect(result.spec.capabilities.needsShell).toBe(true);
+    expect(result.spec.activation.safetyLevel).toBe("sensitive");
+  });
+
+  it("should keep braces balanced inside shell injection", () => {
+    const content = 'prompt = "Search: !{grep -rn {{args}} src} done"\n';
+    const result = parser.parse(content, { sourceFile: ".gemini/commands/search.toml" });
+    if (!result.success) throw new Error(result.errors.join(", "));
+    expect(result.spec.body).toBe("Search: !`grep -rn $ARGUMENTS src` done");
+  });
+
+  it("should derive namespaced names from subdirectories", () => {
+    const result = parser.parse(COMMIT_COMMAND, {
+      sourceFile: "/repo/.gemini/commands/git/commit.toml",
+    });
+    if (!result.success) throw new Error(result.errors.join(", "));
+
+    expect(result.spec.id).toBe("git-commit");
+    expect(result.spec.invocation.slashCommand).toBe("git:commit");
+  });
+
+  it("should fail without a prompt and warn about unknown keys", () => {
+    const missing = parser.parse('description = "No prompt"\n', {
+      sourceFile: ".gemini/commands/empty.toml",
+    });
+    expect(missing.success).toBe(false);
+
+    const extra = parser.parse('prompt = "Hi"\nmodel = "gemini-2.5-pro"\n', {
+      sourceFile: ".gemini/commands/hi.toml",
+    });
+    expect(extra.success).toBe(true);
+    expect(extra.warnings.some((w) => w.includes("model"))).toBe(true);
+  });
+
+  it("should report TOML syntax errors", () => {
+    const result = parser.parse('prompt = "unterminated\n', { sourceFile: ".gemini/commands/bad.toml" });
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("line 1");
+  });
+
+  it("should detect TOML commands by path and content", () => {
+    expect(detectAgent(COMMIT_COMMAND, ".gemini/commands/git/commit.toml")).toBe("gemini");
+    expect(parser.canParse(COMMIT_COMMAND)).toBe(true);
+  });
+});
+
+describe("GeminiRenderer TOML commands", () => {
+  it("should render commands as TOML with Gemini placeholders", () => {
+    const result = renderComponent(commandSpec(), "gemini");
+    expect(result.success).toBe(true);
+    expect(result.filename).toBe("review.toml");
+
+    const data = parseToml(result.content!);
+    expect(data.description).toBe("Review a file");
+    expect(data.prompt).toContain("Review {{args}} for bugs.");
+    expect(data.prompt).toContain("!{git branch --show-current}");
+    expect(Object.keys(data).sort()).toEqual(["description", "prompt"]);
+  });
+
+  it("should place namespaced commands in subdirectories", () => {
+    const spec = commandSpec({
+      id: "git-commit",
+      invocation: { userInvocable: true, slashCommand: "git:commit" },
+    });
+    expect(getTargetPath(spec, "gemini")).toBe(".gemini/commands/git/commit.toml");
+  });
+
+  it("should report positional arguments and execution settings as losses", () => {
+    const spec = commandSpec({
+      body: "Compare $1 with $2",
+      execution: { context: "main", allowedTools: ["Read"] },
+      metadata: { model: "opus" },
+    });
+    const result = renderComponent(spec, "gemini");
+    const fields = result.report!.losses.map((l) => l.sourceField);
+    expect(fields).toContain("$1..$9");
+    expect(fields).toContain("execution.preferredModel");
+    expect(fields).toContain("execution.allowedTools");
+  });
+
+  it("should round-trip through TOML", () => {
+    const parsed = parseComponent(COMMIT_COMMAND, { sourceFile: ".gemini/commands/git/commit.toml" });
+    expect(parsed.success).toBe(true);
+
+    const rendered = renderComponent(parsed.spec!, "gemini");
+    expect(getTargetPath(parsed.spec!, "gemini")).toBe(".gemini/commands/git/commit.toml");
+
+    const reparsed = parseComponent(rendered.content!, { sourceFile: ".gemini/commands/git/commit.toml" });
+    expect(reparsed.spec?.body).toBe(parsed.spec!.body);
+    expect(reparsed.spec?.intent.summary).toBe(parsed.spec!.intent.summary);
+    expect(reparsed.spec?.invocation.slashCommand).toBe("git:commit");
+  });
+
+  it("should convert Gemini commands to Claude syntax", () => {
+    const parsed = parseComponent(COMMIT_COMMAND, { sourceFile: ".gemini/commands/git/commit.toml" });
+    const rendered = renderComponent(parsed.spec!, "claude");
+    expect(rendered.content).toContain("!`git diff --staged`");
+    expect(rendered.content).toContain("$ARGUMENTS");
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for hook conversion between .claude/settings.json and .windsurf/hooks.json
+ */
+
+import { describe, it, expect } from "bun:test";
+import { getHooks, translateHooks } from "../src/core/hook-mapping.js";
+import { mergeSettingsJson } from "../src/core/settings-file.js";
+import { ClaudeParser } from "../src/parsing/claude-parser.js";
+import { WindsurfParser } from "../src/parsing/windsurf-parser.js";
+import { detectAgent, parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent, getTargetPath } from "../src/rendering/renderer-factory.js";
+
+const CLAUDE_SETTINGS = JSON.stringify({
+  permissions: { allow: ["Bash(npm test:*)"] },
+  hooks: {
+    PreToolUse: [
+      { matcher: "Bash", hooks: [{ type: "command", command: "./scripts/check-command.sh", timeout: 30 }] },
+      { matcher: "Edit|Write", hooks: [{ type: "command", command: "./scripts/guard.sh" }] },
+    ],
+    PostToolUse: [{ matcher: "mcp__github__.*", hooks: [{ type: "command", command: "./scripts/audit.sh" }] }],
+    UserPromptSubmit: [{ hooks: [{ type: "command", command: "./scripts/prompt-log.sh" }] }],
+    SessionStart: [{ hooks: [{ type: "command", command: "./scripts/setup.sh" }] }],
+    Stop: [{ hooks: [{ type: "prompt", prompt: "Check the work is done" }] }],
+  },
+});
+
+const WINDSURF_HOOKS = JSON.stringify({
+  hooks: {
+    pre_run_command: [{ command: "python3 check.py", show_output: true }],
+    post_write_code: [{ command: "npm run lint", working_directory: "web" }],
+    post_cascade_response: [{ command: "./notify.sh" }],
+    post_setup_worktree: [{ command: "npm install" }],
+  },
+});
+
+function parseClaude() {
+  const result = new ClaudeParser().parse(CLAUDE_SETTINGS, { sourceFile: ".claude/settings.json" });
+  if (!result.success) throw new Error(result.errors.join(", "));
+  return result;
+}
+
+describe("Claude hooks parser", () => {
+  it("should parse command hooks with matchers and timeouts", () => {
+    const { spec } = parseClaude();
+    expect(spec.componentType).toBe("hook");
+    expect(spec.activation.mode).toBe("hooked");
+    expect(spec.metadata.originalFormat).toBe("claude-settings-hooks");
+
+    const hooks = getHooks(spec);
+    expect(hooks).toHaveLength(5);
+    expect(hooks[0]).toEqual({
+      event: "PreToolUse",
+      matcher: "Bash",
+      command: "./scripts/check-command.sh",
+      timeout: 30000,
+    });
+    expect(hooks[3]?.matcher).toBeUndefined();
+  });
+
+  it("should warn about prompt hooks and non-hook settings", () => {
+    const { warnings } = parseClaude();
+    expect(warnings.some((w) => w.includes("permissions"))).toBe(true);
+    expect(warnings.some((w) => w.includes("prompt hook on 'Stop'"))).toBe(true);
+  });
+
+  it("should skip malformed groups and entries instead of throwing", () => {
+    const parse = (hooks: unknown) =>
+      parseComponent(JSON.stringify({ hooks }), { sourceFile: ".claude/settings.json" });
+
+    const nullGroup = parse({ PreToolUse: [null] });
+    expect(nullGroup.success).toBe(false);
+    expect(nullGroup.warnings).toEqual(["Skipped a 'PreToolUse' matcher group that is not an object"]);
+
+    const nullEntry = parse({ PreToolUse: [{ matcher: "Bash", hooks: [null] }] });
+    expect(nullEntry.success).toBe(false);
+    expect(nullEntry.warnings).toEqual(["Skipped a 'PreToolUse' hook that is not an object"]);
+
+    const mixed = parse({
+      PreToolUse: [{ matcher: "Bash", hooks: "./check.sh" }, { matcher: "Bash", hooks: [42, { type: "command", command: "./check.sh" }] }],
+    });
+    expect(mixed.success).toBe(true);
+    expect(getHooks(mixed.spec!)).toEqual([{ event: "PreToolUse", matcher: "Bash", command: "./check.sh", timeout: undefined }]);
+    expect(mixed.warnings).toEqual([
+      "Hooks for 'PreToolUse' matcher 'Bash' must be an array; skipped",
+      "Skipped a 'PreToolUse' hook that is not an object",
+    ]);
+  });
+
+  it("should detect hooks files", () => {
+    expect(detectAgent(CLAUDE_SETTINGS, ".claude/settings.json")).toBe("claude");
+    expect(detectAgent(WINDSURF_HOOKS)).toBe("windsurf");
+    expect(detectAgent(WINDSURF_HOOKS, "/home/me/.codeium/windsurf/hooks.json")).toBe("windsurf");
+  });
+});
+
+describe("Claude → Windsurf hooks", () => {
+  it("should map events and matchers", () => {
+    const rendered = renderComponent(parseClaude().spec, "windsurf");
+    expect(rendered.success).toBe(true);
+    expect(getTargetPath(parseClaude().spec, "windsurf")).toBe(".windsurf/hooks.json");
+
+    const { hooks } = JSON.parse(rendered.content!);
+    expect(hooks.pre_run_command).toEqual([{ command: "./scripts/check-command.sh" }]);
+    expect(hooks.pre_write_code).toEqual([{ command: "./scripts/guard.sh" }]);
+    expect(hooks.post_mcp_tool_use).toEqual([{ command: "./scripts/audit.sh" }]);
+    expect(hooks.pre_user_prompt).toEqual([{ command: "./scripts/prompt-log.sh" }]);
+    expect(hooks.SessionStart).toBeUndefined();
+  });
+
+  it("should record a loss for every event without an equivalent", () => {
+    const report = renderComponent(parseClaude().spec, "windsurf").report!;
+    const dropped = report.losses.filter((l) => l.severity === "warning");
+    expect(dropped.map((l) => l.sourceField)).toEqual(["hooks.SessionStart"]);
+
+    const fields = report.losses.map((l) => l.sourceField);
+    expect(fields).toContain("hooks.PreToolUse.matcher");
+    expect(fields).toContain("hooks.PostToolUse.matcher");
+    expect(fields).toContain("hooks.timeout");
+  });
+
+  it("should report widened and narrowed matchers", () => {
+    const widened = translateHooks([{ event: "PreToolUse", matcher: "Write", command: "x" }], "windsurf");
+    expect(widened.hooks).toEqual([{ event: "pre_write_code", command: "x" }]);
+    expect(widened.losses[0]?.description).toContain("also runs for Edit, MultiEdit, NotebookEdit");
+
+    const all = translateHooks([{ event: "PostToolUse", command: "x" }], "windsurf");
+    expect(all.hooks.map((h) => h.event)).toEqual([
+      "post_read_code",
+      "post_write_code",
+      "post_run_command",
+      "post_mcp_tool_use",
+    ]);
+    expect(all.losses[0]?.description).toContain("narrowed");
+
+    const none = translateHooks([{ event: "PreToolUse", matcher: "WebFetch", command: "x" }], "windsurf");
+    expect(none.hooks).toEqual([]);
+    expect(none.losses[0]?.severity).toBe("warning");
+  });
+});
+
+describe("Windsurf → Claude hooks", () => {
+  it("should parse hooks.json", () => {
+    const result = new WindsurfParser().parse(WINDSURF_HOOKS, { sourceFile: ".windsurf/hooks.json" });
+    if (!result.success) throw new Error(result.errors.join(", "));
+    expect(result.spec.metadata.originalFormat).toBe("windsurf-hooks");
+    expect(getHooks(result.spec)[0]).toEqual({
+      event: "pre_run_command",
+      command: "python3 check.py",
+      showOutput: true,
+      workingDirectory: undefined,
+    });
+  });
+
+  it("should skip malformed entries instead of throwing", () => {
+    const parse = (entries: unknown[]) =>
+      parseComponent(JSON.stringify({ hooks: { pre_run_command: entries } }), { sourceFile: ".windsurf/hooks.json" });
+
+    const nullEntry = parse([null]);
+    expect(nullEntry.success).toBe(false);
+    expect(nullEntry.warnings).toEqual(["Skipped a 'pre_run_command' hook that is not an object"]);
+
+    const mixed = parse(["npm test", { command: 42 }, { command: "npm test" }]);
+    expect(mixed.success).toBe(true);
+    expect(getHooks(mixed.spec!).map((h) => h.command)).toEqual(["npm test"]);
+    expect(mixed.warnings).toEqual([
+      "Skipped a 'pre_run_command' hook that is not an object",
+      "Skipped 'pre_run_command' hook without a command",
+    ]);
+  });
+
+  it("should render settings.json grouped by event and matcher", () => {
+    const parsed = parseComponent(WINDSURF_HOOKS, { sourceFile: ".windsurf/hooks.json" });
+    const rendered = renderComponent(parsed.spec!, "claude");
+    expect(getTargetPath(parsed.spec!, "claude")).toBe(".claude/settings.json");
+
+    const { hooks } = JSON.parse(rendered.content!);
+    expect(hooks.PreToolUse).toEqual([
+      { matcher: "Bash", hooks: [{ type: "command", command: "python3 check.py" }] },
+    ]);
+    expect(hooks.PostToolUse).toEqual([
+      { matcher: "Edit|MultiEdit|Write|NotebookEdit", hooks: [{ type: "command", command: "npm run lint" }] },
+    ]);
+    expect(hooks.Stop).toEqual([{ hooks: [{ type: "command", command: "./notify.sh" }] }]);
+
+    const fields = rendered.report!.losses.map((l) => l.sourceField);
+    expect(fields).toEqual(["hooks.post_setup_worktree", "hooks.workingDirectory", "hooks.showOutput"]);
+  });
+
+  it("should merge into an existing settings.json, keeping its other keys", () => {
+    const parsed = parseComponent(WINDSURF_HOOKS, { sourceFile: ".windsurf/hooks.json" });
+    const rendered = renderComponent(parsed.spec!, "claude");
+    expect(rendered.partial).toBe(true);
+
+    const existing = JSON.stringify({ model: "opus", permissions: { allow: ["Bash(ls)"] }, hooks: { Notification: [] } });
+    const merged = JSON.parse(mergeSettingsJson(existing, rendered.content!)!);
+    expect(merged.model).toBe("opus");
+    expect(merged.permissions).toEqual({ allow: ["Bash(ls)"] });
+    expect(Object.keys(merged.hooks)).toEqual(["Notification", "PreToolUse", "PostToolUse", "Stop"]);
+
+    expect(mergeSettingsJson("[1]", rendered.content!)).toBeUndefined();
+    expect(mergeSettingsJson("{ not json", rendered.content!)).toBeUndefined();
+  });
+
+  it("should round-trip Claude hooks losslessly", () => {
+    const spec = parseClaude().spec;
+    const rendered = renderComponent(spec, "claude");
+    expect(rendered.report?.losses).toEqual([]);
+
+    const reparsed = new ClaudeParser().parse(rendered.content!, { sourceFile: ".claude/settings.json" });
+    expect(getHooks(reparsed.spec!)).toEqual(getHooks(spec));
+  });
+});
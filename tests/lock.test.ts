@@ -0,0 +1,131 @@
+/**
+ * Tests for the sync lockfile and `cace status`
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { spawnSync } from 'child_process';
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { LOCK_FILE, checkLock, hashContent, readLock, recordOutputs, tryRecordOutputs } from '../src/cli/lock.js';
+import { statusCommand } from '../src/cli/status.js';
+import { CACE_VERSION } from '../src/core/constants.js';
+import { transform } from '../src/transformation/transformer.js';
+
+const SKILL = '---\nname: review\ndescription: Review code changes\nallowed-tools: [Read, Grep]\n---\nReview $ARGUMENTS.\n';
+
+function convertProject() {
+  const root = mkdtempSync(join(tmpdir(), 'cace-lock-'));
+  const source = join(root, '.claude/skills/review/SKILL.md');
+  const output = join(root, '.windsurf/workflows/review.md');
+  mkdirSync(join(root, '.claude/skills/review'), { recursive: true });
+  mkdirSync(join(root, '.windsurf/workflows'), { recursive: true });
+  writeFileSync(source, SKILL);
+
+  const result = transform(SKILL, { targetAgent: 'windsurf', sourceFile: source });
+  writeFileSync(output, result.output!);
+  recordOutputs(root, [{
+    output,
+    content: result.output!,
+    source,
+    sourceContent: SKILL,
+    sourceAgent: 'claude',
+    targetAgent: 'windsurf',
+    options: { strategy: 'direct', merge: undefined },
+    report: result.report,
+  }]);
+  return { root, source, output };
+}
+
+describe('recordOutputs', () => {
+  test('records provenance of each output relative to the lock root', () => {
+    const { root } = convertProject();
+    const [entry] = readLock(root).entries;
+
+    expect(entry).toMatchObject({
+      output: '.windsurf/workflows/review.md',
+      source: '.claude/skills/review/SKILL.md',
+      sourceHash: hashContent(SKILL),
+      sourceAgent: 'claude',
+      targetAgent: 'windsurf',
+      caceVersion: CACE_VERSION,
+      options: { strategy: 'direct' },
+    });
+    expect(entry!.fidelityScore).toBeLessThan(100);
+    expect(entry!.losses.length).toBeGreaterThan(0);
+    expect(JSON.parse(readFileSync(join(root, LOCK_FILE), 'utf-8')).lockfileVersion).toBe(1);
+  });
+
+  test('replaces the entry when an output is converted again', () => {
+    const { root, source, output } = convertProject();
+    recordOutputs(root, [{
+      output, content: 'x', source, sourceContent: SKILL, sourceAgent: 'claude', targetAgent: 'windsurf',
+    }]);
+
+    const { entries } = readLock(root);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.outputHash).toBe(hashContent('x'));
+    expect(entries[0]!.fidelityScore).toBeUndefined();
+  });
+
+  test('reports a corrupt lockfile as a warning when the outputs are already written', () => {
+    const { root, source, output } = convertProject();
+    writeFileSync(join(root, LOCK_FILE), '{ "lockfileVersion": 1, "entr');
+
+    expect(() => readLock(root)).toThrow(`Cannot read lockfile ${join(root, LOCK_FILE)}`);
+    const warning = tryRecordOutputs(root, [{
+      output, content: 'x', source, sourceContent: SKILL, sourceAgent: 'claude', targetAgent: 'windsurf',
+    }]);
+    expect(warning).toStartWith(`${join(root, LOCK_FILE)} not updated: Cannot read lockfile`);
+  });
+});
+
+describe('checkLock', () => {
+  test('reports up-to-date outputs without issues', () => {
+    const { root } = convertProject();
+    expect(checkLock(root).map((s) => s.issues)).toEqual([[]]);
+    expect(statusCommand(root, {})).toEqual({ success: true, issues: 0 });
+  });
+
+  test('detects stale, tampered, orphaned and missing outputs', () => {
+    const { root, source, output } = convertProject();
+
+    writeFileSync(source, SKILL + 'Check the tests too.\n');
+    expect(checkLock(root)[0]!.issues).toEqual(['stale']);
+
+    writeFileSync(output, 'edited');
+    expect(checkLock(root)[0]!.issues).toEqual(['stale', 'tampered']);
+
+    rmSync(source);
+    rmSync(output);
+    expect(checkLock(root)[0]!.issues).toEqual(['orphaned', 'missing']);
+    expect(statusCommand(root, {})).toEqual({ success: true, issues: 1 });
+  });
+
+  test('fails without a lockfile', () => {
+    expect(statusCommand(mkdtempSync(join(tmpdir(), 'cace-lock-')), {}).success).toBe(false);
+  });
+});
+
+describe('lock root', () => {
+  const cli = resolve(import.meta.dir, '../src/cli/index.ts');
+  const cace = (cwd: string, ...args: string[]): { status: number | null; stdout: string } => {
+    const result = spawnSync(process.execPath, [cli, ...args], { cwd, encoding: 'utf-8', timeout: 60_000 });
+    return { status: result.status, stdout: result.stdout };
+  };
+
+  test('convert-dir and status share the working directory lock without a .cacerc', () => {
+    const root = mkdtempSync(join(tmpdir(), 'cace-lock-'));
+    mkdirSync(join(root, '.claude/skills/review'), { recursive: true });
+    writeFileSync(join(root, '.claude/skills/review/SKILL.md'), SKILL);
+
+    expect(cace(root, 'convert-dir', '.claude', '-t', 'windsurf', '-o', 'out').status).toBe(0);
+    expect(existsSync(join(root, LOCK_FILE))).toBe(true);
+    expect(existsSync(join(root, 'out', LOCK_FILE))).toBe(false);
+
+    const status = cace(root, 'status');
+    expect(status.status).toBe(0);
+    expect(status.stdout).not.toContain('No lockfile found');
+    expect(readLock(root).entries.map((entry) => entry.output)).toEqual(['out/.windsurf/workflows/review.md']);
+  });
+});
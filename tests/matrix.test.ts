@@ -0,0 +1,84 @@
+/**
+ * Tests for `cace matrix`
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildMatrix, formatMatrix } from '../src/cli/matrix.js';
+import type { AgentId } from '../src/core/types.js';
+
+const AGENTS: AgentId[] = ['claude', 'cursor', 'aider'];
+
+function createSkills(): string {
+  const root = mkdtempSync(join(tmpdir(), 'cace-matrix-'));
+  mkdirSync(join(root, '.claude/skills/review'), { recursive: true });
+  mkdirSync(join(root, '.claude/skills/explain'), { recursive: true });
+  writeFileSync(
+    join(root, '.claude/skills/review/SKILL.md'),
+    '---\nname: review\ndescription: Review code\ncontext: fork\nallowed-tools: [Read, Grep]\n---\nReview $ARGUMENTS\n'
+  );
+  writeFileSync(
+    join(root, '.claude/skills/explain/SKILL.md'),
+    '---\nname: explain\ndescription: Explain code\n---\nExplain the selection\n'
+  );
+  return root;
+}
+
+describe('cace matrix', () => {
+  test('renders every component for every agent', () => {
+    const matrix = buildMatrix(createSkills(), { to: AGENTS });
+    expect(matrix.rows.map((r) => r.file)).toEqual([
+      '.claude/skills/explain/SKILL.md',
+      '.claude/skills/review/SKILL.md',
+    ]);
+
+    const review = matrix.rows[1]!;
+    expect(review).toMatchObject({ id: 'review', componentType: 'skill', sourceAgent: 'claude' });
+    expect(review.cells.map((c) => c.agent)).toEqual(AGENTS);
+
+    const [claude, cursor, aider] = review.cells;
+    expect(claude).toMatchObject({ rendered: true, fidelityScore: 100, criticalLosses: 0, safe: true });
+    expect(cursor!.rendered).toBe(true);
+    expect(cursor!.losses).toContain('Tool restrictions cannot be expressed in Cursor');
+    expect(cursor!.validation).not.toBe('invalid');
+    expect(aider).toMatchObject({ rendered: false, safe: false });
+    expect(aider!.errors[0]).toContain('Aider has no skill equivalent');
+  });
+
+  test('does not count renderings below the minimum fidelity as safe', () => {
+    const matrix = buildMatrix(createSkills(), { to: ['cursor'], minFidelity: 101 });
+    expect(matrix.rows.every((r) => r.cells.every((c) => c.rendered && !c.safe))).toBe(true);
+  });
+
+  test('keeps files it cannot parse as rows with an error', () => {
+    const root = createSkills();
+    mkdirSync(join(root, '.gemini/commands'), { recursive: true });
+    writeFileSync(join(root, '.gemini/commands/broken.toml'), 'prompt = [unterminated');
+    const matrix = buildMatrix(root, { to: AGENTS });
+    expect(matrix.rows).toHaveLength(3);
+
+    const broken = matrix.rows.find((r) => r.file === '.gemini/commands/broken.toml');
+    expect(broken?.error).toBeDefined();
+    expect(broken?.cells).toEqual([]);
+    expect(formatMatrix(matrix, 'markdown')).toContain('| **Safe to ship** | | 2/2 |');
+  });
+
+  test('formats the grid as markdown, HTML and JSON', () => {
+    const matrix = buildMatrix(createSkills(), { to: AGENTS });
+
+    const markdown = formatMatrix(matrix, 'markdown');
+    expect(markdown).toContain('| Component | Type | Claude Code | Cursor | Aider |');
+    expect(markdown).toContain('| .claude/skills/review/SKILL.md | skill | ✅ 100 |');
+    expect(markdown).toContain('❌ not rendered');
+    expect(markdown).toContain('| **Safe to ship** | | 2/2 |');
+
+    const html = formatMatrix(matrix, 'html');
+    expect(html).toStartWith('<!DOCTYPE html>');
+    expect(html).toContain('<th scope="row">.claude/skills/review/SKILL.md</th>');
+    expect(html).toContain('class="unsafe" title="Aider has no skill equivalent');
+
+    expect(JSON.parse(formatMatrix(matrix, 'json'))).toEqual(JSON.parse(JSON.stringify(matrix)));
+  });
+});
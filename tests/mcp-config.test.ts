@@ -0,0 +1,187 @@
+/**
+ * Tests for MCP server configuration conversion between agents
+ */
+
+import { describe, it, expect } from "bun:test";
+import { getMcpServers, parseMcpServers, renderMcpServers } from "../src/core/mcp-config.js";
+import { parseToml } from "../src/core/toml.js";
+import { detectAgent, parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent, getTargetPath } from "../src/rendering/renderer-factory.js";
+import type { AgentId } from "../src/core/types.js";
+
+const CLAUDE_MCP = JSON.stringify({
+  mcpServers: {
+    github: {
+      type: "stdio",
+      command: "npx",
+      args: ["-y", "@modelcontextprotocol/server-github"],
+      env: { GITHUB_TOKEN: "${GITHUB_TOKEN}" },
+    },
+    docs: {
+      type: "http",
+      url: "https://mcp.example.com/mcp",
+      headers: { Authorization: "Bearer ${DOCS_TOKEN}" },
+    },
+    events: {
+      type: "sse",
+      url: "https://events.example.com/sse",
+    },
+  },
+});
+
+function parseClaude() {
+  const result = parseComponent(CLAUDE_MCP, { sourceFile: "/repo/.mcp.json" });
+  if (!result.success) throw new Error(result.errors.join(", "));
+  return result.spec!;
+}
+
+describe("MCP config parsing", () => {
+  it("should parse .mcp.json into an mcp component", () => {
+    const spec = parseClaude();
+    expect(spec.componentType).toBe("mcp");
+    expect(spec.sourceAgent?.id).toBe("claude");
+    expect(spec.capabilities.needsMcp).toEqual(["github", "docs", "events"]);
+    expect(spec.capabilities.needsNetwork).toBe(true);
+    expect(getMcpServers(spec).map((s) => s.transport)).toEqual(["stdio", "http", "sse"]);
+  });
+
+  it("should detect each agent's MCP file", () => {
+    const json = JSON.stringify({ mcpServers: { a: { command: "a" } } });
+    expect(detectAgent(json, ".mcp.json")).toBe("claude");
+    expect(detectAgent(json, ".cursor/mcp.json")).toBe("cursor");
+    expect(detectAgent(json, "/home/me/.codeium/windsurf/mcp_config.json")).toBe("windsurf");
+    expect(detectAgent(json, ".gemini/settings.json")).toBe("gemini");
+    expect(detectAgent(JSON.stringify({ mcp: { a: { type: "local", command: ["a"] } } }), "opencode.json")).toBe(
+      "opencode",
+    );
+  });
+
+  it("should normalise env references to ${VAR}", () => {
+    const cursor = parseMcpServers("cursor", { a: { command: "run", env: { KEY: "${env:KEY}" } } });
+    const opencode = parseMcpServers("opencode", {
+      a: { type: "local", command: ["run", "--token", "{env:KEY}"] },
+    });
+    const gemini = parseMcpServers("gemini", { a: { command: "run", args: ["$KEY"] } });
+
+    expect(cursor.servers[0]?.env).toEqual({ KEY: "${KEY}" });
+    expect(opencode.servers[0]?.args).toEqual(["--token", "${KEY}"]);
+    expect(gemini.servers[0]?.args).toEqual(["${KEY}"]);
+  });
+
+  it("should parse a Codex config.toml with only MCP servers", () => {
+    const toml = `[mcp_servers.docs]
+url = "https://mcp.example.com/mcp"
+bearer_token_env_var = "DOCS_TOKEN"
+tool_timeout_sec = 30
+
+[mcp_servers.github]
+command = "npx"
+args = ["-y", "server-github"]
+env_vars = ["GITHUB_TOKEN"]
+startup_timeout_sec = 20
+`;
+    const result = parseComponent(toml, { sourceFile: ".codex/config.toml" });
+    expect(result.spec?.componentType).toBe("mcp");
+
+    const [docs, github] = getMcpServers(result.spec!);
+    expect(docs).toEqual({
+      name: "docs",
+      transport: "http",
+      url: "https://mcp.example.com/mcp",
+      headers: { Authorization: "Bearer ${DOCS_TOKEN}" },
+      timeout: 30000,
+    });
+    expect(github?.env).toEqual({ GITHUB_TOKEN: "${GITHUB_TOKEN}" });
+    expect(github?.extra).toEqual({ startup_timeout_sec: 20 });
+  });
+});
+
+describe("MCP config rendering", () => {
+  it("should write each agent's file", () => {
+    const spec = parseClaude();
+    const paths: Record<string, string> = {
+      claude: "./.mcp.json",
+      cursor: ".cursor/mcp.json",
+      windsurf: ".codeium/windsurf/mcp_config.json",
+      gemini: ".gemini/settings.json",
+      codex: ".codex/config.toml",
+      opencode: "./opencode.json",
+    };
+    for (const [agent, path] of Object.entries(paths)) {
+      expect(getTargetPath(spec, agent as AgentId)).toBe(path);
+      expect(renderComponent(spec, agent as AgentId).success).toBe(true);
+    }
+  });
+
+  it("should translate transports and env syntax for Cursor, Windsurf and OpenCode", () => {
+    const spec = parseClaude();
+
+    const cursor = JSON.parse(renderComponent(spec, "cursor").content!).mcpServers;
+    expect(cursor.github.env).toEqual({ GITHUB_TOKEN: "${env:GITHUB_TOKEN}" });
+    expect(cursor.docs).toEqual({
+      url: "https://mcp.example.com/mcp",
+      headers: { Authorization: "Bearer ${env:DOCS_TOKEN}" },
+    });
+
+    const windsurf = JSON.parse(renderComponent(spec, "windsurf").content!).mcpServers;
+    expect(windsurf.events).toEqual({ serverUrl: "https://events.example.com/sse" });
+
+    const opencode = JSON.parse(renderComponent(spec, "opencode").content!).mcp;
+    expect(opencode.github).toEqual({
+      type: "local",
+      command: ["npx", "-y", "@modelcontextprotocol/server-github"],
+      environment: { GITHUB_TOKEN: "{env:GITHUB_TOKEN}" },
+    });
+    expect(opencode.docs.type).toBe("remote");
+  });
+
+  it("should map Gemini url/httpUrl by transport", () => {
+    const gemini = JSON.parse(renderComponent(parseClaude(), "gemini").content!).mcpServers;
+    expect(gemini.docs.httpUrl).toBe("https://mcp.example.com/mcp");
+    expect(gemini.events.url).toBe("https://events.example.com/sse");
+  });
+
+  it("should use Codex env forwarding and report SSE as a loss", () => {
+    const rendered = renderComponent(parseClaude(), "codex");
+    const data = parseToml(rendered.content!) as { mcp_servers: Record<string, Record<string, unknown>> };
+
+    expect(data.mcp_servers.github?.env_vars).toEqual(["GITHUB_TOKEN"]);
+    expect(data.mcp_servers.github?.env).toBeUndefined();
+    expect(data.mcp_servers.docs?.bearer_token_env_var).toBe("DOCS_TOKEN");
+
+    const fields = rendered.report!.losses.map((l) => l.sourceField);
+    expect(fields).toEqual(["mcpServers.events.transport"]);
+  });
+
+  it("should report unsupported fields and env defaults as losses", () => {
+    const servers = parseMcpServers("gemini", {
+      local: { command: "run", cwd: "tools", timeout: 5000, trust: true, env: { A: "${A}" } },
+    }).servers;
+    servers[0]!.env = { A: "${A:-fallback}" };
+
+    const { servers: rendered, losses } = renderMcpServers("cursor", servers, "gemini");
+    expect(rendered.local).toEqual({ command: "run", env: { A: "${env:A}" } });
+    expect(losses.map((l) => l.description)).toEqual([
+      "MCP server 'local' fields not supported by cursor: cwd, timeout, trust",
+      "MCP server 'local': cursor does not support default values in A",
+    ]);
+    expect(losses[0]?.severity).toBe("warning");
+  });
+
+  it("should round-trip agent-specific fields to the same agent", () => {
+    const source = JSON.stringify({
+      mcpServers: { local: { command: "run", trust: true, timeout: 5000 } },
+    });
+    const parsed = parseComponent(source, { sourceFile: ".gemini/settings.json" });
+    const rendered = renderComponent(parsed.spec!, "gemini");
+
+    expect(JSON.parse(rendered.content!)).toEqual(JSON.parse(source));
+    expect(rendered.report?.losses).toEqual([]);
+  });
+
+  it("should round-trip Claude .mcp.json", () => {
+    const rendered = renderComponent(parseClaude(), "claude");
+    expect(JSON.parse(rendered.content!)).toEqual(JSON.parse(CLAUDE_MCP));
+    expect(rendered.report?.losses).toEqual([]);
+  });
+});
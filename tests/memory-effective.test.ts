@@ -0,0 +1,100 @@
+/**
+ * Tests for `cace memory effective`
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { buildEffectiveMemory, discoverMemoryFiles, exportEffectiveMemory } from '../src/cli/memory.js';
+
+/**
+ * A home directory, a system root and a git repository with a package
+ */
+function createWorkspace(files: Record<string, string>): { root: string; home: string; systemRoot: string; pkg: string } {
+  const root = mkdtempSync(join(tmpdir(), 'cace-memory-'));
+  mkdirSync(join(root, 'repo/.git'), { recursive: true });
+  mkdirSync(join(root, 'repo/pkg'), { recursive: true });
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+  return { root, home: join(root, 'home'), systemRoot: join(root, 'system'), pkg: join(root, 'repo/pkg') };
+}
+
+const CLAUDE_FILES = {
+  'system/etc/claude-code/CLAUDE.md': '# Policy\n\nNever push to main.\n',
+  'home/.claude/CLAUDE.md': '# Personal\n\n## Style\n\nUse spaces.\n',
+  'repo/CLAUDE.md': '# Repo\n\n## Style\n\nUse tabs.\n',
+  'repo/pkg/CLAUDE.md': 'Package notes.\n\n@docs/api.md\n',
+  'repo/pkg/docs/api.md': '## API\n\nKeep it stable.\n',
+  'repo/pkg/CLAUDE.local.md': '## Sandbox\n\nUse the staging database.\n',
+};
+
+describe('memory discovery', () => {
+  test('finds Claude memory from system to local scope in load order', () => {
+    const { root, pkg, home, systemRoot } = createWorkspace(CLAUDE_FILES);
+    const files = discoverMemoryFiles(pkg, 'claude', { home, systemRoot })
+      .filter((file) => file.path.startsWith(root));
+    expect(files.map((f) => [f.path.slice(root.length + 1), f.scope])).toEqual([
+      ...(process.platform === 'linux' ? [['system/etc/claude-code/CLAUDE.md', 'system']] : []),
+      ['home/.claude/CLAUDE.md', 'user'],
+      ['repo/CLAUDE.md', 'project'],
+      ['repo/pkg/CLAUDE.md', 'project'],
+      ['repo/pkg/CLAUDE.local.md', 'local'],
+    ]);
+  });
+
+  test('stops at the git repository and reads one file per directory for Codex', () => {
+    const { root, pkg, home } = createWorkspace({
+      'AGENTS.md': 'Outside the repository\n',
+      'home/.codex/AGENTS.md': 'Global\n',
+      'repo/AGENTS.md': 'Repo\n',
+      'repo/pkg/AGENTS.override.md': 'Override\n',
+      'repo/pkg/AGENTS.md': 'Shadowed by the override\n',
+    });
+    const files = discoverMemoryFiles(pkg, 'codex', { home });
+    expect(files.map((f) => f.path.slice(root.length + 1))).toEqual([
+      'home/.codex/AGENTS.md',
+      'repo/AGENTS.md',
+      'repo/pkg/AGENTS.override.md',
+    ]);
+  });
+});
+
+describe('effective memory', () => {
+  test('attributes each section to its file and marks overridden ones', () => {
+    const { pkg, home, systemRoot } = createWorkspace(CLAUDE_FILES);
+    const memory = buildEffectiveMemory(pkg, 'claude', { home, systemRoot });
+    const sections = memory.sections
+      .filter((s) => s.scope !== 'system')
+      .map((s) => [s.title, s.source, s.overriddenBy]);
+
+    expect(sections).toEqual([
+      ['Personal', '~/.claude/CLAUDE.md', undefined],
+      ['Style', '~/.claude/CLAUDE.md', '../CLAUDE.md'],
+      ['Repo', '../CLAUDE.md', undefined],
+      ['Style', '../CLAUDE.md', undefined],
+      ['', 'CLAUDE.md', undefined],
+      ['API', 'CLAUDE.md', undefined],
+      ['Sandbox', 'CLAUDE.local.md', undefined],
+    ]);
+    expect(memory.content).toContain('<!-- From CLAUDE.md (project) -->\nPackage notes.\n\n## API\n\nKeep it stable.\n');
+  });
+
+  test('exports to another agent\'s memory file and notes merged personal files', () => {
+    const { pkg, home } = createWorkspace(CLAUDE_FILES);
+    const memory = buildEffectiveMemory(pkg, 'claude', { home, systemRoot: join(home, 'none') });
+
+    const gemini = exportEffectiveMemory(memory, 'gemini');
+    expect(gemini.path).toBe('GEMINI.md');
+    expect(gemini.content).toBe(memory.content);
+    expect(gemini.losses.map((l) => l.description)).toEqual([
+      '2 user/local memory file(s) merged into the project file; everyone using it gets them',
+    ]);
+
+    const continueRule = exportEffectiveMemory(memory, 'continue');
+    expect(continueRule.path).toBe('.continue/rules/effective-memory.md');
+    expect(continueRule.content).toContain('alwaysApply: true');
+  });
+});
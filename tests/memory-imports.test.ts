@@ -0,0 +1,124 @@
+/**
+ * Tests for resolving CLAUDE.md @imports and carrying them over to other agents
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { extractImports } from '../src/core/memory-imports.js';
+import type { ComponentSpec, ExtendedComponentFields, ImportSpec } from '../src/core/types.js';
+import { parseComponent } from '../src/parsing/parser-factory.js';
+import { renderComponent } from '../src/rendering/renderer-factory.js';
+
+function createProject(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), 'cace-imports-'));
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+  return root;
+}
+
+function parseMemory(root: string): ReturnType<typeof parseComponent> {
+  const path = join(root, 'CLAUDE.md');
+  return parseComponent(readFileSync(path, 'utf-8'), { sourceFile: path });
+}
+
+function importsOf(spec: ComponentSpec): ImportSpec[] {
+  return (spec as ComponentSpec & ExtendedComponentFields).memorySpec?.imports ?? [];
+}
+
+const PROJECT = {
+  'CLAUDE.md': '# Project\n\n@docs/style.md\n\nSee @docs/testing.md before committing.\n',
+  'docs/style.md': '## Style\n\n- @../shared/tabs.md\n',
+  'docs/testing.md': '## Testing\n\nRun bun test.\n',
+  'shared/tabs.md': 'Indent with tabs.\n',
+};
+
+describe('import extraction', () => {
+  test('skips code, email addresses and duplicates', () => {
+    const content = [
+      'Read @docs/a.md and @docs/a.md.',
+      'Mail team@example.com about `@docs/b.md`.',
+      '```',
+      '@docs/c.md',
+      '```',
+    ].join('\n');
+    expect(extractImports(content).map((imp) => imp.path)).toEqual(['docs/a.md']);
+  });
+});
+
+describe('import resolution', () => {
+  test('loads nested imports relative to the importing file', () => {
+    const result = parseMemory(createProject(PROJECT));
+    expect(result.spec?.componentType).toBe('memory');
+    expect(result.warnings).toEqual([]);
+
+    const [style, testing] = importsOf(result.spec!);
+    expect(style!.resolved).toEndWith('/docs/style.md');
+    expect(style!.content).toBe('## Style\n\nIndent with tabs.\n');
+    expect(testing!.content).toBe('## Testing\n\nRun bun test.\n');
+  });
+
+  test('stops at import cycles', () => {
+    const root = createProject({
+      'CLAUDE.md': '@docs/a.md\n',
+      'docs/a.md': 'A\n@b.md\n',
+      'docs/b.md': 'B\n@a.md\n',
+    });
+    const result = parseMemory(root);
+    expect(result.warnings).toEqual(['@a.md (imported from docs/b.md): import cycle docs/a.md → docs/b.md → docs/a.md']);
+    expect(importsOf(result.spec!)[0]!.content).toBe('A\nB\n@a.md\n');
+    expect(importsOf(result.spec!)[0]!.nestedErrors).toEqual(['@a.md (import cycle docs/a.md → docs/b.md → docs/a.md)']);
+  });
+
+  test('stops after five hops', () => {
+    const files: Record<string, string> = { 'CLAUDE.md': '@1.md\n' };
+    for (let i = 1; i <= 6; i++) files[`${i}.md`] = `Level ${i}\n@${i + 1}.md\n`;
+    const result = parseMemory(createProject(files));
+    expect(result.warnings).toEqual(['@6.md (imported from 5.md): more than 5 hops from the memory file']);
+    expect(importsOf(result.spec!)[0]!.content).toContain('Level 5\n@6.md');
+  });
+
+  test('records imports that do not exist', () => {
+    const result = parseMemory(createProject({ 'CLAUDE.md': '@docs/missing.md\n' }));
+    expect(importsOf(result.spec!)[0]).toMatchObject({ path: 'docs/missing.md', error: 'file not found' });
+    expect(result.warnings).toEqual(['@docs/missing.md: file not found']);
+  });
+});
+
+describe('import rendering', () => {
+  test('inlines imports for agents without them', () => {
+    const spec = parseMemory(createProject(PROJECT)).spec!;
+    const result = renderComponent(spec, 'universal');
+    expect(result.content).toBe(
+      '# Project\n\n## Style\n\nIndent with tabs.\n\nSee @docs/testing.md before committing.\n\n' +
+      '<!-- Imported from docs/testing.md -->\n## Testing\n\nRun bun test.\n'
+    );
+    expect(result.report!.losses).toEqual([]);
+    expect(result.report!.preservedSemantics).toContain('2 @imports inlined');
+  });
+
+  test('keeps imports for agents that resolve them, unless asked to inline', () => {
+    const spec = parseMemory(createProject(PROJECT)).spec!;
+    expect(renderComponent(spec, 'claude').content).toContain('\n@docs/style.md\n');
+    expect(renderComponent(spec, 'claude', { imports: 'inline' }).content).toContain('\nIndent with tabs.\n');
+  });
+
+  test('reports imports it could not inline', () => {
+    const spec = parseMemory(createProject({ 'CLAUDE.md': '# Project\n\n@docs/missing.md\n' })).spec!;
+    const losses = renderComponent(spec, 'codex').report!.losses.filter((l) => l.sourceField === 'memorySpec.imports');
+    expect(losses.map((l) => l.description)).toEqual([
+      '1 @imports could not be inlined for OpenAI Codex: @docs/missing.md (file not found)',
+    ]);
+  });
+
+  test('reports imports that failed inside an inlined file', () => {
+    const root = createProject({ 'CLAUDE.md': '# Project\n\n@docs/style.md\n', 'docs/style.md': '## Style\n\n@a.md\n' });
+    const losses = renderComponent(parseMemory(root).spec!, 'codex').report!.losses.filter((l) => l.sourceField === 'memorySpec.imports');
+    expect(losses.map((l) => l.description)).toEqual([
+      '1 @imports could not be inlined for OpenAI Codex: @a.md (file not found)',
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for three-way merging of regenerated output with hand edits
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mergeThreeWay } from '../src/core/merge.js';
+import { generatedBasePath, writeGeneratedFile } from '../src/cli/merge.js';
+import { parseComponent } from '../src/parsing/parser-factory.js';
+import { renderComponent } from '../src/rendering/renderer-factory.js';
+
+describe('mergeThreeWay', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+  test('takes changes made on either side', () => {
+    const result = mergeThreeWay(base, 'one\ntwo (edited)\nthree\nfour\nfive\n', 'one\ntwo\nthree\nfour\nfive\nsix\n');
+    expect(result).toEqual({ content: 'one\ntwo (edited)\nthree\nfour\nfive\nsix\n', clean: true, conflicts: [] });
+  });
+
+  test('accepts the same change made on both sides', () => {
+    const edited = 'one\ntwo\n3\nfour\nfive\n';
+    expect(mergeThreeWay(base, edited, edited).clean).toBe(true);
+  });
+
+  test('marks overlapping changes as conflicts', () => {
+    const result = mergeThreeWay(base, 'one\ntwo\nmine\nfour\nfive\n', 'one\ntwo\ntheirs\nfour\nfive\n');
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([{ line: 3, base: ['three'], ours: ['mine'], theirs: ['theirs'] }]);
+    expect(result.content).toBe('one\ntwo\n<<<<<<< local\nmine\n=======\ntheirs\n>>>>>>> generated\nfour\nfive\n');
+  });
+});
+
+describe('writeGeneratedFile', () => {
+  const source = (steps: string) =>
+    `---\nname: review\ndescription: Review code changes\n---\nReview the changes in $ARGUMENTS.\n\n${steps}\n`;
+  const renderCursor = (content: string) => {
+    const spec = parseComponent(content, { sourceFile: '.claude/commands/review.md' }).spec!;
+    return renderComponent({ ...spec, componentType: 'command' }, 'cursor').content!;
+  };
+
+  test('keeps hand edits of a generated Cursor command when the source changes', () => {
+    const outputDir = mkdtempSync(join(tmpdir(), 'cace-merge-'));
+    const target = join(outputDir, '.cursor/commands/review.md');
+    const options = { outputDir, agent: 'cursor' as const, merge: true };
+
+    const first = renderCursor(source('1. Read every modified file\n2. Look for bugs'));
+    expect(writeGeneratedFile(target, first, options).status).toBe('created');
+    expect(readFileSync(generatedBasePath(target, outputDir), 'utf-8')).toBe(first);
+
+    // Edit the output by hand, then change the source and convert again
+    writeFileSync(target, first.replace('Read every modified file', 'Read every modified file and its tests'));
+    const second = renderCursor(source('1. Read every modified file\n2. Look for bugs\n3. Suggest tests'));
+    const result = writeGeneratedFile(target, second, options);
+
+    expect(result.status).toBe('merged');
+    expect(result.overriddenFields).toEqual(['body']);
+    const merged = readFileSync(target, 'utf-8');
+    expect(merged).toContain('1. Read every modified file and its tests\n2. Look for bugs\n3. Suggest tests');
+    expect(readFileSync(generatedBasePath(target, outputDir), 'utf-8')).toBe(second);
+  });
+
+  test('reports conflicts and overwrites without --merge', () => {
+    const outputDir = mkdtempSync(join(tmpdir(), 'cace-merge-'));
+    const target = join(outputDir, '.cursor/commands/review.md');
+    const first = renderCursor(source('1. Look for bugs'));
+    writeGeneratedFile(target, first, { outputDir, agent: 'cursor' });
+
+    writeFileSync(target, first.replace('Look for bugs', 'Look for typos'));
+    const second = renderCursor(source('1. Look for security issues'));
+
+    expect(writeGeneratedFile(target, second, { outputDir, agent: 'cursor', merge: true, dryRun: true })).toMatchObject({
+      status: 'conflict',
+      conflicts: 1,
+    });
+    expect(readFileSync(target, 'utf-8')).toContain('Look for typos');
+
+    expect(writeGeneratedFile(target, second, { outputDir, agent: 'cursor' }).status).toBe('updated');
+    expect(readFileSync(target, 'utf-8')).toBe(second);
+    expect(existsSync(generatedBasePath(target, outputDir))).toBe(true);
+  });
+
+  test('keeps reporting a conflict until its markers are resolved', () => {
+    const outputDir = mkdtempSync(join(tmpdir(), 'cace-merge-'));
+    const target = join(outputDir, '.cursor/commands/review.md');
+    const options = { outputDir, agent: 'cursor' as const, merge: true };
+    const first = renderCursor(source('1. Look for bugs'));
+    writeGeneratedFile(target, first, options);
+    writeFileSync(target, first.replace('Look for bugs', 'Look for typos'));
+    const second = renderCursor(source('1. Look for security issues'));
+
+    expect(writeGeneratedFile(target, second, options).status).toBe('conflict');
+    const conflicted = readFileSync(target, 'utf-8');
+    expect(writeGeneratedFile(target, second, options)).toMatchObject({ status: 'conflict', conflicts: 1 });
+    expect(readFileSync(target, 'utf-8')).toBe(conflicted);
+
+    // Resolved by hand: the next conversion keeps the resolution
+    const resolved = first.replace('Look for bugs', 'Look for typos and security issues');
+    writeFileSync(target, resolved);
+    expect(writeGeneratedFile(target, second, options).status).toBe('merged');
+    expect(readFileSync(target, 'utf-8')).toBe(resolved);
+  });
+});
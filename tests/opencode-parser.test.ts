@@ -0,0 +1,228 @@
+/**
+ * Tests for OpenCode parser
+ */
+
+import { describe, it, expect } from "bun:test";
+import { OpenCodeParser } from "../src/parsing/opencode-parser.js";
+import { OpenCodeRenderer } from "../src/rendering/opencode-renderer.js";
+import { OpenCodeValidator } from "../src/validation/agents/opencode-validator.js";
+import { detectAgent, parseComponent } from "../src/parsing/parser-factory.js";
+
+describe("OpenCode Parser", () => {
+  const parser = new OpenCodeParser();
+
+  describe("canParse", () => {
+    it("should detect OpenCode components by filename", () => {
+      expect(parser.canParse("", ".opencode/skills/my-skill/SKILL.md")).toBe(true);
+      expect(parser.canParse("", ".opencode/commands/test.md")).toBe(true);
+      expect(parser.canParse("", ".opencode/agent/reviewer.md")).toBe(true);
+    });
+
+    it("should detect OpenCode-specific frontmatter", () => {
+      expect(parser.canParse("---\nsubtask: true\n---\n\nBody")).toBe(true);
+      expect(parser.canParse("---\nmode: subagent\n---\n\nBody")).toBe(true);
+    });
+
+    it("should reject content without OpenCode fields", () => {
+      expect(parser.canParse("---\nname: test\n---\n\nBody")).toBe(false);
+    });
+  });
+
+  describe("parse", () => {
+    it("should parse a skill with subtask and agent", () => {
+      const content = `---
+name: code-review
+description: Review code for quality
+agent: reviewer
+subtask: true
+model: anthropic/claude-sonnet-4
+---
+
+Review the staged changes.`;
+
+      const result = parser.parse(content, {
+        sourceFile: ".opencode/skills/code-review/SKILL.md",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.spec.id).toBe("code-review");
+        expect(result.spec.componentType).toBe("skill");
+        expect(result.spec.sourceAgent?.id).toBe("opencode");
+        expect(result.spec.execution.context).toBe("fork");
+        expect(result.spec.execution.subAgent).toBe("reviewer");
+        expect(result.spec.execution.preferredModel).toBe("anthropic/claude-sonnet-4");
+        expect(result.spec.metadata.subtask).toBe(true);
+        expect(result.spec.metadata.model).toBe("anthropic/claude-sonnet-4");
+        expect(result.spec.metadata.originalFormat).toBe("opencode-skill");
+      }
+    });
+
+    it("should parse a command and derive its id from the filename", () => {
+      const content = `---
+description: Run the test suite
+arguments:
+  - pattern
+---
+
+Run tests matching $ARGUMENTS.`;
+
+      const result = parser.parse(content, {
+        sourceFile: "/repo/.opencode/commands/run-tests.md",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.spec.id).toBe("run-tests");
+        expect(result.spec.componentType).toBe("command");
+        expect(result.spec.activation.mode).toBe("manual");
+        expect(result.spec.invocation.slashCommand).toBe("run-tests");
+        expect(result.spec.invocation.argumentHint).toBe("<pattern>");
+        expect(result.spec.arguments?.[0]?.name).toBe("pattern");
+      }
+    });
+
+    it("should parse an agent with mode, temperature and tools", () => {
+      const content = `---
+name: reviewer
+description: Reviews pull requests
+mode: subagent
+temperature: 0.2
+tools:
+  - read
+  - grep
+---
+
+You are a careful reviewer.`;
+
+      const result = parser.parse(content, {
+        sourceFile: ".opencode/agents/reviewer.md",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.spec.componentType).toBe("agent");
+        expect(result.spec.metadata.mode).toBe("subagent");
+        expect(result.spec.metadata.temperature).toBe(0.2);
+        expect(result.spec.metadata.tools).toEqual(["read", "grep"]);
+        expect(result.spec.execution.allowedTools).toEqual(["read", "grep"]);
+        expect(result.spec.invocation.userInvocable).toBe(false);
+      }
+    });
+
+    it("should split a tools map into allowed and restricted tools", () => {
+      const content = `---
+description: Read-only planner
+mode: primary
+tools:
+  write: false
+  edit: false
+  bash: false
+  read: true
+---
+
+Plan, do not edit.`;
+
+      const result = parser.parse(content, {
+        sourceFile: ".opencode/agents/planner.md",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.spec.execution.allowedTools).toEqual(["read"]);
+        expect(result.spec.execution.restrictedTools).toEqual(["write", "edit", "bash"]);
+        expect(result.spec.capabilities.needsShell).toBe(false);
+        expect(result.warnings.some((w) => w.includes("primary"))).toBe(true);
+      }
+    });
+
+    it("should fail on empty content", () => {
+      const result = parser.parse("");
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("factory integration", () => {
+    it("should parse .opencode paths through parseComponent", () => {
+      const filename = ".opencode/commands/deploy.md";
+      expect(detectAgent("", filename)).toBe("opencode");
+
+      const result = parseComponent("---\ndescription: Deploy\n---\n\nDeploy it.", {
+        sourceFile: filename,
+      });
+      expect(result.success).toBe(true);
+      expect(result.spec?.sourceAgent?.id).toBe("opencode");
+    });
+  });
+
+  describe("round-trip", () => {
+    const renderer = new OpenCodeRenderer();
+    const validator = new OpenCodeValidator();
+
+    const fixtures = [
+      {
+        file: ".opencode/skills/code-review/SKILL.md",
+        type: "skill" as const,
+        content: `---
+name: code-review
+description: Review code for quality
+subtask: true
+---
+
+Review the staged changes.`,
+      },
+      {
+        file: ".opencode/commands/run-tests.md",
+        type: "command" as const,
+        content: `---
+description: Run the test suite
+agent: build
+---
+
+Run tests matching $ARGUMENTS.`,
+      },
+      {
+        file: ".opencode/agents/reviewer.md",
+        type: "agent" as const,
+        content: `---
+name: reviewer
+description: Reviews pull requests
+mode: subagent
+model: anthropic/claude-sonnet-4
+temperature: 0.2
+tools:
+  - read
+---
+
+You are a careful reviewer.`,
+      },
+    ];
+
+    for (const fixture of fixtures) {
+      it(`should render a parsed ${fixture.type} back to valid OpenCode`, () => {
+        const parsed = parser.parse(fixture.content, { sourceFile: fixture.file });
+        expect(parsed.success).toBe(true);
+        if (!parsed.success) return;
+
+        const rendered = renderer.render(parsed.spec);
+        expect(rendered.success).toBe(true);
+        expect(rendered.content).toBeDefined();
+
+        const validation = validator.validate(rendered.content!, fixture.type);
+        expect(validation.valid).toBe(true);
+        expect(validation.issues).toHaveLength(0);
+
+        const reparsed = parser.parse(rendered.content!, { sourceFile: fixture.file });
+        expect(reparsed.success).toBe(true);
+        if (reparsed.success) {
+          expect(reparsed.spec.id).toBe(parsed.spec.id);
+          expect(reparsed.spec.componentType).toBe(parsed.spec.componentType);
+          expect(reparsed.spec.body).toBe(parsed.spec.body);
+          expect(reparsed.spec.execution).toEqual(parsed.spec.execution);
+          expect(reparsed.spec.metadata.mode).toBe(parsed.spec.metadata.mode);
+          expect(reparsed.spec.metadata.temperature).toBe(parsed.spec.metadata.temperature);
+        }
+      });
+    }
+  });
+});
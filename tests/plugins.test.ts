@@ -0,0 +1,150 @@
+/**
+ * Tests for the plugin API and `cace plugins`
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { discoverPlugins, getLoadedPlugins, registerPlugin } from '../src/plugins/plugin-api.js';
+import { loadProjectConfig } from '../src/cli/project-config.js';
+import { summarizePlugin } from '../src/cli/plugins.js';
+import { SUPPORTED_AGENTS, COMPONENT_TYPE_EQUIVALENTS } from '../src/core/constants.js';
+import { validateComponentSpec } from '../src/core/schema.js';
+import { detectAgent, parseComponent } from '../src/parsing/parser-factory.js';
+import { renderComponent } from '../src/rendering/renderer-factory.js';
+import { getCurrentVersion } from '../src/versioning/version-catalog.js';
+import { getMappings } from '../src/transformation/capability-mapper.js';
+import { validate } from '../src/validation/index.js';
+import type { AgentId } from '../src/core/types.js';
+
+const src = join(import.meta.dir, '../src');
+
+/** An in-house agent that keeps plain markdown memory in .acme/memory */
+const PLUGIN = `
+import { ClaudeParser } from '${src}/parsing/claude-parser.js';
+import { BaseValidator } from '${src}/validation/validator-framework.js';
+
+class AcmeValidator extends BaseValidator {
+  agentId = 'acme';
+  supportedVersions = ['3.0'];
+  componentTypes = ['memory'];
+  validate(content, componentType) {
+    return content.trim() ? this.createSuccessResult(componentType) : {
+      ...this.createSuccessResult(componentType),
+      valid: false,
+      issues: [{ code: 'EMPTY', message: 'Empty memory', severity: 'error' }],
+    };
+  }
+}
+
+export default {
+  name: 'acme',
+  version: '1.2.0',
+  agents: [{
+    id: 'acme',
+    displayName: 'Acme Assistant',
+    componentTypes: ['memory'],
+    fileExtension: '.md',
+    configLocations: { project: '.acme/memory', user: '~/.acme/memory' },
+    filePatterns: [/\\.acme\\/memory\\/.*\\.md$/],
+  }],
+  parsers: [{
+    agentId: 'acme',
+    canParse: () => false,
+    detectVersion: () => ({ version: '3.0', confidence: 100, matchedMarkers: [], isDefinitive: true }),
+    parse(content, options) {
+      const result = new ClaudeParser().parse('---\\ndescription: Acme memory\\n---\\n' + content, options);
+      if (result.spec) result.spec = { ...result.spec, componentType: 'memory', sourceAgent: { id: 'acme' } };
+      return result;
+    },
+  }],
+  renderers: [{
+    agentId: 'acme',
+    getTargetDirectory: () => '.acme/memory',
+    getTargetFilename: (spec) => spec.id + '.md',
+    render: (spec) => ({ success: true, content: spec.body, filename: spec.id + '.md', errors: [] }),
+  }],
+  validators: [new AcmeValidator()],
+  versionCatalogs: {
+    acme: {
+      versions: [{ agent: 'acme', version: '3.0', isCurrent: true, isSupported: true, featuresIntroduced: [], breakingChanges: [] }],
+    },
+  },
+  mappings: [{
+    sourceAgent: 'claude',
+    targetAgent: 'acme',
+    sourceField: 'globs',
+    strategy: { type: 'unsupported', lossDescription: 'Acme memory always applies' },
+  }],
+};
+`;
+
+describe('plugins', () => {
+  test('loads plugins listed in .cacerc before validating its agents', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'cace-plugins-'));
+    writeFileSync(join(root, 'acme-plugin.ts'), PLUGIN);
+    writeFileSync(join(root, '.cacerc'), 'plugins: [./acme-plugin.ts]\nsource: claude\ntargets: [acme]\n');
+
+    const config = await loadProjectConfig(root);
+    expect(Object.keys(config.targets)).toEqual(['acme']);
+    expect(SUPPORTED_AGENTS).toContain('acme' as AgentId);
+    expect(COMPONENT_TYPE_EQUIVALENTS.memory['acme' as AgentId]).toBe('memory');
+
+    const summary = summarizePlugin(getLoadedPlugins().find((p) => p.plugin.name === 'acme')!);
+    expect(summary).toMatchObject({
+      version: '1.2.0',
+      specifier: './acme-plugin.ts',
+      agents: ['acme'],
+      parsers: ['acme'],
+      renderers: ['acme'],
+      validators: ['acme'],
+      versionCatalogs: ['acme'],
+      mappings: 1,
+    });
+  });
+
+  test('makes the plugin agent usable across parsing, rendering and validation', () => {
+    const acme = 'acme' as AgentId;
+    expect(detectAgent('Use tabs.', 'project/.acme/memory/notes.md')).toBe(acme);
+
+    const parsed = parseComponent('Use tabs.\n', { sourceFile: '.acme/memory/notes.md' });
+    expect(parsed.success).toBe(true);
+    expect(parsed.spec!.sourceAgent?.id).toBe(acme);
+    expect(validateComponentSpec(parsed.spec).errors).toEqual([]);
+
+    expect(renderComponent(parsed.spec!, acme).content).toBe('Use tabs.');
+    expect(validate('', acme, 'memory').issues[0]!.code).toBe('EMPTY');
+    expect(getCurrentVersion(acme)?.version).toBe('3.0');
+    expect(getMappings('claude', acme)).toHaveLength(1);
+  });
+
+  test('rejects contributions for undeclared agents without registering any', () => {
+    const before = SUPPORTED_AGENTS.length;
+    expect(() => registerPlugin({
+      name: 'broken',
+      agents: [{ id: 'beta' as AgentId, displayName: 'Beta', componentTypes: ['rule'], fileExtension: '.md', configLocations: { project: '.beta', user: '~/.beta' } }],
+      renderers: [{ agentId: 'gamma' as AgentId, render: () => ({ success: false, errors: [] }), getTargetDirectory: () => '.', getTargetFilename: () => 'x.md' }],
+    })).toThrow('Plugin broken provides a renderer for unknown agent "gamma"');
+    expect(SUPPORTED_AGENTS.length).toBe(before);
+  });
+
+  test('rejects unknown agents in the config', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'cace-plugins-'));
+    writeFileSync(join(root, '.cacerc'), 'source: vim\n');
+    await expect(loadProjectConfig(root)).rejects.toThrow('source: Unknown agent "vim"');
+  });
+
+  test('discovers installed plugin packages', () => {
+    const root = mkdtempSync(join(tmpdir(), 'cace-plugins-'));
+    for (const name of ['cace-plugin-zed', '@acme/cace-plugin-internal', 'left-pad']) {
+      mkdirSync(join(root, 'node_modules', name), { recursive: true });
+      writeFileSync(join(root, 'node_modules', name, 'package.json'), JSON.stringify({ name, version: '0.1.0' }));
+    }
+
+    expect(discoverPlugins(root).map((p) => [p.name, p.version]).sort()).toEqual([
+      ['@acme/cace-plugin-internal', '0.1.0'],
+      ['cace-plugin-zed', '0.1.0'],
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for the .cacerc / cace.config.ts project configuration
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  findProjectConfig,
+  loadProjectConfig,
+  parseProjectConfig,
+  pick,
+  targetSettings,
+  updateProjectConfig,
+  withDefaultTarget,
+} from '../src/cli/project-config.js';
+import { resolveSourceAgent, shouldIncludeFile } from '../src/cli/convert-dir.js';
+import { buildMatrix } from '../src/cli/matrix.js';
+import { syncSourceChanges } from '../src/cli/watch.js';
+import { readLock } from '../src/cli/lock.js';
+
+const CACERC = `source: claude
+targets:
+  cursor:
+    version: "2.3"
+    output: dist/cursor
+  windsurf:
+include: ["skills/**"]
+exclude: ["**/draft-*"]
+optimize:
+  risk: medium
+validation:
+  strict: true
+`;
+
+function createProject(): string {
+  const root = mkdtempSync(join(tmpdir(), 'cace-config-'));
+  writeFileSync(join(root, '.cacerc'), CACERC);
+  return root;
+}
+
+describe('loadProjectConfig', () => {
+  test('finds the nearest .cacerc and resolves target outputs against it', async () => {
+    const root = createProject();
+    mkdirSync(join(root, 'packages/app'), { recursive: true });
+
+    expect(findProjectConfig(join(root, 'packages/app'))).toBe(join(root, '.cacerc'));
+    const config = await loadProjectConfig(join(root, 'packages/app'));
+
+    expect(config.path).toBe(join(root, '.cacerc'));
+    expect(config.source).toBe('claude');
+    expect(config.targets).toEqual({ cursor: { version: '2.3', output: join(root, 'dist/cursor') }, windsurf: {} });
+    expect(targetSettings(config, 'output')).toEqual({ cursor: join(root, 'dist/cursor') });
+    expect(config.optimize?.risk).toBe('medium');
+    expect(config.validation?.strict).toBe(true);
+  });
+
+  test('loads the default export of cace.config.ts', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'cace-config-'));
+    writeFileSync(join(root, 'cace.config.ts'), "export default { source: 'cursor', targets: ['claude', 'codex'] };\n");
+
+    const config = await loadProjectConfig(root);
+    expect(config.source).toBe('cursor');
+    expect(Object.keys(config.targets)).toEqual(['claude', 'codex']);
+  });
+
+  test('returns an empty config when there is none', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'cace-config-'));
+    const config = await loadProjectConfig(root);
+    expect(config.path === undefined || !config.path.startsWith(root)).toBe(true);
+  });
+
+  test('rejects unknown agents and settings', () => {
+    expect(() => parseProjectConfig({ targets: ['cursor', 'vim'] }, '.cacerc')).toThrow('Invalid project config .cacerc: targets');
+    expect(() => parseProjectConfig({ optimize: { risk: 'extreme' } })).toThrow('optimize.risk');
+    expect(() => parseProjectConfig({ output: 'dist' })).toThrow('Unrecognized key');
+  });
+});
+
+describe('precedence', () => {
+  test('prefers the flag, then the config, then the default', () => {
+    expect(pick('high', 'medium', 'safe')).toBe('high');
+    expect(pick(undefined, 'medium', 'safe')).toBe('medium');
+    expect(pick<string>(undefined, undefined, 'safe')).toBe('safe');
+    expect(pick(false, true, false)).toBe(false);
+  });
+
+  test('detects the source agent from the path before falling back to the configured source', async () => {
+    const root = createProject();
+    mkdirSync(join(root, '.cursor/rules'), { recursive: true });
+    writeFileSync(join(root, '.cursor/rules/ts.mdc'), '---\ndescription: TypeScript style\nglobs: "**/*.ts"\n---\n\nUse strict mode.\n');
+    writeFileSync(join(root, 'notes.md'), '# Notes\n');
+    const config = await loadProjectConfig(root);
+
+    expect(resolveSourceAgent(join(root, '.cursor/rules/ts.mdc'), undefined, config.source)).toBe('cursor');
+    expect(resolveSourceAgent(join(root, 'notes.md'), undefined, config.source)).toBe('claude');
+    expect(resolveSourceAgent(join(root, '.cursor/rules/ts.mdc'), 'windsurf', config.source)).toBe('windsurf');
+
+    const matrix = buildMatrix(join(root, '.cursor'), { to: ['claude'], defaultFrom: config.source });
+    expect(matrix.rows.map((row) => [row.file, row.sourceAgent])).toEqual([['rules/ts.mdc', 'cursor']]);
+  });
+});
+
+describe('updateProjectConfig', () => {
+  test('keeps settings the update does not touch', () => {
+    const root = createProject();
+    updateProjectConfig(root, (config) => ({
+      ...config,
+      source: 'windsurf',
+      targets: withDefaultTarget(config.targets, 'windsurf'),
+      validation: { ...config.validation, strict: false },
+    }));
+
+    const saved = parseProjectConfig(JSON.parse(readFileSync(join(root, '.cacerc'), 'utf-8')), join(root, '.cacerc'));
+    expect(saved.source).toBe('windsurf');
+    expect(Object.keys(saved.targets)).toEqual(['windsurf', 'cursor']);
+    expect(saved.targets.cursor?.version).toBe('2.3');
+    expect(saved.include).toEqual(['skills/**']);
+    expect(saved.validation?.strict).toBe(false);
+  });
+});
+
+describe('include / exclude globs', () => {
+  test('matches globs against the path and plain patterns against the filename', () => {
+    expect(shouldIncludeFile('/p/.claude/skills/review/SKILL.md', ['skills/**'])).toBe(true);
+    expect(shouldIncludeFile('/p/.claude/commands/review.md', ['skills/**'])).toBe(false);
+    expect(shouldIncludeFile('/p/.claude/commands/draft-notes.md', undefined, ['**/draft-*'])).toBe(false);
+    expect(shouldIncludeFile('/p/.cursor/rules/style.mdc', ['*.mdc'])).toBe(true);
+    expect(shouldIncludeFile('/p/.cursor/rules/style.mdc', ['style'])).toBe(true);
+  });
+
+  test('drive watch outputs and target versions from the config', async () => {
+    const root = createProject();
+    const source = join(root, '.claude');
+    mkdirSync(join(source, 'skills/review'), { recursive: true });
+    writeFileSync(join(source, 'skills/review/SKILL.md'), '---\nname: review\ndescription: Review code changes\n---\nReview the changes.\n');
+    const config = await loadProjectConfig(root);
+
+    const events = syncSourceChanges([join(source, 'skills/review/SKILL.md')], [{ dir: source, fromAgent: 'claude' }], {
+      to: ['cursor'],
+      root,
+      outputs: targetSettings(config, 'output'),
+      targetVersions: targetSettings(config, 'version'),
+      include: config.include,
+    });
+
+    expect(events[0]!.outputs).toEqual([join(root, 'dist/cursor/.cursor/skills/review/SKILL.md')]);
+    expect(readLock(root).entries[0]!.targetVersion).toBe('2.3');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for rule parsing/rendering across Cursor (.mdc), Windsurf and Claude
+ */
+
+import { describe, it, expect } from "bun:test";
+import matter from "gray-matter";
+import type { ComponentSpec, ExtendedComponentFields } from "../src/core/types.js";
+import { getRuleKind, getRuleGlobs, parseGlobList } from "../src/core/rule-activation.js";
+import { CursorParser } from "../src/parsing/cursor-parser.js";
+import { parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent, getTargetPath } from "../src/rendering/renderer-factory.js";
+import { CursorValidator } from "../src/validation/agents/cursor-validator.js";
+
+const RULE_BODY = "Always follow this rule: prefer explicit types and avoid any in TypeScript code.";
+
+function mdc(frontmatter: string): string {
+  return `---\n${frontmatter}\n---\n\n${RULE_BODY}\n`;
+}
+
+describe("Cursor .mdc rules", () => {
+  const parser = new CursorParser();
+  const validator = new CursorValidator();
+
+  const kinds = [
+    {
+      kind: "always",
+      content: mdc("description: Project conventions\nalwaysApply: true"),
+      mode: "auto",
+    },
+    {
+      kind: "auto-attached",
+      content: mdc('description: TypeScript style\nglobs: ["src/**/*.ts", "**/*.tsx"]\nalwaysApply: false'),
+      mode: "contextual",
+    },
+    {
+      kind: "agent-requested",
+      content: mdc("description: Use when writing database migrations\nalwaysApply: false"),
+      mode: "suggested",
+    },
+    {
+      kind: "manual",
+      content: mdc("alwaysApply: false"),
+      mode: "manual",
+    },
+  ] as const;
+
+  for (const { kind, content, mode } of kinds) {
+    it(`should parse and re-render a ${kind} rule`, () => {
+      const parsed = parser.parse(content, { sourceFile: ".cursor/rules/style.mdc" });
+      expect(parsed.success).toBe(true);
+      if (!parsed.success) return;
+
+      expect(parsed.spec.componentType).toBe("rule");
+      expect(parsed.spec.id).toBe("style");
+      expect(parsed.spec.activation.mode).toBe(mode);
+      expect(getRuleKind(parsed.spec)).toBe(kind);
+
+      const rendered = renderComponent(parsed.spec, "cursor");
+      expect(rendered.success).toBe(true);
+      expect(rendered.filename).toBe("style.mdc");
+      expect(getTargetPath(parsed.spec, "cursor")).toBe(".cursor/rules/style.mdc");
+
+      const validation = validator.validate(rendered.content!, "rule");
+      expect(validation.valid).toBe(true);
+
+      const reparsed = parser.parse(rendered.content!, { sourceFile: ".cursor/rules/style.mdc" });
+      expect(reparsed.success).toBe(true);
+      if (reparsed.success) {
+        expect(getRuleKind(reparsed.spec)).toBe(kind);
+        expect(getRuleGlobs(reparsed.spec)).toEqual(getRuleGlobs(parsed.spec));
+      }
+    });
+  }
+
+  it("should accept comma-separated globs", () => {
+    const parsed = parser.parse(mdc("description: Styles\nglobs: src/**/*.css, src/**/*.scss"), {
+      sourceFile: ".cursor/rules/styles.mdc",
+    });
+    expect(parsed.success).toBe(true);
+    if (parsed.success) {
+      const rule = (parsed.spec as ComponentSpec & ExtendedComponentFields).ruleActivation;
+      expect(rule?.globs).toEqual(["src/**/*.css", "src/**/*.scss"]);
+    }
+  });
+
+  it("should accept Cursor's unquoted globs", () => {
+    const content = mdc("description: TypeScript style\nglobs: **/*.ts,src/**/*.tsx\nalwaysApply: false");
+    const parsed = parser.parse(content, { sourceFile: ".cursor/rules/ts.mdc" });
+    expect(parsed.success).toBe(true);
+    if (parsed.success) {
+      expect(getRuleGlobs(parsed.spec)).toEqual(["**/*.ts", "src/**/*.tsx"]);
+      expect(parsed.spec.body).toBe(RULE_BODY);
+    }
+
+    const result = validator.validate(content, "rule");
+    expect(result.valid).toBe(true);
+    expect(result.info.find((i) => i.code === "GLOBS")?.message).toBe("Rule applies to 2 file patterns");
+  });
+
+  it("should report a manual rule as info, not a missing description", () => {
+    const result = validator.validate(mdc("alwaysApply: false"), "rule");
+    expect(result.valid).toBe(true);
+    expect(result.info.some((i) => i.code === "MANUAL_RULE")).toBe(true);
+  });
+});
+
+describe("Rule conversion into Cursor", () => {
+  it("should keep Windsurf glob triggers", () => {
+    const content = `---
+description: TypeScript style
+trigger: glob
+globs: "**/*.ts, src/**/*.tsx"
+---
+
+${RULE_BODY}
+`;
+    const parsed = parseComponent(content, { sourceFile: ".windsurf/rules/ts-style.md" });
+    expect(parsed.success).toBe(true);
+    expect(parsed.spec?.componentType).toBe("rule");
+
+    const rendered = renderComponent(parsed.spec!, "cursor");
+    expect(rendered.success).toBe(true);
+    expect(rendered.filename).toBe("ts-style.mdc");
+
+    expect(rendered.content).toContain("\nglobs: **/*.ts,src/**/*.tsx\n");
+    const reparsed = parseComponent(rendered.content!, { sourceFile: ".cursor/rules/ts-style.mdc" });
+    expect(getRuleGlobs(reparsed.spec!)).toEqual(["**/*.ts", "src/**/*.tsx"]);
+    expect(new CursorValidator().validate(rendered.content!, "rule").valid).toBe(true);
+
+    const fm = matter(rendered.content!.replace(/^globs: .*$/m, "")).data;
+    expect(fm.alwaysApply).toBe(false);
+    expect(fm.description).toBe("TypeScript style");
+  });
+
+  it("should map Windsurf triggers to Cursor rule kinds", () => {
+    const cases = [
+      { trigger: "always_on", alwaysApply: true, description: true },
+      { trigger: "model_decision", alwaysApply: false, description: true },
+      { trigger: "manual", alwaysApply: false, description: false },
+    ];
+
+    for (const c of cases) {
+      const content = `---\ndescription: Some rule\ntrigger: ${c.trigger}\n---\n\n${RULE_BODY}\n`;
+      const parsed = parseComponent(content, { sourceFile: ".windsurf/rules/r.md" });
+      const rendered = renderComponent(parsed.spec!, "cursor");
+      const fm = matter(rendered.content!).data;
+      expect(fm.alwaysApply).toBe(c.alwaysApply);
+      expect(fm.description !== undefined).toBe(c.description);
+      expect(fm.globs).toBeUndefined();
+    }
+  });
+
+  it("should keep Claude rule paths as Cursor globs", () => {
+    const content = `---
+description: API conventions
+paths:
+  - "src/api/**/*.ts"
+---
+
+${RULE_BODY}
+`;
+    const parsed = parseComponent(content, { sourceFile: "/repo/.claude/rules/api.md" });
+    expect(parsed.success).toBe(true);
+    expect(parsed.spec?.componentType).toBe("rule");
+    expect(parsed.spec?.id).toBe("api");
+
+    const rendered = renderComponent(parsed.spec!, "cursor");
+    const fm = matter(rendered.content!).data;
+    expect(fm.globs).toBe("src/api/**/*.ts");
+    expect(fm.alwaysApply).toBe(false);
+  });
+
+  it("should render a Claude rule without paths as an always-applied rule", () => {
+    const parsed = parseComponent(`# Conventions\n\n${RULE_BODY}\n`, {
+      sourceFile: ".claude/rules/conventions.md",
+    });
+    const rendered = renderComponent(parsed.spec!, "cursor");
+    expect(matter(rendered.content!).data.alwaysApply).toBe(true);
+  });
+});
+
+describe("Rule conversion out of Cursor", () => {
+  it("should render auto-attached rules to Claude rules with paths", () => {
+    const parsed = parseComponent(
+      mdc('description: TypeScript style\nglobs: ["src/**/*.ts"]\nalwaysApply: false'),
+      { sourceFile: ".cursor/rules/ts.mdc" },
+    );
+    const rendered = renderComponent(parsed.spec!, "claude");
+    expect(getTargetPath(parsed.spec!, "claude")).toBe(".claude/rules/ts.md");
+    expect(matter(rendered.content!).data.paths).toEqual(["src/**/*.ts"]);
+    expect(rendered.report?.target.componentType).toBe("rule");
+  });
+
+  it("should render agent-requested rules to Claude skills", () => {
+    const parsed = parseComponent(
+      mdc("description: Use when writing migrations\nalwaysApply: false"),
+      { sourceFile: ".cursor/rules/migrations.mdc" },
+    );
+    expect(getTargetPath(parsed.spec!, "claude")).toBe(".claude/skills/migrations/SKILL.md");
+  });
+
+  it("should render rules to Windsurf triggers", () => {
+    const parsed = parseComponent(
+      mdc('description: TypeScript style\nglobs: ["src/**/*.ts"]\nalwaysApply: false'),
+      { sourceFile: ".cursor/rules/ts.mdc" },
+    );
+    const rendered = renderComponent(parsed.spec!, "windsurf");
+    const fm = matter(rendered.content!).data;
+    expect(fm.trigger).toBe("glob");
+    expect(fm.globs).toEqual(["src/**/*.ts"]);
+  });
+});
+
+describe("parseGlobList", () => {
+  it("should handle lists, comma-separated strings and junk", () => {
+    expect(parseGlobList(["a/**", "b/*.ts"])).toEqual(["a/**", "b/*.ts"]);
+    expect(parseGlobList("a/**, b/*.ts")).toEqual(["a/**", "b/*.ts"]);
+    expect(parseGlobList(undefined)).toEqual([]);
+    expect(parseGlobList(42)).toEqual([]);
+  });
+});
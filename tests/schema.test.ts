@@ -0,0 +1,96 @@
+/**
+ * Tests for the Zod IR schemas and the published JSON Schema files
+ */
+
+import { describe, it, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { z } from "zod";
+import { ConversionReportSchema, validateComponentSpec } from "../src/core/schema.js";
+import { PUBLISHED_SCHEMAS, getJsonSchema, zodToJsonSchema } from "../src/core/json-schema.js";
+import { parseComponent } from "../src/parsing/parser-factory.js";
+import { renderComponent } from "../src/rendering/renderer-factory.js";
+import type { PublishedSchemaName } from "../src/core/json-schema.js";
+
+const FIXTURES: Array<[string, string]> = [
+  [".codex/config.toml", 'model = "gpt-5-codex"\napproval_policy = "on-request"\n\n[features]\nweb_search_request = true\n'],
+  [".claude/skills/review/SKILL.md", "---\nname: review\ndescription: Review code\n---\nReview $ARGUMENTS\n"],
+  [".cursor/rules/ts.mdc", "---\ndescription: TS\nglobs: src/**/*.ts\n---\nUse strict mode.\n"],
+  [".windsurf/hooks.json", JSON.stringify({ hooks: { pre_run_command: [{ command: "check.sh" }] } })],
+  [".mcp.json", JSON.stringify({ mcpServers: { docs: { type: "http", url: "https://mcp.example.com" } } })],
+  [".gemini/commands/plan.toml", 'description = "Plan"\nprompt = "Plan {{args}}"\n'],
+  ["AGENTS.md", "# AGENTS.md\n\n## Setup\n\nRun bun install.\n"],
+  [".aider.conf.yml", "read: CONVENTIONS.md\n"],
+];
+
+function parse(sourceFile: string, content: string) {
+  const result = parseComponent(content, { sourceFile });
+  if (!result.success) throw new Error(`${sourceFile}: ${result.errors.join(", ")}`);
+  return result.spec!;
+}
+
+describe("validateComponentSpec", () => {
+  it("should accept specs from every parser", () => {
+    for (const [file, content] of FIXTURES) {
+      const result = validateComponentSpec(parse(file, content));
+      expect({ file, errors: result.errors }).toEqual({ file, errors: [] });
+    }
+  });
+
+  it("should validate extended fields", () => {
+    const spec = parse(".mcp.json", FIXTURES[4]![1]);
+    const broken = { ...spec, mcpServers: [{ name: "docs", transport: "websocket" }] };
+
+    const result = validateComponentSpec(broken);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toStartWith("mcpServers.0.transport");
+  });
+
+  it("should reject unknown agents", () => {
+    const spec = parse(".claude/skills/review/SKILL.md", FIXTURES[1]![1]);
+    const result = validateComponentSpec({ ...spec, sourceAgent: { id: "copilot" } });
+    expect(result.errors[0]).toStartWith("sourceAgent.id");
+  });
+});
+
+describe("ConversionReportSchema", () => {
+  it("should accept reports with configuration and security losses", () => {
+    const spec = parse(".codex/config.toml", FIXTURES[0]![1]);
+    const report = renderComponent(spec, "claude").report!;
+    report.losses.push({ category: "security", severity: "warning", description: "x", sourceField: "y" });
+
+    expect(ConversionReportSchema.safeParse(report).success).toBe(true);
+  });
+});
+
+describe("JSON Schema", () => {
+  it("should keep the published files in sync with the Zod schemas", () => {
+    for (const name of Object.keys(PUBLISHED_SCHEMAS) as PublishedSchemaName[]) {
+      const file = join(import.meta.dir, "..", "schemas", `${name}.schema.json`);
+      expect(JSON.parse(readFileSync(file, "utf-8"))).toEqual(getJsonSchema(name));
+    }
+  });
+
+  it("should convert optional fields, records and integer bounds", () => {
+    const schema = zodToJsonSchema(
+      z.object({
+        id: z.string().min(1),
+        level: z.number().int().min(1),
+        env: z.record(z.string()).optional(),
+      }),
+    );
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "string", minLength: 1 },
+        level: { type: "integer", minimum: 1 },
+        env: { type: "object", additionalProperties: { type: "string" } },
+      },
+      required: ["id", "level"],
+    });
+  });
+
+  it("should reject Zod types it cannot express", () => {
+    expect(() => zodToJsonSchema(z.date())).toThrow("Unsupported Zod type");
+  });
+});
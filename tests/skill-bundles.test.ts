@@ -0,0 +1,132 @@
+/**
+ * Tests for carrying skill directories and their supporting files across agents
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { copyRenderedAssets, findConvertibleFiles } from '../src/cli/convert-dir.js';
+import type { ComponentSpec, ExtendedComponentFields, SkillBundle } from '../src/core/types.js';
+import { parseComponent } from '../src/parsing/parser-factory.js';
+import { renderComponent } from '../src/rendering/renderer-factory.js';
+
+const SKILL = `---
+name: review
+description: Review a pull request
+---
+
+Run \`scripts/check.sh\` first, then follow [the guide](references/guide.md).
+Project-wide lint config lives in .claude/skills/review/assets/eslint.json.
+`;
+
+function createSkill(): string {
+  const root = mkdtempSync(join(tmpdir(), 'cace-skills-'));
+  const files: Record<string, string> = {
+    '.claude/skills/review/SKILL.md': SKILL,
+    '.claude/skills/review/scripts/check.sh': '#!/bin/sh\nbun test\n',
+    '.claude/skills/review/references/guide.md': '## Guide\n\nCheck the tests.\n',
+    '.claude/skills/review/assets/eslint.json': '{}\n',
+  };
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+  return root;
+}
+
+function parseSkill(root: string): ComponentSpec {
+  const cwd = process.cwd();
+  process.chdir(root);
+  try {
+    const path = '.claude/skills/review/SKILL.md';
+    return parseComponent(readFileSync(path, 'utf-8'), { agentId: 'claude', sourceFile: path }).spec!;
+  } finally {
+    process.chdir(cwd);
+  }
+}
+
+function bundleOf(spec: ComponentSpec): SkillBundle | undefined {
+  return (spec as ComponentSpec & ExtendedComponentFields).bundle;
+}
+
+describe('skill bundle scanning', () => {
+  test('lists the files next to SKILL.md by kind', () => {
+    const bundle = bundleOf(parseSkill(createSkill()))!;
+    expect(bundle.dir).toBe('.claude/skills/review');
+    expect(bundle.assets.map((asset) => [asset.path, asset.kind])).toEqual([
+      ['assets/eslint.json', 'asset'],
+      ['references/guide.md', 'reference'],
+      ['scripts/check.sh', 'script'],
+    ]);
+    expect(bundle.assets[1]!.content).toBe('## Guide\n\nCheck the tests.\n');
+  });
+
+  test('skips symlinks with a warning instead of failing the parse', () => {
+    const root = createSkill();
+    symlinkSync(join(root, 'missing.md'), join(root, '.claude/skills/review/references/dangling.md'));
+    const path = join(root, '.claude/skills/review/SKILL.md');
+    const result = parseComponent(SKILL, { agentId: 'claude', sourceFile: path });
+    expect(result.success).toBe(true);
+    expect(bundleOf(result.spec!)!.assets).toHaveLength(3);
+    expect(result.warnings).toContain('Skill asset references/dangling.md is a symlink; skipped');
+  });
+
+  test('only takes the known subfolders of a SKILL.md outside a skills folder', () => {
+    const root = mkdtempSync(join(tmpdir(), 'cace-skills-'));
+    mkdirSync(join(root, 'src'));
+    mkdirSync(join(root, 'scripts'));
+    writeFileSync(join(root, 'SKILL.md'), SKILL);
+    writeFileSync(join(root, 'src/index.ts'), 'export {};\n');
+    writeFileSync(join(root, 'package.json'), '{}\n');
+    writeFileSync(join(root, 'scripts/check.sh'), '#!/bin/sh\n');
+    const path = join(root, 'SKILL.md');
+    const bundle = bundleOf(parseComponent(SKILL, { agentId: 'claude', sourceFile: path }).spec!)!;
+    expect(bundle.assets.map((asset) => asset.path)).toEqual(['scripts/check.sh']);
+  });
+
+  test('convert-dir treats a skill directory as one component', () => {
+    const root = createSkill();
+    writeFileSync(join(root, 'README.md'), '# Readme\n');
+    const files = findConvertibleFiles(root, { recursive: true }).map((file) => file.slice(root.length + 1)).sort();
+    expect(files).toEqual(['.claude/skills/review/SKILL.md', 'README.md']);
+  });
+});
+
+describe('skill bundle rendering', () => {
+  test('copies assets into skill directories and moves project-root paths', () => {
+    const root = createSkill();
+    const result = renderComponent(parseSkill(root), 'gemini');
+    expect(result.content).toContain('Run `scripts/check.sh` first, then follow [the guide](references/guide.md).');
+    expect(result.content).toContain('.gemini/skills/review/assets/eslint.json');
+    expect(result.assets!.map((asset) => asset.path)).toEqual(['assets/eslint.json', 'references/guide.md', 'scripts/check.sh']);
+    expect(result.report!.preservedSemantics).toContain('3 skill assets');
+
+    const target = join(root, 'out/.gemini/skills/review/SKILL.md');
+    const copied = copyRenderedAssets(result.assets, target);
+    expect(copied).toHaveLength(3);
+    expect(readFileSync(join(root, 'out/.gemini/skills/review/scripts/check.sh'), 'utf-8')).toBe('#!/bin/sh\nbun test\n');
+  });
+
+  test('does not copy on a dry run', () => {
+    const root = createSkill();
+    const result = renderComponent(parseSkill(root), 'codex');
+    const target = join(root, 'out/SKILL.md');
+    expect(copyRenderedAssets(result.assets, target, true)).toHaveLength(3);
+    expect(existsSync(join(root, 'out'))).toBe(false);
+  });
+
+  test('links and inlines assets for agents without skill directories', () => {
+    const result = renderComponent(parseSkill(createSkill()), 'opencode');
+    expect(result.assets).toBeUndefined();
+    expect(result.content).toContain('Run `.claude/skills/review/scripts/check.sh` first');
+    expect(result.content).toContain('[the guide](.claude/skills/review/references/guide.md)');
+    expect(result.content).toContain('<!-- Inlined from .claude/skills/review/references/guide.md -->\n## Guide\n\nCheck the tests.\n');
+
+    const losses = result.report!.losses.filter((loss) => loss.sourceField === 'bundle.assets');
+    expect(losses.map((loss) => loss.description)).toEqual([
+      '1 reference files inlined into the body; OpenCode loads them on every use instead of on demand',
+      'OpenCode has no skill directories; 2 supporting files stay in .claude/skills/review and are linked from there',
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for converting sub-agent definitions between agents
+ */
+
+import { describe, test, expect } from 'bun:test';
+import matter from 'gray-matter';
+import { calculateDirTargetPaths } from '../src/cli/convert-dir.js';
+import { translateModel } from '../src/core/sub-agents.js';
+import type { ComponentSpec, ExtendedComponentFields } from '../src/core/types.js';
+import { parseComponent } from '../src/parsing/parser-factory.js';
+import { getTargetPath, renderComponent } from '../src/rendering/renderer-factory.js';
+
+const CLAUDE_AGENT = `---
+name: reviewer
+description: Reviews code changes for bugs
+tools: Read, Grep, Bash(git diff:*)
+model: sonnet
+color: blue
+---
+
+You are a senior reviewer.`;
+
+const OPENCODE_AGENT = `---
+description: Plans work without editing
+mode: primary
+model: anthropic/claude-opus-4-1
+temperature: 0.1
+maxSteps: 20
+permission:
+  edit: deny
+  bash: ask
+tools:
+  write: false
+  read: true
+---
+
+Plan, do not edit.`;
+
+function parse(content: string, sourceFile: string): ComponentSpec {
+  const result = parseComponent(content, { sourceFile });
+  expect(result.success).toBe(true);
+  return result.spec!;
+}
+
+function frontmatterOf(content: string | undefined): Record<string, unknown> {
+  return matter(content ?? '').data;
+}
+
+describe('sub-agent parsing', () => {
+  test('reads Claude sub-agents from .claude/agents', () => {
+    const spec = parse(CLAUDE_AGENT, '.claude/agents/reviewer.md');
+    expect(spec.componentType).toBe('agent');
+    expect(spec.execution.allowedTools).toEqual(['Read', 'Grep', 'Bash(git diff:*)']);
+    expect(spec.execution.preferredModel).toBe('sonnet');
+    expect((spec as ComponentSpec & ExtendedComponentFields).subAgentSpec).toEqual({ mode: 'subagent', color: 'blue' });
+  });
+
+  test('keeps OpenCode agent settings', () => {
+    const spec = parse(OPENCODE_AGENT, '.opencode/agents/planner.md');
+    expect((spec as ComponentSpec & ExtendedComponentFields).subAgentSpec).toEqual({
+      mode: 'primary',
+      temperature: 0.1,
+      maxTurns: 20,
+      permissions: { edit: 'deny', bash: 'ask' },
+    });
+  });
+
+  test('reads Gemini sub-agents from .gemini/agents', () => {
+    const spec = parse('---\nname: scout\ndescription: Explores the codebase\nkind: local\nmax_turns: 8\n---\n\nExplore.', '.gemini/agents/scout.md');
+    expect(spec.sourceAgent?.id).toBe('gemini');
+    expect(spec.componentType).toBe('agent');
+    expect((spec as ComponentSpec & ExtendedComponentFields).subAgentSpec).toEqual({ mode: 'subagent', maxTurns: 8 });
+  });
+});
+
+describe('sub-agent rendering', () => {
+  test('renders Claude sub-agents for OpenCode and Gemini', () => {
+    const spec = parse(CLAUDE_AGENT, '.claude/agents/reviewer.md');
+
+    const opencode = renderComponent(spec, 'opencode');
+    expect(getTargetPath(spec, 'opencode')).toBe('.opencode/agents/reviewer.md');
+    expect(frontmatterOf(opencode.content)).toMatchObject({ mode: 'subagent', model: 'anthropic/claude-sonnet-4-5', tools: ['read', 'grep', 'bash'] });
+
+    const gemini = renderComponent(spec, 'gemini');
+    expect(getTargetPath(spec, 'gemini')).toBe('.gemini/agents/reviewer.md');
+    expect(frontmatterOf(gemini.content)).toEqual({
+      name: 'reviewer',
+      description: 'Reviews code changes for bugs',
+      kind: 'local',
+      tools: ['read_file', 'search_file_content', 'run_shell_command(git diff)'],
+    });
+    expect(gemini.report!.losses.map((l) => l.description)).toEqual([
+      "Model 'sonnet' is not a Gemini model; the sub-agent uses the session's model in Gemini CLI",
+      'Color (blue) dropped; Gemini CLI has no equivalent',
+    ]);
+  });
+
+  test('renders OpenCode agents for Claude and reports what Claude lacks', () => {
+    const spec = parse(OPENCODE_AGENT, '.opencode/agents/planner.md');
+    const result = renderComponent(spec, 'claude');
+    expect(result.filename).toBe('planner.md');
+    expect(result.report!.target.componentType).toBe('agent');
+    expect(frontmatterOf(result.content)).toEqual({
+      name: 'planner',
+      description: 'Plans work without editing',
+      tools: 'Read',
+      model: 'opus',
+    });
+    expect(result.report!.losses.map((l) => l.sourceField)).toEqual([
+      'subAgentSpec.mode',
+      'subAgentSpec.temperature',
+      'subAgentSpec.maxTurns',
+      'subAgentSpec.permissions',
+    ]);
+  });
+
+  test('turns tools an OpenCode agent disables into an allow-list for Claude', () => {
+    const spec = parse('---\ndescription: Reviews without writing\nmode: subagent\ntools:\n  write: false\n  edit: false\n---\n\nReview.', '.opencode/agents/reviewer.md');
+    const result = renderComponent(spec, 'claude');
+    expect(frontmatterOf(result.content).tools).toBe('Read, Bash, Grep, Glob, LS, WebFetch, WebSearch, Task, TodoWrite');
+    const losses = result.report!.losses.filter((l) => l.category === 'tools');
+    expect(losses.map((l) => l.description)).toEqual([
+      'Disabled tools (write, edit) rendered as a list of the other Claude Code tools; MCP and any tools not listed are disabled too',
+    ]);
+  });
+
+  test('round-trips OpenCode permissions', () => {
+    const spec = parse(OPENCODE_AGENT, '.opencode/agents/planner.md');
+    const rendered = renderComponent(spec, 'opencode');
+    expect(frontmatterOf(rendered.content)).toMatchObject({ mode: 'primary', maxSteps: 20, permission: { edit: 'deny', bash: 'ask' } });
+    expect(rendered.report!.losses).toEqual([]);
+  });
+
+  test('degrades to a skill with a delegating preamble where there are no sub-agents', () => {
+    const spec = parse(CLAUDE_AGENT, '.claude/agents/reviewer.md');
+    const result = renderComponent(spec, 'codex');
+    expect(getTargetPath(spec, 'codex')).toBe('.codex/skills/reviewer/SKILL.md');
+    expect(result.report!.target.componentType).toBe('skill');
+    expect(result.content).toContain(
+      '<!-- Converted from the reviewer sub-agent: OpenAI Codex has no sub-agents -->\n' +
+      'Handle this as a delegated task, separate from the rest of the conversation: work through it on its own, ' +
+      'then finish with a short summary of what you found or changed.\n' +
+      'Use only these tools: read, search, shell(git diff:*).\n\nYou are a senior reviewer.'
+    );
+    const losses = result.report!.losses.filter((l) => l.sourceField === 'componentType' || l.sourceField.startsWith('subAgentSpec.'));
+    expect(losses.map((l) => l.description)).toEqual([
+      'OpenAI Codex has no sub-agents; reviewer becomes a skill that runs in the main conversation instead of its own context',
+      'Color (blue) dropped; OpenAI Codex has no equivalent',
+    ]);
+  });
+});
+
+describe('sub-agent paths and models', () => {
+  test('convert-dir writes sub-agents to the target\'s agent directory or as skills', () => {
+    const paths = (target: 'claude' | 'opencode' | 'codex'): string =>
+      calculateDirTargetPaths('/src/.opencode/agent/planner.md', '/src', '/out', target).primary;
+    expect(paths('claude')).toBe('/out/.claude/agents/planner.md');
+    expect(paths('opencode')).toBe('/out/.opencode/agents/planner.md');
+    expect(paths('codex')).toBe('/out/.codex/skills/planner/SKILL.md');
+  });
+
+  test('translates model names between Claude aliases, OpenCode IDs and Gemini', () => {
+    expect(translateModel('anthropic/claude-3-5-haiku-latest', 'claude')).toEqual({ model: 'haiku' });
+    expect(translateModel('gpt-5', 'opencode')).toEqual({ model: 'openai/gpt-5' });
+    expect(translateModel('google/gemini-2.5-pro', 'gemini')).toEqual({ model: 'gemini-2.5-pro' });
+    expect(translateModel('inherit', 'opencode')).toEqual({});
+    expect(translateModel('gpt-5', 'claude').loss?.sourceField).toBe('execution.preferredModel');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for the minimal TOML reader/writer
+ */
+
+import { describe, it, expect } from "bun:test";
+import { parseToml, stringifyToml, TomlParseError } from "../src/core/toml.js";
+
+describe("parseToml", () => {
+  it("should parse scalars, comments and strings", () => {
+    const data = parseToml(`
+# comment
+title = "Hello \\"world\\"" # trailing comment
+path = 'C:\\Users\\me'
+count = 1_000
+ratio = 0.5
+hex = 0xff
+enabled = true
+when = 2025-01-01T10:00:00Z
+`);
+    expect(data).toEqual({
+      title: 'Hello "world"',
+      path: "C:\\Users\\me",
+      count: 1000,
+      ratio: 0.5,
+      hex: 255,
+      enabled: true,
+      when: "2025-01-01T10:00:00Z",
+    });
+  });
+
+  it("should parse multi-line strings", () => {
+    const data = parseToml(`
+basic = """
+Line one
+Line two \\
+  continued"""
+literal = '''
+Keep \\n as-is
+'''
+`);
+    expect(data.basic).toBe("Line one\nLine two continued");
+    expect(data.literal).toBe("Keep \\n as-is\n");
+  });
+
+  it("should parse tables, dotted keys, arrays and inline tables", () => {
+    const data = parseToml(`
+model = "o3"
+sandbox.mode = "workspace-write"
+
+[mcp_servers.docs]
+command = "npx"
+args = [
+  "-y", # package runner
+  "docs-server",
+]
+env = { API_KEY = "secret", "x.y" = 1 }
+
+[[profiles]]
+name = "fast"
+
+[[profiles]]
+name = "safe"
+`);
+    expect(data).toEqual({
+      model: "o3",
+      sandbox: { mode: "workspace-write" },
+      mcp_servers: {
+        docs: {
+          command: "npx",
+          args: ["-y", "docs-server"],
+          env: { API_KEY: "secret", "x.y": 1 },
+        },
+      },
+      profiles: [{ name: "fast" }, { name: "safe" }],
+    });
+  });
+
+  it("should report errors with line numbers", () => {
+    expect(() => parseToml('a = 1\nb = "unterminated\n')).toThrow(TomlParseError);
+    expect(() => parseToml("a = 1\na = 2\n")).toThrow(/line 2/);
+    expect(() => parseToml("[t]\nx = 1\n[t]\n")).toThrow(/defined more than once/);
+  });
+});
+
+describe("stringifyToml", () => {
+  it("should round-trip nested data", () => {
+    const data = {
+      model: "o3",
+      approval_policy: "on-request",
+      features: { web_search: true },
+      mcp_servers: {
+        docs: { command: "npx", args: ["-y", "docs-server"], env: { TOKEN: "${TOKEN}" } },
+      },
+      profiles: [{ name: "fast" }, { name: "safe" }],
+    };
+    expect(parseToml(stringifyToml(data))).toEqual(data);
+  });
+
+  it("should write multi-line strings without losing backslashes or quotes", () => {
+    const values = [
+      "plain\nmulti-line\n",
+      'backslash \\d+\nand "quotes"',
+      "both ''' and \\ and \"\"\"\nend\"",
+    ];
+    for (const value of values) {
+      expect(parseToml(stringifyToml({ value })).value).toBe(value);
+    }
+  });
+
+  it("should quote keys that are not bare", () => {
+    const toml = stringifyToml({ "my key": 1, skip: undefined });
+    expect(toml).toBe('"my key" = 1\n');
+  });
+});
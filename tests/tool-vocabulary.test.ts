@@ -0,0 +1,131 @@
+/**
+ * Tests for the canonical tool vocabulary and tool-name translation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import matter from 'gray-matter';
+import {
+  parseToolList,
+  parseTools,
+  translateTools,
+} from '../src/core/tool-vocabulary.js';
+import { parseComponent } from '../src/parsing/parser-factory.js';
+import { renderComponent } from '../src/rendering/renderer-factory.js';
+
+const CLAUDE_SKILL = `---
+name: release
+description: Cut a release
+allowed-tools: Read, Edit, Bash(npm test:*), Bash(git status), mcp__github__create_release, Task
+---
+Run the tests and tag the release.
+`;
+
+function parseClaudeSkill(): ReturnType<typeof parseComponent> {
+  return parseComponent(CLAUDE_SKILL, { sourceFile: '.claude/skills/release/SKILL.md' });
+}
+
+describe('tool vocabulary', () => {
+  test('splits comma-separated tool lists outside patterns', () => {
+    expect(parseToolList('Read, Bash(git add:*, git commit:*), Grep')).toEqual([
+      'Read',
+      'Bash(git add:*, git commit:*)',
+      'Grep',
+    ]);
+    expect(parseToolList(['Read'])).toEqual(['Read']);
+  });
+
+  test('records canonical permissions when parsing', () => {
+    const spec = parseClaudeSkill().spec!;
+    expect(spec.execution.allowedTools).toHaveLength(6);
+    expect(spec.execution.tools).toEqual([
+      { tool: 'read' },
+      { tool: 'edit' },
+      { tool: 'shell', pattern: 'npm test' },
+      { tool: 'shell', pattern: 'git status', exact: true },
+      { tool: 'mcp', server: 'github', name: 'create_release' },
+      { tool: 'task' },
+    ]);
+
+    expect(parseTools(['read_file', 'run_shell_command(git)', 'github__list_issues'], 'gemini')).toEqual([
+      { tool: 'read' },
+      { tool: 'shell', pattern: 'git' },
+      { tool: 'mcp', server: 'github', name: 'list_issues' },
+    ]);
+  });
+
+  test('translates names in both directions', () => {
+    const claude = parseTools(['Read', 'Edit', 'Bash(git:*)'], 'claude');
+    expect(translateTools(claude, 'gemini')).toEqual({
+      names: ['read_file', 'replace', 'run_shell_command(git)'],
+      losses: [],
+    });
+
+    const gemini = parseTools(['read_file', 'replace', 'run_shell_command(git)'], 'gemini');
+    expect(translateTools(gemini, 'claude').names).toEqual(['Read', 'Edit', 'Bash(git:*)']);
+    expect(translateTools(gemini, 'opencode').names).toEqual(['read', 'edit', 'bash']);
+  });
+
+  test('reports narrowing and widening as tools losses', () => {
+    const losses = translateTools(parseClaudeSkill().spec!.execution.tools!, 'codex').losses;
+    expect(losses.every((l) => l.category === 'tools' && l.sourceField === 'execution.tools')).toBe(true);
+    expect(losses.map((l) => l.description)).toEqual([
+      'edit widened to file_write, which also allows write',
+      'shell(npm test:*) widened to shell: OpenAI Codex cannot limit it to "npm test"',
+      'shell(git status) widened to shell: OpenAI Codex cannot limit it to "git status"',
+      'mcp__github__create_release has no OpenAI Codex equivalent and was dropped',
+      'task has no OpenAI Codex equivalent and was dropped',
+    ]);
+
+    const exact = translateTools(parseTools(['Bash(git status)'], 'claude'), 'gemini').losses;
+    expect(exact[0]!.description).toContain('allows any command starting with "git status"');
+  });
+
+  test('does not report widening a pattern when the tool is allowed outright', () => {
+    const permissions = parseTools(['Bash', 'Bash(npm test:*)'], 'claude');
+    expect(translateTools(permissions, 'opencode')).toEqual({ names: ['bash'], losses: [] });
+  });
+
+  test('warns when no allowed tool survives', () => {
+    const { names, losses } = translateTools(parseTools(['Task'], 'claude'), 'codex');
+    expect(names).toEqual([]);
+    expect(losses.at(-1)!.description).toBe(
+      "None of the allowed tools exist in OpenAI Codex; the component gets OpenAI Codex's default tools"
+    );
+  });
+});
+
+describe('renderers', () => {
+  test('write the target agent\'s tool names and report the losses', () => {
+    const spec = parseClaudeSkill().spec!;
+    const result = renderComponent(spec, 'gemini');
+    expect(matter(result.content!).data.tools).toEqual([
+      'read_file',
+      'replace',
+      'run_shell_command(npm test)',
+      'run_shell_command(git status)',
+      'github__create_release',
+    ]);
+    expect(result.report!.losses.filter((l) => l.category === 'tools').map((l) => l.description)).toEqual([
+      'shell(git status) widened to run_shell_command(git status): Gemini CLI allows any command starting with "git status"',
+      'task has no Gemini CLI equivalent and was dropped',
+    ]);
+  });
+
+  test('keep the source names when rendering for the source agent', () => {
+    const result = renderComponent(parseClaudeSkill().spec!, 'claude');
+    expect(matter(result.content!).data['allowed-tools']).toEqual([
+      'Read',
+      'Edit',
+      'Bash(npm test:*)',
+      'Bash(git status)',
+      'mcp__github__create_release',
+      'Task',
+    ]);
+  });
+
+  test('translate canonical names from .cace sources', () => {
+    const spec = { ...parseClaudeSkill().spec!, sourceAgent: { id: 'universal' as const } };
+    spec.execution = { context: 'main', allowedTools: ['read', 'shell(npm test:*)'] };
+    expect(matter(renderComponent(spec, 'claude').content!).data['allowed-tools']).toEqual(['Read', 'Bash(npm test:*)']);
+  });
+});
@@ -182,10 +182,10 @@ It contains instructions for the AI.
       );
     });
 
-    it("should validate globs array", () => {
+    it("should validate globs type", () => {
       const content = `---
 description: A rule with invalid globs
-globs: "src/**/*.ts"
+globs: 42
 ---
 
 Content.
@@ -316,7 +316,7 @@ describe("Mutation-Resistant Tests", () => {
   describe("Cursor Validator Mutations", () => {
     it("should detect mutation: globs becomes invalid pattern", () => {
       const validator = new CursorValidator();
-      const content = `---\ndescription: test\nglobs: "not-an-array"\n---\nbody`;
+      const content = `---\ndescription: test\nglobs:\n  pattern: src\n---\nbody`;
       const result = validator.validate(content, "rule");
       expect(result.issues.some(i => i.code === "INVALID_GLOBS")).toBe(true);
     });
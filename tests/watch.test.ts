@@ -0,0 +1,98 @@
+/**
+ * Tests for `cace watch`
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { syncSourceChanges, watchCommand, type WatchOptions } from '../src/cli/watch.js';
+import { LOCK_FILE, readLock } from '../src/cli/lock.js';
+
+const SKILL = '---\nname: review\ndescription: Review code changes\n---\nReview the changes in $ARGUMENTS.\n';
+
+function createProject() {
+  const root = mkdtempSync(join(tmpdir(), 'cace-watch-'));
+  const source = join(root, '.claude');
+  mkdirSync(join(source, 'skills/review'), { recursive: true });
+  writeFileSync(join(source, 'skills/review/SKILL.md'), SKILL);
+
+  const options: WatchOptions = { to: ['windsurf', 'cursor'], output: root, root };
+  return { root, source, sources: [{ dir: source, fromAgent: 'claude' as const }], options };
+}
+
+describe('syncSourceChanges', () => {
+  test('converts a changed source for every target agent', () => {
+    const { root, source, sources, options } = createProject();
+    const events = syncSourceChanges([join(source, 'skills/review/SKILL.md')], sources, options);
+
+    expect(events.map((e) => [e.kind, e.targetAgent])).toEqual([['converted', 'windsurf'], ['converted', 'cursor']]);
+    expect(events[0]!.fidelityScore).toBeGreaterThan(0);
+    expect(events[0]!.outputs).toEqual([join(root, '.windsurf/workflows/review.md')]);
+    expect(existsSync(join(root, '.cursor/skills/review/SKILL.md'))).toBe(true);
+    expect(readLock(root).entries.map((e) => e.source)).toEqual(['.claude/skills/review/SKILL.md', '.claude/skills/review/SKILL.md']);
+  });
+
+  test('keeps converting when the lockfile is corrupt', () => {
+    const { root, source, sources, options } = createProject();
+    mkdirSync(join(root, '.cace'));
+    writeFileSync(join(root, LOCK_FILE), 'not json');
+    const events = syncSourceChanges([join(source, 'skills/review/SKILL.md')], sources, options);
+
+    expect(events.map((e) => e.kind)).toEqual(['converted', 'converted']);
+    expect(existsSync(join(root, '.windsurf/workflows/review.md'))).toBe(true);
+  });
+
+  test('moves the outputs of a renamed source', () => {
+    const { root, source, sources, options } = createProject();
+    syncSourceChanges([join(source, 'skills/review/SKILL.md')], sources, options);
+
+    renameSync(join(source, 'skills/review'), join(source, 'skills/code-review'));
+    const events = syncSourceChanges([join(source, 'skills/review'), join(source, 'skills/code-review/SKILL.md')], sources, options);
+
+    expect(events.map((e) => e.kind)).toEqual(['renamed', 'renamed']);
+    expect(events[0]!.previousSource).toBe(join(source, 'skills/review/SKILL.md'));
+    expect(existsSync(join(root, '.windsurf/workflows/review.md'))).toBe(false);
+    expect(existsSync(join(root, '.windsurf/workflows/code-review.md'))).toBe(true);
+    expect(readLock(root).entries.map((e) => e.output)).toEqual([
+      '.cursor/skills/code-review/SKILL.md',
+      '.windsurf/workflows/code-review.md',
+    ]);
+  });
+
+  test('deletes the outputs of a removed source and ignores other files', () => {
+    const { root, source, sources, options } = createProject();
+    const file = join(source, 'skills/review/SKILL.md');
+    syncSourceChanges([file], sources, options);
+
+    rmSync(file);
+    const events = syncSourceChanges([file, join(source, 'settings.json')], sources, options);
+
+    expect(events.map((e) => [e.kind, e.outputs.length])).toEqual([['removed', 1], ['removed', 1]]);
+    expect(existsSync(join(root, '.cursor/skills/review/SKILL.md'))).toBe(false);
+    expect(readLock(root).entries).toEqual([]);
+  });
+});
+
+describe('watchCommand', () => {
+  test('converts sources edited while watching, after the debounce period', async () => {
+    const { root, source, options } = createProject();
+    const log = console.log;
+    console.log = () => undefined;
+    const watcher = watchCommand([source], { ...options, from: 'claude', debounce: 50 });
+
+    try {
+      expect(watcher.success).toBe(true);
+      writeFileSync(join(source, 'skills/review/SKILL.md'), SKILL + 'Check the tests.\n');
+
+      const output = join(root, '.windsurf/workflows/review.md');
+      for (let waited = 0; waited < 3000 && !existsSync(output); waited += 50) {
+        await new Promise((done) => setTimeout(done, 50));
+      }
+      expect(existsSync(output)).toBe(true);
+    } finally {
+      watcher.close();
+      console.log = log;
+    }
+  });
+});